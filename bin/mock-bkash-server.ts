@@ -0,0 +1,262 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the bKash tokenized checkout sandbox, so payments can
+ * be exercised offline:
+ *
+ *   npm run mock:bkash
+ *   BKASH_BASE_URL=http://localhost:4020/v1.2.0-beta npm run dev
+ *
+ * The checkout page (`bkashURL`) skips the customer's wallet and redirects
+ * straight back to the callback URL. Add `?status=failure` or
+ * `?status=cancel` to it, or set MOCK_BKASH_CHECKOUT_STATUS, to simulate
+ * an unsuccessful checkout. Refunds are accepted up to the paid amount.
+ */
+
+import http from 'http';
+import { randomBytes } from 'crypto';
+
+const port = Number(process.env.MOCK_BKASH_PORT) || 4020;
+const basePath = '/v1.2.0-beta/tokenized/checkout';
+const defaultCheckoutStatus =
+  process.env.MOCK_BKASH_CHECKOUT_STATUS || 'success';
+
+type TransactionStatus = 'Initiated' | 'Authorized' | 'Completed' | 'Failed';
+
+interface MockPayment {
+  paymentID: string;
+  trxID?: string;
+  amount: string;
+  currency: string;
+  intent: string;
+  merchantInvoiceNumber: string;
+  payerReference: string;
+  callbackURL: string;
+  transactionStatus: TransactionStatus;
+  createTime: string;
+  refundedAmount: number;
+}
+
+const tokens = new Set<string>();
+const payments = new Map<string, MockPayment>();
+
+const randomId = (prefix: string) =>
+  `${prefix}${randomBytes(8).toString('hex').toUpperCase()}`;
+
+const sendJson = (
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+): void => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// bKash answers business errors with HTTP 200 and a non-zero status code
+const sendError = (
+  res: http.ServerResponse,
+  statusCode: string,
+  statusMessage: string,
+): void => {
+  sendJson(res, 200, { statusCode, statusMessage });
+};
+
+const paymentDetails = (payment: MockPayment) => ({
+  paymentID: payment.paymentID,
+  trxID: payment.trxID,
+  transactionStatus: payment.transactionStatus,
+  amount: payment.amount,
+  currency: payment.currency,
+  intent: payment.intent,
+  merchantInvoiceNumber: payment.merchantInvoiceNumber,
+  payerReference: payment.payerReference,
+  paymentCreateTime: payment.createTime,
+  statusCode: '0000',
+  statusMessage: 'Successful',
+});
+
+const readBody = async (
+  req: http.IncomingMessage,
+): Promise<Record<string, string>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const handleApi = async (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  action: string,
+): Promise<void> => {
+  const body = await readBody(req);
+
+  if (action === 'token/grant') {
+    if (!req.headers.username || !req.headers.password || !body.app_key) {
+      sendJson(res, 401, { errorCode: '2079', errorMessage: 'Invalid login' });
+      return;
+    }
+
+    const idToken = randomId('mock-token-');
+    tokens.add(idToken);
+    sendJson(res, 200, {
+      statusCode: '0000',
+      statusMessage: 'Successful',
+      id_token: idToken,
+      refresh_token: randomId('mock-refresh-'),
+      expires_in: 3600,
+      token_type: 'Bearer',
+    });
+    return;
+  }
+
+  if (!tokens.has(String(req.headers.authorization))) {
+    sendJson(res, 401, { message: 'Unauthorized' });
+    return;
+  }
+
+  if (action === 'create') {
+    const payment: MockPayment = {
+      paymentID: randomId('TR0011'),
+      amount: body.amount,
+      currency: body.currency,
+      intent: body.intent,
+      merchantInvoiceNumber: body.merchantInvoiceNumber,
+      payerReference: body.payerReference,
+      callbackURL: body.callbackURL,
+      transactionStatus: 'Initiated',
+      createTime: new Date().toISOString(),
+      refundedAmount: 0,
+    };
+    payments.set(payment.paymentID, payment);
+
+    sendJson(res, 200, {
+      ...paymentDetails(payment),
+      bkashURL: `http://localhost:${port}/checkout/${payment.paymentID}`,
+      callbackURL: payment.callbackURL,
+    });
+    return;
+  }
+
+  const payment = payments.get(body.paymentID);
+  if (!payment) {
+    sendError(res, '2056', 'Invalid Payment State');
+    return;
+  }
+
+  if (action === 'execute') {
+    if (payment.transactionStatus === 'Completed') {
+      sendError(res, '2062', 'The payment has already been completed');
+      return;
+    }
+    if (payment.transactionStatus !== 'Authorized') {
+      sendError(res, '2056', 'Invalid Payment State');
+      return;
+    }
+
+    payment.transactionStatus = 'Completed';
+    payment.trxID = randomId('MOCK');
+    sendJson(res, 200, paymentDetails(payment));
+    return;
+  }
+
+  if (action === 'payment/refund') {
+    const amount = Number(body.amount);
+
+    if (
+      payment.transactionStatus !== 'Completed' ||
+      body.trxID !== payment.trxID
+    ) {
+      sendError(res, '2056', 'Invalid Payment State');
+      return;
+    }
+    if (
+      !(amount > 0) ||
+      payment.refundedAmount + amount > Number(payment.amount) + 1e-9
+    ) {
+      sendError(res, '2072', 'Refund amount exceeds the transaction amount');
+      return;
+    }
+
+    payment.refundedAmount += amount;
+    sendJson(res, 200, {
+      completedTime: new Date().toISOString(),
+      transactionStatus: 'Completed',
+      originalTrxID: payment.trxID,
+      refundTrxID: randomId('REFUND'),
+      amount: amount.toFixed(2),
+      currency: payment.currency,
+      charge: '0.00',
+    });
+    return;
+  }
+
+  if (action === 'payment/status') {
+    sendJson(res, 200, paymentDetails(payment));
+    return;
+  }
+
+  sendJson(res, 404, { message: 'Not found' });
+};
+
+// Stands in for the customer entering their wallet number, OTP and PIN
+const handleCheckout = (
+  res: http.ServerResponse,
+  paymentId: string,
+  status: string,
+): void => {
+  const payment = payments.get(paymentId);
+  if (!payment) {
+    sendJson(res, 404, { message: 'Payment not found' });
+    return;
+  }
+
+  if (payment.transactionStatus === 'Initiated') {
+    payment.transactionStatus = status === 'success' ? 'Authorized' : 'Failed';
+  }
+
+  const callback = new URL(payment.callbackURL);
+  callback.searchParams.set('paymentID', payment.paymentID);
+  callback.searchParams.set('status', status);
+
+  res.writeHead(302, { Location: callback.toString() });
+  res.end();
+};
+
+const server = http.createServer((req, res) => {
+  console.log(`${req.method} ${req.url}`);
+
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+
+  if (req.method === 'POST' && url.pathname.startsWith(`${basePath}/`)) {
+    handleApi(req, res, url.pathname.slice(basePath.length + 1)).catch(
+      (error) => {
+        console.error(error);
+        sendJson(res, 500, { message: 'Mock server error' });
+      },
+    );
+    return;
+  }
+
+  const checkout = url.pathname.match(/^\/checkout\/([^/]+)$/);
+  if (req.method === 'GET' && checkout) {
+    handleCheckout(
+      res,
+      checkout[1],
+      url.searchParams.get('status') || defaultCheckoutStatus,
+    );
+    return;
+  }
+
+  sendJson(res, 404, { message: 'Not found' });
+});
+
+server.listen(port, () => {
+  console.log(
+    `\x1b[32mMock bKash server listening on http://localhost:${port}/v1.2.0-beta\x1b[0m`,
+  );
+});
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for an OpenAI-compatible chat completions API, so the LLM
+ * scoring provider can be exercised offline:
+ *
+ *   npm run mock:llm
+ *   SCORING_PROVIDER=llm LLM_BASE_URL=http://localhost:4010/v1 npm run dev
+ *
+ * Replies are produced by the keyword scorer. Set MOCK_LLM_MALFORMED_REPLIES=N
+ * to answer the first N requests with invalid JSON and exercise the retries.
+ */
+
+import http from 'http';
+import { keywordScoringProvider } from '../src/lib/scoring/keyword-provider';
+
+const port = Number(process.env.MOCK_LLM_PORT) || 4010;
+let malformedReplies = Number(process.env.MOCK_LLM_MALFORMED_REPLIES) || 0;
+
+type ChatMessage = { role: string; content: string };
+
+const section = (prompt: string, name: string): string => {
+  const match = prompt.match(new RegExp(`${name}:\\n<<<\\n([\\s\\S]*?)\\n>>>`));
+  return match ? match[1] : '';
+};
+
+const sendJson = (
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+): void => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const completion = (model: string, content: string) => ({
+  id: `chatcmpl-mock-${Date.now()}`,
+  object: 'chat.completion',
+  created: Math.floor(Date.now() / 1000),
+  model,
+  choices: [
+    {
+      index: 0,
+      message: { role: 'assistant', content },
+      finish_reason: 'stop',
+    },
+  ],
+});
+
+const handleCompletion = async (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): Promise<void> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+
+  let body: { model?: string; messages?: ChatMessage[] };
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    sendJson(res, 400, { error: { message: 'Invalid JSON body' } });
+    return;
+  }
+
+  // The job and resume are in the first user message, later ones are retries
+  const prompt = body.messages?.find(({ role }) => role === 'user')?.content;
+  if (!prompt) {
+    sendJson(res, 400, { error: { message: 'No user message provided' } });
+    return;
+  }
+
+  const model = body.model || 'mock';
+
+  if (malformedReplies > 0) {
+    malformedReplies--;
+    sendJson(res, 200, completion(model, 'Sure! Here is my assessment.'));
+    return;
+  }
+
+  const result = await keywordScoringProvider.score({
+    jobTitle: prompt.match(/^JOB TITLE: (.*)$/m)?.[1] ?? '',
+    jobDescription: section(prompt, 'JOB DESCRIPTION'),
+    resumeText: section(prompt, 'RESUME'),
+  });
+
+  sendJson(res, 200, completion(model, JSON.stringify(result)));
+};
+
+const server = http.createServer((req, res) => {
+  console.log(`${req.method} ${req.url}`);
+
+  if (req.method === 'POST' && req.url?.endsWith('/chat/completions')) {
+    handleCompletion(req, res).catch((error) => {
+      console.error(error);
+      sendJson(res, 500, { error: { message: 'Mock server error' } });
+    });
+    return;
+  }
+
+  sendJson(res, 404, { error: { message: 'Not found' } });
+});
+
+server.listen(port, () => {
+  console.log(
+    `\x1b[32mMock LLM server listening on http://localhost:${port}/v1\x1b[0m`,
+  );
+});
@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for an OpenID Connect provider, so OAuth sign-in can be
+ * exercised offline by pointing the Google provider at it:
+ *
+ *   npm run mock:oidc
+ *   GOOGLE_OIDC_ISSUER=http://localhost:4030 GOOGLE_CLIENT_ID=mock \
+ *     GOOGLE_CLIENT_SECRET=mock npm run dev
+ *
+ * The authorization page skips the consent screen and redirects straight
+ * back with a code. It signs in MOCK_OIDC_EMAIL / MOCK_OIDC_NAME unless
+ * the authorization URL carries `email`, `name` or `email_verified=false`;
+ * `deny=1` simulates the user cancelling. PKCE (S256) is enforced.
+ */
+
+import http from 'http';
+import { createHash, randomBytes } from 'crypto';
+
+const port = Number(process.env.MOCK_OIDC_PORT) || 4030;
+const issuer = `http://localhost:${port}`;
+const defaultEmail = process.env.MOCK_OIDC_EMAIL || 'jane.doe@example.com';
+const defaultName = process.env.MOCK_OIDC_NAME || 'Jane Doe';
+
+interface MockProfile {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+  picture: string;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  profile: MockProfile;
+}
+
+const codes = new Map<string, AuthorizationCode>();
+const accessTokens = new Map<string, MockProfile>();
+
+const randomToken = () => randomBytes(24).toString('base64url');
+
+const sendJson = (
+  res: http.ServerResponse,
+  statusCode: number,
+  body: unknown,
+): void => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendOAuthError = (
+  res: http.ServerResponse,
+  error: string,
+  description: string,
+): void => {
+  sendJson(res, 400, { error, error_description: description });
+};
+
+const readForm = async (req: http.IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+};
+
+const handleDiscovery = (res: http.ServerResponse): void => {
+  sendJson(res, 200, {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    response_types_supported: ['code'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+  });
+};
+
+// Stands in for the provider's login and consent screens
+const handleAuthorize = (res: http.ServerResponse, query: URLSearchParams) => {
+  const redirectUri = query.get('redirect_uri');
+  const clientId = query.get('client_id');
+  const codeChallenge = query.get('code_challenge');
+
+  if (!redirectUri || !clientId) {
+    sendOAuthError(res, 'invalid_request', 'Missing client_id or redirect_uri');
+    return;
+  }
+
+  const callback = new URL(redirectUri);
+  const state = query.get('state');
+  if (state) callback.searchParams.set('state', state);
+
+  if (query.get('deny')) {
+    callback.searchParams.set('error', 'access_denied');
+  } else if (
+    query.get('response_type') !== 'code' ||
+    !codeChallenge ||
+    query.get('code_challenge_method') !== 'S256'
+  ) {
+    callback.searchParams.set('error', 'invalid_request');
+  } else {
+    const email = query.get('email') || defaultEmail;
+    const code = randomToken();
+
+    codes.set(code, {
+      clientId,
+      redirectUri,
+      codeChallenge,
+      profile: {
+        // Stable per email, like a real provider's account id
+        sub: createHash('sha256').update(email).digest('hex').slice(0, 21),
+        email,
+        email_verified: query.get('email_verified') !== 'false',
+        name: query.get('name') || defaultName,
+        picture: `${issuer}/avatars/${encodeURIComponent(email)}.png`,
+      },
+    });
+    callback.searchParams.set('code', code);
+  }
+
+  res.writeHead(302, { Location: callback.toString() });
+  res.end();
+};
+
+const handleToken = async (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): Promise<void> => {
+  const form = await readForm(req);
+  const code = form.get('code') || '';
+  const authorization = codes.get(code);
+
+  // Codes are single use
+  codes.delete(code);
+
+  if (form.get('grant_type') !== 'authorization_code' || !authorization) {
+    sendOAuthError(res, 'invalid_grant', 'Unknown or used authorization code');
+    return;
+  }
+
+  if (
+    form.get('client_id') !== authorization.clientId ||
+    !form.get('client_secret') ||
+    form.get('redirect_uri') !== authorization.redirectUri
+  ) {
+    sendOAuthError(res, 'invalid_client', 'Client or redirect URI mismatch');
+    return;
+  }
+
+  const challenge = createHash('sha256')
+    .update(form.get('code_verifier') || '')
+    .digest('base64url');
+
+  if (challenge !== authorization.codeChallenge) {
+    sendOAuthError(res, 'invalid_grant', 'PKCE verification failed');
+    return;
+  }
+
+  const accessToken = randomToken();
+  accessTokens.set(accessToken, authorization.profile);
+
+  sendJson(res, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    scope: 'openid email profile',
+  });
+};
+
+const handleUserInfo = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): void => {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  const profile = accessTokens.get(token);
+
+  if (!profile) {
+    sendJson(res, 401, { error: 'invalid_token' });
+    return;
+  }
+
+  sendJson(res, 200, profile);
+};
+
+const server = http.createServer((req, res) => {
+  console.log(`${req.method} ${req.url}`);
+
+  const url = new URL(req.url || '/', issuer);
+
+  if (
+    req.method === 'GET' &&
+    url.pathname === '/.well-known/openid-configuration'
+  ) {
+    handleDiscovery(res);
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/authorize') {
+    handleAuthorize(res, url.searchParams);
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/token') {
+    handleToken(req, res).catch((error) => {
+      console.error(error);
+      sendJson(res, 500, { error: 'server_error' });
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/userinfo') {
+    handleUserInfo(req, res);
+    return;
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(port, () => {
+  console.log(`\x1b[32mMock OIDC provider listening on ${issuer}\x1b[0m`);
+});
@@ -31,6 +31,26 @@ export const CreditType = {
 export type CreditType = (typeof CreditType)[keyof typeof CreditType]
 
 
+export const OrganizationRole = {
+  OWNER: 'OWNER',
+  ADMIN: 'ADMIN',
+  RECRUITER: 'RECRUITER',
+  VIEWER: 'VIEWER'
+} as const
+
+export type OrganizationRole = (typeof OrganizationRole)[keyof typeof OrganizationRole]
+
+
+export const LoginFailureReason = {
+  INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
+  INVALID_TWO_FACTOR_CODE: 'INVALID_TWO_FACTOR_CODE',
+  ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
+  ACCOUNT_DISABLED: 'ACCOUNT_DISABLED'
+} as const
+
+export type LoginFailureReason = (typeof LoginFailureReason)[keyof typeof LoginFailureReason]
+
+
 export const UserRole = {
   USER: 'USER',
   SUBSCRIBER: 'SUBSCRIBER',
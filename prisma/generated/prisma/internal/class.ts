@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.2.0",
   "engineVersion": "0c8ef2ce45c83248ab3df073180d5eda9e8be7a3",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../prisma/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel User {\n  id                     String    @id @default(cuid())\n  email                  String    @unique\n  password               String\n  name                   String\n  role                   UserRole  @default(USER)\n  phone                  String?\n  image_url              String?\n  email_verified         Boolean   @default(false)\n  is_active              Boolean   @default(true)\n  is_deleted             Boolean   @default(false)\n  refresh_token          String?\n  password_reset_token   String?\n  password_reset_expires DateTime?\n  password_reset_at      DateTime?\n  credit_balance         Int       @default(100)\n  created_at             DateTime  @default(now())\n  updated_at             DateTime  @updatedAt\n\n  // Relations\n  payments   Payment[]\n  jobs       Job[]\n  creditLogs CreditLog[]\n\n  @@index([email]) // Redundant but kept for explicit documentation\n  @@index([refresh_token])\n  @@index([password_reset_token])\n  @@index([role])\n  @@index([is_active])\n  @@index([is_deleted])\n  @@map(\"users\")\n}\n\nmodel PackageBenefit {\n  id                String   @id @default(cuid())\n  benefit           String\n  credit_package_id String?\n  created_at        DateTime @default(now())\n  updated_at        DateTime @updatedAt\n\n  // Relations\n  creditPackage CreditPackage? @relation(fields: [credit_package_id], references: [id], onDelete: Cascade)\n\n  @@map(\"package_benefits\")\n}\n\nmodel CreditPackage {\n  id             String   @id @default(cuid())\n  name           String\n  description    String?\n  credits        Int\n  price          Float\n  is_active      Boolean  @default(true)\n  is_recommended Boolean  @default(false)\n  created_at     DateTime @default(now())\n  updated_at     DateTime @updatedAt\n\n  // Relations\n  benefits PackageBenefit[]\n  payments Payment[]\n\n  @@index([is_active])\n  @@index([is_recommended])\n  @@map(\"credit_packages\")\n}\n\nmodel Payment {\n  id                String        @id @default(cuid())\n  user_id           String\n  package_id        String?\n  amount            Float\n  currency          String        @default(\"BDT\")\n  bkash_payment_id  String?       @unique\n  bkash_trx_id      String?       @unique\n  status            PaymentStatus @default(PENDING)\n  credits_purchased Int\n  created_at        DateTime      @default(now())\n  updated_at        DateTime      @updatedAt\n\n  // Relations\n  user      User           @relation(fields: [user_id], references: [id], onDelete: Restrict)\n  package   CreditPackage? @relation(fields: [package_id], references: [id], onDelete: SetNull)\n  creditLog CreditLog?\n\n  @@index([user_id])\n  @@index([status])\n  @@index([created_at])\n  @@map(\"payments\")\n}\n\nmodel Job {\n  id           String      @id @default(cuid())\n  company_name String?\n  title        String\n  job_type     JobType\n  job_location JobLocation\n  description  String      @db.Text\n  status       JobStatus   @default(OPEN)\n  user_id      String\n  created_at   DateTime    @default(now())\n  updated_at   DateTime    @updatedAt\n\n  // Relations\n  user       User        @relation(fields: [user_id], references: [id], onDelete: Cascade)\n  candidates Candidate[]\n  creditLogs CreditLog[]\n\n  @@index([user_id])\n  @@index([status])\n  @@index([created_at])\n  @@map(\"jobs\")\n}\n\nmodel Candidate {\n  id          String   @id @default(cuid())\n  name        String\n  email       String\n  phone       String?\n  resume_url  String?\n  resume_text String?  @db.Text\n  score       Int\n  summary     String?  @db.Text\n  skills      String[]\n\n  job_id     String\n  created_at DateTime @default(now())\n  updated_at DateTime @updatedAt\n\n  // Relations\n  job Job @relation(fields: [job_id], references: [id], onDelete: Cascade)\n\n  @@index([job_id])\n  @@index([score])\n  @@index([email])\n  @@map(\"candidates\")\n}\n\nmodel CreditLog {\n  id String @id @default(cuid())\n\n  amount      Int\n  type        CreditType\n  user_id     String\n  job_id      String?\n  payment_id  String?    @unique\n  description String?    @db.Text\n\n  // Relations\n  user    User     @relation(fields: [user_id], references: [id], onDelete: Cascade)\n  job     Job?     @relation(fields: [job_id], references: [id], onDelete: SetNull)\n  payment Payment? @relation(fields: [payment_id], references: [id], onDelete: SetNull)\n\n  created_at DateTime @default(now())\n  updated_at DateTime @updatedAt\n\n  @@index([user_id])\n  @@index([type])\n  @@index([created_at])\n  @@map(\"credit_logs\")\n}\n\n// Enums\nenum PaymentStatus {\n  PENDING\n  COMPLETED\n  FAILED\n  CANCELLED\n  REFUNDED\n}\n\nenum CreditType {\n  PURCHASE\n  USAGE\n  BONUS\n  REFUND\n  MANUAL_ADJUSTMENT\n}\n\nenum UserRole {\n  USER\n  SUBSCRIBER\n  SUPER_ADMIN\n}\n\nenum JobStatus {\n  OPEN\n  CLOSED\n  DRAFT\n  ARCHIVED\n}\n\nenum JobType {\n  FULL_TIME\n  PART_TIME\n  CONTRACT\n  FREELANCE\n}\n\nenum JobLocation {\n  ON_SITE\n  REMOTE\n  HYBRID\n}\n",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../prisma/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel User {\n  id                         String    @id @default(cuid())\n  email                      String    @unique\n  password                   String?\n  name                       String\n  role                       UserRole  @default(USER)\n  phone                      String?\n  image_url                  String?\n  email_verified             Boolean   @default(false)\n  email_verification_token   String?\n  email_verification_expires DateTime?\n  pending_email              String?\n  email_change_token         String?\n  email_change_expires       DateTime?\n  is_active                  Boolean   @default(true)\n  is_deleted                 Boolean   @default(false)\n  password_reset_token       String?\n  password_reset_expires     DateTime?\n  password_reset_at          DateTime?\n  two_factor_enabled         Boolean   @default(false)\n  two_factor_secret          String?\n  two_factor_recovery_codes  String[]  @default([])\n  two_factor_last_used_step  Int?\n  failed_login_attempts      Int       @default(0)\n  locked_until               DateTime?\n  lockout_count              Int       @default(0)\n  deleted_at                 DateTime?\n  anonymized_at              DateTime?\n  credit_balance             Int       @default(100)\n  created_at                 DateTime  @default(now())\n  updated_at                 DateTime  @updatedAt\n\n  // Relations\n  payments       Payment[]\n  jobs           Job[]\n  creditLogs     CreditLog[]\n  creditGrants   CreditLog[]              @relation(\"CreditLogCreatedBy\")\n  impersonations Impersonation[]          @relation(\"ImpersonationAdmin\")\n  impersonatedBy Impersonation[]          @relation(\"ImpersonatedUser\")\n  issuedRefunds  PaymentRefund[]\n  sessions       Session[]\n  loginAttempts  LoginAttempt[]\n  identities     UserIdentity[]\n  apiKeys        ApiKey[]\n  memberships    OrganizationMember[]\n  invitations    OrganizationInvitation[]\n\n  @@index([email]) // Redundant but kept for explicit documentation\n  @@index([password_reset_token])\n  @@index([email_verification_token])\n  @@index([email_change_token])\n  @@index([role])\n  @@index([is_active])\n  @@index([is_deleted])\n  @@map(\"users\")\n}\n\nmodel Session {\n  id                 String    @id @default(cuid())\n  user_id            String\n  refresh_token_hash String    @unique\n  device_label       String?\n  user_agent         String?\n  ip_address         String?\n  last_used_at       DateTime  @default(now())\n  expires_at         DateTime\n  revoked_at         DateTime?\n  created_at         DateTime  @default(now())\n  updated_at         DateTime  @updatedAt\n\n  // Relations\n  user User @relation(fields: [user_id], references: [id], onDelete: Cascade)\n\n  @@index([user_id])\n  @@index([expires_at])\n  @@map(\"sessions\")\n}\n\n// Audit trail of support staff signing in as a user. Starting one issues a\n// short-lived access token, ending it (or expiry) stops the token working.\nmodel Impersonation {\n  id         String    @id @default(cuid())\n  admin_id   String\n  user_id    String\n  reason     String    @db.Text\n  ip_address String?\n  user_agent String?\n  expires_at DateTime\n  ended_at   DateTime?\n  created_at DateTime  @default(now())\n  updated_at DateTime  @updatedAt\n\n  // Relations\n  admin User @relation(\"ImpersonationAdmin\", fields: [admin_id], references: [id], onDelete: Cascade)\n  user  User @relation(\"ImpersonatedUser\", fields: [user_id], references: [id], onDelete: Cascade)\n\n  @@index([admin_id])\n  @@index([user_id])\n  @@map(\"impersonations\")\n}\n\nmodel Organization {\n  id             String   @id @default(cuid())\n  name           String\n  credit_balance Int      @default(0)\n  created_at     DateTime @default(now())\n  updated_at     DateTime @updatedAt\n\n  // Relations\n  members     OrganizationMember[]\n  jobs        Job[]\n  creditLogs  CreditLog[]\n  payments    Payment[]\n  apiKeys     ApiKey[]\n  invitations OrganizationInvitation[]\n\n  @@map(\"organizations\")\n}\n\nmodel OrganizationMember {\n  id              String           @id @default(cuid())\n  organization_id String\n  user_id         String\n  role            OrganizationRole @default(VIEWER)\n  created_at      DateTime         @default(now())\n  updated_at      DateTime         @updatedAt\n\n  // Relations\n  organization Organization @relation(fields: [organization_id], references: [id], onDelete: Cascade)\n  user         User         @relation(fields: [user_id], references: [id], onDelete: Cascade)\n\n  @@unique([organization_id, user_id])\n  @@index([user_id])\n  @@map(\"organization_members\")\n}\n\nmodel OrganizationInvitation {\n  id              String           @id @default(cuid())\n  organization_id String\n  email           String\n  role            OrganizationRole\n  token_hash      String           @unique\n  invited_by      String?\n  expires_at      DateTime\n  accepted_at     DateTime?\n  revoked_at      DateTime?\n  created_at      DateTime         @default(now())\n  updated_at      DateTime         @updatedAt\n\n  // Relations\n  organization Organization @relation(fields: [organization_id], references: [id], onDelete: Cascade)\n  invitedBy    User?        @relation(fields: [invited_by], references: [id], onDelete: SetNull)\n\n  @@index([organization_id])\n  @@index([email])\n  @@map(\"organization_invitations\")\n}\n\nmodel ApiKey {\n  id              String    @id @default(cuid())\n  user_id         String\n  name            String\n  prefix          String    @unique\n  secret_hash     String\n  scopes          String[]\n  // Keys created in an organization only work there\n  organization_id String?\n  last_used_at    DateTime?\n  expires_at      DateTime?\n  revoked_at      DateTime?\n  created_at      DateTime  @default(now())\n  updated_at      DateTime  @updatedAt\n\n  // Relations\n  user         User          @relation(fields: [user_id], references: [id], onDelete: Cascade)\n  organization Organization? @relation(fields: [organization_id], references: [id], onDelete: Cascade)\n\n  @@index([user_id])\n  @@map(\"api_keys\")\n}\n\nmodel UserIdentity {\n  id               String   @id @default(cuid())\n  user_id          String\n  provider         String\n  provider_user_id String\n  email            String?\n  created_at       DateTime @default(now())\n  updated_at       DateTime @updatedAt\n\n  // Relations\n  user User @relation(fields: [user_id], references: [id], onDelete: Cascade)\n\n  @@unique([provider, provider_user_id])\n  @@index([user_id])\n  @@map(\"user_identities\")\n}\n\nmodel OAuthState {\n  id            String   @id @default(cuid())\n  state         String   @unique\n  provider      String\n  code_verifier String\n  expires_at    DateTime\n  created_at    DateTime @default(now())\n\n  @@index([expires_at])\n  @@map(\"oauth_states\")\n}\n\nmodel LoginAttempt {\n  id             String              @id @default(cuid())\n  user_id        String?\n  email          String\n  success        Boolean\n  failure_reason LoginFailureReason?\n  device_label   String?\n  user_agent     String?\n  ip_address     String?\n  created_at     DateTime            @default(now())\n\n  // Relations\n  user User? @relation(fields: [user_id], references: [id], onDelete: Cascade)\n\n  @@index([user_id, created_at])\n  @@index([email])\n  @@map(\"login_attempts\")\n}\n\nmodel PackageBenefit {\n  id                String   @id @default(cuid())\n  benefit           String\n  credit_package_id String?\n  created_at        DateTime @default(now())\n  updated_at        DateTime @updatedAt\n\n  // Relations\n  creditPackage CreditPackage? @relation(fields: [credit_package_id], references: [id], onDelete: Cascade)\n\n  @@map(\"package_benefits\")\n}\n\nmodel CreditPackage {\n  id             String   @id @default(cuid())\n  name           String\n  description    String?\n  credits        Int\n  price          Float\n  is_active      Boolean  @default(true)\n  is_recommended Boolean  @default(false)\n  sort_order     Int      @default(0)\n  created_at     DateTime @default(now())\n  updated_at     DateTime @updatedAt\n\n  // Relations\n  benefits PackageBenefit[]\n  payments Payment[]\n\n  @@index([is_active])\n  @@index([is_recommended])\n  @@index([sort_order])\n  @@map(\"credit_packages\")\n}\n\nmodel Payment {\n  id                String        @id @default(cuid())\n  user_id           String\n  // Purchases made for an organization top up its shared balance\n  organization_id   String?\n  package_id        String?\n  amount            Float\n  currency          String        @default(\"BDT\")\n  bkash_payment_id  String?       @unique\n  bkash_trx_id      String?       @unique\n  status            PaymentStatus @default(PENDING)\n  credits_purchased Int\n  refunded_amount   Float         @default(0)\n  created_at        DateTime      @default(now())\n  updated_at        DateTime      @updatedAt\n\n  // Relations\n  user         User            @relation(fields: [user_id], references: [id], onDelete: Restrict)\n  organization Organization?   @relation(fields: [organization_id], references: [id], onDelete: Restrict)\n  package      CreditPackage?  @relation(fields: [package_id], references: [id], onDelete: SetNull)\n  creditLog    CreditLog?\n  refunds      PaymentRefund[]\n\n  @@index([user_id])\n  @@index([organization_id])\n  @@index([status])\n  @@index([created_at])\n  @@map(\"payments\")\n}\n\nmodel PaymentRefund {\n  id                  String   @id @default(cuid())\n  payment_id          String\n  amount              Float\n  credits             Int // Credits the refunded amount paid for\n  credits_clawed_back Int // Less than credits when the user already spent them\n  bkash_refund_trx_id String   @unique\n  reason              String?\n  refunded_by         String?\n  created_at          DateTime @default(now())\n  updated_at          DateTime @updatedAt\n\n  // Relations\n  payment    Payment    @relation(fields: [payment_id], references: [id], onDelete: Cascade)\n  refundedBy User?      @relation(fields: [refunded_by], references: [id], onDelete: SetNull)\n  creditLog  CreditLog?\n\n  @@index([payment_id])\n  @@map(\"payment_refunds\")\n}\n\nmodel Job {\n  id              String      @id @default(cuid())\n  company_name    String?\n  title           String\n  job_type        JobType\n  job_location    JobLocation\n  description     String      @db.Text\n  status          JobStatus   @default(OPEN)\n  // The creator; jobs of an organization are shared by its members\n  user_id         String\n  organization_id String?\n  created_at      DateTime    @default(now())\n  updated_at      DateTime    @updatedAt\n\n  // Relations\n  user         User          @relation(fields: [user_id], references: [id], onDelete: Cascade)\n  organization Organization? @relation(fields: [organization_id], references: [id], onDelete: Cascade)\n  candidates   Candidate[]\n  creditLogs   CreditLog[]\n\n  @@index([user_id])\n  @@index([organization_id])\n  @@index([status])\n  @@index([created_at])\n  @@map(\"jobs\")\n}\n\nmodel Candidate {\n  id          String   @id @default(cuid())\n  name        String\n  email       String\n  phone       String?\n  resume_url  String?\n  resume_text String?  @db.Text\n  score       Int\n  summary     String?  @db.Text\n  skills      String[]\n\n  job_id     String\n  created_at DateTime @default(now())\n  updated_at DateTime @updatedAt\n\n  // Relations\n  job Job @relation(fields: [job_id], references: [id], onDelete: Cascade)\n\n  @@index([job_id])\n  @@index([score])\n  @@index([email])\n  @@map(\"candidates\")\n}\n\nmodel CreditLog {\n  id String @id @default(cuid())\n\n  amount          Int\n  type            CreditType\n  // Entries with an organization belong to its shared balance\n  user_id         String\n  organization_id String?\n  job_id          String?\n  payment_id      String?    @unique\n  refund_id       String?    @unique\n  description     String?    @db.Text\n  // The admin behind a BONUS or MANUAL_ADJUSTMENT entry\n  created_by      String?\n\n  // Relations\n  user         User           @relation(fields: [user_id], references: [id], onDelete: Cascade)\n  createdBy    User?          @relation(\"CreditLogCreatedBy\", fields: [created_by], references: [id], onDelete: SetNull)\n  organization Organization?  @relation(fields: [organization_id], references: [id], onDelete: Cascade)\n  job          Job?           @relation(fields: [job_id], references: [id], onDelete: SetNull)\n  payment      Payment?       @relation(fields: [payment_id], references: [id], onDelete: SetNull)\n  refund       PaymentRefund? @relation(fields: [refund_id], references: [id], onDelete: SetNull)\n\n  created_at DateTime @default(now())\n  updated_at DateTime @updatedAt\n\n  @@index([user_id])\n  @@index([organization_id])\n  @@index([type])\n  @@index([created_by])\n  @@index([created_at])\n  @@map(\"credit_logs\")\n}\n\n// Enums\nenum PaymentStatus {\n  PENDING\n  COMPLETED\n  FAILED\n  CANCELLED\n  REFUNDED\n}\n\nenum CreditType {\n  PURCHASE\n  USAGE\n  BONUS\n  REFUND\n  MANUAL_ADJUSTMENT\n}\n\nenum OrganizationRole {\n  OWNER\n  ADMIN\n  RECRUITER\n  VIEWER\n}\n\nenum LoginFailureReason {\n  INVALID_CREDENTIALS\n  INVALID_TWO_FACTOR_CODE\n  ACCOUNT_LOCKED\n  ACCOUNT_DISABLED\n}\n\nenum UserRole {\n  USER\n  SUBSCRIBER\n  SUPER_ADMIN\n}\n\nenum JobStatus {\n  OPEN\n  CLOSED\n  DRAFT\n  ARCHIVED\n}\n\nenum JobType {\n  FULL_TIME\n  PART_TIME\n  CONTRACT\n  FREELANCE\n}\n\nenum JobLocation {\n  ON_SITE\n  REMOTE\n  HYBRID\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image_url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email_verified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"is_active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"is_deleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"refresh_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password_reset_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password_reset_expires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"password_reset_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"credit_balance\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"PaymentToUser\"},{\"name\":\"jobs\",\"kind\":\"object\",\"type\":\"Job\",\"relationName\":\"JobToUser\"},{\"name\":\"creditLogs\",\"kind\":\"object\",\"type\":\"CreditLog\",\"relationName\":\"CreditLogToUser\"}],\"dbName\":\"users\"},\"PackageBenefit\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"benefit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"credit_package_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"creditPackage\",\"kind\":\"object\",\"type\":\"CreditPackage\",\"relationName\":\"CreditPackageToPackageBenefit\"}],\"dbName\":\"package_benefits\"},\"CreditPackage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"credits\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"is_active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"is_recommended\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"benefits\",\"kind\":\"object\",\"type\":\"PackageBenefit\",\"relationName\":\"CreditPackageToPackageBenefit\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"CreditPackageToPayment\"}],\"dbName\":\"credit_packages\"},\"Payment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"package_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bkash_payment_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bkash_trx_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"credits_purchased\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentToUser\"},{\"name\":\"package\",\"kind\":\"object\",\"type\":\"CreditPackage\",\"relationName\":\"CreditPackageToPayment\"},{\"name\":\"creditLog\",\"kind\":\"object\",\"type\":\"CreditLog\",\"relationName\":\"CreditLogToPayment\"}],\"dbName\":\"payments\"},\"Job\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"company_name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"job_type\",\"kind\":\"enum\",\"type\":\"JobType\"},{\"name\":\"job_location\",\"kind\":\"enum\",\"type\":\"JobLocation\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"JobStatus\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"JobToUser\"},{\"name\":\"candidates\",\"kind\":\"object\",\"type\":\"Candidate\",\"relationName\":\"CandidateToJob\"},{\"name\":\"creditLogs\",\"kind\":\"object\",\"type\":\"CreditLog\",\"relationName\":\"CreditLogToJob\"}],\"dbName\":\"jobs\"},\"Candidate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resume_url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resume_text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"score\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"summary\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skills\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"job_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"job\",\"kind\":\"object\",\"type\":\"Job\",\"relationName\":\"CandidateToJob\"}],\"dbName\":\"candidates\"},\"CreditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"CreditType\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"job_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payment_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CreditLogToUser\"},{\"name\":\"job\",\"kind\":\"object\",\"type\":\"Job\",\"relationName\":\"CreditLogToJob\"},{\"name\":\"payment\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"CreditLogToPayment\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"credit_logs\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"image_url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email_verified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"email_verification_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email_verification_expires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"pending_email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email_change_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email_change_expires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"is_active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"is_deleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"password_reset_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password_reset_expires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"password_reset_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"two_factor_enabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"two_factor_secret\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"two_factor_recovery_codes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"two_factor_last_used_step\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"failed_login_attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"locked_until\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lockout_count\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"deleted_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"anonymized_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"credit_balance\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"PaymentToUser\"},{\"name\":\"jobs\",\"kind\":\"object\",\"type\":\"Job\",\"relationName\":\"JobToUser\"},{\"name\":\"creditLogs\",\"kind\":\"object\",\"type\":\"CreditLog\",\"relationName\":\"CreditLogToUser\"},{\"name\":\"creditGrants\",\"kind\":\"object\",\"type\":\"CreditLog\",\"relationName\":\"CreditLogCreatedBy\"},{\"name\":\"impersonations\",\"kind\":\"object\",\"type\":\"Impersonation\",\"relationName\":\"ImpersonationAdmin\"},{\"name\":\"impersonatedBy\",\"kind\":\"object\",\"type\":\"Impersonation\",\"relationName\":\"ImpersonatedUser\"},{\"name\":\"issuedRefunds\",\"kind\":\"object\",\"type\":\"PaymentRefund\",\"relationName\":\"PaymentRefundToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"loginAttempts\",\"kind\":\"object\",\"type\":\"LoginAttempt\",\"relationName\":\"LoginAttemptToUser\"},{\"name\":\"identities\",\"kind\":\"object\",\"type\":\"UserIdentity\",\"relationName\":\"UserToUserIdentity\"},{\"name\":\"apiKeys\",\"kind\":\"object\",\"type\":\"ApiKey\",\"relationName\":\"ApiKeyToUser\"},{\"name\":\"memberships\",\"kind\":\"object\",\"type\":\"OrganizationMember\",\"relationName\":\"OrganizationMemberToUser\"},{\"name\":\"invitations\",\"kind\":\"object\",\"type\":\"OrganizationInvitation\",\"relationName\":\"OrganizationInvitationToUser\"}],\"dbName\":\"users\"},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refresh_token_hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"device_label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_agent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ip_address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"last_used_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revoked_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":\"sessions\"},\"Impersonation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"admin_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ip_address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_agent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ended_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"admin\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ImpersonationAdmin\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ImpersonatedUser\"}],\"dbName\":\"impersonations\"},\"Organization\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"credit_balance\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"members\",\"kind\":\"object\",\"type\":\"OrganizationMember\",\"relationName\":\"OrganizationToOrganizationMember\"},{\"name\":\"jobs\",\"kind\":\"object\",\"type\":\"Job\",\"relationName\":\"JobToOrganization\"},{\"name\":\"creditLogs\",\"kind\":\"object\",\"type\":\"CreditLog\",\"relationName\":\"CreditLogToOrganization\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"OrganizationToPayment\"},{\"name\":\"apiKeys\",\"kind\":\"object\",\"type\":\"ApiKey\",\"relationName\":\"ApiKeyToOrganization\"},{\"name\":\"invitations\",\"kind\":\"object\",\"type\":\"OrganizationInvitation\",\"relationName\":\"OrganizationToOrganizationInvitation\"}],\"dbName\":\"organizations\"},\"OrganizationMember\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"organization_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"OrganizationRole\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"organization\",\"kind\":\"object\",\"type\":\"Organization\",\"relationName\":\"OrganizationToOrganizationMember\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrganizationMemberToUser\"}],\"dbName\":\"organization_members\"},\"OrganizationInvitation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"organization_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"OrganizationRole\"},{\"name\":\"token_hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invited_by\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"accepted_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revoked_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"organization\",\"kind\":\"object\",\"type\":\"Organization\",\"relationName\":\"OrganizationToOrganizationInvitation\"},{\"name\":\"invitedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrganizationInvitationToUser\"}],\"dbName\":\"organization_invitations\"},\"ApiKey\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prefix\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"secret_hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scopes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"organization_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"last_used_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revoked_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ApiKeyToUser\"},{\"name\":\"organization\",\"kind\":\"object\",\"type\":\"Organization\",\"relationName\":\"ApiKeyToOrganization\"}],\"dbName\":\"api_keys\"},\"UserIdentity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider_user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToUserIdentity\"}],\"dbName\":\"user_identities\"},\"OAuthState\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code_verifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"oauth_states\"},\"LoginAttempt\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"success\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"failure_reason\",\"kind\":\"enum\",\"type\":\"LoginFailureReason\"},{\"name\":\"device_label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_agent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ip_address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"LoginAttemptToUser\"}],\"dbName\":\"login_attempts\"},\"PackageBenefit\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"benefit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"credit_package_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"creditPackage\",\"kind\":\"object\",\"type\":\"CreditPackage\",\"relationName\":\"CreditPackageToPackageBenefit\"}],\"dbName\":\"package_benefits\"},\"CreditPackage\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"credits\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"is_active\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"is_recommended\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"sort_order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"benefits\",\"kind\":\"object\",\"type\":\"PackageBenefit\",\"relationName\":\"CreditPackageToPackageBenefit\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"CreditPackageToPayment\"}],\"dbName\":\"credit_packages\"},\"Payment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"organization_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"package_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bkash_payment_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bkash_trx_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PaymentStatus\"},{\"name\":\"credits_purchased\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"refunded_amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentToUser\"},{\"name\":\"organization\",\"kind\":\"object\",\"type\":\"Organization\",\"relationName\":\"OrganizationToPayment\"},{\"name\":\"package\",\"kind\":\"object\",\"type\":\"CreditPackage\",\"relationName\":\"CreditPackageToPayment\"},{\"name\":\"creditLog\",\"kind\":\"object\",\"type\":\"CreditLog\",\"relationName\":\"CreditLogToPayment\"},{\"name\":\"refunds\",\"kind\":\"object\",\"type\":\"PaymentRefund\",\"relationName\":\"PaymentToPaymentRefund\"}],\"dbName\":\"payments\"},\"PaymentRefund\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payment_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"credits\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"credits_clawed_back\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"bkash_refund_trx_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refunded_by\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"payment\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"PaymentToPaymentRefund\"},{\"name\":\"refundedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PaymentRefundToUser\"},{\"name\":\"creditLog\",\"kind\":\"object\",\"type\":\"CreditLog\",\"relationName\":\"CreditLogToPaymentRefund\"}],\"dbName\":\"payment_refunds\"},\"Job\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"company_name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"job_type\",\"kind\":\"enum\",\"type\":\"JobType\"},{\"name\":\"job_location\",\"kind\":\"enum\",\"type\":\"JobLocation\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"JobStatus\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"organization_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"JobToUser\"},{\"name\":\"organization\",\"kind\":\"object\",\"type\":\"Organization\",\"relationName\":\"JobToOrganization\"},{\"name\":\"candidates\",\"kind\":\"object\",\"type\":\"Candidate\",\"relationName\":\"CandidateToJob\"},{\"name\":\"creditLogs\",\"kind\":\"object\",\"type\":\"CreditLog\",\"relationName\":\"CreditLogToJob\"}],\"dbName\":\"jobs\"},\"Candidate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"phone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resume_url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resume_text\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"score\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"summary\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skills\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"job_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"job\",\"kind\":\"object\",\"type\":\"Job\",\"relationName\":\"CandidateToJob\"}],\"dbName\":\"candidates\"},\"CreditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"CreditType\"},{\"name\":\"user_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"organization_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"job_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payment_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refund_id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"created_by\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CreditLogToUser\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CreditLogCreatedBy\"},{\"name\":\"organization\",\"kind\":\"object\",\"type\":\"Organization\",\"relationName\":\"CreditLogToOrganization\"},{\"name\":\"job\",\"kind\":\"object\",\"type\":\"Job\",\"relationName\":\"CreditLogToJob\"},{\"name\":\"payment\",\"kind\":\"object\",\"type\":\"Payment\",\"relationName\":\"CreditLogToPayment\"},{\"name\":\"refund\",\"kind\":\"object\",\"type\":\"PaymentRefund\",\"relationName\":\"CreditLogToPaymentRefund\"},{\"name\":\"created_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updated_at\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"credit_logs\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -184,6 +184,96 @@ export interface PrismaClient<
     */
   get user(): Prisma.UserDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.session`: Exposes CRUD operations for the **Session** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Sessions
+    * const sessions = await prisma.session.findMany()
+    * ```
+    */
+  get session(): Prisma.SessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.impersonation`: Exposes CRUD operations for the **Impersonation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Impersonations
+    * const impersonations = await prisma.impersonation.findMany()
+    * ```
+    */
+  get impersonation(): Prisma.ImpersonationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.organization`: Exposes CRUD operations for the **Organization** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Organizations
+    * const organizations = await prisma.organization.findMany()
+    * ```
+    */
+  get organization(): Prisma.OrganizationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.organizationMember`: Exposes CRUD operations for the **OrganizationMember** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OrganizationMembers
+    * const organizationMembers = await prisma.organizationMember.findMany()
+    * ```
+    */
+  get organizationMember(): Prisma.OrganizationMemberDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.organizationInvitation`: Exposes CRUD operations for the **OrganizationInvitation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OrganizationInvitations
+    * const organizationInvitations = await prisma.organizationInvitation.findMany()
+    * ```
+    */
+  get organizationInvitation(): Prisma.OrganizationInvitationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.apiKey`: Exposes CRUD operations for the **ApiKey** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ApiKeys
+    * const apiKeys = await prisma.apiKey.findMany()
+    * ```
+    */
+  get apiKey(): Prisma.ApiKeyDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.userIdentity`: Exposes CRUD operations for the **UserIdentity** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more UserIdentities
+    * const userIdentities = await prisma.userIdentity.findMany()
+    * ```
+    */
+  get userIdentity(): Prisma.UserIdentityDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.oAuthState`: Exposes CRUD operations for the **OAuthState** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OAuthStates
+    * const oAuthStates = await prisma.oAuthState.findMany()
+    * ```
+    */
+  get oAuthState(): Prisma.OAuthStateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.loginAttempt`: Exposes CRUD operations for the **LoginAttempt** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more LoginAttempts
+    * const loginAttempts = await prisma.loginAttempt.findMany()
+    * ```
+    */
+  get loginAttempt(): Prisma.LoginAttemptDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.packageBenefit`: Exposes CRUD operations for the **PackageBenefit** model.
     * Example usage:
@@ -214,6 +304,16 @@ export interface PrismaClient<
     */
   get payment(): Prisma.PaymentDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.paymentRefund`: Exposes CRUD operations for the **PaymentRefund** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PaymentRefunds
+    * const paymentRefunds = await prisma.paymentRefund.findMany()
+    * ```
+    */
+  get paymentRefund(): Prisma.PaymentRefundDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.job`: Exposes CRUD operations for the **Job** model.
     * Example usage:
@@ -52,9 +52,19 @@ export const AnyNull = runtime.AnyNull
 
 export const ModelName = {
   User: 'User',
+  Session: 'Session',
+  Impersonation: 'Impersonation',
+  Organization: 'Organization',
+  OrganizationMember: 'OrganizationMember',
+  OrganizationInvitation: 'OrganizationInvitation',
+  ApiKey: 'ApiKey',
+  UserIdentity: 'UserIdentity',
+  OAuthState: 'OAuthState',
+  LoginAttempt: 'LoginAttempt',
   PackageBenefit: 'PackageBenefit',
   CreditPackage: 'CreditPackage',
   Payment: 'Payment',
+  PaymentRefund: 'PaymentRefund',
   Job: 'Job',
   Candidate: 'Candidate',
   CreditLog: 'CreditLog'
@@ -85,12 +95,25 @@ export const UserScalarFieldEnum = {
   phone: 'phone',
   image_url: 'image_url',
   email_verified: 'email_verified',
+  email_verification_token: 'email_verification_token',
+  email_verification_expires: 'email_verification_expires',
+  pending_email: 'pending_email',
+  email_change_token: 'email_change_token',
+  email_change_expires: 'email_change_expires',
   is_active: 'is_active',
   is_deleted: 'is_deleted',
-  refresh_token: 'refresh_token',
   password_reset_token: 'password_reset_token',
   password_reset_expires: 'password_reset_expires',
   password_reset_at: 'password_reset_at',
+  two_factor_enabled: 'two_factor_enabled',
+  two_factor_secret: 'two_factor_secret',
+  two_factor_recovery_codes: 'two_factor_recovery_codes',
+  two_factor_last_used_step: 'two_factor_last_used_step',
+  failed_login_attempts: 'failed_login_attempts',
+  locked_until: 'locked_until',
+  lockout_count: 'lockout_count',
+  deleted_at: 'deleted_at',
+  anonymized_at: 'anonymized_at',
   credit_balance: 'credit_balance',
   created_at: 'created_at',
   updated_at: 'updated_at'
@@ -99,6 +122,137 @@ export const UserScalarFieldEnum = {
 export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
 
 
+export const SessionScalarFieldEnum = {
+  id: 'id',
+  user_id: 'user_id',
+  refresh_token_hash: 'refresh_token_hash',
+  device_label: 'device_label',
+  user_agent: 'user_agent',
+  ip_address: 'ip_address',
+  last_used_at: 'last_used_at',
+  expires_at: 'expires_at',
+  revoked_at: 'revoked_at',
+  created_at: 'created_at',
+  updated_at: 'updated_at'
+} as const
+
+export type SessionScalarFieldEnum = (typeof SessionScalarFieldEnum)[keyof typeof SessionScalarFieldEnum]
+
+
+export const ImpersonationScalarFieldEnum = {
+  id: 'id',
+  admin_id: 'admin_id',
+  user_id: 'user_id',
+  reason: 'reason',
+  ip_address: 'ip_address',
+  user_agent: 'user_agent',
+  expires_at: 'expires_at',
+  ended_at: 'ended_at',
+  created_at: 'created_at',
+  updated_at: 'updated_at'
+} as const
+
+export type ImpersonationScalarFieldEnum = (typeof ImpersonationScalarFieldEnum)[keyof typeof ImpersonationScalarFieldEnum]
+
+
+export const OrganizationScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  credit_balance: 'credit_balance',
+  created_at: 'created_at',
+  updated_at: 'updated_at'
+} as const
+
+export type OrganizationScalarFieldEnum = (typeof OrganizationScalarFieldEnum)[keyof typeof OrganizationScalarFieldEnum]
+
+
+export const OrganizationMemberScalarFieldEnum = {
+  id: 'id',
+  organization_id: 'organization_id',
+  user_id: 'user_id',
+  role: 'role',
+  created_at: 'created_at',
+  updated_at: 'updated_at'
+} as const
+
+export type OrganizationMemberScalarFieldEnum = (typeof OrganizationMemberScalarFieldEnum)[keyof typeof OrganizationMemberScalarFieldEnum]
+
+
+export const OrganizationInvitationScalarFieldEnum = {
+  id: 'id',
+  organization_id: 'organization_id',
+  email: 'email',
+  role: 'role',
+  token_hash: 'token_hash',
+  invited_by: 'invited_by',
+  expires_at: 'expires_at',
+  accepted_at: 'accepted_at',
+  revoked_at: 'revoked_at',
+  created_at: 'created_at',
+  updated_at: 'updated_at'
+} as const
+
+export type OrganizationInvitationScalarFieldEnum = (typeof OrganizationInvitationScalarFieldEnum)[keyof typeof OrganizationInvitationScalarFieldEnum]
+
+
+export const ApiKeyScalarFieldEnum = {
+  id: 'id',
+  user_id: 'user_id',
+  name: 'name',
+  prefix: 'prefix',
+  secret_hash: 'secret_hash',
+  scopes: 'scopes',
+  organization_id: 'organization_id',
+  last_used_at: 'last_used_at',
+  expires_at: 'expires_at',
+  revoked_at: 'revoked_at',
+  created_at: 'created_at',
+  updated_at: 'updated_at'
+} as const
+
+export type ApiKeyScalarFieldEnum = (typeof ApiKeyScalarFieldEnum)[keyof typeof ApiKeyScalarFieldEnum]
+
+
+export const UserIdentityScalarFieldEnum = {
+  id: 'id',
+  user_id: 'user_id',
+  provider: 'provider',
+  provider_user_id: 'provider_user_id',
+  email: 'email',
+  created_at: 'created_at',
+  updated_at: 'updated_at'
+} as const
+
+export type UserIdentityScalarFieldEnum = (typeof UserIdentityScalarFieldEnum)[keyof typeof UserIdentityScalarFieldEnum]
+
+
+export const OAuthStateScalarFieldEnum = {
+  id: 'id',
+  state: 'state',
+  provider: 'provider',
+  code_verifier: 'code_verifier',
+  expires_at: 'expires_at',
+  created_at: 'created_at'
+} as const
+
+export type OAuthStateScalarFieldEnum = (typeof OAuthStateScalarFieldEnum)[keyof typeof OAuthStateScalarFieldEnum]
+
+
+export const LoginAttemptScalarFieldEnum = {
+  id: 'id',
+  user_id: 'user_id',
+  email: 'email',
+  success: 'success',
+  failure_reason: 'failure_reason',
+  device_label: 'device_label',
+  user_agent: 'user_agent',
+  ip_address: 'ip_address',
+  created_at: 'created_at'
+} as const
+
+export type LoginAttemptScalarFieldEnum = (typeof LoginAttemptScalarFieldEnum)[keyof typeof LoginAttemptScalarFieldEnum]
+
+
 export const PackageBenefitScalarFieldEnum = {
   id: 'id',
   benefit: 'benefit',
@@ -118,6 +272,7 @@ export const CreditPackageScalarFieldEnum = {
   price: 'price',
   is_active: 'is_active',
   is_recommended: 'is_recommended',
+  sort_order: 'sort_order',
   created_at: 'created_at',
   updated_at: 'updated_at'
 } as const
@@ -128,6 +283,7 @@ export type CreditPackageScalarFieldEnum = (typeof CreditPackageScalarFieldEnum)
 export const PaymentScalarFieldEnum = {
   id: 'id',
   user_id: 'user_id',
+  organization_id: 'organization_id',
   package_id: 'package_id',
   amount: 'amount',
   currency: 'currency',
@@ -135,6 +291,7 @@ export const PaymentScalarFieldEnum = {
   bkash_trx_id: 'bkash_trx_id',
   status: 'status',
   credits_purchased: 'credits_purchased',
+  refunded_amount: 'refunded_amount',
   created_at: 'created_at',
   updated_at: 'updated_at'
 } as const
@@ -142,6 +299,22 @@ export const PaymentScalarFieldEnum = {
 export type PaymentScalarFieldEnum = (typeof PaymentScalarFieldEnum)[keyof typeof PaymentScalarFieldEnum]
 
 
+export const PaymentRefundScalarFieldEnum = {
+  id: 'id',
+  payment_id: 'payment_id',
+  amount: 'amount',
+  credits: 'credits',
+  credits_clawed_back: 'credits_clawed_back',
+  bkash_refund_trx_id: 'bkash_refund_trx_id',
+  reason: 'reason',
+  refunded_by: 'refunded_by',
+  created_at: 'created_at',
+  updated_at: 'updated_at'
+} as const
+
+export type PaymentRefundScalarFieldEnum = (typeof PaymentRefundScalarFieldEnum)[keyof typeof PaymentRefundScalarFieldEnum]
+
+
 export const JobScalarFieldEnum = {
   id: 'id',
   company_name: 'company_name',
@@ -151,6 +324,7 @@ export const JobScalarFieldEnum = {
   description: 'description',
   status: 'status',
   user_id: 'user_id',
+  organization_id: 'organization_id',
   created_at: 'created_at',
   updated_at: 'updated_at'
 } as const
@@ -181,9 +355,12 @@ export const CreditLogScalarFieldEnum = {
   amount: 'amount',
   type: 'type',
   user_id: 'user_id',
+  organization_id: 'organization_id',
   job_id: 'job_id',
   payment_id: 'payment_id',
+  refund_id: 'refund_id',
   description: 'description',
+  created_by: 'created_by',
   created_at: 'created_at',
   updated_at: 'updated_at'
 } as const
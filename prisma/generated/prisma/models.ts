@@ -9,9 +9,19 @@
  * 🟢 You can import this file directly.
  */
 export type * from './models/User'
+export type * from './models/Session'
+export type * from './models/Impersonation'
+export type * from './models/Organization'
+export type * from './models/OrganizationMember'
+export type * from './models/OrganizationInvitation'
+export type * from './models/ApiKey'
+export type * from './models/UserIdentity'
+export type * from './models/OAuthState'
+export type * from './models/LoginAttempt'
 export type * from './models/PackageBenefit'
 export type * from './models/CreditPackage'
 export type * from './models/Payment'
+export type * from './models/PaymentRefund'
 export type * from './models/Job'
 export type * from './models/Candidate'
 export type * from './models/CreditLog'
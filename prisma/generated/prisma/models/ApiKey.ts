@@ -0,0 +1,1769 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ApiKey` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ApiKey
+ * 
+ */
+export type ApiKeyModel = runtime.Types.Result.DefaultSelection<Prisma.$ApiKeyPayload>
+
+export type AggregateApiKey = {
+  _count: ApiKeyCountAggregateOutputType | null
+  _min: ApiKeyMinAggregateOutputType | null
+  _max: ApiKeyMaxAggregateOutputType | null
+}
+
+export type ApiKeyMinAggregateOutputType = {
+  id: string | null
+  user_id: string | null
+  name: string | null
+  prefix: string | null
+  secret_hash: string | null
+  organization_id: string | null
+  last_used_at: Date | null
+  expires_at: Date | null
+  revoked_at: Date | null
+  created_at: Date | null
+  updated_at: Date | null
+}
+
+export type ApiKeyMaxAggregateOutputType = {
+  id: string | null
+  user_id: string | null
+  name: string | null
+  prefix: string | null
+  secret_hash: string | null
+  organization_id: string | null
+  last_used_at: Date | null
+  expires_at: Date | null
+  revoked_at: Date | null
+  created_at: Date | null
+  updated_at: Date | null
+}
+
+export type ApiKeyCountAggregateOutputType = {
+  id: number
+  user_id: number
+  name: number
+  prefix: number
+  secret_hash: number
+  scopes: number
+  organization_id: number
+  last_used_at: number
+  expires_at: number
+  revoked_at: number
+  created_at: number
+  updated_at: number
+  _all: number
+}
+
+
+export type ApiKeyMinAggregateInputType = {
+  id?: true
+  user_id?: true
+  name?: true
+  prefix?: true
+  secret_hash?: true
+  organization_id?: true
+  last_used_at?: true
+  expires_at?: true
+  revoked_at?: true
+  created_at?: true
+  updated_at?: true
+}
+
+export type ApiKeyMaxAggregateInputType = {
+  id?: true
+  user_id?: true
+  name?: true
+  prefix?: true
+  secret_hash?: true
+  organization_id?: true
+  last_used_at?: true
+  expires_at?: true
+  revoked_at?: true
+  created_at?: true
+  updated_at?: true
+}
+
+export type ApiKeyCountAggregateInputType = {
+  id?: true
+  user_id?: true
+  name?: true
+  prefix?: true
+  secret_hash?: true
+  scopes?: true
+  organization_id?: true
+  last_used_at?: true
+  expires_at?: true
+  revoked_at?: true
+  created_at?: true
+  updated_at?: true
+  _all?: true
+}
+
+export type ApiKeyAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ApiKey to aggregate.
+   */
+  where?: Prisma.ApiKeyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ApiKeys to fetch.
+   */
+  orderBy?: Prisma.ApiKeyOrderByWithRelationInput | Prisma.ApiKeyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ApiKeyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ApiKeys from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ApiKeys.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ApiKeys
+  **/
+  _count?: true | ApiKeyCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ApiKeyMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ApiKeyMaxAggregateInputType
+}
+
+export type GetApiKeyAggregateType<T extends ApiKeyAggregateArgs> = {
+      [P in keyof T & keyof AggregateApiKey]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateApiKey[P]>
+    : Prisma.GetScalarType<T[P], AggregateApiKey[P]>
+}
+
+
+
+
+export type ApiKeyGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ApiKeyWhereInput
+  orderBy?: Prisma.ApiKeyOrderByWithAggregationInput | Prisma.ApiKeyOrderByWithAggregationInput[]
+  by: Prisma.ApiKeyScalarFieldEnum[] | Prisma.ApiKeyScalarFieldEnum
+  having?: Prisma.ApiKeyScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ApiKeyCountAggregateInputType | true
+  _min?: ApiKeyMinAggregateInputType
+  _max?: ApiKeyMaxAggregateInputType
+}
+
+export type ApiKeyGroupByOutputType = {
+  id: string
+  user_id: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes: string[]
+  organization_id: string | null
+  last_used_at: Date | null
+  expires_at: Date | null
+  revoked_at: Date | null
+  created_at: Date
+  updated_at: Date
+  _count: ApiKeyCountAggregateOutputType | null
+  _min: ApiKeyMinAggregateOutputType | null
+  _max: ApiKeyMaxAggregateOutputType | null
+}
+
+type GetApiKeyGroupByPayload<T extends ApiKeyGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ApiKeyGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ApiKeyGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ApiKeyGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ApiKeyGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ApiKeyWhereInput = {
+  AND?: Prisma.ApiKeyWhereInput | Prisma.ApiKeyWhereInput[]
+  OR?: Prisma.ApiKeyWhereInput[]
+  NOT?: Prisma.ApiKeyWhereInput | Prisma.ApiKeyWhereInput[]
+  id?: Prisma.StringFilter<"ApiKey"> | string
+  user_id?: Prisma.StringFilter<"ApiKey"> | string
+  name?: Prisma.StringFilter<"ApiKey"> | string
+  prefix?: Prisma.StringFilter<"ApiKey"> | string
+  secret_hash?: Prisma.StringFilter<"ApiKey"> | string
+  scopes?: Prisma.StringNullableListFilter<"ApiKey">
+  organization_id?: Prisma.StringNullableFilter<"ApiKey"> | string | null
+  last_used_at?: Prisma.DateTimeNullableFilter<"ApiKey"> | Date | string | null
+  expires_at?: Prisma.DateTimeNullableFilter<"ApiKey"> | Date | string | null
+  revoked_at?: Prisma.DateTimeNullableFilter<"ApiKey"> | Date | string | null
+  created_at?: Prisma.DateTimeFilter<"ApiKey"> | Date | string
+  updated_at?: Prisma.DateTimeFilter<"ApiKey"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  organization?: Prisma.XOR<Prisma.OrganizationNullableScalarRelationFilter, Prisma.OrganizationWhereInput> | null
+}
+
+export type ApiKeyOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  prefix?: Prisma.SortOrder
+  secret_hash?: Prisma.SortOrder
+  scopes?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrderInput | Prisma.SortOrder
+  last_used_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  expires_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  revoked_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  organization?: Prisma.OrganizationOrderByWithRelationInput
+}
+
+export type ApiKeyWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  prefix?: string
+  AND?: Prisma.ApiKeyWhereInput | Prisma.ApiKeyWhereInput[]
+  OR?: Prisma.ApiKeyWhereInput[]
+  NOT?: Prisma.ApiKeyWhereInput | Prisma.ApiKeyWhereInput[]
+  user_id?: Prisma.StringFilter<"ApiKey"> | string
+  name?: Prisma.StringFilter<"ApiKey"> | string
+  secret_hash?: Prisma.StringFilter<"ApiKey"> | string
+  scopes?: Prisma.StringNullableListFilter<"ApiKey">
+  organization_id?: Prisma.StringNullableFilter<"ApiKey"> | string | null
+  last_used_at?: Prisma.DateTimeNullableFilter<"ApiKey"> | Date | string | null
+  expires_at?: Prisma.DateTimeNullableFilter<"ApiKey"> | Date | string | null
+  revoked_at?: Prisma.DateTimeNullableFilter<"ApiKey"> | Date | string | null
+  created_at?: Prisma.DateTimeFilter<"ApiKey"> | Date | string
+  updated_at?: Prisma.DateTimeFilter<"ApiKey"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  organization?: Prisma.XOR<Prisma.OrganizationNullableScalarRelationFilter, Prisma.OrganizationWhereInput> | null
+}, "id" | "prefix">
+
+export type ApiKeyOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  prefix?: Prisma.SortOrder
+  secret_hash?: Prisma.SortOrder
+  scopes?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrderInput | Prisma.SortOrder
+  last_used_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  expires_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  revoked_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+  _count?: Prisma.ApiKeyCountOrderByAggregateInput
+  _max?: Prisma.ApiKeyMaxOrderByAggregateInput
+  _min?: Prisma.ApiKeyMinOrderByAggregateInput
+}
+
+export type ApiKeyScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ApiKeyScalarWhereWithAggregatesInput | Prisma.ApiKeyScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ApiKeyScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ApiKeyScalarWhereWithAggregatesInput | Prisma.ApiKeyScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ApiKey"> | string
+  user_id?: Prisma.StringWithAggregatesFilter<"ApiKey"> | string
+  name?: Prisma.StringWithAggregatesFilter<"ApiKey"> | string
+  prefix?: Prisma.StringWithAggregatesFilter<"ApiKey"> | string
+  secret_hash?: Prisma.StringWithAggregatesFilter<"ApiKey"> | string
+  scopes?: Prisma.StringNullableListFilter<"ApiKey">
+  organization_id?: Prisma.StringNullableWithAggregatesFilter<"ApiKey"> | string | null
+  last_used_at?: Prisma.DateTimeNullableWithAggregatesFilter<"ApiKey"> | Date | string | null
+  expires_at?: Prisma.DateTimeNullableWithAggregatesFilter<"ApiKey"> | Date | string | null
+  revoked_at?: Prisma.DateTimeNullableWithAggregatesFilter<"ApiKey"> | Date | string | null
+  created_at?: Prisma.DateTimeWithAggregatesFilter<"ApiKey"> | Date | string
+  updated_at?: Prisma.DateTimeWithAggregatesFilter<"ApiKey"> | Date | string
+}
+
+export type ApiKeyCreateInput = {
+  id?: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes?: Prisma.ApiKeyCreatescopesInput | string[]
+  last_used_at?: Date | string | null
+  expires_at?: Date | string | null
+  revoked_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutApiKeysInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutApiKeysInput
+}
+
+export type ApiKeyUncheckedCreateInput = {
+  id?: string
+  user_id: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes?: Prisma.ApiKeyCreatescopesInput | string[]
+  organization_id?: string | null
+  last_used_at?: Date | string | null
+  expires_at?: Date | string | null
+  revoked_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ApiKeyUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutApiKeysNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutApiKeysNestedInput
+}
+
+export type ApiKeyUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ApiKeyCreateManyInput = {
+  id?: string
+  user_id: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes?: Prisma.ApiKeyCreatescopesInput | string[]
+  organization_id?: string | null
+  last_used_at?: Date | string | null
+  expires_at?: Date | string | null
+  revoked_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ApiKeyUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ApiKeyUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ApiKeyListRelationFilter = {
+  every?: Prisma.ApiKeyWhereInput
+  some?: Prisma.ApiKeyWhereInput
+  none?: Prisma.ApiKeyWhereInput
+}
+
+export type ApiKeyOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ApiKeyCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  prefix?: Prisma.SortOrder
+  secret_hash?: Prisma.SortOrder
+  scopes?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
+  last_used_at?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  revoked_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+}
+
+export type ApiKeyMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  prefix?: Prisma.SortOrder
+  secret_hash?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
+  last_used_at?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  revoked_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+}
+
+export type ApiKeyMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  prefix?: Prisma.SortOrder
+  secret_hash?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
+  last_used_at?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  revoked_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+}
+
+export type ApiKeyCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ApiKeyCreateWithoutUserInput, Prisma.ApiKeyUncheckedCreateWithoutUserInput> | Prisma.ApiKeyCreateWithoutUserInput[] | Prisma.ApiKeyUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ApiKeyCreateOrConnectWithoutUserInput | Prisma.ApiKeyCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ApiKeyCreateManyUserInputEnvelope
+  connect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+}
+
+export type ApiKeyUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ApiKeyCreateWithoutUserInput, Prisma.ApiKeyUncheckedCreateWithoutUserInput> | Prisma.ApiKeyCreateWithoutUserInput[] | Prisma.ApiKeyUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ApiKeyCreateOrConnectWithoutUserInput | Prisma.ApiKeyCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ApiKeyCreateManyUserInputEnvelope
+  connect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+}
+
+export type ApiKeyUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ApiKeyCreateWithoutUserInput, Prisma.ApiKeyUncheckedCreateWithoutUserInput> | Prisma.ApiKeyCreateWithoutUserInput[] | Prisma.ApiKeyUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ApiKeyCreateOrConnectWithoutUserInput | Prisma.ApiKeyCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ApiKeyUpsertWithWhereUniqueWithoutUserInput | Prisma.ApiKeyUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ApiKeyCreateManyUserInputEnvelope
+  set?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  disconnect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  delete?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  connect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  update?: Prisma.ApiKeyUpdateWithWhereUniqueWithoutUserInput | Prisma.ApiKeyUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ApiKeyUpdateManyWithWhereWithoutUserInput | Prisma.ApiKeyUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ApiKeyScalarWhereInput | Prisma.ApiKeyScalarWhereInput[]
+}
+
+export type ApiKeyUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ApiKeyCreateWithoutUserInput, Prisma.ApiKeyUncheckedCreateWithoutUserInput> | Prisma.ApiKeyCreateWithoutUserInput[] | Prisma.ApiKeyUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ApiKeyCreateOrConnectWithoutUserInput | Prisma.ApiKeyCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ApiKeyUpsertWithWhereUniqueWithoutUserInput | Prisma.ApiKeyUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ApiKeyCreateManyUserInputEnvelope
+  set?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  disconnect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  delete?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  connect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  update?: Prisma.ApiKeyUpdateWithWhereUniqueWithoutUserInput | Prisma.ApiKeyUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ApiKeyUpdateManyWithWhereWithoutUserInput | Prisma.ApiKeyUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ApiKeyScalarWhereInput | Prisma.ApiKeyScalarWhereInput[]
+}
+
+export type ApiKeyCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.ApiKeyCreateWithoutOrganizationInput, Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput> | Prisma.ApiKeyCreateWithoutOrganizationInput[] | Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.ApiKeyCreateOrConnectWithoutOrganizationInput | Prisma.ApiKeyCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.ApiKeyCreateManyOrganizationInputEnvelope
+  connect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+}
+
+export type ApiKeyUncheckedCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.ApiKeyCreateWithoutOrganizationInput, Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput> | Prisma.ApiKeyCreateWithoutOrganizationInput[] | Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.ApiKeyCreateOrConnectWithoutOrganizationInput | Prisma.ApiKeyCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.ApiKeyCreateManyOrganizationInputEnvelope
+  connect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+}
+
+export type ApiKeyUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.ApiKeyCreateWithoutOrganizationInput, Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput> | Prisma.ApiKeyCreateWithoutOrganizationInput[] | Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.ApiKeyCreateOrConnectWithoutOrganizationInput | Prisma.ApiKeyCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.ApiKeyUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.ApiKeyUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.ApiKeyCreateManyOrganizationInputEnvelope
+  set?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  disconnect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  delete?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  connect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  update?: Prisma.ApiKeyUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.ApiKeyUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.ApiKeyUpdateManyWithWhereWithoutOrganizationInput | Prisma.ApiKeyUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.ApiKeyScalarWhereInput | Prisma.ApiKeyScalarWhereInput[]
+}
+
+export type ApiKeyUncheckedUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.ApiKeyCreateWithoutOrganizationInput, Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput> | Prisma.ApiKeyCreateWithoutOrganizationInput[] | Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.ApiKeyCreateOrConnectWithoutOrganizationInput | Prisma.ApiKeyCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.ApiKeyUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.ApiKeyUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.ApiKeyCreateManyOrganizationInputEnvelope
+  set?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  disconnect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  delete?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  connect?: Prisma.ApiKeyWhereUniqueInput | Prisma.ApiKeyWhereUniqueInput[]
+  update?: Prisma.ApiKeyUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.ApiKeyUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.ApiKeyUpdateManyWithWhereWithoutOrganizationInput | Prisma.ApiKeyUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.ApiKeyScalarWhereInput | Prisma.ApiKeyScalarWhereInput[]
+}
+
+export type ApiKeyCreatescopesInput = {
+  set: string[]
+}
+
+export type ApiKeyUpdatescopesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type ApiKeyCreateWithoutUserInput = {
+  id?: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes?: Prisma.ApiKeyCreatescopesInput | string[]
+  last_used_at?: Date | string | null
+  expires_at?: Date | string | null
+  revoked_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  organization?: Prisma.OrganizationCreateNestedOneWithoutApiKeysInput
+}
+
+export type ApiKeyUncheckedCreateWithoutUserInput = {
+  id?: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes?: Prisma.ApiKeyCreatescopesInput | string[]
+  organization_id?: string | null
+  last_used_at?: Date | string | null
+  expires_at?: Date | string | null
+  revoked_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ApiKeyCreateOrConnectWithoutUserInput = {
+  where: Prisma.ApiKeyWhereUniqueInput
+  create: Prisma.XOR<Prisma.ApiKeyCreateWithoutUserInput, Prisma.ApiKeyUncheckedCreateWithoutUserInput>
+}
+
+export type ApiKeyCreateManyUserInputEnvelope = {
+  data: Prisma.ApiKeyCreateManyUserInput | Prisma.ApiKeyCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ApiKeyUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ApiKeyWhereUniqueInput
+  update: Prisma.XOR<Prisma.ApiKeyUpdateWithoutUserInput, Prisma.ApiKeyUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ApiKeyCreateWithoutUserInput, Prisma.ApiKeyUncheckedCreateWithoutUserInput>
+}
+
+export type ApiKeyUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ApiKeyWhereUniqueInput
+  data: Prisma.XOR<Prisma.ApiKeyUpdateWithoutUserInput, Prisma.ApiKeyUncheckedUpdateWithoutUserInput>
+}
+
+export type ApiKeyUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ApiKeyScalarWhereInput
+  data: Prisma.XOR<Prisma.ApiKeyUpdateManyMutationInput, Prisma.ApiKeyUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ApiKeyScalarWhereInput = {
+  AND?: Prisma.ApiKeyScalarWhereInput | Prisma.ApiKeyScalarWhereInput[]
+  OR?: Prisma.ApiKeyScalarWhereInput[]
+  NOT?: Prisma.ApiKeyScalarWhereInput | Prisma.ApiKeyScalarWhereInput[]
+  id?: Prisma.StringFilter<"ApiKey"> | string
+  user_id?: Prisma.StringFilter<"ApiKey"> | string
+  name?: Prisma.StringFilter<"ApiKey"> | string
+  prefix?: Prisma.StringFilter<"ApiKey"> | string
+  secret_hash?: Prisma.StringFilter<"ApiKey"> | string
+  scopes?: Prisma.StringNullableListFilter<"ApiKey">
+  organization_id?: Prisma.StringNullableFilter<"ApiKey"> | string | null
+  last_used_at?: Prisma.DateTimeNullableFilter<"ApiKey"> | Date | string | null
+  expires_at?: Prisma.DateTimeNullableFilter<"ApiKey"> | Date | string | null
+  revoked_at?: Prisma.DateTimeNullableFilter<"ApiKey"> | Date | string | null
+  created_at?: Prisma.DateTimeFilter<"ApiKey"> | Date | string
+  updated_at?: Prisma.DateTimeFilter<"ApiKey"> | Date | string
+}
+
+export type ApiKeyCreateWithoutOrganizationInput = {
+  id?: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes?: Prisma.ApiKeyCreatescopesInput | string[]
+  last_used_at?: Date | string | null
+  expires_at?: Date | string | null
+  revoked_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutApiKeysInput
+}
+
+export type ApiKeyUncheckedCreateWithoutOrganizationInput = {
+  id?: string
+  user_id: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes?: Prisma.ApiKeyCreatescopesInput | string[]
+  last_used_at?: Date | string | null
+  expires_at?: Date | string | null
+  revoked_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ApiKeyCreateOrConnectWithoutOrganizationInput = {
+  where: Prisma.ApiKeyWhereUniqueInput
+  create: Prisma.XOR<Prisma.ApiKeyCreateWithoutOrganizationInput, Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput>
+}
+
+export type ApiKeyCreateManyOrganizationInputEnvelope = {
+  data: Prisma.ApiKeyCreateManyOrganizationInput | Prisma.ApiKeyCreateManyOrganizationInput[]
+  skipDuplicates?: boolean
+}
+
+export type ApiKeyUpsertWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.ApiKeyWhereUniqueInput
+  update: Prisma.XOR<Prisma.ApiKeyUpdateWithoutOrganizationInput, Prisma.ApiKeyUncheckedUpdateWithoutOrganizationInput>
+  create: Prisma.XOR<Prisma.ApiKeyCreateWithoutOrganizationInput, Prisma.ApiKeyUncheckedCreateWithoutOrganizationInput>
+}
+
+export type ApiKeyUpdateWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.ApiKeyWhereUniqueInput
+  data: Prisma.XOR<Prisma.ApiKeyUpdateWithoutOrganizationInput, Prisma.ApiKeyUncheckedUpdateWithoutOrganizationInput>
+}
+
+export type ApiKeyUpdateManyWithWhereWithoutOrganizationInput = {
+  where: Prisma.ApiKeyScalarWhereInput
+  data: Prisma.XOR<Prisma.ApiKeyUpdateManyMutationInput, Prisma.ApiKeyUncheckedUpdateManyWithoutOrganizationInput>
+}
+
+export type ApiKeyCreateManyUserInput = {
+  id?: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes?: Prisma.ApiKeyCreatescopesInput | string[]
+  organization_id?: string | null
+  last_used_at?: Date | string | null
+  expires_at?: Date | string | null
+  revoked_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ApiKeyUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  organization?: Prisma.OrganizationUpdateOneWithoutApiKeysNestedInput
+}
+
+export type ApiKeyUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ApiKeyUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ApiKeyCreateManyOrganizationInput = {
+  id?: string
+  user_id: string
+  name: string
+  prefix: string
+  secret_hash: string
+  scopes?: Prisma.ApiKeyCreatescopesInput | string[]
+  last_used_at?: Date | string | null
+  expires_at?: Date | string | null
+  revoked_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ApiKeyUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutApiKeysNestedInput
+}
+
+export type ApiKeyUncheckedUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ApiKeyUncheckedUpdateManyWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  prefix?: Prisma.StringFieldUpdateOperationsInput | string
+  secret_hash?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.ApiKeyUpdatescopesInput | string[]
+  last_used_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expires_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revoked_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ApiKeySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  user_id?: boolean
+  name?: boolean
+  prefix?: boolean
+  secret_hash?: boolean
+  scopes?: boolean
+  organization_id?: boolean
+  last_used_at?: boolean
+  expires_at?: boolean
+  revoked_at?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.ApiKey$organizationArgs<ExtArgs>
+}, ExtArgs["result"]["apiKey"]>
+
+export type ApiKeySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  user_id?: boolean
+  name?: boolean
+  prefix?: boolean
+  secret_hash?: boolean
+  scopes?: boolean
+  organization_id?: boolean
+  last_used_at?: boolean
+  expires_at?: boolean
+  revoked_at?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.ApiKey$organizationArgs<ExtArgs>
+}, ExtArgs["result"]["apiKey"]>
+
+export type ApiKeySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  user_id?: boolean
+  name?: boolean
+  prefix?: boolean
+  secret_hash?: boolean
+  scopes?: boolean
+  organization_id?: boolean
+  last_used_at?: boolean
+  expires_at?: boolean
+  revoked_at?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.ApiKey$organizationArgs<ExtArgs>
+}, ExtArgs["result"]["apiKey"]>
+
+export type ApiKeySelectScalar = {
+  id?: boolean
+  user_id?: boolean
+  name?: boolean
+  prefix?: boolean
+  secret_hash?: boolean
+  scopes?: boolean
+  organization_id?: boolean
+  last_used_at?: boolean
+  expires_at?: boolean
+  revoked_at?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+}
+
+export type ApiKeyOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "user_id" | "name" | "prefix" | "secret_hash" | "scopes" | "organization_id" | "last_used_at" | "expires_at" | "revoked_at" | "created_at" | "updated_at", ExtArgs["result"]["apiKey"]>
+export type ApiKeyInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.ApiKey$organizationArgs<ExtArgs>
+}
+export type ApiKeyIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.ApiKey$organizationArgs<ExtArgs>
+}
+export type ApiKeyIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.ApiKey$organizationArgs<ExtArgs>
+}
+
+export type $ApiKeyPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ApiKey"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    organization: Prisma.$OrganizationPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    user_id: string
+    name: string
+    prefix: string
+    secret_hash: string
+    scopes: string[]
+    organization_id: string | null
+    last_used_at: Date | null
+    expires_at: Date | null
+    revoked_at: Date | null
+    created_at: Date
+    updated_at: Date
+  }, ExtArgs["result"]["apiKey"]>
+  composites: {}
+}
+
+export type ApiKeyGetPayload<S extends boolean | null | undefined | ApiKeyDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload, S>
+
+export type ApiKeyCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ApiKeyFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ApiKeyCountAggregateInputType | true
+  }
+
+export interface ApiKeyDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ApiKey'], meta: { name: 'ApiKey' } }
+  /**
+   * Find zero or one ApiKey that matches the filter.
+   * @param {ApiKeyFindUniqueArgs} args - Arguments to find a ApiKey
+   * @example
+   * // Get one ApiKey
+   * const apiKey = await prisma.apiKey.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ApiKeyFindUniqueArgs>(args: Prisma.SelectSubset<T, ApiKeyFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ApiKeyClient<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ApiKey that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ApiKeyFindUniqueOrThrowArgs} args - Arguments to find a ApiKey
+   * @example
+   * // Get one ApiKey
+   * const apiKey = await prisma.apiKey.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ApiKeyFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ApiKeyFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ApiKeyClient<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ApiKey that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ApiKeyFindFirstArgs} args - Arguments to find a ApiKey
+   * @example
+   * // Get one ApiKey
+   * const apiKey = await prisma.apiKey.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ApiKeyFindFirstArgs>(args?: Prisma.SelectSubset<T, ApiKeyFindFirstArgs<ExtArgs>>): Prisma.Prisma__ApiKeyClient<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ApiKey that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ApiKeyFindFirstOrThrowArgs} args - Arguments to find a ApiKey
+   * @example
+   * // Get one ApiKey
+   * const apiKey = await prisma.apiKey.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ApiKeyFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ApiKeyFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ApiKeyClient<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ApiKeys that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ApiKeyFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ApiKeys
+   * const apiKeys = await prisma.apiKey.findMany()
+   * 
+   * // Get first 10 ApiKeys
+   * const apiKeys = await prisma.apiKey.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const apiKeyWithIdOnly = await prisma.apiKey.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ApiKeyFindManyArgs>(args?: Prisma.SelectSubset<T, ApiKeyFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ApiKey.
+   * @param {ApiKeyCreateArgs} args - Arguments to create a ApiKey.
+   * @example
+   * // Create one ApiKey
+   * const ApiKey = await prisma.apiKey.create({
+   *   data: {
+   *     // ... data to create a ApiKey
+   *   }
+   * })
+   * 
+   */
+  create<T extends ApiKeyCreateArgs>(args: Prisma.SelectSubset<T, ApiKeyCreateArgs<ExtArgs>>): Prisma.Prisma__ApiKeyClient<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ApiKeys.
+   * @param {ApiKeyCreateManyArgs} args - Arguments to create many ApiKeys.
+   * @example
+   * // Create many ApiKeys
+   * const apiKey = await prisma.apiKey.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ApiKeyCreateManyArgs>(args?: Prisma.SelectSubset<T, ApiKeyCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ApiKeys and returns the data saved in the database.
+   * @param {ApiKeyCreateManyAndReturnArgs} args - Arguments to create many ApiKeys.
+   * @example
+   * // Create many ApiKeys
+   * const apiKey = await prisma.apiKey.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ApiKeys and only return the `id`
+   * const apiKeyWithIdOnly = await prisma.apiKey.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ApiKeyCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ApiKeyCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ApiKey.
+   * @param {ApiKeyDeleteArgs} args - Arguments to delete one ApiKey.
+   * @example
+   * // Delete one ApiKey
+   * const ApiKey = await prisma.apiKey.delete({
+   *   where: {
+   *     // ... filter to delete one ApiKey
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ApiKeyDeleteArgs>(args: Prisma.SelectSubset<T, ApiKeyDeleteArgs<ExtArgs>>): Prisma.Prisma__ApiKeyClient<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ApiKey.
+   * @param {ApiKeyUpdateArgs} args - Arguments to update one ApiKey.
+   * @example
+   * // Update one ApiKey
+   * const apiKey = await prisma.apiKey.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ApiKeyUpdateArgs>(args: Prisma.SelectSubset<T, ApiKeyUpdateArgs<ExtArgs>>): Prisma.Prisma__ApiKeyClient<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ApiKeys.
+   * @param {ApiKeyDeleteManyArgs} args - Arguments to filter ApiKeys to delete.
+   * @example
+   * // Delete a few ApiKeys
+   * const { count } = await prisma.apiKey.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ApiKeyDeleteManyArgs>(args?: Prisma.SelectSubset<T, ApiKeyDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ApiKeys.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ApiKeyUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ApiKeys
+   * const apiKey = await prisma.apiKey.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ApiKeyUpdateManyArgs>(args: Prisma.SelectSubset<T, ApiKeyUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ApiKeys and returns the data updated in the database.
+   * @param {ApiKeyUpdateManyAndReturnArgs} args - Arguments to update many ApiKeys.
+   * @example
+   * // Update many ApiKeys
+   * const apiKey = await prisma.apiKey.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ApiKeys and only return the `id`
+   * const apiKeyWithIdOnly = await prisma.apiKey.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ApiKeyUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ApiKeyUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ApiKey.
+   * @param {ApiKeyUpsertArgs} args - Arguments to update or create a ApiKey.
+   * @example
+   * // Update or create a ApiKey
+   * const apiKey = await prisma.apiKey.upsert({
+   *   create: {
+   *     // ... data to create a ApiKey
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ApiKey we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ApiKeyUpsertArgs>(args: Prisma.SelectSubset<T, ApiKeyUpsertArgs<ExtArgs>>): Prisma.Prisma__ApiKeyClient<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ApiKeys.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ApiKeyCountArgs} args - Arguments to filter ApiKeys to count.
+   * @example
+   * // Count the number of ApiKeys
+   * const count = await prisma.apiKey.count({
+   *   where: {
+   *     // ... the filter for the ApiKeys we want to count
+   *   }
+   * })
+  **/
+  count<T extends ApiKeyCountArgs>(
+    args?: Prisma.Subset<T, ApiKeyCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ApiKeyCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ApiKey.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ApiKeyAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ApiKeyAggregateArgs>(args: Prisma.Subset<T, ApiKeyAggregateArgs>): Prisma.PrismaPromise<GetApiKeyAggregateType<T>>
+
+  /**
+   * Group by ApiKey.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ApiKeyGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ApiKeyGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ApiKeyGroupByArgs['orderBy'] }
+      : { orderBy?: ApiKeyGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ApiKeyGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetApiKeyGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ApiKey model
+ */
+readonly fields: ApiKeyFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ApiKey.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ApiKeyClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  organization<T extends Prisma.ApiKey$organizationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ApiKey$organizationArgs<ExtArgs>>): Prisma.Prisma__OrganizationClient<runtime.Types.Result.GetResult<Prisma.$OrganizationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ApiKey model
+ */
+export interface ApiKeyFieldRefs {
+  readonly id: Prisma.FieldRef<"ApiKey", 'String'>
+  readonly user_id: Prisma.FieldRef<"ApiKey", 'String'>
+  readonly name: Prisma.FieldRef<"ApiKey", 'String'>
+  readonly prefix: Prisma.FieldRef<"ApiKey", 'String'>
+  readonly secret_hash: Prisma.FieldRef<"ApiKey", 'String'>
+  readonly scopes: Prisma.FieldRef<"ApiKey", 'String[]'>
+  readonly organization_id: Prisma.FieldRef<"ApiKey", 'String'>
+  readonly last_used_at: Prisma.FieldRef<"ApiKey", 'DateTime'>
+  readonly expires_at: Prisma.FieldRef<"ApiKey", 'DateTime'>
+  readonly revoked_at: Prisma.FieldRef<"ApiKey", 'DateTime'>
+  readonly created_at: Prisma.FieldRef<"ApiKey", 'DateTime'>
+  readonly updated_at: Prisma.FieldRef<"ApiKey", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ApiKey findUnique
+ */
+export type ApiKeyFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  /**
+   * Filter, which ApiKey to fetch.
+   */
+  where: Prisma.ApiKeyWhereUniqueInput
+}
+
+/**
+ * ApiKey findUniqueOrThrow
+ */
+export type ApiKeyFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  /**
+   * Filter, which ApiKey to fetch.
+   */
+  where: Prisma.ApiKeyWhereUniqueInput
+}
+
+/**
+ * ApiKey findFirst
+ */
+export type ApiKeyFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  /**
+   * Filter, which ApiKey to fetch.
+   */
+  where?: Prisma.ApiKeyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ApiKeys to fetch.
+   */
+  orderBy?: Prisma.ApiKeyOrderByWithRelationInput | Prisma.ApiKeyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ApiKeys.
+   */
+  cursor?: Prisma.ApiKeyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ApiKeys from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ApiKeys.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ApiKeys.
+   */
+  distinct?: Prisma.ApiKeyScalarFieldEnum | Prisma.ApiKeyScalarFieldEnum[]
+}
+
+/**
+ * ApiKey findFirstOrThrow
+ */
+export type ApiKeyFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  /**
+   * Filter, which ApiKey to fetch.
+   */
+  where?: Prisma.ApiKeyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ApiKeys to fetch.
+   */
+  orderBy?: Prisma.ApiKeyOrderByWithRelationInput | Prisma.ApiKeyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ApiKeys.
+   */
+  cursor?: Prisma.ApiKeyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ApiKeys from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ApiKeys.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ApiKeys.
+   */
+  distinct?: Prisma.ApiKeyScalarFieldEnum | Prisma.ApiKeyScalarFieldEnum[]
+}
+
+/**
+ * ApiKey findMany
+ */
+export type ApiKeyFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  /**
+   * Filter, which ApiKeys to fetch.
+   */
+  where?: Prisma.ApiKeyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ApiKeys to fetch.
+   */
+  orderBy?: Prisma.ApiKeyOrderByWithRelationInput | Prisma.ApiKeyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ApiKeys.
+   */
+  cursor?: Prisma.ApiKeyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ApiKeys from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ApiKeys.
+   */
+  skip?: number
+  distinct?: Prisma.ApiKeyScalarFieldEnum | Prisma.ApiKeyScalarFieldEnum[]
+}
+
+/**
+ * ApiKey create
+ */
+export type ApiKeyCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ApiKey.
+   */
+  data: Prisma.XOR<Prisma.ApiKeyCreateInput, Prisma.ApiKeyUncheckedCreateInput>
+}
+
+/**
+ * ApiKey createMany
+ */
+export type ApiKeyCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ApiKeys.
+   */
+  data: Prisma.ApiKeyCreateManyInput | Prisma.ApiKeyCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ApiKey createManyAndReturn
+ */
+export type ApiKeyCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * The data used to create many ApiKeys.
+   */
+  data: Prisma.ApiKeyCreateManyInput | Prisma.ApiKeyCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ApiKey update
+ */
+export type ApiKeyUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ApiKey.
+   */
+  data: Prisma.XOR<Prisma.ApiKeyUpdateInput, Prisma.ApiKeyUncheckedUpdateInput>
+  /**
+   * Choose, which ApiKey to update.
+   */
+  where: Prisma.ApiKeyWhereUniqueInput
+}
+
+/**
+ * ApiKey updateMany
+ */
+export type ApiKeyUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ApiKeys.
+   */
+  data: Prisma.XOR<Prisma.ApiKeyUpdateManyMutationInput, Prisma.ApiKeyUncheckedUpdateManyInput>
+  /**
+   * Filter which ApiKeys to update
+   */
+  where?: Prisma.ApiKeyWhereInput
+  /**
+   * Limit how many ApiKeys to update.
+   */
+  limit?: number
+}
+
+/**
+ * ApiKey updateManyAndReturn
+ */
+export type ApiKeyUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * The data used to update ApiKeys.
+   */
+  data: Prisma.XOR<Prisma.ApiKeyUpdateManyMutationInput, Prisma.ApiKeyUncheckedUpdateManyInput>
+  /**
+   * Filter which ApiKeys to update
+   */
+  where?: Prisma.ApiKeyWhereInput
+  /**
+   * Limit how many ApiKeys to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ApiKey upsert
+ */
+export type ApiKeyUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ApiKey to update in case it exists.
+   */
+  where: Prisma.ApiKeyWhereUniqueInput
+  /**
+   * In case the ApiKey found by the `where` argument doesn't exist, create a new ApiKey with this data.
+   */
+  create: Prisma.XOR<Prisma.ApiKeyCreateInput, Prisma.ApiKeyUncheckedCreateInput>
+  /**
+   * In case the ApiKey was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ApiKeyUpdateInput, Prisma.ApiKeyUncheckedUpdateInput>
+}
+
+/**
+ * ApiKey delete
+ */
+export type ApiKeyDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  /**
+   * Filter which ApiKey to delete.
+   */
+  where: Prisma.ApiKeyWhereUniqueInput
+}
+
+/**
+ * ApiKey deleteMany
+ */
+export type ApiKeyDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ApiKeys to delete
+   */
+  where?: Prisma.ApiKeyWhereInput
+  /**
+   * Limit how many ApiKeys to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ApiKey.organization
+ */
+export type ApiKey$organizationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Organization
+   */
+  select?: Prisma.OrganizationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Organization
+   */
+  omit?: Prisma.OrganizationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrganizationInclude<ExtArgs> | null
+  where?: Prisma.OrganizationWhereInput
+}
+
+/**
+ * ApiKey without action
+ */
+export type ApiKeyDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+}
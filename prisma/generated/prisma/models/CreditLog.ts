@@ -39,9 +39,12 @@ export type CreditLogMinAggregateOutputType = {
   amount: number | null
   type: $Enums.CreditType | null
   user_id: string | null
+  organization_id: string | null
   job_id: string | null
   payment_id: string | null
+  refund_id: string | null
   description: string | null
+  created_by: string | null
   created_at: Date | null
   updated_at: Date | null
 }
@@ -51,9 +54,12 @@ export type CreditLogMaxAggregateOutputType = {
   amount: number | null
   type: $Enums.CreditType | null
   user_id: string | null
+  organization_id: string | null
   job_id: string | null
   payment_id: string | null
+  refund_id: string | null
   description: string | null
+  created_by: string | null
   created_at: Date | null
   updated_at: Date | null
 }
@@ -63,9 +69,12 @@ export type CreditLogCountAggregateOutputType = {
   amount: number
   type: number
   user_id: number
+  organization_id: number
   job_id: number
   payment_id: number
+  refund_id: number
   description: number
+  created_by: number
   created_at: number
   updated_at: number
   _all: number
@@ -85,9 +94,12 @@ export type CreditLogMinAggregateInputType = {
   amount?: true
   type?: true
   user_id?: true
+  organization_id?: true
   job_id?: true
   payment_id?: true
+  refund_id?: true
   description?: true
+  created_by?: true
   created_at?: true
   updated_at?: true
 }
@@ -97,9 +109,12 @@ export type CreditLogMaxAggregateInputType = {
   amount?: true
   type?: true
   user_id?: true
+  organization_id?: true
   job_id?: true
   payment_id?: true
+  refund_id?: true
   description?: true
+  created_by?: true
   created_at?: true
   updated_at?: true
 }
@@ -109,9 +124,12 @@ export type CreditLogCountAggregateInputType = {
   amount?: true
   type?: true
   user_id?: true
+  organization_id?: true
   job_id?: true
   payment_id?: true
+  refund_id?: true
   description?: true
+  created_by?: true
   created_at?: true
   updated_at?: true
   _all?: true
@@ -208,9 +226,12 @@ export type CreditLogGroupByOutputType = {
   amount: number
   type: $Enums.CreditType
   user_id: string
+  organization_id: string | null
   job_id: string | null
   payment_id: string | null
+  refund_id: string | null
   description: string | null
+  created_by: string | null
   created_at: Date
   updated_at: Date
   _count: CreditLogCountAggregateOutputType | null
@@ -243,14 +264,20 @@ export type CreditLogWhereInput = {
   amount?: Prisma.IntFilter<"CreditLog"> | number
   type?: Prisma.EnumCreditTypeFilter<"CreditLog"> | $Enums.CreditType
   user_id?: Prisma.StringFilter<"CreditLog"> | string
+  organization_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   job_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   payment_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
+  refund_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   description?: Prisma.StringNullableFilter<"CreditLog"> | string | null
+  created_by?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   created_at?: Prisma.DateTimeFilter<"CreditLog"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"CreditLog"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  createdBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  organization?: Prisma.XOR<Prisma.OrganizationNullableScalarRelationFilter, Prisma.OrganizationWhereInput> | null
   job?: Prisma.XOR<Prisma.JobNullableScalarRelationFilter, Prisma.JobWhereInput> | null
   payment?: Prisma.XOR<Prisma.PaymentNullableScalarRelationFilter, Prisma.PaymentWhereInput> | null
+  refund?: Prisma.XOR<Prisma.PaymentRefundNullableScalarRelationFilter, Prisma.PaymentRefundWhereInput> | null
 }
 
 export type CreditLogOrderByWithRelationInput = {
@@ -258,42 +285,57 @@ export type CreditLogOrderByWithRelationInput = {
   amount?: Prisma.SortOrder
   type?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrderInput | Prisma.SortOrder
   job_id?: Prisma.SortOrderInput | Prisma.SortOrder
   payment_id?: Prisma.SortOrderInput | Prisma.SortOrder
+  refund_id?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_by?: Prisma.SortOrderInput | Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
   user?: Prisma.UserOrderByWithRelationInput
+  createdBy?: Prisma.UserOrderByWithRelationInput
+  organization?: Prisma.OrganizationOrderByWithRelationInput
   job?: Prisma.JobOrderByWithRelationInput
   payment?: Prisma.PaymentOrderByWithRelationInput
+  refund?: Prisma.PaymentRefundOrderByWithRelationInput
 }
 
 export type CreditLogWhereUniqueInput = Prisma.AtLeast<{
   id?: string
   payment_id?: string
+  refund_id?: string
   AND?: Prisma.CreditLogWhereInput | Prisma.CreditLogWhereInput[]
   OR?: Prisma.CreditLogWhereInput[]
   NOT?: Prisma.CreditLogWhereInput | Prisma.CreditLogWhereInput[]
   amount?: Prisma.IntFilter<"CreditLog"> | number
   type?: Prisma.EnumCreditTypeFilter<"CreditLog"> | $Enums.CreditType
   user_id?: Prisma.StringFilter<"CreditLog"> | string
+  organization_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   job_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   description?: Prisma.StringNullableFilter<"CreditLog"> | string | null
+  created_by?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   created_at?: Prisma.DateTimeFilter<"CreditLog"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"CreditLog"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  createdBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  organization?: Prisma.XOR<Prisma.OrganizationNullableScalarRelationFilter, Prisma.OrganizationWhereInput> | null
   job?: Prisma.XOR<Prisma.JobNullableScalarRelationFilter, Prisma.JobWhereInput> | null
   payment?: Prisma.XOR<Prisma.PaymentNullableScalarRelationFilter, Prisma.PaymentWhereInput> | null
-}, "id" | "payment_id">
+  refund?: Prisma.XOR<Prisma.PaymentRefundNullableScalarRelationFilter, Prisma.PaymentRefundWhereInput> | null
+}, "id" | "payment_id" | "refund_id">
 
 export type CreditLogOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   amount?: Prisma.SortOrder
   type?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrderInput | Prisma.SortOrder
   job_id?: Prisma.SortOrderInput | Prisma.SortOrder
   payment_id?: Prisma.SortOrderInput | Prisma.SortOrder
+  refund_id?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_by?: Prisma.SortOrderInput | Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
   _count?: Prisma.CreditLogCountOrderByAggregateInput
@@ -311,9 +353,12 @@ export type CreditLogScalarWhereWithAggregatesInput = {
   amount?: Prisma.IntWithAggregatesFilter<"CreditLog"> | number
   type?: Prisma.EnumCreditTypeWithAggregatesFilter<"CreditLog"> | $Enums.CreditType
   user_id?: Prisma.StringWithAggregatesFilter<"CreditLog"> | string
+  organization_id?: Prisma.StringNullableWithAggregatesFilter<"CreditLog"> | string | null
   job_id?: Prisma.StringNullableWithAggregatesFilter<"CreditLog"> | string | null
   payment_id?: Prisma.StringNullableWithAggregatesFilter<"CreditLog"> | string | null
+  refund_id?: Prisma.StringNullableWithAggregatesFilter<"CreditLog"> | string | null
   description?: Prisma.StringNullableWithAggregatesFilter<"CreditLog"> | string | null
+  created_by?: Prisma.StringNullableWithAggregatesFilter<"CreditLog"> | string | null
   created_at?: Prisma.DateTimeWithAggregatesFilter<"CreditLog"> | Date | string
   updated_at?: Prisma.DateTimeWithAggregatesFilter<"CreditLog"> | Date | string
 }
@@ -326,8 +371,11 @@ export type CreditLogCreateInput = {
   created_at?: Date | string
   updated_at?: Date | string
   user: Prisma.UserCreateNestedOneWithoutCreditLogsInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutCreditGrantsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutCreditLogsInput
   job?: Prisma.JobCreateNestedOneWithoutCreditLogsInput
   payment?: Prisma.PaymentCreateNestedOneWithoutCreditLogInput
+  refund?: Prisma.PaymentRefundCreateNestedOneWithoutCreditLogInput
 }
 
 export type CreditLogUncheckedCreateInput = {
@@ -335,9 +383,12 @@ export type CreditLogUncheckedCreateInput = {
   amount: number
   type: $Enums.CreditType
   user_id: string
+  organization_id?: string | null
   job_id?: string | null
   payment_id?: string | null
+  refund_id?: string | null
   description?: string | null
+  created_by?: string | null
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -350,8 +401,11 @@ export type CreditLogUpdateInput = {
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutCreditLogsNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutCreditGrantsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutCreditLogsNestedInput
   job?: Prisma.JobUpdateOneWithoutCreditLogsNestedInput
   payment?: Prisma.PaymentUpdateOneWithoutCreditLogNestedInput
+  refund?: Prisma.PaymentRefundUpdateOneWithoutCreditLogNestedInput
 }
 
 export type CreditLogUncheckedUpdateInput = {
@@ -359,9 +413,12 @@ export type CreditLogUncheckedUpdateInput = {
   amount?: Prisma.IntFieldUpdateOperationsInput | number
   type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -371,9 +428,12 @@ export type CreditLogCreateManyInput = {
   amount: number
   type: $Enums.CreditType
   user_id: string
+  organization_id?: string | null
   job_id?: string | null
   payment_id?: string | null
+  refund_id?: string | null
   description?: string | null
+  created_by?: string | null
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -392,9 +452,12 @@ export type CreditLogUncheckedUpdateManyInput = {
   amount?: Prisma.IntFieldUpdateOperationsInput | number
   type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -419,9 +482,12 @@ export type CreditLogCountOrderByAggregateInput = {
   amount?: Prisma.SortOrder
   type?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
   job_id?: Prisma.SortOrder
   payment_id?: Prisma.SortOrder
+  refund_id?: Prisma.SortOrder
   description?: Prisma.SortOrder
+  created_by?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -435,9 +501,12 @@ export type CreditLogMaxOrderByAggregateInput = {
   amount?: Prisma.SortOrder
   type?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
   job_id?: Prisma.SortOrder
   payment_id?: Prisma.SortOrder
+  refund_id?: Prisma.SortOrder
   description?: Prisma.SortOrder
+  created_by?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -447,9 +516,12 @@ export type CreditLogMinOrderByAggregateInput = {
   amount?: Prisma.SortOrder
   type?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
   job_id?: Prisma.SortOrder
   payment_id?: Prisma.SortOrder
+  refund_id?: Prisma.SortOrder
   description?: Prisma.SortOrder
+  created_by?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -465,6 +537,13 @@ export type CreditLogCreateNestedManyWithoutUserInput = {
   connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
 }
 
+export type CreditLogCreateNestedManyWithoutCreatedByInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutCreatedByInput, Prisma.CreditLogUncheckedCreateWithoutCreatedByInput> | Prisma.CreditLogCreateWithoutCreatedByInput[] | Prisma.CreditLogUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutCreatedByInput | Prisma.CreditLogCreateOrConnectWithoutCreatedByInput[]
+  createMany?: Prisma.CreditLogCreateManyCreatedByInputEnvelope
+  connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+}
+
 export type CreditLogUncheckedCreateNestedManyWithoutUserInput = {
   create?: Prisma.XOR<Prisma.CreditLogCreateWithoutUserInput, Prisma.CreditLogUncheckedCreateWithoutUserInput> | Prisma.CreditLogCreateWithoutUserInput[] | Prisma.CreditLogUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutUserInput | Prisma.CreditLogCreateOrConnectWithoutUserInput[]
@@ -472,6 +551,13 @@ export type CreditLogUncheckedCreateNestedManyWithoutUserInput = {
   connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
 }
 
+export type CreditLogUncheckedCreateNestedManyWithoutCreatedByInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutCreatedByInput, Prisma.CreditLogUncheckedCreateWithoutCreatedByInput> | Prisma.CreditLogCreateWithoutCreatedByInput[] | Prisma.CreditLogUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutCreatedByInput | Prisma.CreditLogCreateOrConnectWithoutCreatedByInput[]
+  createMany?: Prisma.CreditLogCreateManyCreatedByInputEnvelope
+  connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+}
+
 export type CreditLogUpdateManyWithoutUserNestedInput = {
   create?: Prisma.XOR<Prisma.CreditLogCreateWithoutUserInput, Prisma.CreditLogUncheckedCreateWithoutUserInput> | Prisma.CreditLogCreateWithoutUserInput[] | Prisma.CreditLogUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutUserInput | Prisma.CreditLogCreateOrConnectWithoutUserInput[]
@@ -486,6 +572,20 @@ export type CreditLogUpdateManyWithoutUserNestedInput = {
   deleteMany?: Prisma.CreditLogScalarWhereInput | Prisma.CreditLogScalarWhereInput[]
 }
 
+export type CreditLogUpdateManyWithoutCreatedByNestedInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutCreatedByInput, Prisma.CreditLogUncheckedCreateWithoutCreatedByInput> | Prisma.CreditLogCreateWithoutCreatedByInput[] | Prisma.CreditLogUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutCreatedByInput | Prisma.CreditLogCreateOrConnectWithoutCreatedByInput[]
+  upsert?: Prisma.CreditLogUpsertWithWhereUniqueWithoutCreatedByInput | Prisma.CreditLogUpsertWithWhereUniqueWithoutCreatedByInput[]
+  createMany?: Prisma.CreditLogCreateManyCreatedByInputEnvelope
+  set?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  disconnect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  delete?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  update?: Prisma.CreditLogUpdateWithWhereUniqueWithoutCreatedByInput | Prisma.CreditLogUpdateWithWhereUniqueWithoutCreatedByInput[]
+  updateMany?: Prisma.CreditLogUpdateManyWithWhereWithoutCreatedByInput | Prisma.CreditLogUpdateManyWithWhereWithoutCreatedByInput[]
+  deleteMany?: Prisma.CreditLogScalarWhereInput | Prisma.CreditLogScalarWhereInput[]
+}
+
 export type CreditLogUncheckedUpdateManyWithoutUserNestedInput = {
   create?: Prisma.XOR<Prisma.CreditLogCreateWithoutUserInput, Prisma.CreditLogUncheckedCreateWithoutUserInput> | Prisma.CreditLogCreateWithoutUserInput[] | Prisma.CreditLogUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutUserInput | Prisma.CreditLogCreateOrConnectWithoutUserInput[]
@@ -500,6 +600,62 @@ export type CreditLogUncheckedUpdateManyWithoutUserNestedInput = {
   deleteMany?: Prisma.CreditLogScalarWhereInput | Prisma.CreditLogScalarWhereInput[]
 }
 
+export type CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutCreatedByInput, Prisma.CreditLogUncheckedCreateWithoutCreatedByInput> | Prisma.CreditLogCreateWithoutCreatedByInput[] | Prisma.CreditLogUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutCreatedByInput | Prisma.CreditLogCreateOrConnectWithoutCreatedByInput[]
+  upsert?: Prisma.CreditLogUpsertWithWhereUniqueWithoutCreatedByInput | Prisma.CreditLogUpsertWithWhereUniqueWithoutCreatedByInput[]
+  createMany?: Prisma.CreditLogCreateManyCreatedByInputEnvelope
+  set?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  disconnect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  delete?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  update?: Prisma.CreditLogUpdateWithWhereUniqueWithoutCreatedByInput | Prisma.CreditLogUpdateWithWhereUniqueWithoutCreatedByInput[]
+  updateMany?: Prisma.CreditLogUpdateManyWithWhereWithoutCreatedByInput | Prisma.CreditLogUpdateManyWithWhereWithoutCreatedByInput[]
+  deleteMany?: Prisma.CreditLogScalarWhereInput | Prisma.CreditLogScalarWhereInput[]
+}
+
+export type CreditLogCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutOrganizationInput, Prisma.CreditLogUncheckedCreateWithoutOrganizationInput> | Prisma.CreditLogCreateWithoutOrganizationInput[] | Prisma.CreditLogUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutOrganizationInput | Prisma.CreditLogCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.CreditLogCreateManyOrganizationInputEnvelope
+  connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+}
+
+export type CreditLogUncheckedCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutOrganizationInput, Prisma.CreditLogUncheckedCreateWithoutOrganizationInput> | Prisma.CreditLogCreateWithoutOrganizationInput[] | Prisma.CreditLogUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutOrganizationInput | Prisma.CreditLogCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.CreditLogCreateManyOrganizationInputEnvelope
+  connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+}
+
+export type CreditLogUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutOrganizationInput, Prisma.CreditLogUncheckedCreateWithoutOrganizationInput> | Prisma.CreditLogCreateWithoutOrganizationInput[] | Prisma.CreditLogUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutOrganizationInput | Prisma.CreditLogCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.CreditLogUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.CreditLogUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.CreditLogCreateManyOrganizationInputEnvelope
+  set?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  disconnect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  delete?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  update?: Prisma.CreditLogUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.CreditLogUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.CreditLogUpdateManyWithWhereWithoutOrganizationInput | Prisma.CreditLogUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.CreditLogScalarWhereInput | Prisma.CreditLogScalarWhereInput[]
+}
+
+export type CreditLogUncheckedUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutOrganizationInput, Prisma.CreditLogUncheckedCreateWithoutOrganizationInput> | Prisma.CreditLogCreateWithoutOrganizationInput[] | Prisma.CreditLogUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutOrganizationInput | Prisma.CreditLogCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.CreditLogUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.CreditLogUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.CreditLogCreateManyOrganizationInputEnvelope
+  set?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  disconnect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  delete?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  connect?: Prisma.CreditLogWhereUniqueInput | Prisma.CreditLogWhereUniqueInput[]
+  update?: Prisma.CreditLogUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.CreditLogUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.CreditLogUpdateManyWithWhereWithoutOrganizationInput | Prisma.CreditLogUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.CreditLogScalarWhereInput | Prisma.CreditLogScalarWhereInput[]
+}
+
 export type CreditLogCreateNestedOneWithoutPaymentInput = {
   create?: Prisma.XOR<Prisma.CreditLogCreateWithoutPaymentInput, Prisma.CreditLogUncheckedCreateWithoutPaymentInput>
   connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutPaymentInput
@@ -532,6 +688,38 @@ export type CreditLogUncheckedUpdateOneWithoutPaymentNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.CreditLogUpdateToOneWithWhereWithoutPaymentInput, Prisma.CreditLogUpdateWithoutPaymentInput>, Prisma.CreditLogUncheckedUpdateWithoutPaymentInput>
 }
 
+export type CreditLogCreateNestedOneWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutRefundInput, Prisma.CreditLogUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutRefundInput
+  connect?: Prisma.CreditLogWhereUniqueInput
+}
+
+export type CreditLogUncheckedCreateNestedOneWithoutRefundInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutRefundInput, Prisma.CreditLogUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutRefundInput
+  connect?: Prisma.CreditLogWhereUniqueInput
+}
+
+export type CreditLogUpdateOneWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutRefundInput, Prisma.CreditLogUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutRefundInput
+  upsert?: Prisma.CreditLogUpsertWithoutRefundInput
+  disconnect?: Prisma.CreditLogWhereInput | boolean
+  delete?: Prisma.CreditLogWhereInput | boolean
+  connect?: Prisma.CreditLogWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CreditLogUpdateToOneWithWhereWithoutRefundInput, Prisma.CreditLogUpdateWithoutRefundInput>, Prisma.CreditLogUncheckedUpdateWithoutRefundInput>
+}
+
+export type CreditLogUncheckedUpdateOneWithoutRefundNestedInput = {
+  create?: Prisma.XOR<Prisma.CreditLogCreateWithoutRefundInput, Prisma.CreditLogUncheckedCreateWithoutRefundInput>
+  connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutRefundInput
+  upsert?: Prisma.CreditLogUpsertWithoutRefundInput
+  disconnect?: Prisma.CreditLogWhereInput | boolean
+  delete?: Prisma.CreditLogWhereInput | boolean
+  connect?: Prisma.CreditLogWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CreditLogUpdateToOneWithWhereWithoutRefundInput, Prisma.CreditLogUpdateWithoutRefundInput>, Prisma.CreditLogUncheckedUpdateWithoutRefundInput>
+}
+
 export type CreditLogCreateNestedManyWithoutJobInput = {
   create?: Prisma.XOR<Prisma.CreditLogCreateWithoutJobInput, Prisma.CreditLogUncheckedCreateWithoutJobInput> | Prisma.CreditLogCreateWithoutJobInput[] | Prisma.CreditLogUncheckedCreateWithoutJobInput[]
   connectOrCreate?: Prisma.CreditLogCreateOrConnectWithoutJobInput | Prisma.CreditLogCreateOrConnectWithoutJobInput[]
@@ -585,17 +773,23 @@ export type CreditLogCreateWithoutUserInput = {
   description?: string | null
   created_at?: Date | string
   updated_at?: Date | string
+  createdBy?: Prisma.UserCreateNestedOneWithoutCreditGrantsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutCreditLogsInput
   job?: Prisma.JobCreateNestedOneWithoutCreditLogsInput
   payment?: Prisma.PaymentCreateNestedOneWithoutCreditLogInput
+  refund?: Prisma.PaymentRefundCreateNestedOneWithoutCreditLogInput
 }
 
 export type CreditLogUncheckedCreateWithoutUserInput = {
   id?: string
   amount: number
   type: $Enums.CreditType
+  organization_id?: string | null
   job_id?: string | null
   payment_id?: string | null
+  refund_id?: string | null
   description?: string | null
+  created_by?: string | null
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -610,6 +804,44 @@ export type CreditLogCreateManyUserInputEnvelope = {
   skipDuplicates?: boolean
 }
 
+export type CreditLogCreateWithoutCreatedByInput = {
+  id?: string
+  amount: number
+  type: $Enums.CreditType
+  description?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutCreditLogsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutCreditLogsInput
+  job?: Prisma.JobCreateNestedOneWithoutCreditLogsInput
+  payment?: Prisma.PaymentCreateNestedOneWithoutCreditLogInput
+  refund?: Prisma.PaymentRefundCreateNestedOneWithoutCreditLogInput
+}
+
+export type CreditLogUncheckedCreateWithoutCreatedByInput = {
+  id?: string
+  amount: number
+  type: $Enums.CreditType
+  user_id: string
+  organization_id?: string | null
+  job_id?: string | null
+  payment_id?: string | null
+  refund_id?: string | null
+  description?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type CreditLogCreateOrConnectWithoutCreatedByInput = {
+  where: Prisma.CreditLogWhereUniqueInput
+  create: Prisma.XOR<Prisma.CreditLogCreateWithoutCreatedByInput, Prisma.CreditLogUncheckedCreateWithoutCreatedByInput>
+}
+
+export type CreditLogCreateManyCreatedByInputEnvelope = {
+  data: Prisma.CreditLogCreateManyCreatedByInput | Prisma.CreditLogCreateManyCreatedByInput[]
+  skipDuplicates?: boolean
+}
+
 export type CreditLogUpsertWithWhereUniqueWithoutUserInput = {
   where: Prisma.CreditLogWhereUniqueInput
   update: Prisma.XOR<Prisma.CreditLogUpdateWithoutUserInput, Prisma.CreditLogUncheckedUpdateWithoutUserInput>
@@ -634,13 +866,86 @@ export type CreditLogScalarWhereInput = {
   amount?: Prisma.IntFilter<"CreditLog"> | number
   type?: Prisma.EnumCreditTypeFilter<"CreditLog"> | $Enums.CreditType
   user_id?: Prisma.StringFilter<"CreditLog"> | string
+  organization_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   job_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   payment_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
+  refund_id?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   description?: Prisma.StringNullableFilter<"CreditLog"> | string | null
+  created_by?: Prisma.StringNullableFilter<"CreditLog"> | string | null
   created_at?: Prisma.DateTimeFilter<"CreditLog"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"CreditLog"> | Date | string
 }
 
+export type CreditLogUpsertWithWhereUniqueWithoutCreatedByInput = {
+  where: Prisma.CreditLogWhereUniqueInput
+  update: Prisma.XOR<Prisma.CreditLogUpdateWithoutCreatedByInput, Prisma.CreditLogUncheckedUpdateWithoutCreatedByInput>
+  create: Prisma.XOR<Prisma.CreditLogCreateWithoutCreatedByInput, Prisma.CreditLogUncheckedCreateWithoutCreatedByInput>
+}
+
+export type CreditLogUpdateWithWhereUniqueWithoutCreatedByInput = {
+  where: Prisma.CreditLogWhereUniqueInput
+  data: Prisma.XOR<Prisma.CreditLogUpdateWithoutCreatedByInput, Prisma.CreditLogUncheckedUpdateWithoutCreatedByInput>
+}
+
+export type CreditLogUpdateManyWithWhereWithoutCreatedByInput = {
+  where: Prisma.CreditLogScalarWhereInput
+  data: Prisma.XOR<Prisma.CreditLogUpdateManyMutationInput, Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByInput>
+}
+
+export type CreditLogCreateWithoutOrganizationInput = {
+  id?: string
+  amount: number
+  type: $Enums.CreditType
+  description?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutCreditLogsInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutCreditGrantsInput
+  job?: Prisma.JobCreateNestedOneWithoutCreditLogsInput
+  payment?: Prisma.PaymentCreateNestedOneWithoutCreditLogInput
+  refund?: Prisma.PaymentRefundCreateNestedOneWithoutCreditLogInput
+}
+
+export type CreditLogUncheckedCreateWithoutOrganizationInput = {
+  id?: string
+  amount: number
+  type: $Enums.CreditType
+  user_id: string
+  job_id?: string | null
+  payment_id?: string | null
+  refund_id?: string | null
+  description?: string | null
+  created_by?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type CreditLogCreateOrConnectWithoutOrganizationInput = {
+  where: Prisma.CreditLogWhereUniqueInput
+  create: Prisma.XOR<Prisma.CreditLogCreateWithoutOrganizationInput, Prisma.CreditLogUncheckedCreateWithoutOrganizationInput>
+}
+
+export type CreditLogCreateManyOrganizationInputEnvelope = {
+  data: Prisma.CreditLogCreateManyOrganizationInput | Prisma.CreditLogCreateManyOrganizationInput[]
+  skipDuplicates?: boolean
+}
+
+export type CreditLogUpsertWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.CreditLogWhereUniqueInput
+  update: Prisma.XOR<Prisma.CreditLogUpdateWithoutOrganizationInput, Prisma.CreditLogUncheckedUpdateWithoutOrganizationInput>
+  create: Prisma.XOR<Prisma.CreditLogCreateWithoutOrganizationInput, Prisma.CreditLogUncheckedCreateWithoutOrganizationInput>
+}
+
+export type CreditLogUpdateWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.CreditLogWhereUniqueInput
+  data: Prisma.XOR<Prisma.CreditLogUpdateWithoutOrganizationInput, Prisma.CreditLogUncheckedUpdateWithoutOrganizationInput>
+}
+
+export type CreditLogUpdateManyWithWhereWithoutOrganizationInput = {
+  where: Prisma.CreditLogScalarWhereInput
+  data: Prisma.XOR<Prisma.CreditLogUpdateManyMutationInput, Prisma.CreditLogUncheckedUpdateManyWithoutOrganizationInput>
+}
+
 export type CreditLogCreateWithoutPaymentInput = {
   id?: string
   amount: number
@@ -649,7 +954,10 @@ export type CreditLogCreateWithoutPaymentInput = {
   created_at?: Date | string
   updated_at?: Date | string
   user: Prisma.UserCreateNestedOneWithoutCreditLogsInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutCreditGrantsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutCreditLogsInput
   job?: Prisma.JobCreateNestedOneWithoutCreditLogsInput
+  refund?: Prisma.PaymentRefundCreateNestedOneWithoutCreditLogInput
 }
 
 export type CreditLogUncheckedCreateWithoutPaymentInput = {
@@ -657,8 +965,11 @@ export type CreditLogUncheckedCreateWithoutPaymentInput = {
   amount: number
   type: $Enums.CreditType
   user_id: string
+  organization_id?: string | null
   job_id?: string | null
+  refund_id?: string | null
   description?: string | null
+  created_by?: string | null
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -687,7 +998,10 @@ export type CreditLogUpdateWithoutPaymentInput = {
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutCreditLogsNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutCreditGrantsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutCreditLogsNestedInput
   job?: Prisma.JobUpdateOneWithoutCreditLogsNestedInput
+  refund?: Prisma.PaymentRefundUpdateOneWithoutCreditLogNestedInput
 }
 
 export type CreditLogUncheckedUpdateWithoutPaymentInput = {
@@ -695,8 +1009,83 @@ export type CreditLogUncheckedUpdateWithoutPaymentInput = {
   amount?: Prisma.IntFieldUpdateOperationsInput | number
   type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CreditLogCreateWithoutRefundInput = {
+  id?: string
+  amount: number
+  type: $Enums.CreditType
+  description?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutCreditLogsInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutCreditGrantsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutCreditLogsInput
+  job?: Prisma.JobCreateNestedOneWithoutCreditLogsInput
+  payment?: Prisma.PaymentCreateNestedOneWithoutCreditLogInput
+}
+
+export type CreditLogUncheckedCreateWithoutRefundInput = {
+  id?: string
+  amount: number
+  type: $Enums.CreditType
+  user_id: string
+  organization_id?: string | null
+  job_id?: string | null
+  payment_id?: string | null
+  description?: string | null
+  created_by?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type CreditLogCreateOrConnectWithoutRefundInput = {
+  where: Prisma.CreditLogWhereUniqueInput
+  create: Prisma.XOR<Prisma.CreditLogCreateWithoutRefundInput, Prisma.CreditLogUncheckedCreateWithoutRefundInput>
+}
+
+export type CreditLogUpsertWithoutRefundInput = {
+  update: Prisma.XOR<Prisma.CreditLogUpdateWithoutRefundInput, Prisma.CreditLogUncheckedUpdateWithoutRefundInput>
+  create: Prisma.XOR<Prisma.CreditLogCreateWithoutRefundInput, Prisma.CreditLogUncheckedCreateWithoutRefundInput>
+  where?: Prisma.CreditLogWhereInput
+}
+
+export type CreditLogUpdateToOneWithWhereWithoutRefundInput = {
+  where?: Prisma.CreditLogWhereInput
+  data: Prisma.XOR<Prisma.CreditLogUpdateWithoutRefundInput, Prisma.CreditLogUncheckedUpdateWithoutRefundInput>
+}
+
+export type CreditLogUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutCreditLogsNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutCreditGrantsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutCreditLogsNestedInput
+  job?: Prisma.JobUpdateOneWithoutCreditLogsNestedInput
+  payment?: Prisma.PaymentUpdateOneWithoutCreditLogNestedInput
+}
+
+export type CreditLogUncheckedUpdateWithoutRefundInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -709,7 +1098,10 @@ export type CreditLogCreateWithoutJobInput = {
   created_at?: Date | string
   updated_at?: Date | string
   user: Prisma.UserCreateNestedOneWithoutCreditLogsInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutCreditGrantsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutCreditLogsInput
   payment?: Prisma.PaymentCreateNestedOneWithoutCreditLogInput
+  refund?: Prisma.PaymentRefundCreateNestedOneWithoutCreditLogInput
 }
 
 export type CreditLogUncheckedCreateWithoutJobInput = {
@@ -717,8 +1109,11 @@ export type CreditLogUncheckedCreateWithoutJobInput = {
   amount: number
   type: $Enums.CreditType
   user_id: string
+  organization_id?: string | null
   payment_id?: string | null
+  refund_id?: string | null
   description?: string | null
+  created_by?: string | null
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -753,8 +1148,25 @@ export type CreditLogCreateManyUserInput = {
   id?: string
   amount: number
   type: $Enums.CreditType
+  organization_id?: string | null
+  job_id?: string | null
+  payment_id?: string | null
+  refund_id?: string | null
+  description?: string | null
+  created_by?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type CreditLogCreateManyCreatedByInput = {
+  id?: string
+  amount: number
+  type: $Enums.CreditType
+  user_id: string
+  organization_id?: string | null
   job_id?: string | null
   payment_id?: string | null
+  refund_id?: string | null
   description?: string | null
   created_at?: Date | string
   updated_at?: Date | string
@@ -767,17 +1179,23 @@ export type CreditLogUpdateWithoutUserInput = {
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdBy?: Prisma.UserUpdateOneWithoutCreditGrantsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutCreditLogsNestedInput
   job?: Prisma.JobUpdateOneWithoutCreditLogsNestedInput
   payment?: Prisma.PaymentUpdateOneWithoutCreditLogNestedInput
+  refund?: Prisma.PaymentRefundUpdateOneWithoutCreditLogNestedInput
 }
 
 export type CreditLogUncheckedUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.IntFieldUpdateOperationsInput | number
   type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -786,9 +1204,110 @@ export type CreditLogUncheckedUpdateManyWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   amount?: Prisma.IntFieldUpdateOperationsInput | number
   type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CreditLogUpdateWithoutCreatedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutCreditLogsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutCreditLogsNestedInput
+  job?: Prisma.JobUpdateOneWithoutCreditLogsNestedInput
+  payment?: Prisma.PaymentUpdateOneWithoutCreditLogNestedInput
+  refund?: Prisma.PaymentRefundUpdateOneWithoutCreditLogNestedInput
+}
+
+export type CreditLogUncheckedUpdateWithoutCreatedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CreditLogUncheckedUpdateManyWithoutCreatedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CreditLogCreateManyOrganizationInput = {
+  id?: string
+  amount: number
+  type: $Enums.CreditType
+  user_id: string
+  job_id?: string | null
+  payment_id?: string | null
+  refund_id?: string | null
+  description?: string | null
+  created_by?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type CreditLogUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutCreditLogsNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutCreditGrantsNestedInput
+  job?: Prisma.JobUpdateOneWithoutCreditLogsNestedInput
+  payment?: Prisma.PaymentUpdateOneWithoutCreditLogNestedInput
+  refund?: Prisma.PaymentRefundUpdateOneWithoutCreditLogNestedInput
+}
+
+export type CreditLogUncheckedUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CreditLogUncheckedUpdateManyWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
   job_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -798,8 +1317,11 @@ export type CreditLogCreateManyJobInput = {
   amount: number
   type: $Enums.CreditType
   user_id: string
+  organization_id?: string | null
   payment_id?: string | null
+  refund_id?: string | null
   description?: string | null
+  created_by?: string | null
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -812,7 +1334,10 @@ export type CreditLogUpdateWithoutJobInput = {
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutCreditLogsNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutCreditGrantsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutCreditLogsNestedInput
   payment?: Prisma.PaymentUpdateOneWithoutCreditLogNestedInput
+  refund?: Prisma.PaymentRefundUpdateOneWithoutCreditLogNestedInput
 }
 
 export type CreditLogUncheckedUpdateWithoutJobInput = {
@@ -820,8 +1345,11 @@ export type CreditLogUncheckedUpdateWithoutJobInput = {
   amount?: Prisma.IntFieldUpdateOperationsInput | number
   type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -831,8 +1359,11 @@ export type CreditLogUncheckedUpdateManyWithoutJobInput = {
   amount?: Prisma.IntFieldUpdateOperationsInput | number
   type?: Prisma.EnumCreditTypeFieldUpdateOperationsInput | $Enums.CreditType
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refund_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -844,14 +1375,20 @@ export type CreditLogSelect<ExtArgs extends runtime.Types.Extensions.InternalArg
   amount?: boolean
   type?: boolean
   user_id?: boolean
+  organization_id?: boolean
   job_id?: boolean
   payment_id?: boolean
+  refund_id?: boolean
   description?: boolean
+  created_by?: boolean
   created_at?: boolean
   updated_at?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.CreditLog$createdByArgs<ExtArgs>
+  organization?: boolean | Prisma.CreditLog$organizationArgs<ExtArgs>
   job?: boolean | Prisma.CreditLog$jobArgs<ExtArgs>
   payment?: boolean | Prisma.CreditLog$paymentArgs<ExtArgs>
+  refund?: boolean | Prisma.CreditLog$refundArgs<ExtArgs>
 }, ExtArgs["result"]["creditLog"]>
 
 export type CreditLogSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -859,14 +1396,20 @@ export type CreditLogSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Ext
   amount?: boolean
   type?: boolean
   user_id?: boolean
+  organization_id?: boolean
   job_id?: boolean
   payment_id?: boolean
+  refund_id?: boolean
   description?: boolean
+  created_by?: boolean
   created_at?: boolean
   updated_at?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.CreditLog$createdByArgs<ExtArgs>
+  organization?: boolean | Prisma.CreditLog$organizationArgs<ExtArgs>
   job?: boolean | Prisma.CreditLog$jobArgs<ExtArgs>
   payment?: boolean | Prisma.CreditLog$paymentArgs<ExtArgs>
+  refund?: boolean | Prisma.CreditLog$refundArgs<ExtArgs>
 }, ExtArgs["result"]["creditLog"]>
 
 export type CreditLogSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -874,14 +1417,20 @@ export type CreditLogSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Ext
   amount?: boolean
   type?: boolean
   user_id?: boolean
+  organization_id?: boolean
   job_id?: boolean
   payment_id?: boolean
+  refund_id?: boolean
   description?: boolean
+  created_by?: boolean
   created_at?: boolean
   updated_at?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.CreditLog$createdByArgs<ExtArgs>
+  organization?: boolean | Prisma.CreditLog$organizationArgs<ExtArgs>
   job?: boolean | Prisma.CreditLog$jobArgs<ExtArgs>
   payment?: boolean | Prisma.CreditLog$paymentArgs<ExtArgs>
+  refund?: boolean | Prisma.CreditLog$refundArgs<ExtArgs>
 }, ExtArgs["result"]["creditLog"]>
 
 export type CreditLogSelectScalar = {
@@ -889,45 +1438,63 @@ export type CreditLogSelectScalar = {
   amount?: boolean
   type?: boolean
   user_id?: boolean
+  organization_id?: boolean
   job_id?: boolean
   payment_id?: boolean
+  refund_id?: boolean
   description?: boolean
+  created_by?: boolean
   created_at?: boolean
   updated_at?: boolean
 }
 
-export type CreditLogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "amount" | "type" | "user_id" | "job_id" | "payment_id" | "description" | "created_at" | "updated_at", ExtArgs["result"]["creditLog"]>
+export type CreditLogOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "amount" | "type" | "user_id" | "organization_id" | "job_id" | "payment_id" | "refund_id" | "description" | "created_by" | "created_at" | "updated_at", ExtArgs["result"]["creditLog"]>
 export type CreditLogInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.CreditLog$createdByArgs<ExtArgs>
+  organization?: boolean | Prisma.CreditLog$organizationArgs<ExtArgs>
   job?: boolean | Prisma.CreditLog$jobArgs<ExtArgs>
   payment?: boolean | Prisma.CreditLog$paymentArgs<ExtArgs>
+  refund?: boolean | Prisma.CreditLog$refundArgs<ExtArgs>
 }
 export type CreditLogIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.CreditLog$createdByArgs<ExtArgs>
+  organization?: boolean | Prisma.CreditLog$organizationArgs<ExtArgs>
   job?: boolean | Prisma.CreditLog$jobArgs<ExtArgs>
   payment?: boolean | Prisma.CreditLog$paymentArgs<ExtArgs>
+  refund?: boolean | Prisma.CreditLog$refundArgs<ExtArgs>
 }
 export type CreditLogIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.CreditLog$createdByArgs<ExtArgs>
+  organization?: boolean | Prisma.CreditLog$organizationArgs<ExtArgs>
   job?: boolean | Prisma.CreditLog$jobArgs<ExtArgs>
   payment?: boolean | Prisma.CreditLog$paymentArgs<ExtArgs>
+  refund?: boolean | Prisma.CreditLog$refundArgs<ExtArgs>
 }
 
 export type $CreditLogPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "CreditLog"
   objects: {
     user: Prisma.$UserPayload<ExtArgs>
+    createdBy: Prisma.$UserPayload<ExtArgs> | null
+    organization: Prisma.$OrganizationPayload<ExtArgs> | null
     job: Prisma.$JobPayload<ExtArgs> | null
     payment: Prisma.$PaymentPayload<ExtArgs> | null
+    refund: Prisma.$PaymentRefundPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     amount: number
     type: $Enums.CreditType
     user_id: string
+    organization_id: string | null
     job_id: string | null
     payment_id: string | null
+    refund_id: string | null
     description: string | null
+    created_by: string | null
     created_at: Date
     updated_at: Date
   }, ExtArgs["result"]["creditLog"]>
@@ -1325,8 +1892,11 @@ readonly fields: CreditLogFieldRefs;
 export interface Prisma__CreditLogClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  createdBy<T extends Prisma.CreditLog$createdByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CreditLog$createdByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  organization<T extends Prisma.CreditLog$organizationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CreditLog$organizationArgs<ExtArgs>>): Prisma.Prisma__OrganizationClient<runtime.Types.Result.GetResult<Prisma.$OrganizationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   job<T extends Prisma.CreditLog$jobArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CreditLog$jobArgs<ExtArgs>>): Prisma.Prisma__JobClient<runtime.Types.Result.GetResult<Prisma.$JobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   payment<T extends Prisma.CreditLog$paymentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CreditLog$paymentArgs<ExtArgs>>): Prisma.Prisma__PaymentClient<runtime.Types.Result.GetResult<Prisma.$PaymentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  refund<T extends Prisma.CreditLog$refundArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CreditLog$refundArgs<ExtArgs>>): Prisma.Prisma__PaymentRefundClient<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1360,9 +1930,12 @@ export interface CreditLogFieldRefs {
   readonly amount: Prisma.FieldRef<"CreditLog", 'Int'>
   readonly type: Prisma.FieldRef<"CreditLog", 'CreditType'>
   readonly user_id: Prisma.FieldRef<"CreditLog", 'String'>
+  readonly organization_id: Prisma.FieldRef<"CreditLog", 'String'>
   readonly job_id: Prisma.FieldRef<"CreditLog", 'String'>
   readonly payment_id: Prisma.FieldRef<"CreditLog", 'String'>
+  readonly refund_id: Prisma.FieldRef<"CreditLog", 'String'>
   readonly description: Prisma.FieldRef<"CreditLog", 'String'>
+  readonly created_by: Prisma.FieldRef<"CreditLog", 'String'>
   readonly created_at: Prisma.FieldRef<"CreditLog", 'DateTime'>
   readonly updated_at: Prisma.FieldRef<"CreditLog", 'DateTime'>
 }
@@ -1760,6 +2333,44 @@ export type CreditLogDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Int
   limit?: number
 }
 
+/**
+ * CreditLog.createdBy
+ */
+export type CreditLog$createdByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * CreditLog.organization
+ */
+export type CreditLog$organizationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Organization
+   */
+  select?: Prisma.OrganizationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Organization
+   */
+  omit?: Prisma.OrganizationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrganizationInclude<ExtArgs> | null
+  where?: Prisma.OrganizationWhereInput
+}
+
 /**
  * CreditLog.job
  */
@@ -1798,6 +2409,25 @@ export type CreditLog$paymentArgs<ExtArgs extends runtime.Types.Extensions.Inter
   where?: Prisma.PaymentWhereInput
 }
 
+/**
+ * CreditLog.refund
+ */
+export type CreditLog$refundArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  where?: Prisma.PaymentRefundWhereInput
+}
+
 /**
  * CreditLog without action
  */
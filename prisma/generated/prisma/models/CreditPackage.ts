@@ -29,11 +29,13 @@ export type AggregateCreditPackage = {
 export type CreditPackageAvgAggregateOutputType = {
   credits: number | null
   price: number | null
+  sort_order: number | null
 }
 
 export type CreditPackageSumAggregateOutputType = {
   credits: number | null
   price: number | null
+  sort_order: number | null
 }
 
 export type CreditPackageMinAggregateOutputType = {
@@ -44,6 +46,7 @@ export type CreditPackageMinAggregateOutputType = {
   price: number | null
   is_active: boolean | null
   is_recommended: boolean | null
+  sort_order: number | null
   created_at: Date | null
   updated_at: Date | null
 }
@@ -56,6 +59,7 @@ export type CreditPackageMaxAggregateOutputType = {
   price: number | null
   is_active: boolean | null
   is_recommended: boolean | null
+  sort_order: number | null
   created_at: Date | null
   updated_at: Date | null
 }
@@ -68,6 +72,7 @@ export type CreditPackageCountAggregateOutputType = {
   price: number
   is_active: number
   is_recommended: number
+  sort_order: number
   created_at: number
   updated_at: number
   _all: number
@@ -77,11 +82,13 @@ export type CreditPackageCountAggregateOutputType = {
 export type CreditPackageAvgAggregateInputType = {
   credits?: true
   price?: true
+  sort_order?: true
 }
 
 export type CreditPackageSumAggregateInputType = {
   credits?: true
   price?: true
+  sort_order?: true
 }
 
 export type CreditPackageMinAggregateInputType = {
@@ -92,6 +99,7 @@ export type CreditPackageMinAggregateInputType = {
   price?: true
   is_active?: true
   is_recommended?: true
+  sort_order?: true
   created_at?: true
   updated_at?: true
 }
@@ -104,6 +112,7 @@ export type CreditPackageMaxAggregateInputType = {
   price?: true
   is_active?: true
   is_recommended?: true
+  sort_order?: true
   created_at?: true
   updated_at?: true
 }
@@ -116,6 +125,7 @@ export type CreditPackageCountAggregateInputType = {
   price?: true
   is_active?: true
   is_recommended?: true
+  sort_order?: true
   created_at?: true
   updated_at?: true
   _all?: true
@@ -215,6 +225,7 @@ export type CreditPackageGroupByOutputType = {
   price: number
   is_active: boolean
   is_recommended: boolean
+  sort_order: number
   created_at: Date
   updated_at: Date
   _count: CreditPackageCountAggregateOutputType | null
@@ -250,6 +261,7 @@ export type CreditPackageWhereInput = {
   price?: Prisma.FloatFilter<"CreditPackage"> | number
   is_active?: Prisma.BoolFilter<"CreditPackage"> | boolean
   is_recommended?: Prisma.BoolFilter<"CreditPackage"> | boolean
+  sort_order?: Prisma.IntFilter<"CreditPackage"> | number
   created_at?: Prisma.DateTimeFilter<"CreditPackage"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"CreditPackage"> | Date | string
   benefits?: Prisma.PackageBenefitListRelationFilter
@@ -264,6 +276,7 @@ export type CreditPackageOrderByWithRelationInput = {
   price?: Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_recommended?: Prisma.SortOrder
+  sort_order?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
   benefits?: Prisma.PackageBenefitOrderByRelationAggregateInput
@@ -281,6 +294,7 @@ export type CreditPackageWhereUniqueInput = Prisma.AtLeast<{
   price?: Prisma.FloatFilter<"CreditPackage"> | number
   is_active?: Prisma.BoolFilter<"CreditPackage"> | boolean
   is_recommended?: Prisma.BoolFilter<"CreditPackage"> | boolean
+  sort_order?: Prisma.IntFilter<"CreditPackage"> | number
   created_at?: Prisma.DateTimeFilter<"CreditPackage"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"CreditPackage"> | Date | string
   benefits?: Prisma.PackageBenefitListRelationFilter
@@ -295,6 +309,7 @@ export type CreditPackageOrderByWithAggregationInput = {
   price?: Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_recommended?: Prisma.SortOrder
+  sort_order?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
   _count?: Prisma.CreditPackageCountOrderByAggregateInput
@@ -315,6 +330,7 @@ export type CreditPackageScalarWhereWithAggregatesInput = {
   price?: Prisma.FloatWithAggregatesFilter<"CreditPackage"> | number
   is_active?: Prisma.BoolWithAggregatesFilter<"CreditPackage"> | boolean
   is_recommended?: Prisma.BoolWithAggregatesFilter<"CreditPackage"> | boolean
+  sort_order?: Prisma.IntWithAggregatesFilter<"CreditPackage"> | number
   created_at?: Prisma.DateTimeWithAggregatesFilter<"CreditPackage"> | Date | string
   updated_at?: Prisma.DateTimeWithAggregatesFilter<"CreditPackage"> | Date | string
 }
@@ -327,6 +343,7 @@ export type CreditPackageCreateInput = {
   price: number
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: number
   created_at?: Date | string
   updated_at?: Date | string
   benefits?: Prisma.PackageBenefitCreateNestedManyWithoutCreditPackageInput
@@ -341,6 +358,7 @@ export type CreditPackageUncheckedCreateInput = {
   price: number
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: number
   created_at?: Date | string
   updated_at?: Date | string
   benefits?: Prisma.PackageBenefitUncheckedCreateNestedManyWithoutCreditPackageInput
@@ -355,6 +373,7 @@ export type CreditPackageUpdateInput = {
   price?: Prisma.FloatFieldUpdateOperationsInput | number
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_recommended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sort_order?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   benefits?: Prisma.PackageBenefitUpdateManyWithoutCreditPackageNestedInput
@@ -369,6 +388,7 @@ export type CreditPackageUncheckedUpdateInput = {
   price?: Prisma.FloatFieldUpdateOperationsInput | number
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_recommended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sort_order?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   benefits?: Prisma.PackageBenefitUncheckedUpdateManyWithoutCreditPackageNestedInput
@@ -383,6 +403,7 @@ export type CreditPackageCreateManyInput = {
   price: number
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: number
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -395,6 +416,7 @@ export type CreditPackageUpdateManyMutationInput = {
   price?: Prisma.FloatFieldUpdateOperationsInput | number
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_recommended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sort_order?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -407,6 +429,7 @@ export type CreditPackageUncheckedUpdateManyInput = {
   price?: Prisma.FloatFieldUpdateOperationsInput | number
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_recommended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sort_order?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -424,6 +447,7 @@ export type CreditPackageCountOrderByAggregateInput = {
   price?: Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_recommended?: Prisma.SortOrder
+  sort_order?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -431,6 +455,7 @@ export type CreditPackageCountOrderByAggregateInput = {
 export type CreditPackageAvgOrderByAggregateInput = {
   credits?: Prisma.SortOrder
   price?: Prisma.SortOrder
+  sort_order?: Prisma.SortOrder
 }
 
 export type CreditPackageMaxOrderByAggregateInput = {
@@ -441,6 +466,7 @@ export type CreditPackageMaxOrderByAggregateInput = {
   price?: Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_recommended?: Prisma.SortOrder
+  sort_order?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -453,6 +479,7 @@ export type CreditPackageMinOrderByAggregateInput = {
   price?: Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_recommended?: Prisma.SortOrder
+  sort_order?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -460,6 +487,7 @@ export type CreditPackageMinOrderByAggregateInput = {
 export type CreditPackageSumOrderByAggregateInput = {
   credits?: Prisma.SortOrder
   price?: Prisma.SortOrder
+  sort_order?: Prisma.SortOrder
 }
 
 export type CreditPackageCreateNestedOneWithoutBenefitsInput = {
@@ -510,6 +538,7 @@ export type CreditPackageCreateWithoutBenefitsInput = {
   price: number
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: number
   created_at?: Date | string
   updated_at?: Date | string
   payments?: Prisma.PaymentCreateNestedManyWithoutPackageInput
@@ -523,6 +552,7 @@ export type CreditPackageUncheckedCreateWithoutBenefitsInput = {
   price: number
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: number
   created_at?: Date | string
   updated_at?: Date | string
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPackageInput
@@ -552,6 +582,7 @@ export type CreditPackageUpdateWithoutBenefitsInput = {
   price?: Prisma.FloatFieldUpdateOperationsInput | number
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_recommended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sort_order?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payments?: Prisma.PaymentUpdateManyWithoutPackageNestedInput
@@ -565,6 +596,7 @@ export type CreditPackageUncheckedUpdateWithoutBenefitsInput = {
   price?: Prisma.FloatFieldUpdateOperationsInput | number
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_recommended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sort_order?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPackageNestedInput
@@ -578,6 +610,7 @@ export type CreditPackageCreateWithoutPaymentsInput = {
   price: number
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: number
   created_at?: Date | string
   updated_at?: Date | string
   benefits?: Prisma.PackageBenefitCreateNestedManyWithoutCreditPackageInput
@@ -591,6 +624,7 @@ export type CreditPackageUncheckedCreateWithoutPaymentsInput = {
   price: number
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: number
   created_at?: Date | string
   updated_at?: Date | string
   benefits?: Prisma.PackageBenefitUncheckedCreateNestedManyWithoutCreditPackageInput
@@ -620,6 +654,7 @@ export type CreditPackageUpdateWithoutPaymentsInput = {
   price?: Prisma.FloatFieldUpdateOperationsInput | number
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_recommended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sort_order?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   benefits?: Prisma.PackageBenefitUpdateManyWithoutCreditPackageNestedInput
@@ -633,6 +668,7 @@ export type CreditPackageUncheckedUpdateWithoutPaymentsInput = {
   price?: Prisma.FloatFieldUpdateOperationsInput | number
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_recommended?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  sort_order?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   benefits?: Prisma.PackageBenefitUncheckedUpdateManyWithoutCreditPackageNestedInput
@@ -686,6 +722,7 @@ export type CreditPackageSelect<ExtArgs extends runtime.Types.Extensions.Interna
   price?: boolean
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: boolean
   created_at?: boolean
   updated_at?: boolean
   benefits?: boolean | Prisma.CreditPackage$benefitsArgs<ExtArgs>
@@ -701,6 +738,7 @@ export type CreditPackageSelectCreateManyAndReturn<ExtArgs extends runtime.Types
   price?: boolean
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: boolean
   created_at?: boolean
   updated_at?: boolean
 }, ExtArgs["result"]["creditPackage"]>
@@ -713,6 +751,7 @@ export type CreditPackageSelectUpdateManyAndReturn<ExtArgs extends runtime.Types
   price?: boolean
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: boolean
   created_at?: boolean
   updated_at?: boolean
 }, ExtArgs["result"]["creditPackage"]>
@@ -725,11 +764,12 @@ export type CreditPackageSelectScalar = {
   price?: boolean
   is_active?: boolean
   is_recommended?: boolean
+  sort_order?: boolean
   created_at?: boolean
   updated_at?: boolean
 }
 
-export type CreditPackageOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "description" | "credits" | "price" | "is_active" | "is_recommended" | "created_at" | "updated_at", ExtArgs["result"]["creditPackage"]>
+export type CreditPackageOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "description" | "credits" | "price" | "is_active" | "is_recommended" | "sort_order" | "created_at" | "updated_at", ExtArgs["result"]["creditPackage"]>
 export type CreditPackageInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   benefits?: boolean | Prisma.CreditPackage$benefitsArgs<ExtArgs>
   payments?: boolean | Prisma.CreditPackage$paymentsArgs<ExtArgs>
@@ -752,6 +792,7 @@ export type $CreditPackagePayload<ExtArgs extends runtime.Types.Extensions.Inter
     price: number
     is_active: boolean
     is_recommended: boolean
+    sort_order: number
     created_at: Date
     updated_at: Date
   }, ExtArgs["result"]["creditPackage"]>
@@ -1186,6 +1227,7 @@ export interface CreditPackageFieldRefs {
   readonly price: Prisma.FieldRef<"CreditPackage", 'Float'>
   readonly is_active: Prisma.FieldRef<"CreditPackage", 'Boolean'>
   readonly is_recommended: Prisma.FieldRef<"CreditPackage", 'Boolean'>
+  readonly sort_order: Prisma.FieldRef<"CreditPackage", 'Int'>
   readonly created_at: Prisma.FieldRef<"CreditPackage", 'DateTime'>
   readonly updated_at: Prisma.FieldRef<"CreditPackage", 'DateTime'>
 }
@@ -0,0 +1,1665 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Impersonation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Impersonation
+ * 
+ */
+export type ImpersonationModel = runtime.Types.Result.DefaultSelection<Prisma.$ImpersonationPayload>
+
+export type AggregateImpersonation = {
+  _count: ImpersonationCountAggregateOutputType | null
+  _min: ImpersonationMinAggregateOutputType | null
+  _max: ImpersonationMaxAggregateOutputType | null
+}
+
+export type ImpersonationMinAggregateOutputType = {
+  id: string | null
+  admin_id: string | null
+  user_id: string | null
+  reason: string | null
+  ip_address: string | null
+  user_agent: string | null
+  expires_at: Date | null
+  ended_at: Date | null
+  created_at: Date | null
+  updated_at: Date | null
+}
+
+export type ImpersonationMaxAggregateOutputType = {
+  id: string | null
+  admin_id: string | null
+  user_id: string | null
+  reason: string | null
+  ip_address: string | null
+  user_agent: string | null
+  expires_at: Date | null
+  ended_at: Date | null
+  created_at: Date | null
+  updated_at: Date | null
+}
+
+export type ImpersonationCountAggregateOutputType = {
+  id: number
+  admin_id: number
+  user_id: number
+  reason: number
+  ip_address: number
+  user_agent: number
+  expires_at: number
+  ended_at: number
+  created_at: number
+  updated_at: number
+  _all: number
+}
+
+
+export type ImpersonationMinAggregateInputType = {
+  id?: true
+  admin_id?: true
+  user_id?: true
+  reason?: true
+  ip_address?: true
+  user_agent?: true
+  expires_at?: true
+  ended_at?: true
+  created_at?: true
+  updated_at?: true
+}
+
+export type ImpersonationMaxAggregateInputType = {
+  id?: true
+  admin_id?: true
+  user_id?: true
+  reason?: true
+  ip_address?: true
+  user_agent?: true
+  expires_at?: true
+  ended_at?: true
+  created_at?: true
+  updated_at?: true
+}
+
+export type ImpersonationCountAggregateInputType = {
+  id?: true
+  admin_id?: true
+  user_id?: true
+  reason?: true
+  ip_address?: true
+  user_agent?: true
+  expires_at?: true
+  ended_at?: true
+  created_at?: true
+  updated_at?: true
+  _all?: true
+}
+
+export type ImpersonationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Impersonation to aggregate.
+   */
+  where?: Prisma.ImpersonationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Impersonations to fetch.
+   */
+  orderBy?: Prisma.ImpersonationOrderByWithRelationInput | Prisma.ImpersonationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ImpersonationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Impersonations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Impersonations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Impersonations
+  **/
+  _count?: true | ImpersonationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ImpersonationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ImpersonationMaxAggregateInputType
+}
+
+export type GetImpersonationAggregateType<T extends ImpersonationAggregateArgs> = {
+      [P in keyof T & keyof AggregateImpersonation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateImpersonation[P]>
+    : Prisma.GetScalarType<T[P], AggregateImpersonation[P]>
+}
+
+
+
+
+export type ImpersonationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ImpersonationWhereInput
+  orderBy?: Prisma.ImpersonationOrderByWithAggregationInput | Prisma.ImpersonationOrderByWithAggregationInput[]
+  by: Prisma.ImpersonationScalarFieldEnum[] | Prisma.ImpersonationScalarFieldEnum
+  having?: Prisma.ImpersonationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ImpersonationCountAggregateInputType | true
+  _min?: ImpersonationMinAggregateInputType
+  _max?: ImpersonationMaxAggregateInputType
+}
+
+export type ImpersonationGroupByOutputType = {
+  id: string
+  admin_id: string
+  user_id: string
+  reason: string
+  ip_address: string | null
+  user_agent: string | null
+  expires_at: Date
+  ended_at: Date | null
+  created_at: Date
+  updated_at: Date
+  _count: ImpersonationCountAggregateOutputType | null
+  _min: ImpersonationMinAggregateOutputType | null
+  _max: ImpersonationMaxAggregateOutputType | null
+}
+
+type GetImpersonationGroupByPayload<T extends ImpersonationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ImpersonationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ImpersonationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ImpersonationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ImpersonationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ImpersonationWhereInput = {
+  AND?: Prisma.ImpersonationWhereInput | Prisma.ImpersonationWhereInput[]
+  OR?: Prisma.ImpersonationWhereInput[]
+  NOT?: Prisma.ImpersonationWhereInput | Prisma.ImpersonationWhereInput[]
+  id?: Prisma.StringFilter<"Impersonation"> | string
+  admin_id?: Prisma.StringFilter<"Impersonation"> | string
+  user_id?: Prisma.StringFilter<"Impersonation"> | string
+  reason?: Prisma.StringFilter<"Impersonation"> | string
+  ip_address?: Prisma.StringNullableFilter<"Impersonation"> | string | null
+  user_agent?: Prisma.StringNullableFilter<"Impersonation"> | string | null
+  expires_at?: Prisma.DateTimeFilter<"Impersonation"> | Date | string
+  ended_at?: Prisma.DateTimeNullableFilter<"Impersonation"> | Date | string | null
+  created_at?: Prisma.DateTimeFilter<"Impersonation"> | Date | string
+  updated_at?: Prisma.DateTimeFilter<"Impersonation"> | Date | string
+  admin?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type ImpersonationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  admin_id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  ip_address?: Prisma.SortOrderInput | Prisma.SortOrder
+  user_agent?: Prisma.SortOrderInput | Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  ended_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+  admin?: Prisma.UserOrderByWithRelationInput
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ImpersonationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ImpersonationWhereInput | Prisma.ImpersonationWhereInput[]
+  OR?: Prisma.ImpersonationWhereInput[]
+  NOT?: Prisma.ImpersonationWhereInput | Prisma.ImpersonationWhereInput[]
+  admin_id?: Prisma.StringFilter<"Impersonation"> | string
+  user_id?: Prisma.StringFilter<"Impersonation"> | string
+  reason?: Prisma.StringFilter<"Impersonation"> | string
+  ip_address?: Prisma.StringNullableFilter<"Impersonation"> | string | null
+  user_agent?: Prisma.StringNullableFilter<"Impersonation"> | string | null
+  expires_at?: Prisma.DateTimeFilter<"Impersonation"> | Date | string
+  ended_at?: Prisma.DateTimeNullableFilter<"Impersonation"> | Date | string | null
+  created_at?: Prisma.DateTimeFilter<"Impersonation"> | Date | string
+  updated_at?: Prisma.DateTimeFilter<"Impersonation"> | Date | string
+  admin?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id">
+
+export type ImpersonationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  admin_id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  ip_address?: Prisma.SortOrderInput | Prisma.SortOrder
+  user_agent?: Prisma.SortOrderInput | Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  ended_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+  _count?: Prisma.ImpersonationCountOrderByAggregateInput
+  _max?: Prisma.ImpersonationMaxOrderByAggregateInput
+  _min?: Prisma.ImpersonationMinOrderByAggregateInput
+}
+
+export type ImpersonationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ImpersonationScalarWhereWithAggregatesInput | Prisma.ImpersonationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ImpersonationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ImpersonationScalarWhereWithAggregatesInput | Prisma.ImpersonationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Impersonation"> | string
+  admin_id?: Prisma.StringWithAggregatesFilter<"Impersonation"> | string
+  user_id?: Prisma.StringWithAggregatesFilter<"Impersonation"> | string
+  reason?: Prisma.StringWithAggregatesFilter<"Impersonation"> | string
+  ip_address?: Prisma.StringNullableWithAggregatesFilter<"Impersonation"> | string | null
+  user_agent?: Prisma.StringNullableWithAggregatesFilter<"Impersonation"> | string | null
+  expires_at?: Prisma.DateTimeWithAggregatesFilter<"Impersonation"> | Date | string
+  ended_at?: Prisma.DateTimeNullableWithAggregatesFilter<"Impersonation"> | Date | string | null
+  created_at?: Prisma.DateTimeWithAggregatesFilter<"Impersonation"> | Date | string
+  updated_at?: Prisma.DateTimeWithAggregatesFilter<"Impersonation"> | Date | string
+}
+
+export type ImpersonationCreateInput = {
+  id?: string
+  reason: string
+  ip_address?: string | null
+  user_agent?: string | null
+  expires_at: Date | string
+  ended_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  admin: Prisma.UserCreateNestedOneWithoutImpersonationsInput
+  user: Prisma.UserCreateNestedOneWithoutImpersonatedByInput
+}
+
+export type ImpersonationUncheckedCreateInput = {
+  id?: string
+  admin_id: string
+  user_id: string
+  reason: string
+  ip_address?: string | null
+  user_agent?: string | null
+  expires_at: Date | string
+  ended_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ImpersonationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  admin?: Prisma.UserUpdateOneRequiredWithoutImpersonationsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutImpersonatedByNestedInput
+}
+
+export type ImpersonationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  admin_id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ImpersonationCreateManyInput = {
+  id?: string
+  admin_id: string
+  user_id: string
+  reason: string
+  ip_address?: string | null
+  user_agent?: string | null
+  expires_at: Date | string
+  ended_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ImpersonationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ImpersonationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  admin_id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ImpersonationListRelationFilter = {
+  every?: Prisma.ImpersonationWhereInput
+  some?: Prisma.ImpersonationWhereInput
+  none?: Prisma.ImpersonationWhereInput
+}
+
+export type ImpersonationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ImpersonationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  admin_id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  ip_address?: Prisma.SortOrder
+  user_agent?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  ended_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+}
+
+export type ImpersonationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  admin_id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  ip_address?: Prisma.SortOrder
+  user_agent?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  ended_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+}
+
+export type ImpersonationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  admin_id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  ip_address?: Prisma.SortOrder
+  user_agent?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  ended_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+}
+
+export type ImpersonationCreateNestedManyWithoutAdminInput = {
+  create?: Prisma.XOR<Prisma.ImpersonationCreateWithoutAdminInput, Prisma.ImpersonationUncheckedCreateWithoutAdminInput> | Prisma.ImpersonationCreateWithoutAdminInput[] | Prisma.ImpersonationUncheckedCreateWithoutAdminInput[]
+  connectOrCreate?: Prisma.ImpersonationCreateOrConnectWithoutAdminInput | Prisma.ImpersonationCreateOrConnectWithoutAdminInput[]
+  createMany?: Prisma.ImpersonationCreateManyAdminInputEnvelope
+  connect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+}
+
+export type ImpersonationCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ImpersonationCreateWithoutUserInput, Prisma.ImpersonationUncheckedCreateWithoutUserInput> | Prisma.ImpersonationCreateWithoutUserInput[] | Prisma.ImpersonationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ImpersonationCreateOrConnectWithoutUserInput | Prisma.ImpersonationCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ImpersonationCreateManyUserInputEnvelope
+  connect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+}
+
+export type ImpersonationUncheckedCreateNestedManyWithoutAdminInput = {
+  create?: Prisma.XOR<Prisma.ImpersonationCreateWithoutAdminInput, Prisma.ImpersonationUncheckedCreateWithoutAdminInput> | Prisma.ImpersonationCreateWithoutAdminInput[] | Prisma.ImpersonationUncheckedCreateWithoutAdminInput[]
+  connectOrCreate?: Prisma.ImpersonationCreateOrConnectWithoutAdminInput | Prisma.ImpersonationCreateOrConnectWithoutAdminInput[]
+  createMany?: Prisma.ImpersonationCreateManyAdminInputEnvelope
+  connect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+}
+
+export type ImpersonationUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ImpersonationCreateWithoutUserInput, Prisma.ImpersonationUncheckedCreateWithoutUserInput> | Prisma.ImpersonationCreateWithoutUserInput[] | Prisma.ImpersonationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ImpersonationCreateOrConnectWithoutUserInput | Prisma.ImpersonationCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ImpersonationCreateManyUserInputEnvelope
+  connect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+}
+
+export type ImpersonationUpdateManyWithoutAdminNestedInput = {
+  create?: Prisma.XOR<Prisma.ImpersonationCreateWithoutAdminInput, Prisma.ImpersonationUncheckedCreateWithoutAdminInput> | Prisma.ImpersonationCreateWithoutAdminInput[] | Prisma.ImpersonationUncheckedCreateWithoutAdminInput[]
+  connectOrCreate?: Prisma.ImpersonationCreateOrConnectWithoutAdminInput | Prisma.ImpersonationCreateOrConnectWithoutAdminInput[]
+  upsert?: Prisma.ImpersonationUpsertWithWhereUniqueWithoutAdminInput | Prisma.ImpersonationUpsertWithWhereUniqueWithoutAdminInput[]
+  createMany?: Prisma.ImpersonationCreateManyAdminInputEnvelope
+  set?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  disconnect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  delete?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  connect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  update?: Prisma.ImpersonationUpdateWithWhereUniqueWithoutAdminInput | Prisma.ImpersonationUpdateWithWhereUniqueWithoutAdminInput[]
+  updateMany?: Prisma.ImpersonationUpdateManyWithWhereWithoutAdminInput | Prisma.ImpersonationUpdateManyWithWhereWithoutAdminInput[]
+  deleteMany?: Prisma.ImpersonationScalarWhereInput | Prisma.ImpersonationScalarWhereInput[]
+}
+
+export type ImpersonationUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ImpersonationCreateWithoutUserInput, Prisma.ImpersonationUncheckedCreateWithoutUserInput> | Prisma.ImpersonationCreateWithoutUserInput[] | Prisma.ImpersonationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ImpersonationCreateOrConnectWithoutUserInput | Prisma.ImpersonationCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ImpersonationUpsertWithWhereUniqueWithoutUserInput | Prisma.ImpersonationUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ImpersonationCreateManyUserInputEnvelope
+  set?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  disconnect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  delete?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  connect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  update?: Prisma.ImpersonationUpdateWithWhereUniqueWithoutUserInput | Prisma.ImpersonationUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ImpersonationUpdateManyWithWhereWithoutUserInput | Prisma.ImpersonationUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ImpersonationScalarWhereInput | Prisma.ImpersonationScalarWhereInput[]
+}
+
+export type ImpersonationUncheckedUpdateManyWithoutAdminNestedInput = {
+  create?: Prisma.XOR<Prisma.ImpersonationCreateWithoutAdminInput, Prisma.ImpersonationUncheckedCreateWithoutAdminInput> | Prisma.ImpersonationCreateWithoutAdminInput[] | Prisma.ImpersonationUncheckedCreateWithoutAdminInput[]
+  connectOrCreate?: Prisma.ImpersonationCreateOrConnectWithoutAdminInput | Prisma.ImpersonationCreateOrConnectWithoutAdminInput[]
+  upsert?: Prisma.ImpersonationUpsertWithWhereUniqueWithoutAdminInput | Prisma.ImpersonationUpsertWithWhereUniqueWithoutAdminInput[]
+  createMany?: Prisma.ImpersonationCreateManyAdminInputEnvelope
+  set?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  disconnect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  delete?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  connect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  update?: Prisma.ImpersonationUpdateWithWhereUniqueWithoutAdminInput | Prisma.ImpersonationUpdateWithWhereUniqueWithoutAdminInput[]
+  updateMany?: Prisma.ImpersonationUpdateManyWithWhereWithoutAdminInput | Prisma.ImpersonationUpdateManyWithWhereWithoutAdminInput[]
+  deleteMany?: Prisma.ImpersonationScalarWhereInput | Prisma.ImpersonationScalarWhereInput[]
+}
+
+export type ImpersonationUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ImpersonationCreateWithoutUserInput, Prisma.ImpersonationUncheckedCreateWithoutUserInput> | Prisma.ImpersonationCreateWithoutUserInput[] | Prisma.ImpersonationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ImpersonationCreateOrConnectWithoutUserInput | Prisma.ImpersonationCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ImpersonationUpsertWithWhereUniqueWithoutUserInput | Prisma.ImpersonationUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ImpersonationCreateManyUserInputEnvelope
+  set?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  disconnect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  delete?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  connect?: Prisma.ImpersonationWhereUniqueInput | Prisma.ImpersonationWhereUniqueInput[]
+  update?: Prisma.ImpersonationUpdateWithWhereUniqueWithoutUserInput | Prisma.ImpersonationUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ImpersonationUpdateManyWithWhereWithoutUserInput | Prisma.ImpersonationUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ImpersonationScalarWhereInput | Prisma.ImpersonationScalarWhereInput[]
+}
+
+export type ImpersonationCreateWithoutAdminInput = {
+  id?: string
+  reason: string
+  ip_address?: string | null
+  user_agent?: string | null
+  expires_at: Date | string
+  ended_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutImpersonatedByInput
+}
+
+export type ImpersonationUncheckedCreateWithoutAdminInput = {
+  id?: string
+  user_id: string
+  reason: string
+  ip_address?: string | null
+  user_agent?: string | null
+  expires_at: Date | string
+  ended_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ImpersonationCreateOrConnectWithoutAdminInput = {
+  where: Prisma.ImpersonationWhereUniqueInput
+  create: Prisma.XOR<Prisma.ImpersonationCreateWithoutAdminInput, Prisma.ImpersonationUncheckedCreateWithoutAdminInput>
+}
+
+export type ImpersonationCreateManyAdminInputEnvelope = {
+  data: Prisma.ImpersonationCreateManyAdminInput | Prisma.ImpersonationCreateManyAdminInput[]
+  skipDuplicates?: boolean
+}
+
+export type ImpersonationCreateWithoutUserInput = {
+  id?: string
+  reason: string
+  ip_address?: string | null
+  user_agent?: string | null
+  expires_at: Date | string
+  ended_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  admin: Prisma.UserCreateNestedOneWithoutImpersonationsInput
+}
+
+export type ImpersonationUncheckedCreateWithoutUserInput = {
+  id?: string
+  admin_id: string
+  reason: string
+  ip_address?: string | null
+  user_agent?: string | null
+  expires_at: Date | string
+  ended_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ImpersonationCreateOrConnectWithoutUserInput = {
+  where: Prisma.ImpersonationWhereUniqueInput
+  create: Prisma.XOR<Prisma.ImpersonationCreateWithoutUserInput, Prisma.ImpersonationUncheckedCreateWithoutUserInput>
+}
+
+export type ImpersonationCreateManyUserInputEnvelope = {
+  data: Prisma.ImpersonationCreateManyUserInput | Prisma.ImpersonationCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ImpersonationUpsertWithWhereUniqueWithoutAdminInput = {
+  where: Prisma.ImpersonationWhereUniqueInput
+  update: Prisma.XOR<Prisma.ImpersonationUpdateWithoutAdminInput, Prisma.ImpersonationUncheckedUpdateWithoutAdminInput>
+  create: Prisma.XOR<Prisma.ImpersonationCreateWithoutAdminInput, Prisma.ImpersonationUncheckedCreateWithoutAdminInput>
+}
+
+export type ImpersonationUpdateWithWhereUniqueWithoutAdminInput = {
+  where: Prisma.ImpersonationWhereUniqueInput
+  data: Prisma.XOR<Prisma.ImpersonationUpdateWithoutAdminInput, Prisma.ImpersonationUncheckedUpdateWithoutAdminInput>
+}
+
+export type ImpersonationUpdateManyWithWhereWithoutAdminInput = {
+  where: Prisma.ImpersonationScalarWhereInput
+  data: Prisma.XOR<Prisma.ImpersonationUpdateManyMutationInput, Prisma.ImpersonationUncheckedUpdateManyWithoutAdminInput>
+}
+
+export type ImpersonationScalarWhereInput = {
+  AND?: Prisma.ImpersonationScalarWhereInput | Prisma.ImpersonationScalarWhereInput[]
+  OR?: Prisma.ImpersonationScalarWhereInput[]
+  NOT?: Prisma.ImpersonationScalarWhereInput | Prisma.ImpersonationScalarWhereInput[]
+  id?: Prisma.StringFilter<"Impersonation"> | string
+  admin_id?: Prisma.StringFilter<"Impersonation"> | string
+  user_id?: Prisma.StringFilter<"Impersonation"> | string
+  reason?: Prisma.StringFilter<"Impersonation"> | string
+  ip_address?: Prisma.StringNullableFilter<"Impersonation"> | string | null
+  user_agent?: Prisma.StringNullableFilter<"Impersonation"> | string | null
+  expires_at?: Prisma.DateTimeFilter<"Impersonation"> | Date | string
+  ended_at?: Prisma.DateTimeNullableFilter<"Impersonation"> | Date | string | null
+  created_at?: Prisma.DateTimeFilter<"Impersonation"> | Date | string
+  updated_at?: Prisma.DateTimeFilter<"Impersonation"> | Date | string
+}
+
+export type ImpersonationUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ImpersonationWhereUniqueInput
+  update: Prisma.XOR<Prisma.ImpersonationUpdateWithoutUserInput, Prisma.ImpersonationUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ImpersonationCreateWithoutUserInput, Prisma.ImpersonationUncheckedCreateWithoutUserInput>
+}
+
+export type ImpersonationUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ImpersonationWhereUniqueInput
+  data: Prisma.XOR<Prisma.ImpersonationUpdateWithoutUserInput, Prisma.ImpersonationUncheckedUpdateWithoutUserInput>
+}
+
+export type ImpersonationUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ImpersonationScalarWhereInput
+  data: Prisma.XOR<Prisma.ImpersonationUpdateManyMutationInput, Prisma.ImpersonationUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ImpersonationCreateManyAdminInput = {
+  id?: string
+  user_id: string
+  reason: string
+  ip_address?: string | null
+  user_agent?: string | null
+  expires_at: Date | string
+  ended_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ImpersonationCreateManyUserInput = {
+  id?: string
+  admin_id: string
+  reason: string
+  ip_address?: string | null
+  user_agent?: string | null
+  expires_at: Date | string
+  ended_at?: Date | string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type ImpersonationUpdateWithoutAdminInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutImpersonatedByNestedInput
+}
+
+export type ImpersonationUncheckedUpdateWithoutAdminInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ImpersonationUncheckedUpdateManyWithoutAdminInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ImpersonationUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  admin?: Prisma.UserUpdateOneRequiredWithoutImpersonationsNestedInput
+}
+
+export type ImpersonationUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  admin_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ImpersonationUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  admin_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.StringFieldUpdateOperationsInput | string
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ended_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ImpersonationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  admin_id?: boolean
+  user_id?: boolean
+  reason?: boolean
+  ip_address?: boolean
+  user_agent?: boolean
+  expires_at?: boolean
+  ended_at?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+  admin?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["impersonation"]>
+
+export type ImpersonationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  admin_id?: boolean
+  user_id?: boolean
+  reason?: boolean
+  ip_address?: boolean
+  user_agent?: boolean
+  expires_at?: boolean
+  ended_at?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+  admin?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["impersonation"]>
+
+export type ImpersonationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  admin_id?: boolean
+  user_id?: boolean
+  reason?: boolean
+  ip_address?: boolean
+  user_agent?: boolean
+  expires_at?: boolean
+  ended_at?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+  admin?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["impersonation"]>
+
+export type ImpersonationSelectScalar = {
+  id?: boolean
+  admin_id?: boolean
+  user_id?: boolean
+  reason?: boolean
+  ip_address?: boolean
+  user_agent?: boolean
+  expires_at?: boolean
+  ended_at?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+}
+
+export type ImpersonationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "admin_id" | "user_id" | "reason" | "ip_address" | "user_agent" | "expires_at" | "ended_at" | "created_at" | "updated_at", ExtArgs["result"]["impersonation"]>
+export type ImpersonationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  admin?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ImpersonationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  admin?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ImpersonationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  admin?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ImpersonationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Impersonation"
+  objects: {
+    admin: Prisma.$UserPayload<ExtArgs>
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    admin_id: string
+    user_id: string
+    reason: string
+    ip_address: string | null
+    user_agent: string | null
+    expires_at: Date
+    ended_at: Date | null
+    created_at: Date
+    updated_at: Date
+  }, ExtArgs["result"]["impersonation"]>
+  composites: {}
+}
+
+export type ImpersonationGetPayload<S extends boolean | null | undefined | ImpersonationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload, S>
+
+export type ImpersonationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ImpersonationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ImpersonationCountAggregateInputType | true
+  }
+
+export interface ImpersonationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Impersonation'], meta: { name: 'Impersonation' } }
+  /**
+   * Find zero or one Impersonation that matches the filter.
+   * @param {ImpersonationFindUniqueArgs} args - Arguments to find a Impersonation
+   * @example
+   * // Get one Impersonation
+   * const impersonation = await prisma.impersonation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ImpersonationFindUniqueArgs>(args: Prisma.SelectSubset<T, ImpersonationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ImpersonationClient<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Impersonation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ImpersonationFindUniqueOrThrowArgs} args - Arguments to find a Impersonation
+   * @example
+   * // Get one Impersonation
+   * const impersonation = await prisma.impersonation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ImpersonationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ImpersonationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ImpersonationClient<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Impersonation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImpersonationFindFirstArgs} args - Arguments to find a Impersonation
+   * @example
+   * // Get one Impersonation
+   * const impersonation = await prisma.impersonation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ImpersonationFindFirstArgs>(args?: Prisma.SelectSubset<T, ImpersonationFindFirstArgs<ExtArgs>>): Prisma.Prisma__ImpersonationClient<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Impersonation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImpersonationFindFirstOrThrowArgs} args - Arguments to find a Impersonation
+   * @example
+   * // Get one Impersonation
+   * const impersonation = await prisma.impersonation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ImpersonationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ImpersonationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ImpersonationClient<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Impersonations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImpersonationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Impersonations
+   * const impersonations = await prisma.impersonation.findMany()
+   * 
+   * // Get first 10 Impersonations
+   * const impersonations = await prisma.impersonation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const impersonationWithIdOnly = await prisma.impersonation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ImpersonationFindManyArgs>(args?: Prisma.SelectSubset<T, ImpersonationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Impersonation.
+   * @param {ImpersonationCreateArgs} args - Arguments to create a Impersonation.
+   * @example
+   * // Create one Impersonation
+   * const Impersonation = await prisma.impersonation.create({
+   *   data: {
+   *     // ... data to create a Impersonation
+   *   }
+   * })
+   * 
+   */
+  create<T extends ImpersonationCreateArgs>(args: Prisma.SelectSubset<T, ImpersonationCreateArgs<ExtArgs>>): Prisma.Prisma__ImpersonationClient<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Impersonations.
+   * @param {ImpersonationCreateManyArgs} args - Arguments to create many Impersonations.
+   * @example
+   * // Create many Impersonations
+   * const impersonation = await prisma.impersonation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ImpersonationCreateManyArgs>(args?: Prisma.SelectSubset<T, ImpersonationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Impersonations and returns the data saved in the database.
+   * @param {ImpersonationCreateManyAndReturnArgs} args - Arguments to create many Impersonations.
+   * @example
+   * // Create many Impersonations
+   * const impersonation = await prisma.impersonation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Impersonations and only return the `id`
+   * const impersonationWithIdOnly = await prisma.impersonation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ImpersonationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ImpersonationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Impersonation.
+   * @param {ImpersonationDeleteArgs} args - Arguments to delete one Impersonation.
+   * @example
+   * // Delete one Impersonation
+   * const Impersonation = await prisma.impersonation.delete({
+   *   where: {
+   *     // ... filter to delete one Impersonation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ImpersonationDeleteArgs>(args: Prisma.SelectSubset<T, ImpersonationDeleteArgs<ExtArgs>>): Prisma.Prisma__ImpersonationClient<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Impersonation.
+   * @param {ImpersonationUpdateArgs} args - Arguments to update one Impersonation.
+   * @example
+   * // Update one Impersonation
+   * const impersonation = await prisma.impersonation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ImpersonationUpdateArgs>(args: Prisma.SelectSubset<T, ImpersonationUpdateArgs<ExtArgs>>): Prisma.Prisma__ImpersonationClient<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Impersonations.
+   * @param {ImpersonationDeleteManyArgs} args - Arguments to filter Impersonations to delete.
+   * @example
+   * // Delete a few Impersonations
+   * const { count } = await prisma.impersonation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ImpersonationDeleteManyArgs>(args?: Prisma.SelectSubset<T, ImpersonationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Impersonations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImpersonationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Impersonations
+   * const impersonation = await prisma.impersonation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ImpersonationUpdateManyArgs>(args: Prisma.SelectSubset<T, ImpersonationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Impersonations and returns the data updated in the database.
+   * @param {ImpersonationUpdateManyAndReturnArgs} args - Arguments to update many Impersonations.
+   * @example
+   * // Update many Impersonations
+   * const impersonation = await prisma.impersonation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Impersonations and only return the `id`
+   * const impersonationWithIdOnly = await prisma.impersonation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ImpersonationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ImpersonationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Impersonation.
+   * @param {ImpersonationUpsertArgs} args - Arguments to update or create a Impersonation.
+   * @example
+   * // Update or create a Impersonation
+   * const impersonation = await prisma.impersonation.upsert({
+   *   create: {
+   *     // ... data to create a Impersonation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Impersonation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ImpersonationUpsertArgs>(args: Prisma.SelectSubset<T, ImpersonationUpsertArgs<ExtArgs>>): Prisma.Prisma__ImpersonationClient<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Impersonations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImpersonationCountArgs} args - Arguments to filter Impersonations to count.
+   * @example
+   * // Count the number of Impersonations
+   * const count = await prisma.impersonation.count({
+   *   where: {
+   *     // ... the filter for the Impersonations we want to count
+   *   }
+   * })
+  **/
+  count<T extends ImpersonationCountArgs>(
+    args?: Prisma.Subset<T, ImpersonationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ImpersonationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Impersonation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImpersonationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ImpersonationAggregateArgs>(args: Prisma.Subset<T, ImpersonationAggregateArgs>): Prisma.PrismaPromise<GetImpersonationAggregateType<T>>
+
+  /**
+   * Group by Impersonation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImpersonationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ImpersonationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ImpersonationGroupByArgs['orderBy'] }
+      : { orderBy?: ImpersonationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ImpersonationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetImpersonationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Impersonation model
+ */
+readonly fields: ImpersonationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Impersonation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ImpersonationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  admin<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Impersonation model
+ */
+export interface ImpersonationFieldRefs {
+  readonly id: Prisma.FieldRef<"Impersonation", 'String'>
+  readonly admin_id: Prisma.FieldRef<"Impersonation", 'String'>
+  readonly user_id: Prisma.FieldRef<"Impersonation", 'String'>
+  readonly reason: Prisma.FieldRef<"Impersonation", 'String'>
+  readonly ip_address: Prisma.FieldRef<"Impersonation", 'String'>
+  readonly user_agent: Prisma.FieldRef<"Impersonation", 'String'>
+  readonly expires_at: Prisma.FieldRef<"Impersonation", 'DateTime'>
+  readonly ended_at: Prisma.FieldRef<"Impersonation", 'DateTime'>
+  readonly created_at: Prisma.FieldRef<"Impersonation", 'DateTime'>
+  readonly updated_at: Prisma.FieldRef<"Impersonation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Impersonation findUnique
+ */
+export type ImpersonationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  /**
+   * Filter, which Impersonation to fetch.
+   */
+  where: Prisma.ImpersonationWhereUniqueInput
+}
+
+/**
+ * Impersonation findUniqueOrThrow
+ */
+export type ImpersonationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  /**
+   * Filter, which Impersonation to fetch.
+   */
+  where: Prisma.ImpersonationWhereUniqueInput
+}
+
+/**
+ * Impersonation findFirst
+ */
+export type ImpersonationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  /**
+   * Filter, which Impersonation to fetch.
+   */
+  where?: Prisma.ImpersonationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Impersonations to fetch.
+   */
+  orderBy?: Prisma.ImpersonationOrderByWithRelationInput | Prisma.ImpersonationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Impersonations.
+   */
+  cursor?: Prisma.ImpersonationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Impersonations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Impersonations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Impersonations.
+   */
+  distinct?: Prisma.ImpersonationScalarFieldEnum | Prisma.ImpersonationScalarFieldEnum[]
+}
+
+/**
+ * Impersonation findFirstOrThrow
+ */
+export type ImpersonationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  /**
+   * Filter, which Impersonation to fetch.
+   */
+  where?: Prisma.ImpersonationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Impersonations to fetch.
+   */
+  orderBy?: Prisma.ImpersonationOrderByWithRelationInput | Prisma.ImpersonationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Impersonations.
+   */
+  cursor?: Prisma.ImpersonationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Impersonations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Impersonations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Impersonations.
+   */
+  distinct?: Prisma.ImpersonationScalarFieldEnum | Prisma.ImpersonationScalarFieldEnum[]
+}
+
+/**
+ * Impersonation findMany
+ */
+export type ImpersonationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  /**
+   * Filter, which Impersonations to fetch.
+   */
+  where?: Prisma.ImpersonationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Impersonations to fetch.
+   */
+  orderBy?: Prisma.ImpersonationOrderByWithRelationInput | Prisma.ImpersonationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Impersonations.
+   */
+  cursor?: Prisma.ImpersonationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Impersonations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Impersonations.
+   */
+  skip?: number
+  distinct?: Prisma.ImpersonationScalarFieldEnum | Prisma.ImpersonationScalarFieldEnum[]
+}
+
+/**
+ * Impersonation create
+ */
+export type ImpersonationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Impersonation.
+   */
+  data: Prisma.XOR<Prisma.ImpersonationCreateInput, Prisma.ImpersonationUncheckedCreateInput>
+}
+
+/**
+ * Impersonation createMany
+ */
+export type ImpersonationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Impersonations.
+   */
+  data: Prisma.ImpersonationCreateManyInput | Prisma.ImpersonationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Impersonation createManyAndReturn
+ */
+export type ImpersonationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * The data used to create many Impersonations.
+   */
+  data: Prisma.ImpersonationCreateManyInput | Prisma.ImpersonationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Impersonation update
+ */
+export type ImpersonationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Impersonation.
+   */
+  data: Prisma.XOR<Prisma.ImpersonationUpdateInput, Prisma.ImpersonationUncheckedUpdateInput>
+  /**
+   * Choose, which Impersonation to update.
+   */
+  where: Prisma.ImpersonationWhereUniqueInput
+}
+
+/**
+ * Impersonation updateMany
+ */
+export type ImpersonationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Impersonations.
+   */
+  data: Prisma.XOR<Prisma.ImpersonationUpdateManyMutationInput, Prisma.ImpersonationUncheckedUpdateManyInput>
+  /**
+   * Filter which Impersonations to update
+   */
+  where?: Prisma.ImpersonationWhereInput
+  /**
+   * Limit how many Impersonations to update.
+   */
+  limit?: number
+}
+
+/**
+ * Impersonation updateManyAndReturn
+ */
+export type ImpersonationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * The data used to update Impersonations.
+   */
+  data: Prisma.XOR<Prisma.ImpersonationUpdateManyMutationInput, Prisma.ImpersonationUncheckedUpdateManyInput>
+  /**
+   * Filter which Impersonations to update
+   */
+  where?: Prisma.ImpersonationWhereInput
+  /**
+   * Limit how many Impersonations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Impersonation upsert
+ */
+export type ImpersonationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Impersonation to update in case it exists.
+   */
+  where: Prisma.ImpersonationWhereUniqueInput
+  /**
+   * In case the Impersonation found by the `where` argument doesn't exist, create a new Impersonation with this data.
+   */
+  create: Prisma.XOR<Prisma.ImpersonationCreateInput, Prisma.ImpersonationUncheckedCreateInput>
+  /**
+   * In case the Impersonation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ImpersonationUpdateInput, Prisma.ImpersonationUncheckedUpdateInput>
+}
+
+/**
+ * Impersonation delete
+ */
+export type ImpersonationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  /**
+   * Filter which Impersonation to delete.
+   */
+  where: Prisma.ImpersonationWhereUniqueInput
+}
+
+/**
+ * Impersonation deleteMany
+ */
+export type ImpersonationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Impersonations to delete
+   */
+  where?: Prisma.ImpersonationWhereInput
+  /**
+   * Limit how many Impersonations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Impersonation without action
+ */
+export type ImpersonationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+}
@@ -33,6 +33,7 @@ export type JobMinAggregateOutputType = {
   description: string | null
   status: $Enums.JobStatus | null
   user_id: string | null
+  organization_id: string | null
   created_at: Date | null
   updated_at: Date | null
 }
@@ -46,6 +47,7 @@ export type JobMaxAggregateOutputType = {
   description: string | null
   status: $Enums.JobStatus | null
   user_id: string | null
+  organization_id: string | null
   created_at: Date | null
   updated_at: Date | null
 }
@@ -59,6 +61,7 @@ export type JobCountAggregateOutputType = {
   description: number
   status: number
   user_id: number
+  organization_id: number
   created_at: number
   updated_at: number
   _all: number
@@ -74,6 +77,7 @@ export type JobMinAggregateInputType = {
   description?: true
   status?: true
   user_id?: true
+  organization_id?: true
   created_at?: true
   updated_at?: true
 }
@@ -87,6 +91,7 @@ export type JobMaxAggregateInputType = {
   description?: true
   status?: true
   user_id?: true
+  organization_id?: true
   created_at?: true
   updated_at?: true
 }
@@ -100,6 +105,7 @@ export type JobCountAggregateInputType = {
   description?: true
   status?: true
   user_id?: true
+  organization_id?: true
   created_at?: true
   updated_at?: true
   _all?: true
@@ -186,6 +192,7 @@ export type JobGroupByOutputType = {
   description: string
   status: $Enums.JobStatus
   user_id: string
+  organization_id: string | null
   created_at: Date
   updated_at: Date
   _count: JobCountAggregateOutputType | null
@@ -220,9 +227,11 @@ export type JobWhereInput = {
   description?: Prisma.StringFilter<"Job"> | string
   status?: Prisma.EnumJobStatusFilter<"Job"> | $Enums.JobStatus
   user_id?: Prisma.StringFilter<"Job"> | string
+  organization_id?: Prisma.StringNullableFilter<"Job"> | string | null
   created_at?: Prisma.DateTimeFilter<"Job"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"Job"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  organization?: Prisma.XOR<Prisma.OrganizationNullableScalarRelationFilter, Prisma.OrganizationWhereInput> | null
   candidates?: Prisma.CandidateListRelationFilter
   creditLogs?: Prisma.CreditLogListRelationFilter
 }
@@ -236,9 +245,11 @@ export type JobOrderByWithRelationInput = {
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrderInput | Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
   user?: Prisma.UserOrderByWithRelationInput
+  organization?: Prisma.OrganizationOrderByWithRelationInput
   candidates?: Prisma.CandidateOrderByRelationAggregateInput
   creditLogs?: Prisma.CreditLogOrderByRelationAggregateInput
 }
@@ -255,9 +266,11 @@ export type JobWhereUniqueInput = Prisma.AtLeast<{
   description?: Prisma.StringFilter<"Job"> | string
   status?: Prisma.EnumJobStatusFilter<"Job"> | $Enums.JobStatus
   user_id?: Prisma.StringFilter<"Job"> | string
+  organization_id?: Prisma.StringNullableFilter<"Job"> | string | null
   created_at?: Prisma.DateTimeFilter<"Job"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"Job"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  organization?: Prisma.XOR<Prisma.OrganizationNullableScalarRelationFilter, Prisma.OrganizationWhereInput> | null
   candidates?: Prisma.CandidateListRelationFilter
   creditLogs?: Prisma.CreditLogListRelationFilter
 }, "id">
@@ -271,6 +284,7 @@ export type JobOrderByWithAggregationInput = {
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrderInput | Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
   _count?: Prisma.JobCountOrderByAggregateInput
@@ -290,6 +304,7 @@ export type JobScalarWhereWithAggregatesInput = {
   description?: Prisma.StringWithAggregatesFilter<"Job"> | string
   status?: Prisma.EnumJobStatusWithAggregatesFilter<"Job"> | $Enums.JobStatus
   user_id?: Prisma.StringWithAggregatesFilter<"Job"> | string
+  organization_id?: Prisma.StringNullableWithAggregatesFilter<"Job"> | string | null
   created_at?: Prisma.DateTimeWithAggregatesFilter<"Job"> | Date | string
   updated_at?: Prisma.DateTimeWithAggregatesFilter<"Job"> | Date | string
 }
@@ -305,6 +320,7 @@ export type JobCreateInput = {
   created_at?: Date | string
   updated_at?: Date | string
   user: Prisma.UserCreateNestedOneWithoutJobsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutJobsInput
   candidates?: Prisma.CandidateCreateNestedManyWithoutJobInput
   creditLogs?: Prisma.CreditLogCreateNestedManyWithoutJobInput
 }
@@ -318,6 +334,7 @@ export type JobUncheckedCreateInput = {
   description: string
   status?: $Enums.JobStatus
   user_id: string
+  organization_id?: string | null
   created_at?: Date | string
   updated_at?: Date | string
   candidates?: Prisma.CandidateUncheckedCreateNestedManyWithoutJobInput
@@ -335,6 +352,7 @@ export type JobUpdateInput = {
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutJobsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutJobsNestedInput
   candidates?: Prisma.CandidateUpdateManyWithoutJobNestedInput
   creditLogs?: Prisma.CreditLogUpdateManyWithoutJobNestedInput
 }
@@ -348,6 +366,7 @@ export type JobUncheckedUpdateInput = {
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   candidates?: Prisma.CandidateUncheckedUpdateManyWithoutJobNestedInput
@@ -363,6 +382,7 @@ export type JobCreateManyInput = {
   description: string
   status?: $Enums.JobStatus
   user_id: string
+  organization_id?: string | null
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -388,6 +408,7 @@ export type JobUncheckedUpdateManyInput = {
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -411,6 +432,7 @@ export type JobCountOrderByAggregateInput = {
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -424,6 +446,7 @@ export type JobMaxOrderByAggregateInput = {
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -437,6 +460,7 @@ export type JobMinOrderByAggregateInput = {
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -493,6 +517,48 @@ export type JobUncheckedUpdateManyWithoutUserNestedInput = {
   deleteMany?: Prisma.JobScalarWhereInput | Prisma.JobScalarWhereInput[]
 }
 
+export type JobCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.JobCreateWithoutOrganizationInput, Prisma.JobUncheckedCreateWithoutOrganizationInput> | Prisma.JobCreateWithoutOrganizationInput[] | Prisma.JobUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.JobCreateOrConnectWithoutOrganizationInput | Prisma.JobCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.JobCreateManyOrganizationInputEnvelope
+  connect?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+}
+
+export type JobUncheckedCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.JobCreateWithoutOrganizationInput, Prisma.JobUncheckedCreateWithoutOrganizationInput> | Prisma.JobCreateWithoutOrganizationInput[] | Prisma.JobUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.JobCreateOrConnectWithoutOrganizationInput | Prisma.JobCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.JobCreateManyOrganizationInputEnvelope
+  connect?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+}
+
+export type JobUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.JobCreateWithoutOrganizationInput, Prisma.JobUncheckedCreateWithoutOrganizationInput> | Prisma.JobCreateWithoutOrganizationInput[] | Prisma.JobUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.JobCreateOrConnectWithoutOrganizationInput | Prisma.JobCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.JobUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.JobUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.JobCreateManyOrganizationInputEnvelope
+  set?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+  disconnect?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+  delete?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+  connect?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+  update?: Prisma.JobUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.JobUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.JobUpdateManyWithWhereWithoutOrganizationInput | Prisma.JobUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.JobScalarWhereInput | Prisma.JobScalarWhereInput[]
+}
+
+export type JobUncheckedUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.JobCreateWithoutOrganizationInput, Prisma.JobUncheckedCreateWithoutOrganizationInput> | Prisma.JobCreateWithoutOrganizationInput[] | Prisma.JobUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.JobCreateOrConnectWithoutOrganizationInput | Prisma.JobCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.JobUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.JobUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.JobCreateManyOrganizationInputEnvelope
+  set?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+  disconnect?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+  delete?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+  connect?: Prisma.JobWhereUniqueInput | Prisma.JobWhereUniqueInput[]
+  update?: Prisma.JobUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.JobUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.JobUpdateManyWithWhereWithoutOrganizationInput | Prisma.JobUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.JobScalarWhereInput | Prisma.JobScalarWhereInput[]
+}
+
 export type EnumJobTypeFieldUpdateOperationsInput = {
   set?: $Enums.JobType
 }
@@ -545,6 +611,7 @@ export type JobCreateWithoutUserInput = {
   status?: $Enums.JobStatus
   created_at?: Date | string
   updated_at?: Date | string
+  organization?: Prisma.OrganizationCreateNestedOneWithoutJobsInput
   candidates?: Prisma.CandidateCreateNestedManyWithoutJobInput
   creditLogs?: Prisma.CreditLogCreateNestedManyWithoutJobInput
 }
@@ -557,6 +624,7 @@ export type JobUncheckedCreateWithoutUserInput = {
   job_location: $Enums.JobLocation
   description: string
   status?: $Enums.JobStatus
+  organization_id?: string | null
   created_at?: Date | string
   updated_at?: Date | string
   candidates?: Prisma.CandidateUncheckedCreateNestedManyWithoutJobInput
@@ -601,10 +669,67 @@ export type JobScalarWhereInput = {
   description?: Prisma.StringFilter<"Job"> | string
   status?: Prisma.EnumJobStatusFilter<"Job"> | $Enums.JobStatus
   user_id?: Prisma.StringFilter<"Job"> | string
+  organization_id?: Prisma.StringNullableFilter<"Job"> | string | null
   created_at?: Prisma.DateTimeFilter<"Job"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"Job"> | Date | string
 }
 
+export type JobCreateWithoutOrganizationInput = {
+  id?: string
+  company_name?: string | null
+  title: string
+  job_type: $Enums.JobType
+  job_location: $Enums.JobLocation
+  description: string
+  status?: $Enums.JobStatus
+  created_at?: Date | string
+  updated_at?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutJobsInput
+  candidates?: Prisma.CandidateCreateNestedManyWithoutJobInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutJobInput
+}
+
+export type JobUncheckedCreateWithoutOrganizationInput = {
+  id?: string
+  company_name?: string | null
+  title: string
+  job_type: $Enums.JobType
+  job_location: $Enums.JobLocation
+  description: string
+  status?: $Enums.JobStatus
+  user_id: string
+  created_at?: Date | string
+  updated_at?: Date | string
+  candidates?: Prisma.CandidateUncheckedCreateNestedManyWithoutJobInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutJobInput
+}
+
+export type JobCreateOrConnectWithoutOrganizationInput = {
+  where: Prisma.JobWhereUniqueInput
+  create: Prisma.XOR<Prisma.JobCreateWithoutOrganizationInput, Prisma.JobUncheckedCreateWithoutOrganizationInput>
+}
+
+export type JobCreateManyOrganizationInputEnvelope = {
+  data: Prisma.JobCreateManyOrganizationInput | Prisma.JobCreateManyOrganizationInput[]
+  skipDuplicates?: boolean
+}
+
+export type JobUpsertWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.JobWhereUniqueInput
+  update: Prisma.XOR<Prisma.JobUpdateWithoutOrganizationInput, Prisma.JobUncheckedUpdateWithoutOrganizationInput>
+  create: Prisma.XOR<Prisma.JobCreateWithoutOrganizationInput, Prisma.JobUncheckedCreateWithoutOrganizationInput>
+}
+
+export type JobUpdateWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.JobWhereUniqueInput
+  data: Prisma.XOR<Prisma.JobUpdateWithoutOrganizationInput, Prisma.JobUncheckedUpdateWithoutOrganizationInput>
+}
+
+export type JobUpdateManyWithWhereWithoutOrganizationInput = {
+  where: Prisma.JobScalarWhereInput
+  data: Prisma.XOR<Prisma.JobUpdateManyMutationInput, Prisma.JobUncheckedUpdateManyWithoutOrganizationInput>
+}
+
 export type JobCreateWithoutCandidatesInput = {
   id?: string
   company_name?: string | null
@@ -616,6 +741,7 @@ export type JobCreateWithoutCandidatesInput = {
   created_at?: Date | string
   updated_at?: Date | string
   user: Prisma.UserCreateNestedOneWithoutJobsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutJobsInput
   creditLogs?: Prisma.CreditLogCreateNestedManyWithoutJobInput
 }
 
@@ -628,6 +754,7 @@ export type JobUncheckedCreateWithoutCandidatesInput = {
   description: string
   status?: $Enums.JobStatus
   user_id: string
+  organization_id?: string | null
   created_at?: Date | string
   updated_at?: Date | string
   creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutJobInput
@@ -660,6 +787,7 @@ export type JobUpdateWithoutCandidatesInput = {
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutJobsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutJobsNestedInput
   creditLogs?: Prisma.CreditLogUpdateManyWithoutJobNestedInput
 }
 
@@ -672,6 +800,7 @@ export type JobUncheckedUpdateWithoutCandidatesInput = {
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutJobNestedInput
@@ -688,6 +817,7 @@ export type JobCreateWithoutCreditLogsInput = {
   created_at?: Date | string
   updated_at?: Date | string
   user: Prisma.UserCreateNestedOneWithoutJobsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutJobsInput
   candidates?: Prisma.CandidateCreateNestedManyWithoutJobInput
 }
 
@@ -700,6 +830,7 @@ export type JobUncheckedCreateWithoutCreditLogsInput = {
   description: string
   status?: $Enums.JobStatus
   user_id: string
+  organization_id?: string | null
   created_at?: Date | string
   updated_at?: Date | string
   candidates?: Prisma.CandidateUncheckedCreateNestedManyWithoutJobInput
@@ -732,6 +863,7 @@ export type JobUpdateWithoutCreditLogsInput = {
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutJobsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutJobsNestedInput
   candidates?: Prisma.CandidateUpdateManyWithoutJobNestedInput
 }
 
@@ -744,6 +876,7 @@ export type JobUncheckedUpdateWithoutCreditLogsInput = {
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   candidates?: Prisma.CandidateUncheckedUpdateManyWithoutJobNestedInput
@@ -757,6 +890,7 @@ export type JobCreateManyUserInput = {
   job_location: $Enums.JobLocation
   description: string
   status?: $Enums.JobStatus
+  organization_id?: string | null
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -771,6 +905,7 @@ export type JobUpdateWithoutUserInput = {
   status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  organization?: Prisma.OrganizationUpdateOneWithoutJobsNestedInput
   candidates?: Prisma.CandidateUpdateManyWithoutJobNestedInput
   creditLogs?: Prisma.CreditLogUpdateManyWithoutJobNestedInput
 }
@@ -783,6 +918,7 @@ export type JobUncheckedUpdateWithoutUserInput = {
   job_location?: Prisma.EnumJobLocationFieldUpdateOperationsInput | $Enums.JobLocation
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   candidates?: Prisma.CandidateUncheckedUpdateManyWithoutJobNestedInput
@@ -797,6 +933,63 @@ export type JobUncheckedUpdateManyWithoutUserInput = {
   job_location?: Prisma.EnumJobLocationFieldUpdateOperationsInput | $Enums.JobLocation
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type JobCreateManyOrganizationInput = {
+  id?: string
+  company_name?: string | null
+  title: string
+  job_type: $Enums.JobType
+  job_location: $Enums.JobLocation
+  description: string
+  status?: $Enums.JobStatus
+  user_id: string
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type JobUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  company_name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  job_type?: Prisma.EnumJobTypeFieldUpdateOperationsInput | $Enums.JobType
+  job_location?: Prisma.EnumJobLocationFieldUpdateOperationsInput | $Enums.JobLocation
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutJobsNestedInput
+  candidates?: Prisma.CandidateUpdateManyWithoutJobNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutJobNestedInput
+}
+
+export type JobUncheckedUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  company_name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  job_type?: Prisma.EnumJobTypeFieldUpdateOperationsInput | $Enums.JobType
+  job_location?: Prisma.EnumJobLocationFieldUpdateOperationsInput | $Enums.JobLocation
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  candidates?: Prisma.CandidateUncheckedUpdateManyWithoutJobNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutJobNestedInput
+}
+
+export type JobUncheckedUpdateManyWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  company_name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  job_type?: Prisma.EnumJobTypeFieldUpdateOperationsInput | $Enums.JobType
+  job_location?: Prisma.EnumJobLocationFieldUpdateOperationsInput | $Enums.JobLocation
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumJobStatusFieldUpdateOperationsInput | $Enums.JobStatus
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -850,9 +1043,11 @@ export type JobSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = ru
   description?: boolean
   status?: boolean
   user_id?: boolean
+  organization_id?: boolean
   created_at?: boolean
   updated_at?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Job$organizationArgs<ExtArgs>
   candidates?: boolean | Prisma.Job$candidatesArgs<ExtArgs>
   creditLogs?: boolean | Prisma.Job$creditLogsArgs<ExtArgs>
   _count?: boolean | Prisma.JobCountOutputTypeDefaultArgs<ExtArgs>
@@ -867,9 +1062,11 @@ export type JobSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extension
   description?: boolean
   status?: boolean
   user_id?: boolean
+  organization_id?: boolean
   created_at?: boolean
   updated_at?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Job$organizationArgs<ExtArgs>
 }, ExtArgs["result"]["job"]>
 
 export type JobSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -881,9 +1078,11 @@ export type JobSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extension
   description?: boolean
   status?: boolean
   user_id?: boolean
+  organization_id?: boolean
   created_at?: boolean
   updated_at?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Job$organizationArgs<ExtArgs>
 }, ExtArgs["result"]["job"]>
 
 export type JobSelectScalar = {
@@ -895,28 +1094,33 @@ export type JobSelectScalar = {
   description?: boolean
   status?: boolean
   user_id?: boolean
+  organization_id?: boolean
   created_at?: boolean
   updated_at?: boolean
 }
 
-export type JobOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "company_name" | "title" | "job_type" | "job_location" | "description" | "status" | "user_id" | "created_at" | "updated_at", ExtArgs["result"]["job"]>
+export type JobOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "company_name" | "title" | "job_type" | "job_location" | "description" | "status" | "user_id" | "organization_id" | "created_at" | "updated_at", ExtArgs["result"]["job"]>
 export type JobInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Job$organizationArgs<ExtArgs>
   candidates?: boolean | Prisma.Job$candidatesArgs<ExtArgs>
   creditLogs?: boolean | Prisma.Job$creditLogsArgs<ExtArgs>
   _count?: boolean | Prisma.JobCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type JobIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Job$organizationArgs<ExtArgs>
 }
 export type JobIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Job$organizationArgs<ExtArgs>
 }
 
 export type $JobPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Job"
   objects: {
     user: Prisma.$UserPayload<ExtArgs>
+    organization: Prisma.$OrganizationPayload<ExtArgs> | null
     candidates: Prisma.$CandidatePayload<ExtArgs>[]
     creditLogs: Prisma.$CreditLogPayload<ExtArgs>[]
   }
@@ -929,6 +1133,7 @@ export type $JobPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     description: string
     status: $Enums.JobStatus
     user_id: string
+    organization_id: string | null
     created_at: Date
     updated_at: Date
   }, ExtArgs["result"]["job"]>
@@ -1326,6 +1531,7 @@ readonly fields: JobFieldRefs;
 export interface Prisma__JobClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  organization<T extends Prisma.Job$organizationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Job$organizationArgs<ExtArgs>>): Prisma.Prisma__OrganizationClient<runtime.Types.Result.GetResult<Prisma.$OrganizationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   candidates<T extends Prisma.Job$candidatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Job$candidatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CandidatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   creditLogs<T extends Prisma.Job$creditLogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Job$creditLogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CreditLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
@@ -1365,6 +1571,7 @@ export interface JobFieldRefs {
   readonly description: Prisma.FieldRef<"Job", 'String'>
   readonly status: Prisma.FieldRef<"Job", 'JobStatus'>
   readonly user_id: Prisma.FieldRef<"Job", 'String'>
+  readonly organization_id: Prisma.FieldRef<"Job", 'String'>
   readonly created_at: Prisma.FieldRef<"Job", 'DateTime'>
   readonly updated_at: Prisma.FieldRef<"Job", 'DateTime'>
 }
@@ -1762,6 +1969,25 @@ export type JobDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalA
   limit?: number
 }
 
+/**
+ * Job.organization
+ */
+export type Job$organizationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Organization
+   */
+  select?: Prisma.OrganizationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Organization
+   */
+  omit?: Prisma.OrganizationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrganizationInclude<ExtArgs> | null
+  where?: Prisma.OrganizationWhereInput
+}
+
 /**
  * Job.candidates
  */
@@ -0,0 +1,1503 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `LoginAttempt` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model LoginAttempt
+ * 
+ */
+export type LoginAttemptModel = runtime.Types.Result.DefaultSelection<Prisma.$LoginAttemptPayload>
+
+export type AggregateLoginAttempt = {
+  _count: LoginAttemptCountAggregateOutputType | null
+  _min: LoginAttemptMinAggregateOutputType | null
+  _max: LoginAttemptMaxAggregateOutputType | null
+}
+
+export type LoginAttemptMinAggregateOutputType = {
+  id: string | null
+  user_id: string | null
+  email: string | null
+  success: boolean | null
+  failure_reason: $Enums.LoginFailureReason | null
+  device_label: string | null
+  user_agent: string | null
+  ip_address: string | null
+  created_at: Date | null
+}
+
+export type LoginAttemptMaxAggregateOutputType = {
+  id: string | null
+  user_id: string | null
+  email: string | null
+  success: boolean | null
+  failure_reason: $Enums.LoginFailureReason | null
+  device_label: string | null
+  user_agent: string | null
+  ip_address: string | null
+  created_at: Date | null
+}
+
+export type LoginAttemptCountAggregateOutputType = {
+  id: number
+  user_id: number
+  email: number
+  success: number
+  failure_reason: number
+  device_label: number
+  user_agent: number
+  ip_address: number
+  created_at: number
+  _all: number
+}
+
+
+export type LoginAttemptMinAggregateInputType = {
+  id?: true
+  user_id?: true
+  email?: true
+  success?: true
+  failure_reason?: true
+  device_label?: true
+  user_agent?: true
+  ip_address?: true
+  created_at?: true
+}
+
+export type LoginAttemptMaxAggregateInputType = {
+  id?: true
+  user_id?: true
+  email?: true
+  success?: true
+  failure_reason?: true
+  device_label?: true
+  user_agent?: true
+  ip_address?: true
+  created_at?: true
+}
+
+export type LoginAttemptCountAggregateInputType = {
+  id?: true
+  user_id?: true
+  email?: true
+  success?: true
+  failure_reason?: true
+  device_label?: true
+  user_agent?: true
+  ip_address?: true
+  created_at?: true
+  _all?: true
+}
+
+export type LoginAttemptAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LoginAttempt to aggregate.
+   */
+  where?: Prisma.LoginAttemptWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LoginAttempts to fetch.
+   */
+  orderBy?: Prisma.LoginAttemptOrderByWithRelationInput | Prisma.LoginAttemptOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.LoginAttemptWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LoginAttempts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LoginAttempts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned LoginAttempts
+  **/
+  _count?: true | LoginAttemptCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: LoginAttemptMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: LoginAttemptMaxAggregateInputType
+}
+
+export type GetLoginAttemptAggregateType<T extends LoginAttemptAggregateArgs> = {
+      [P in keyof T & keyof AggregateLoginAttempt]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateLoginAttempt[P]>
+    : Prisma.GetScalarType<T[P], AggregateLoginAttempt[P]>
+}
+
+
+
+
+export type LoginAttemptGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LoginAttemptWhereInput
+  orderBy?: Prisma.LoginAttemptOrderByWithAggregationInput | Prisma.LoginAttemptOrderByWithAggregationInput[]
+  by: Prisma.LoginAttemptScalarFieldEnum[] | Prisma.LoginAttemptScalarFieldEnum
+  having?: Prisma.LoginAttemptScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: LoginAttemptCountAggregateInputType | true
+  _min?: LoginAttemptMinAggregateInputType
+  _max?: LoginAttemptMaxAggregateInputType
+}
+
+export type LoginAttemptGroupByOutputType = {
+  id: string
+  user_id: string | null
+  email: string
+  success: boolean
+  failure_reason: $Enums.LoginFailureReason | null
+  device_label: string | null
+  user_agent: string | null
+  ip_address: string | null
+  created_at: Date
+  _count: LoginAttemptCountAggregateOutputType | null
+  _min: LoginAttemptMinAggregateOutputType | null
+  _max: LoginAttemptMaxAggregateOutputType | null
+}
+
+type GetLoginAttemptGroupByPayload<T extends LoginAttemptGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<LoginAttemptGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof LoginAttemptGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], LoginAttemptGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], LoginAttemptGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type LoginAttemptWhereInput = {
+  AND?: Prisma.LoginAttemptWhereInput | Prisma.LoginAttemptWhereInput[]
+  OR?: Prisma.LoginAttemptWhereInput[]
+  NOT?: Prisma.LoginAttemptWhereInput | Prisma.LoginAttemptWhereInput[]
+  id?: Prisma.StringFilter<"LoginAttempt"> | string
+  user_id?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  email?: Prisma.StringFilter<"LoginAttempt"> | string
+  success?: Prisma.BoolFilter<"LoginAttempt"> | boolean
+  failure_reason?: Prisma.EnumLoginFailureReasonNullableFilter<"LoginAttempt"> | $Enums.LoginFailureReason | null
+  device_label?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  user_agent?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  ip_address?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  created_at?: Prisma.DateTimeFilter<"LoginAttempt"> | Date | string
+  user?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type LoginAttemptOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrderInput | Prisma.SortOrder
+  email?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  failure_reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  device_label?: Prisma.SortOrderInput | Prisma.SortOrder
+  user_agent?: Prisma.SortOrderInput | Prisma.SortOrder
+  ip_address?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type LoginAttemptWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.LoginAttemptWhereInput | Prisma.LoginAttemptWhereInput[]
+  OR?: Prisma.LoginAttemptWhereInput[]
+  NOT?: Prisma.LoginAttemptWhereInput | Prisma.LoginAttemptWhereInput[]
+  user_id?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  email?: Prisma.StringFilter<"LoginAttempt"> | string
+  success?: Prisma.BoolFilter<"LoginAttempt"> | boolean
+  failure_reason?: Prisma.EnumLoginFailureReasonNullableFilter<"LoginAttempt"> | $Enums.LoginFailureReason | null
+  device_label?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  user_agent?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  ip_address?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  created_at?: Prisma.DateTimeFilter<"LoginAttempt"> | Date | string
+  user?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type LoginAttemptOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrderInput | Prisma.SortOrder
+  email?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  failure_reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  device_label?: Prisma.SortOrderInput | Prisma.SortOrder
+  user_agent?: Prisma.SortOrderInput | Prisma.SortOrder
+  ip_address?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  _count?: Prisma.LoginAttemptCountOrderByAggregateInput
+  _max?: Prisma.LoginAttemptMaxOrderByAggregateInput
+  _min?: Prisma.LoginAttemptMinOrderByAggregateInput
+}
+
+export type LoginAttemptScalarWhereWithAggregatesInput = {
+  AND?: Prisma.LoginAttemptScalarWhereWithAggregatesInput | Prisma.LoginAttemptScalarWhereWithAggregatesInput[]
+  OR?: Prisma.LoginAttemptScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.LoginAttemptScalarWhereWithAggregatesInput | Prisma.LoginAttemptScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"LoginAttempt"> | string
+  user_id?: Prisma.StringNullableWithAggregatesFilter<"LoginAttempt"> | string | null
+  email?: Prisma.StringWithAggregatesFilter<"LoginAttempt"> | string
+  success?: Prisma.BoolWithAggregatesFilter<"LoginAttempt"> | boolean
+  failure_reason?: Prisma.EnumLoginFailureReasonNullableWithAggregatesFilter<"LoginAttempt"> | $Enums.LoginFailureReason | null
+  device_label?: Prisma.StringNullableWithAggregatesFilter<"LoginAttempt"> | string | null
+  user_agent?: Prisma.StringNullableWithAggregatesFilter<"LoginAttempt"> | string | null
+  ip_address?: Prisma.StringNullableWithAggregatesFilter<"LoginAttempt"> | string | null
+  created_at?: Prisma.DateTimeWithAggregatesFilter<"LoginAttempt"> | Date | string
+}
+
+export type LoginAttemptCreateInput = {
+  id?: string
+  email: string
+  success: boolean
+  failure_reason?: $Enums.LoginFailureReason | null
+  device_label?: string | null
+  user_agent?: string | null
+  ip_address?: string | null
+  created_at?: Date | string
+  user?: Prisma.UserCreateNestedOneWithoutLoginAttemptsInput
+}
+
+export type LoginAttemptUncheckedCreateInput = {
+  id?: string
+  user_id?: string | null
+  email: string
+  success: boolean
+  failure_reason?: $Enums.LoginFailureReason | null
+  device_label?: string | null
+  user_agent?: string | null
+  ip_address?: string | null
+  created_at?: Date | string
+}
+
+export type LoginAttemptUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  failure_reason?: Prisma.NullableEnumLoginFailureReasonFieldUpdateOperationsInput | $Enums.LoginFailureReason | null
+  device_label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneWithoutLoginAttemptsNestedInput
+}
+
+export type LoginAttemptUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  failure_reason?: Prisma.NullableEnumLoginFailureReasonFieldUpdateOperationsInput | $Enums.LoginFailureReason | null
+  device_label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginAttemptCreateManyInput = {
+  id?: string
+  user_id?: string | null
+  email: string
+  success: boolean
+  failure_reason?: $Enums.LoginFailureReason | null
+  device_label?: string | null
+  user_agent?: string | null
+  ip_address?: string | null
+  created_at?: Date | string
+}
+
+export type LoginAttemptUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  failure_reason?: Prisma.NullableEnumLoginFailureReasonFieldUpdateOperationsInput | $Enums.LoginFailureReason | null
+  device_label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginAttemptUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  failure_reason?: Prisma.NullableEnumLoginFailureReasonFieldUpdateOperationsInput | $Enums.LoginFailureReason | null
+  device_label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginAttemptListRelationFilter = {
+  every?: Prisma.LoginAttemptWhereInput
+  some?: Prisma.LoginAttemptWhereInput
+  none?: Prisma.LoginAttemptWhereInput
+}
+
+export type LoginAttemptOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type LoginAttemptCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  failure_reason?: Prisma.SortOrder
+  device_label?: Prisma.SortOrder
+  user_agent?: Prisma.SortOrder
+  ip_address?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+}
+
+export type LoginAttemptMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  failure_reason?: Prisma.SortOrder
+  device_label?: Prisma.SortOrder
+  user_agent?: Prisma.SortOrder
+  ip_address?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+}
+
+export type LoginAttemptMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  user_id?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  success?: Prisma.SortOrder
+  failure_reason?: Prisma.SortOrder
+  device_label?: Prisma.SortOrder
+  user_agent?: Prisma.SortOrder
+  ip_address?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+}
+
+export type LoginAttemptCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.LoginAttemptCreateWithoutUserInput, Prisma.LoginAttemptUncheckedCreateWithoutUserInput> | Prisma.LoginAttemptCreateWithoutUserInput[] | Prisma.LoginAttemptUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.LoginAttemptCreateOrConnectWithoutUserInput | Prisma.LoginAttemptCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.LoginAttemptCreateManyUserInputEnvelope
+  connect?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+}
+
+export type LoginAttemptUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.LoginAttemptCreateWithoutUserInput, Prisma.LoginAttemptUncheckedCreateWithoutUserInput> | Prisma.LoginAttemptCreateWithoutUserInput[] | Prisma.LoginAttemptUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.LoginAttemptCreateOrConnectWithoutUserInput | Prisma.LoginAttemptCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.LoginAttemptCreateManyUserInputEnvelope
+  connect?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+}
+
+export type LoginAttemptUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.LoginAttemptCreateWithoutUserInput, Prisma.LoginAttemptUncheckedCreateWithoutUserInput> | Prisma.LoginAttemptCreateWithoutUserInput[] | Prisma.LoginAttemptUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.LoginAttemptCreateOrConnectWithoutUserInput | Prisma.LoginAttemptCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.LoginAttemptUpsertWithWhereUniqueWithoutUserInput | Prisma.LoginAttemptUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.LoginAttemptCreateManyUserInputEnvelope
+  set?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+  disconnect?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+  delete?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+  connect?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+  update?: Prisma.LoginAttemptUpdateWithWhereUniqueWithoutUserInput | Prisma.LoginAttemptUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.LoginAttemptUpdateManyWithWhereWithoutUserInput | Prisma.LoginAttemptUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.LoginAttemptScalarWhereInput | Prisma.LoginAttemptScalarWhereInput[]
+}
+
+export type LoginAttemptUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.LoginAttemptCreateWithoutUserInput, Prisma.LoginAttemptUncheckedCreateWithoutUserInput> | Prisma.LoginAttemptCreateWithoutUserInput[] | Prisma.LoginAttemptUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.LoginAttemptCreateOrConnectWithoutUserInput | Prisma.LoginAttemptCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.LoginAttemptUpsertWithWhereUniqueWithoutUserInput | Prisma.LoginAttemptUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.LoginAttemptCreateManyUserInputEnvelope
+  set?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+  disconnect?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+  delete?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+  connect?: Prisma.LoginAttemptWhereUniqueInput | Prisma.LoginAttemptWhereUniqueInput[]
+  update?: Prisma.LoginAttemptUpdateWithWhereUniqueWithoutUserInput | Prisma.LoginAttemptUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.LoginAttemptUpdateManyWithWhereWithoutUserInput | Prisma.LoginAttemptUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.LoginAttemptScalarWhereInput | Prisma.LoginAttemptScalarWhereInput[]
+}
+
+export type NullableEnumLoginFailureReasonFieldUpdateOperationsInput = {
+  set?: $Enums.LoginFailureReason | null
+}
+
+export type LoginAttemptCreateWithoutUserInput = {
+  id?: string
+  email: string
+  success: boolean
+  failure_reason?: $Enums.LoginFailureReason | null
+  device_label?: string | null
+  user_agent?: string | null
+  ip_address?: string | null
+  created_at?: Date | string
+}
+
+export type LoginAttemptUncheckedCreateWithoutUserInput = {
+  id?: string
+  email: string
+  success: boolean
+  failure_reason?: $Enums.LoginFailureReason | null
+  device_label?: string | null
+  user_agent?: string | null
+  ip_address?: string | null
+  created_at?: Date | string
+}
+
+export type LoginAttemptCreateOrConnectWithoutUserInput = {
+  where: Prisma.LoginAttemptWhereUniqueInput
+  create: Prisma.XOR<Prisma.LoginAttemptCreateWithoutUserInput, Prisma.LoginAttemptUncheckedCreateWithoutUserInput>
+}
+
+export type LoginAttemptCreateManyUserInputEnvelope = {
+  data: Prisma.LoginAttemptCreateManyUserInput | Prisma.LoginAttemptCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type LoginAttemptUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.LoginAttemptWhereUniqueInput
+  update: Prisma.XOR<Prisma.LoginAttemptUpdateWithoutUserInput, Prisma.LoginAttemptUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.LoginAttemptCreateWithoutUserInput, Prisma.LoginAttemptUncheckedCreateWithoutUserInput>
+}
+
+export type LoginAttemptUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.LoginAttemptWhereUniqueInput
+  data: Prisma.XOR<Prisma.LoginAttemptUpdateWithoutUserInput, Prisma.LoginAttemptUncheckedUpdateWithoutUserInput>
+}
+
+export type LoginAttemptUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.LoginAttemptScalarWhereInput
+  data: Prisma.XOR<Prisma.LoginAttemptUpdateManyMutationInput, Prisma.LoginAttemptUncheckedUpdateManyWithoutUserInput>
+}
+
+export type LoginAttemptScalarWhereInput = {
+  AND?: Prisma.LoginAttemptScalarWhereInput | Prisma.LoginAttemptScalarWhereInput[]
+  OR?: Prisma.LoginAttemptScalarWhereInput[]
+  NOT?: Prisma.LoginAttemptScalarWhereInput | Prisma.LoginAttemptScalarWhereInput[]
+  id?: Prisma.StringFilter<"LoginAttempt"> | string
+  user_id?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  email?: Prisma.StringFilter<"LoginAttempt"> | string
+  success?: Prisma.BoolFilter<"LoginAttempt"> | boolean
+  failure_reason?: Prisma.EnumLoginFailureReasonNullableFilter<"LoginAttempt"> | $Enums.LoginFailureReason | null
+  device_label?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  user_agent?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  ip_address?: Prisma.StringNullableFilter<"LoginAttempt"> | string | null
+  created_at?: Prisma.DateTimeFilter<"LoginAttempt"> | Date | string
+}
+
+export type LoginAttemptCreateManyUserInput = {
+  id?: string
+  email: string
+  success: boolean
+  failure_reason?: $Enums.LoginFailureReason | null
+  device_label?: string | null
+  user_agent?: string | null
+  ip_address?: string | null
+  created_at?: Date | string
+}
+
+export type LoginAttemptUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  failure_reason?: Prisma.NullableEnumLoginFailureReasonFieldUpdateOperationsInput | $Enums.LoginFailureReason | null
+  device_label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginAttemptUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  failure_reason?: Prisma.NullableEnumLoginFailureReasonFieldUpdateOperationsInput | $Enums.LoginFailureReason | null
+  device_label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginAttemptUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  success?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  failure_reason?: Prisma.NullableEnumLoginFailureReasonFieldUpdateOperationsInput | $Enums.LoginFailureReason | null
+  device_label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  user_agent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ip_address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type LoginAttemptSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  user_id?: boolean
+  email?: boolean
+  success?: boolean
+  failure_reason?: boolean
+  device_label?: boolean
+  user_agent?: boolean
+  ip_address?: boolean
+  created_at?: boolean
+  user?: boolean | Prisma.LoginAttempt$userArgs<ExtArgs>
+}, ExtArgs["result"]["loginAttempt"]>
+
+export type LoginAttemptSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  user_id?: boolean
+  email?: boolean
+  success?: boolean
+  failure_reason?: boolean
+  device_label?: boolean
+  user_agent?: boolean
+  ip_address?: boolean
+  created_at?: boolean
+  user?: boolean | Prisma.LoginAttempt$userArgs<ExtArgs>
+}, ExtArgs["result"]["loginAttempt"]>
+
+export type LoginAttemptSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  user_id?: boolean
+  email?: boolean
+  success?: boolean
+  failure_reason?: boolean
+  device_label?: boolean
+  user_agent?: boolean
+  ip_address?: boolean
+  created_at?: boolean
+  user?: boolean | Prisma.LoginAttempt$userArgs<ExtArgs>
+}, ExtArgs["result"]["loginAttempt"]>
+
+export type LoginAttemptSelectScalar = {
+  id?: boolean
+  user_id?: boolean
+  email?: boolean
+  success?: boolean
+  failure_reason?: boolean
+  device_label?: boolean
+  user_agent?: boolean
+  ip_address?: boolean
+  created_at?: boolean
+}
+
+export type LoginAttemptOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "user_id" | "email" | "success" | "failure_reason" | "device_label" | "user_agent" | "ip_address" | "created_at", ExtArgs["result"]["loginAttempt"]>
+export type LoginAttemptInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.LoginAttempt$userArgs<ExtArgs>
+}
+export type LoginAttemptIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.LoginAttempt$userArgs<ExtArgs>
+}
+export type LoginAttemptIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.LoginAttempt$userArgs<ExtArgs>
+}
+
+export type $LoginAttemptPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "LoginAttempt"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    user_id: string | null
+    email: string
+    success: boolean
+    failure_reason: $Enums.LoginFailureReason | null
+    device_label: string | null
+    user_agent: string | null
+    ip_address: string | null
+    created_at: Date
+  }, ExtArgs["result"]["loginAttempt"]>
+  composites: {}
+}
+
+export type LoginAttemptGetPayload<S extends boolean | null | undefined | LoginAttemptDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload, S>
+
+export type LoginAttemptCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<LoginAttemptFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: LoginAttemptCountAggregateInputType | true
+  }
+
+export interface LoginAttemptDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['LoginAttempt'], meta: { name: 'LoginAttempt' } }
+  /**
+   * Find zero or one LoginAttempt that matches the filter.
+   * @param {LoginAttemptFindUniqueArgs} args - Arguments to find a LoginAttempt
+   * @example
+   * // Get one LoginAttempt
+   * const loginAttempt = await prisma.loginAttempt.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends LoginAttemptFindUniqueArgs>(args: Prisma.SelectSubset<T, LoginAttemptFindUniqueArgs<ExtArgs>>): Prisma.Prisma__LoginAttemptClient<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one LoginAttempt that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {LoginAttemptFindUniqueOrThrowArgs} args - Arguments to find a LoginAttempt
+   * @example
+   * // Get one LoginAttempt
+   * const loginAttempt = await prisma.loginAttempt.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends LoginAttemptFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, LoginAttemptFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__LoginAttemptClient<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LoginAttempt that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginAttemptFindFirstArgs} args - Arguments to find a LoginAttempt
+   * @example
+   * // Get one LoginAttempt
+   * const loginAttempt = await prisma.loginAttempt.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends LoginAttemptFindFirstArgs>(args?: Prisma.SelectSubset<T, LoginAttemptFindFirstArgs<ExtArgs>>): Prisma.Prisma__LoginAttemptClient<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LoginAttempt that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginAttemptFindFirstOrThrowArgs} args - Arguments to find a LoginAttempt
+   * @example
+   * // Get one LoginAttempt
+   * const loginAttempt = await prisma.loginAttempt.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends LoginAttemptFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, LoginAttemptFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__LoginAttemptClient<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more LoginAttempts that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginAttemptFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all LoginAttempts
+   * const loginAttempts = await prisma.loginAttempt.findMany()
+   * 
+   * // Get first 10 LoginAttempts
+   * const loginAttempts = await prisma.loginAttempt.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const loginAttemptWithIdOnly = await prisma.loginAttempt.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends LoginAttemptFindManyArgs>(args?: Prisma.SelectSubset<T, LoginAttemptFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a LoginAttempt.
+   * @param {LoginAttemptCreateArgs} args - Arguments to create a LoginAttempt.
+   * @example
+   * // Create one LoginAttempt
+   * const LoginAttempt = await prisma.loginAttempt.create({
+   *   data: {
+   *     // ... data to create a LoginAttempt
+   *   }
+   * })
+   * 
+   */
+  create<T extends LoginAttemptCreateArgs>(args: Prisma.SelectSubset<T, LoginAttemptCreateArgs<ExtArgs>>): Prisma.Prisma__LoginAttemptClient<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many LoginAttempts.
+   * @param {LoginAttemptCreateManyArgs} args - Arguments to create many LoginAttempts.
+   * @example
+   * // Create many LoginAttempts
+   * const loginAttempt = await prisma.loginAttempt.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends LoginAttemptCreateManyArgs>(args?: Prisma.SelectSubset<T, LoginAttemptCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many LoginAttempts and returns the data saved in the database.
+   * @param {LoginAttemptCreateManyAndReturnArgs} args - Arguments to create many LoginAttempts.
+   * @example
+   * // Create many LoginAttempts
+   * const loginAttempt = await prisma.loginAttempt.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many LoginAttempts and only return the `id`
+   * const loginAttemptWithIdOnly = await prisma.loginAttempt.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends LoginAttemptCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, LoginAttemptCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a LoginAttempt.
+   * @param {LoginAttemptDeleteArgs} args - Arguments to delete one LoginAttempt.
+   * @example
+   * // Delete one LoginAttempt
+   * const LoginAttempt = await prisma.loginAttempt.delete({
+   *   where: {
+   *     // ... filter to delete one LoginAttempt
+   *   }
+   * })
+   * 
+   */
+  delete<T extends LoginAttemptDeleteArgs>(args: Prisma.SelectSubset<T, LoginAttemptDeleteArgs<ExtArgs>>): Prisma.Prisma__LoginAttemptClient<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one LoginAttempt.
+   * @param {LoginAttemptUpdateArgs} args - Arguments to update one LoginAttempt.
+   * @example
+   * // Update one LoginAttempt
+   * const loginAttempt = await prisma.loginAttempt.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends LoginAttemptUpdateArgs>(args: Prisma.SelectSubset<T, LoginAttemptUpdateArgs<ExtArgs>>): Prisma.Prisma__LoginAttemptClient<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more LoginAttempts.
+   * @param {LoginAttemptDeleteManyArgs} args - Arguments to filter LoginAttempts to delete.
+   * @example
+   * // Delete a few LoginAttempts
+   * const { count } = await prisma.loginAttempt.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends LoginAttemptDeleteManyArgs>(args?: Prisma.SelectSubset<T, LoginAttemptDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LoginAttempts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginAttemptUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many LoginAttempts
+   * const loginAttempt = await prisma.loginAttempt.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends LoginAttemptUpdateManyArgs>(args: Prisma.SelectSubset<T, LoginAttemptUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LoginAttempts and returns the data updated in the database.
+   * @param {LoginAttemptUpdateManyAndReturnArgs} args - Arguments to update many LoginAttempts.
+   * @example
+   * // Update many LoginAttempts
+   * const loginAttempt = await prisma.loginAttempt.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more LoginAttempts and only return the `id`
+   * const loginAttemptWithIdOnly = await prisma.loginAttempt.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends LoginAttemptUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, LoginAttemptUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one LoginAttempt.
+   * @param {LoginAttemptUpsertArgs} args - Arguments to update or create a LoginAttempt.
+   * @example
+   * // Update or create a LoginAttempt
+   * const loginAttempt = await prisma.loginAttempt.upsert({
+   *   create: {
+   *     // ... data to create a LoginAttempt
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the LoginAttempt we want to update
+   *   }
+   * })
+   */
+  upsert<T extends LoginAttemptUpsertArgs>(args: Prisma.SelectSubset<T, LoginAttemptUpsertArgs<ExtArgs>>): Prisma.Prisma__LoginAttemptClient<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of LoginAttempts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginAttemptCountArgs} args - Arguments to filter LoginAttempts to count.
+   * @example
+   * // Count the number of LoginAttempts
+   * const count = await prisma.loginAttempt.count({
+   *   where: {
+   *     // ... the filter for the LoginAttempts we want to count
+   *   }
+   * })
+  **/
+  count<T extends LoginAttemptCountArgs>(
+    args?: Prisma.Subset<T, LoginAttemptCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], LoginAttemptCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a LoginAttempt.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginAttemptAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends LoginAttemptAggregateArgs>(args: Prisma.Subset<T, LoginAttemptAggregateArgs>): Prisma.PrismaPromise<GetLoginAttemptAggregateType<T>>
+
+  /**
+   * Group by LoginAttempt.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginAttemptGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends LoginAttemptGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: LoginAttemptGroupByArgs['orderBy'] }
+      : { orderBy?: LoginAttemptGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, LoginAttemptGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLoginAttemptGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the LoginAttempt model
+ */
+readonly fields: LoginAttemptFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for LoginAttempt.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__LoginAttemptClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.LoginAttempt$userArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.LoginAttempt$userArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the LoginAttempt model
+ */
+export interface LoginAttemptFieldRefs {
+  readonly id: Prisma.FieldRef<"LoginAttempt", 'String'>
+  readonly user_id: Prisma.FieldRef<"LoginAttempt", 'String'>
+  readonly email: Prisma.FieldRef<"LoginAttempt", 'String'>
+  readonly success: Prisma.FieldRef<"LoginAttempt", 'Boolean'>
+  readonly failure_reason: Prisma.FieldRef<"LoginAttempt", 'LoginFailureReason'>
+  readonly device_label: Prisma.FieldRef<"LoginAttempt", 'String'>
+  readonly user_agent: Prisma.FieldRef<"LoginAttempt", 'String'>
+  readonly ip_address: Prisma.FieldRef<"LoginAttempt", 'String'>
+  readonly created_at: Prisma.FieldRef<"LoginAttempt", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * LoginAttempt findUnique
+ */
+export type LoginAttemptFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginAttempt to fetch.
+   */
+  where: Prisma.LoginAttemptWhereUniqueInput
+}
+
+/**
+ * LoginAttempt findUniqueOrThrow
+ */
+export type LoginAttemptFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginAttempt to fetch.
+   */
+  where: Prisma.LoginAttemptWhereUniqueInput
+}
+
+/**
+ * LoginAttempt findFirst
+ */
+export type LoginAttemptFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginAttempt to fetch.
+   */
+  where?: Prisma.LoginAttemptWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LoginAttempts to fetch.
+   */
+  orderBy?: Prisma.LoginAttemptOrderByWithRelationInput | Prisma.LoginAttemptOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LoginAttempts.
+   */
+  cursor?: Prisma.LoginAttemptWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LoginAttempts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LoginAttempts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LoginAttempts.
+   */
+  distinct?: Prisma.LoginAttemptScalarFieldEnum | Prisma.LoginAttemptScalarFieldEnum[]
+}
+
+/**
+ * LoginAttempt findFirstOrThrow
+ */
+export type LoginAttemptFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginAttempt to fetch.
+   */
+  where?: Prisma.LoginAttemptWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LoginAttempts to fetch.
+   */
+  orderBy?: Prisma.LoginAttemptOrderByWithRelationInput | Prisma.LoginAttemptOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LoginAttempts.
+   */
+  cursor?: Prisma.LoginAttemptWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LoginAttempts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LoginAttempts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LoginAttempts.
+   */
+  distinct?: Prisma.LoginAttemptScalarFieldEnum | Prisma.LoginAttemptScalarFieldEnum[]
+}
+
+/**
+ * LoginAttempt findMany
+ */
+export type LoginAttemptFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginAttempts to fetch.
+   */
+  where?: Prisma.LoginAttemptWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LoginAttempts to fetch.
+   */
+  orderBy?: Prisma.LoginAttemptOrderByWithRelationInput | Prisma.LoginAttemptOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing LoginAttempts.
+   */
+  cursor?: Prisma.LoginAttemptWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LoginAttempts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LoginAttempts.
+   */
+  skip?: number
+  distinct?: Prisma.LoginAttemptScalarFieldEnum | Prisma.LoginAttemptScalarFieldEnum[]
+}
+
+/**
+ * LoginAttempt create
+ */
+export type LoginAttemptCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  /**
+   * The data needed to create a LoginAttempt.
+   */
+  data: Prisma.XOR<Prisma.LoginAttemptCreateInput, Prisma.LoginAttemptUncheckedCreateInput>
+}
+
+/**
+ * LoginAttempt createMany
+ */
+export type LoginAttemptCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many LoginAttempts.
+   */
+  data: Prisma.LoginAttemptCreateManyInput | Prisma.LoginAttemptCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * LoginAttempt createManyAndReturn
+ */
+export type LoginAttemptCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * The data used to create many LoginAttempts.
+   */
+  data: Prisma.LoginAttemptCreateManyInput | Prisma.LoginAttemptCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * LoginAttempt update
+ */
+export type LoginAttemptUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  /**
+   * The data needed to update a LoginAttempt.
+   */
+  data: Prisma.XOR<Prisma.LoginAttemptUpdateInput, Prisma.LoginAttemptUncheckedUpdateInput>
+  /**
+   * Choose, which LoginAttempt to update.
+   */
+  where: Prisma.LoginAttemptWhereUniqueInput
+}
+
+/**
+ * LoginAttempt updateMany
+ */
+export type LoginAttemptUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update LoginAttempts.
+   */
+  data: Prisma.XOR<Prisma.LoginAttemptUpdateManyMutationInput, Prisma.LoginAttemptUncheckedUpdateManyInput>
+  /**
+   * Filter which LoginAttempts to update
+   */
+  where?: Prisma.LoginAttemptWhereInput
+  /**
+   * Limit how many LoginAttempts to update.
+   */
+  limit?: number
+}
+
+/**
+ * LoginAttempt updateManyAndReturn
+ */
+export type LoginAttemptUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * The data used to update LoginAttempts.
+   */
+  data: Prisma.XOR<Prisma.LoginAttemptUpdateManyMutationInput, Prisma.LoginAttemptUncheckedUpdateManyInput>
+  /**
+   * Filter which LoginAttempts to update
+   */
+  where?: Prisma.LoginAttemptWhereInput
+  /**
+   * Limit how many LoginAttempts to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * LoginAttempt upsert
+ */
+export type LoginAttemptUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  /**
+   * The filter to search for the LoginAttempt to update in case it exists.
+   */
+  where: Prisma.LoginAttemptWhereUniqueInput
+  /**
+   * In case the LoginAttempt found by the `where` argument doesn't exist, create a new LoginAttempt with this data.
+   */
+  create: Prisma.XOR<Prisma.LoginAttemptCreateInput, Prisma.LoginAttemptUncheckedCreateInput>
+  /**
+   * In case the LoginAttempt was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.LoginAttemptUpdateInput, Prisma.LoginAttemptUncheckedUpdateInput>
+}
+
+/**
+ * LoginAttempt delete
+ */
+export type LoginAttemptDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  /**
+   * Filter which LoginAttempt to delete.
+   */
+  where: Prisma.LoginAttemptWhereUniqueInput
+}
+
+/**
+ * LoginAttempt deleteMany
+ */
+export type LoginAttemptDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LoginAttempts to delete
+   */
+  where?: Prisma.LoginAttemptWhereInput
+  /**
+   * Limit how many LoginAttempts to delete.
+   */
+  limit?: number
+}
+
+/**
+ * LoginAttempt.user
+ */
+export type LoginAttempt$userArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * LoginAttempt without action
+ */
+export type LoginAttemptDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+}
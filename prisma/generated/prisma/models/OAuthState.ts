@@ -0,0 +1,1172 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OAuthState` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model OAuthState
+ * 
+ */
+export type OAuthStateModel = runtime.Types.Result.DefaultSelection<Prisma.$OAuthStatePayload>
+
+export type AggregateOAuthState = {
+  _count: OAuthStateCountAggregateOutputType | null
+  _min: OAuthStateMinAggregateOutputType | null
+  _max: OAuthStateMaxAggregateOutputType | null
+}
+
+export type OAuthStateMinAggregateOutputType = {
+  id: string | null
+  state: string | null
+  provider: string | null
+  code_verifier: string | null
+  expires_at: Date | null
+  created_at: Date | null
+}
+
+export type OAuthStateMaxAggregateOutputType = {
+  id: string | null
+  state: string | null
+  provider: string | null
+  code_verifier: string | null
+  expires_at: Date | null
+  created_at: Date | null
+}
+
+export type OAuthStateCountAggregateOutputType = {
+  id: number
+  state: number
+  provider: number
+  code_verifier: number
+  expires_at: number
+  created_at: number
+  _all: number
+}
+
+
+export type OAuthStateMinAggregateInputType = {
+  id?: true
+  state?: true
+  provider?: true
+  code_verifier?: true
+  expires_at?: true
+  created_at?: true
+}
+
+export type OAuthStateMaxAggregateInputType = {
+  id?: true
+  state?: true
+  provider?: true
+  code_verifier?: true
+  expires_at?: true
+  created_at?: true
+}
+
+export type OAuthStateCountAggregateInputType = {
+  id?: true
+  state?: true
+  provider?: true
+  code_verifier?: true
+  expires_at?: true
+  created_at?: true
+  _all?: true
+}
+
+export type OAuthStateAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OAuthState to aggregate.
+   */
+  where?: Prisma.OAuthStateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OAuthStates to fetch.
+   */
+  orderBy?: Prisma.OAuthStateOrderByWithRelationInput | Prisma.OAuthStateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OAuthStateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OAuthStates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OAuthStates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OAuthStates
+  **/
+  _count?: true | OAuthStateCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OAuthStateMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OAuthStateMaxAggregateInputType
+}
+
+export type GetOAuthStateAggregateType<T extends OAuthStateAggregateArgs> = {
+      [P in keyof T & keyof AggregateOAuthState]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOAuthState[P]>
+    : Prisma.GetScalarType<T[P], AggregateOAuthState[P]>
+}
+
+
+
+
+export type OAuthStateGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OAuthStateWhereInput
+  orderBy?: Prisma.OAuthStateOrderByWithAggregationInput | Prisma.OAuthStateOrderByWithAggregationInput[]
+  by: Prisma.OAuthStateScalarFieldEnum[] | Prisma.OAuthStateScalarFieldEnum
+  having?: Prisma.OAuthStateScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OAuthStateCountAggregateInputType | true
+  _min?: OAuthStateMinAggregateInputType
+  _max?: OAuthStateMaxAggregateInputType
+}
+
+export type OAuthStateGroupByOutputType = {
+  id: string
+  state: string
+  provider: string
+  code_verifier: string
+  expires_at: Date
+  created_at: Date
+  _count: OAuthStateCountAggregateOutputType | null
+  _min: OAuthStateMinAggregateOutputType | null
+  _max: OAuthStateMaxAggregateOutputType | null
+}
+
+type GetOAuthStateGroupByPayload<T extends OAuthStateGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OAuthStateGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OAuthStateGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OAuthStateGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OAuthStateGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OAuthStateWhereInput = {
+  AND?: Prisma.OAuthStateWhereInput | Prisma.OAuthStateWhereInput[]
+  OR?: Prisma.OAuthStateWhereInput[]
+  NOT?: Prisma.OAuthStateWhereInput | Prisma.OAuthStateWhereInput[]
+  id?: Prisma.StringFilter<"OAuthState"> | string
+  state?: Prisma.StringFilter<"OAuthState"> | string
+  provider?: Prisma.StringFilter<"OAuthState"> | string
+  code_verifier?: Prisma.StringFilter<"OAuthState"> | string
+  expires_at?: Prisma.DateTimeFilter<"OAuthState"> | Date | string
+  created_at?: Prisma.DateTimeFilter<"OAuthState"> | Date | string
+}
+
+export type OAuthStateOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  code_verifier?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+}
+
+export type OAuthStateWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  state?: string
+  AND?: Prisma.OAuthStateWhereInput | Prisma.OAuthStateWhereInput[]
+  OR?: Prisma.OAuthStateWhereInput[]
+  NOT?: Prisma.OAuthStateWhereInput | Prisma.OAuthStateWhereInput[]
+  provider?: Prisma.StringFilter<"OAuthState"> | string
+  code_verifier?: Prisma.StringFilter<"OAuthState"> | string
+  expires_at?: Prisma.DateTimeFilter<"OAuthState"> | Date | string
+  created_at?: Prisma.DateTimeFilter<"OAuthState"> | Date | string
+}, "id" | "state">
+
+export type OAuthStateOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  code_verifier?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  _count?: Prisma.OAuthStateCountOrderByAggregateInput
+  _max?: Prisma.OAuthStateMaxOrderByAggregateInput
+  _min?: Prisma.OAuthStateMinOrderByAggregateInput
+}
+
+export type OAuthStateScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OAuthStateScalarWhereWithAggregatesInput | Prisma.OAuthStateScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OAuthStateScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OAuthStateScalarWhereWithAggregatesInput | Prisma.OAuthStateScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"OAuthState"> | string
+  state?: Prisma.StringWithAggregatesFilter<"OAuthState"> | string
+  provider?: Prisma.StringWithAggregatesFilter<"OAuthState"> | string
+  code_verifier?: Prisma.StringWithAggregatesFilter<"OAuthState"> | string
+  expires_at?: Prisma.DateTimeWithAggregatesFilter<"OAuthState"> | Date | string
+  created_at?: Prisma.DateTimeWithAggregatesFilter<"OAuthState"> | Date | string
+}
+
+export type OAuthStateCreateInput = {
+  id?: string
+  state: string
+  provider: string
+  code_verifier: string
+  expires_at: Date | string
+  created_at?: Date | string
+}
+
+export type OAuthStateUncheckedCreateInput = {
+  id?: string
+  state: string
+  provider: string
+  code_verifier: string
+  expires_at: Date | string
+  created_at?: Date | string
+}
+
+export type OAuthStateUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  code_verifier?: Prisma.StringFieldUpdateOperationsInput | string
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OAuthStateUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  code_verifier?: Prisma.StringFieldUpdateOperationsInput | string
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OAuthStateCreateManyInput = {
+  id?: string
+  state: string
+  provider: string
+  code_verifier: string
+  expires_at: Date | string
+  created_at?: Date | string
+}
+
+export type OAuthStateUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  code_verifier?: Prisma.StringFieldUpdateOperationsInput | string
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OAuthStateUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  state?: Prisma.StringFieldUpdateOperationsInput | string
+  provider?: Prisma.StringFieldUpdateOperationsInput | string
+  code_verifier?: Prisma.StringFieldUpdateOperationsInput | string
+  expires_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OAuthStateCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  code_verifier?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+}
+
+export type OAuthStateMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  code_verifier?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+}
+
+export type OAuthStateMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  state?: Prisma.SortOrder
+  provider?: Prisma.SortOrder
+  code_verifier?: Prisma.SortOrder
+  expires_at?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+}
+
+
+
+export type OAuthStateSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  state?: boolean
+  provider?: boolean
+  code_verifier?: boolean
+  expires_at?: boolean
+  created_at?: boolean
+}, ExtArgs["result"]["oAuthState"]>
+
+export type OAuthStateSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  state?: boolean
+  provider?: boolean
+  code_verifier?: boolean
+  expires_at?: boolean
+  created_at?: boolean
+}, ExtArgs["result"]["oAuthState"]>
+
+export type OAuthStateSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  state?: boolean
+  provider?: boolean
+  code_verifier?: boolean
+  expires_at?: boolean
+  created_at?: boolean
+}, ExtArgs["result"]["oAuthState"]>
+
+export type OAuthStateSelectScalar = {
+  id?: boolean
+  state?: boolean
+  provider?: boolean
+  code_verifier?: boolean
+  expires_at?: boolean
+  created_at?: boolean
+}
+
+export type OAuthStateOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "state" | "provider" | "code_verifier" | "expires_at" | "created_at", ExtArgs["result"]["oAuthState"]>
+
+export type $OAuthStatePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OAuthState"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    state: string
+    provider: string
+    code_verifier: string
+    expires_at: Date
+    created_at: Date
+  }, ExtArgs["result"]["oAuthState"]>
+  composites: {}
+}
+
+export type OAuthStateGetPayload<S extends boolean | null | undefined | OAuthStateDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload, S>
+
+export type OAuthStateCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OAuthStateFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OAuthStateCountAggregateInputType | true
+  }
+
+export interface OAuthStateDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OAuthState'], meta: { name: 'OAuthState' } }
+  /**
+   * Find zero or one OAuthState that matches the filter.
+   * @param {OAuthStateFindUniqueArgs} args - Arguments to find a OAuthState
+   * @example
+   * // Get one OAuthState
+   * const oAuthState = await prisma.oAuthState.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OAuthStateFindUniqueArgs>(args: Prisma.SelectSubset<T, OAuthStateFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OAuthStateClient<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OAuthState that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OAuthStateFindUniqueOrThrowArgs} args - Arguments to find a OAuthState
+   * @example
+   * // Get one OAuthState
+   * const oAuthState = await prisma.oAuthState.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OAuthStateFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OAuthStateFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OAuthStateClient<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OAuthState that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OAuthStateFindFirstArgs} args - Arguments to find a OAuthState
+   * @example
+   * // Get one OAuthState
+   * const oAuthState = await prisma.oAuthState.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OAuthStateFindFirstArgs>(args?: Prisma.SelectSubset<T, OAuthStateFindFirstArgs<ExtArgs>>): Prisma.Prisma__OAuthStateClient<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OAuthState that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OAuthStateFindFirstOrThrowArgs} args - Arguments to find a OAuthState
+   * @example
+   * // Get one OAuthState
+   * const oAuthState = await prisma.oAuthState.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OAuthStateFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OAuthStateFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OAuthStateClient<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OAuthStates that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OAuthStateFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OAuthStates
+   * const oAuthStates = await prisma.oAuthState.findMany()
+   * 
+   * // Get first 10 OAuthStates
+   * const oAuthStates = await prisma.oAuthState.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const oAuthStateWithIdOnly = await prisma.oAuthState.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OAuthStateFindManyArgs>(args?: Prisma.SelectSubset<T, OAuthStateFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OAuthState.
+   * @param {OAuthStateCreateArgs} args - Arguments to create a OAuthState.
+   * @example
+   * // Create one OAuthState
+   * const OAuthState = await prisma.oAuthState.create({
+   *   data: {
+   *     // ... data to create a OAuthState
+   *   }
+   * })
+   * 
+   */
+  create<T extends OAuthStateCreateArgs>(args: Prisma.SelectSubset<T, OAuthStateCreateArgs<ExtArgs>>): Prisma.Prisma__OAuthStateClient<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OAuthStates.
+   * @param {OAuthStateCreateManyArgs} args - Arguments to create many OAuthStates.
+   * @example
+   * // Create many OAuthStates
+   * const oAuthState = await prisma.oAuthState.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OAuthStateCreateManyArgs>(args?: Prisma.SelectSubset<T, OAuthStateCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OAuthStates and returns the data saved in the database.
+   * @param {OAuthStateCreateManyAndReturnArgs} args - Arguments to create many OAuthStates.
+   * @example
+   * // Create many OAuthStates
+   * const oAuthState = await prisma.oAuthState.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OAuthStates and only return the `id`
+   * const oAuthStateWithIdOnly = await prisma.oAuthState.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OAuthStateCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OAuthStateCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OAuthState.
+   * @param {OAuthStateDeleteArgs} args - Arguments to delete one OAuthState.
+   * @example
+   * // Delete one OAuthState
+   * const OAuthState = await prisma.oAuthState.delete({
+   *   where: {
+   *     // ... filter to delete one OAuthState
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OAuthStateDeleteArgs>(args: Prisma.SelectSubset<T, OAuthStateDeleteArgs<ExtArgs>>): Prisma.Prisma__OAuthStateClient<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OAuthState.
+   * @param {OAuthStateUpdateArgs} args - Arguments to update one OAuthState.
+   * @example
+   * // Update one OAuthState
+   * const oAuthState = await prisma.oAuthState.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OAuthStateUpdateArgs>(args: Prisma.SelectSubset<T, OAuthStateUpdateArgs<ExtArgs>>): Prisma.Prisma__OAuthStateClient<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OAuthStates.
+   * @param {OAuthStateDeleteManyArgs} args - Arguments to filter OAuthStates to delete.
+   * @example
+   * // Delete a few OAuthStates
+   * const { count } = await prisma.oAuthState.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OAuthStateDeleteManyArgs>(args?: Prisma.SelectSubset<T, OAuthStateDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OAuthStates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OAuthStateUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OAuthStates
+   * const oAuthState = await prisma.oAuthState.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OAuthStateUpdateManyArgs>(args: Prisma.SelectSubset<T, OAuthStateUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OAuthStates and returns the data updated in the database.
+   * @param {OAuthStateUpdateManyAndReturnArgs} args - Arguments to update many OAuthStates.
+   * @example
+   * // Update many OAuthStates
+   * const oAuthState = await prisma.oAuthState.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OAuthStates and only return the `id`
+   * const oAuthStateWithIdOnly = await prisma.oAuthState.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OAuthStateUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OAuthStateUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OAuthState.
+   * @param {OAuthStateUpsertArgs} args - Arguments to update or create a OAuthState.
+   * @example
+   * // Update or create a OAuthState
+   * const oAuthState = await prisma.oAuthState.upsert({
+   *   create: {
+   *     // ... data to create a OAuthState
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OAuthState we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OAuthStateUpsertArgs>(args: Prisma.SelectSubset<T, OAuthStateUpsertArgs<ExtArgs>>): Prisma.Prisma__OAuthStateClient<runtime.Types.Result.GetResult<Prisma.$OAuthStatePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OAuthStates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OAuthStateCountArgs} args - Arguments to filter OAuthStates to count.
+   * @example
+   * // Count the number of OAuthStates
+   * const count = await prisma.oAuthState.count({
+   *   where: {
+   *     // ... the filter for the OAuthStates we want to count
+   *   }
+   * })
+  **/
+  count<T extends OAuthStateCountArgs>(
+    args?: Prisma.Subset<T, OAuthStateCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OAuthStateCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OAuthState.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OAuthStateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OAuthStateAggregateArgs>(args: Prisma.Subset<T, OAuthStateAggregateArgs>): Prisma.PrismaPromise<GetOAuthStateAggregateType<T>>
+
+  /**
+   * Group by OAuthState.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OAuthStateGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OAuthStateGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OAuthStateGroupByArgs['orderBy'] }
+      : { orderBy?: OAuthStateGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OAuthStateGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOAuthStateGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OAuthState model
+ */
+readonly fields: OAuthStateFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OAuthState.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OAuthStateClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OAuthState model
+ */
+export interface OAuthStateFieldRefs {
+  readonly id: Prisma.FieldRef<"OAuthState", 'String'>
+  readonly state: Prisma.FieldRef<"OAuthState", 'String'>
+  readonly provider: Prisma.FieldRef<"OAuthState", 'String'>
+  readonly code_verifier: Prisma.FieldRef<"OAuthState", 'String'>
+  readonly expires_at: Prisma.FieldRef<"OAuthState", 'DateTime'>
+  readonly created_at: Prisma.FieldRef<"OAuthState", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OAuthState findUnique
+ */
+export type OAuthStateFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * Filter, which OAuthState to fetch.
+   */
+  where: Prisma.OAuthStateWhereUniqueInput
+}
+
+/**
+ * OAuthState findUniqueOrThrow
+ */
+export type OAuthStateFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * Filter, which OAuthState to fetch.
+   */
+  where: Prisma.OAuthStateWhereUniqueInput
+}
+
+/**
+ * OAuthState findFirst
+ */
+export type OAuthStateFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * Filter, which OAuthState to fetch.
+   */
+  where?: Prisma.OAuthStateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OAuthStates to fetch.
+   */
+  orderBy?: Prisma.OAuthStateOrderByWithRelationInput | Prisma.OAuthStateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OAuthStates.
+   */
+  cursor?: Prisma.OAuthStateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OAuthStates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OAuthStates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OAuthStates.
+   */
+  distinct?: Prisma.OAuthStateScalarFieldEnum | Prisma.OAuthStateScalarFieldEnum[]
+}
+
+/**
+ * OAuthState findFirstOrThrow
+ */
+export type OAuthStateFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * Filter, which OAuthState to fetch.
+   */
+  where?: Prisma.OAuthStateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OAuthStates to fetch.
+   */
+  orderBy?: Prisma.OAuthStateOrderByWithRelationInput | Prisma.OAuthStateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OAuthStates.
+   */
+  cursor?: Prisma.OAuthStateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OAuthStates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OAuthStates.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OAuthStates.
+   */
+  distinct?: Prisma.OAuthStateScalarFieldEnum | Prisma.OAuthStateScalarFieldEnum[]
+}
+
+/**
+ * OAuthState findMany
+ */
+export type OAuthStateFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * Filter, which OAuthStates to fetch.
+   */
+  where?: Prisma.OAuthStateWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OAuthStates to fetch.
+   */
+  orderBy?: Prisma.OAuthStateOrderByWithRelationInput | Prisma.OAuthStateOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OAuthStates.
+   */
+  cursor?: Prisma.OAuthStateWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OAuthStates from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OAuthStates.
+   */
+  skip?: number
+  distinct?: Prisma.OAuthStateScalarFieldEnum | Prisma.OAuthStateScalarFieldEnum[]
+}
+
+/**
+ * OAuthState create
+ */
+export type OAuthStateCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * The data needed to create a OAuthState.
+   */
+  data: Prisma.XOR<Prisma.OAuthStateCreateInput, Prisma.OAuthStateUncheckedCreateInput>
+}
+
+/**
+ * OAuthState createMany
+ */
+export type OAuthStateCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OAuthStates.
+   */
+  data: Prisma.OAuthStateCreateManyInput | Prisma.OAuthStateCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * OAuthState createManyAndReturn
+ */
+export type OAuthStateCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * The data used to create many OAuthStates.
+   */
+  data: Prisma.OAuthStateCreateManyInput | Prisma.OAuthStateCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * OAuthState update
+ */
+export type OAuthStateUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * The data needed to update a OAuthState.
+   */
+  data: Prisma.XOR<Prisma.OAuthStateUpdateInput, Prisma.OAuthStateUncheckedUpdateInput>
+  /**
+   * Choose, which OAuthState to update.
+   */
+  where: Prisma.OAuthStateWhereUniqueInput
+}
+
+/**
+ * OAuthState updateMany
+ */
+export type OAuthStateUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OAuthStates.
+   */
+  data: Prisma.XOR<Prisma.OAuthStateUpdateManyMutationInput, Prisma.OAuthStateUncheckedUpdateManyInput>
+  /**
+   * Filter which OAuthStates to update
+   */
+  where?: Prisma.OAuthStateWhereInput
+  /**
+   * Limit how many OAuthStates to update.
+   */
+  limit?: number
+}
+
+/**
+ * OAuthState updateManyAndReturn
+ */
+export type OAuthStateUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * The data used to update OAuthStates.
+   */
+  data: Prisma.XOR<Prisma.OAuthStateUpdateManyMutationInput, Prisma.OAuthStateUncheckedUpdateManyInput>
+  /**
+   * Filter which OAuthStates to update
+   */
+  where?: Prisma.OAuthStateWhereInput
+  /**
+   * Limit how many OAuthStates to update.
+   */
+  limit?: number
+}
+
+/**
+ * OAuthState upsert
+ */
+export type OAuthStateUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * The filter to search for the OAuthState to update in case it exists.
+   */
+  where: Prisma.OAuthStateWhereUniqueInput
+  /**
+   * In case the OAuthState found by the `where` argument doesn't exist, create a new OAuthState with this data.
+   */
+  create: Prisma.XOR<Prisma.OAuthStateCreateInput, Prisma.OAuthStateUncheckedCreateInput>
+  /**
+   * In case the OAuthState was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OAuthStateUpdateInput, Prisma.OAuthStateUncheckedUpdateInput>
+}
+
+/**
+ * OAuthState delete
+ */
+export type OAuthStateDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+  /**
+   * Filter which OAuthState to delete.
+   */
+  where: Prisma.OAuthStateWhereUniqueInput
+}
+
+/**
+ * OAuthState deleteMany
+ */
+export type OAuthStateDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OAuthStates to delete
+   */
+  where?: Prisma.OAuthStateWhereInput
+  /**
+   * Limit how many OAuthStates to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OAuthState without action
+ */
+export type OAuthStateDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OAuthState
+   */
+  select?: Prisma.OAuthStateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OAuthState
+   */
+  omit?: Prisma.OAuthStateOmit<ExtArgs> | null
+}
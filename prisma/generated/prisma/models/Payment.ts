@@ -29,16 +29,19 @@ export type AggregatePayment = {
 export type PaymentAvgAggregateOutputType = {
   amount: number | null
   credits_purchased: number | null
+  refunded_amount: number | null
 }
 
 export type PaymentSumAggregateOutputType = {
   amount: number | null
   credits_purchased: number | null
+  refunded_amount: number | null
 }
 
 export type PaymentMinAggregateOutputType = {
   id: string | null
   user_id: string | null
+  organization_id: string | null
   package_id: string | null
   amount: number | null
   currency: string | null
@@ -46,6 +49,7 @@ export type PaymentMinAggregateOutputType = {
   bkash_trx_id: string | null
   status: $Enums.PaymentStatus | null
   credits_purchased: number | null
+  refunded_amount: number | null
   created_at: Date | null
   updated_at: Date | null
 }
@@ -53,6 +57,7 @@ export type PaymentMinAggregateOutputType = {
 export type PaymentMaxAggregateOutputType = {
   id: string | null
   user_id: string | null
+  organization_id: string | null
   package_id: string | null
   amount: number | null
   currency: string | null
@@ -60,6 +65,7 @@ export type PaymentMaxAggregateOutputType = {
   bkash_trx_id: string | null
   status: $Enums.PaymentStatus | null
   credits_purchased: number | null
+  refunded_amount: number | null
   created_at: Date | null
   updated_at: Date | null
 }
@@ -67,6 +73,7 @@ export type PaymentMaxAggregateOutputType = {
 export type PaymentCountAggregateOutputType = {
   id: number
   user_id: number
+  organization_id: number
   package_id: number
   amount: number
   currency: number
@@ -74,6 +81,7 @@ export type PaymentCountAggregateOutputType = {
   bkash_trx_id: number
   status: number
   credits_purchased: number
+  refunded_amount: number
   created_at: number
   updated_at: number
   _all: number
@@ -83,16 +91,19 @@ export type PaymentCountAggregateOutputType = {
 export type PaymentAvgAggregateInputType = {
   amount?: true
   credits_purchased?: true
+  refunded_amount?: true
 }
 
 export type PaymentSumAggregateInputType = {
   amount?: true
   credits_purchased?: true
+  refunded_amount?: true
 }
 
 export type PaymentMinAggregateInputType = {
   id?: true
   user_id?: true
+  organization_id?: true
   package_id?: true
   amount?: true
   currency?: true
@@ -100,6 +111,7 @@ export type PaymentMinAggregateInputType = {
   bkash_trx_id?: true
   status?: true
   credits_purchased?: true
+  refunded_amount?: true
   created_at?: true
   updated_at?: true
 }
@@ -107,6 +119,7 @@ export type PaymentMinAggregateInputType = {
 export type PaymentMaxAggregateInputType = {
   id?: true
   user_id?: true
+  organization_id?: true
   package_id?: true
   amount?: true
   currency?: true
@@ -114,6 +127,7 @@ export type PaymentMaxAggregateInputType = {
   bkash_trx_id?: true
   status?: true
   credits_purchased?: true
+  refunded_amount?: true
   created_at?: true
   updated_at?: true
 }
@@ -121,6 +135,7 @@ export type PaymentMaxAggregateInputType = {
 export type PaymentCountAggregateInputType = {
   id?: true
   user_id?: true
+  organization_id?: true
   package_id?: true
   amount?: true
   currency?: true
@@ -128,6 +143,7 @@ export type PaymentCountAggregateInputType = {
   bkash_trx_id?: true
   status?: true
   credits_purchased?: true
+  refunded_amount?: true
   created_at?: true
   updated_at?: true
   _all?: true
@@ -222,6 +238,7 @@ export type PaymentGroupByArgs<ExtArgs extends runtime.Types.Extensions.Internal
 export type PaymentGroupByOutputType = {
   id: string
   user_id: string
+  organization_id: string | null
   package_id: string | null
   amount: number
   currency: string
@@ -229,6 +246,7 @@ export type PaymentGroupByOutputType = {
   bkash_trx_id: string | null
   status: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount: number
   created_at: Date
   updated_at: Date
   _count: PaymentCountAggregateOutputType | null
@@ -259,6 +277,7 @@ export type PaymentWhereInput = {
   NOT?: Prisma.PaymentWhereInput | Prisma.PaymentWhereInput[]
   id?: Prisma.StringFilter<"Payment"> | string
   user_id?: Prisma.StringFilter<"Payment"> | string
+  organization_id?: Prisma.StringNullableFilter<"Payment"> | string | null
   package_id?: Prisma.StringNullableFilter<"Payment"> | string | null
   amount?: Prisma.FloatFilter<"Payment"> | number
   currency?: Prisma.StringFilter<"Payment"> | string
@@ -266,16 +285,20 @@ export type PaymentWhereInput = {
   bkash_trx_id?: Prisma.StringNullableFilter<"Payment"> | string | null
   status?: Prisma.EnumPaymentStatusFilter<"Payment"> | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFilter<"Payment"> | number
+  refunded_amount?: Prisma.FloatFilter<"Payment"> | number
   created_at?: Prisma.DateTimeFilter<"Payment"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"Payment"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  organization?: Prisma.XOR<Prisma.OrganizationNullableScalarRelationFilter, Prisma.OrganizationWhereInput> | null
   package?: Prisma.XOR<Prisma.CreditPackageNullableScalarRelationFilter, Prisma.CreditPackageWhereInput> | null
   creditLog?: Prisma.XOR<Prisma.CreditLogNullableScalarRelationFilter, Prisma.CreditLogWhereInput> | null
+  refunds?: Prisma.PaymentRefundListRelationFilter
 }
 
 export type PaymentOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrderInput | Prisma.SortOrder
   package_id?: Prisma.SortOrderInput | Prisma.SortOrder
   amount?: Prisma.SortOrder
   currency?: Prisma.SortOrder
@@ -283,11 +306,14 @@ export type PaymentOrderByWithRelationInput = {
   bkash_trx_id?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   credits_purchased?: Prisma.SortOrder
+  refunded_amount?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
   user?: Prisma.UserOrderByWithRelationInput
+  organization?: Prisma.OrganizationOrderByWithRelationInput
   package?: Prisma.CreditPackageOrderByWithRelationInput
   creditLog?: Prisma.CreditLogOrderByWithRelationInput
+  refunds?: Prisma.PaymentRefundOrderByRelationAggregateInput
 }
 
 export type PaymentWhereUniqueInput = Prisma.AtLeast<{
@@ -298,21 +324,26 @@ export type PaymentWhereUniqueInput = Prisma.AtLeast<{
   OR?: Prisma.PaymentWhereInput[]
   NOT?: Prisma.PaymentWhereInput | Prisma.PaymentWhereInput[]
   user_id?: Prisma.StringFilter<"Payment"> | string
+  organization_id?: Prisma.StringNullableFilter<"Payment"> | string | null
   package_id?: Prisma.StringNullableFilter<"Payment"> | string | null
   amount?: Prisma.FloatFilter<"Payment"> | number
   currency?: Prisma.StringFilter<"Payment"> | string
   status?: Prisma.EnumPaymentStatusFilter<"Payment"> | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFilter<"Payment"> | number
+  refunded_amount?: Prisma.FloatFilter<"Payment"> | number
   created_at?: Prisma.DateTimeFilter<"Payment"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"Payment"> | Date | string
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  organization?: Prisma.XOR<Prisma.OrganizationNullableScalarRelationFilter, Prisma.OrganizationWhereInput> | null
   package?: Prisma.XOR<Prisma.CreditPackageNullableScalarRelationFilter, Prisma.CreditPackageWhereInput> | null
   creditLog?: Prisma.XOR<Prisma.CreditLogNullableScalarRelationFilter, Prisma.CreditLogWhereInput> | null
+  refunds?: Prisma.PaymentRefundListRelationFilter
 }, "id" | "bkash_payment_id" | "bkash_trx_id">
 
 export type PaymentOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrderInput | Prisma.SortOrder
   package_id?: Prisma.SortOrderInput | Prisma.SortOrder
   amount?: Prisma.SortOrder
   currency?: Prisma.SortOrder
@@ -320,6 +351,7 @@ export type PaymentOrderByWithAggregationInput = {
   bkash_trx_id?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   credits_purchased?: Prisma.SortOrder
+  refunded_amount?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
   _count?: Prisma.PaymentCountOrderByAggregateInput
@@ -335,6 +367,7 @@ export type PaymentScalarWhereWithAggregatesInput = {
   NOT?: Prisma.PaymentScalarWhereWithAggregatesInput | Prisma.PaymentScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"Payment"> | string
   user_id?: Prisma.StringWithAggregatesFilter<"Payment"> | string
+  organization_id?: Prisma.StringNullableWithAggregatesFilter<"Payment"> | string | null
   package_id?: Prisma.StringNullableWithAggregatesFilter<"Payment"> | string | null
   amount?: Prisma.FloatWithAggregatesFilter<"Payment"> | number
   currency?: Prisma.StringWithAggregatesFilter<"Payment"> | string
@@ -342,6 +375,7 @@ export type PaymentScalarWhereWithAggregatesInput = {
   bkash_trx_id?: Prisma.StringNullableWithAggregatesFilter<"Payment"> | string | null
   status?: Prisma.EnumPaymentStatusWithAggregatesFilter<"Payment"> | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntWithAggregatesFilter<"Payment"> | number
+  refunded_amount?: Prisma.FloatWithAggregatesFilter<"Payment"> | number
   created_at?: Prisma.DateTimeWithAggregatesFilter<"Payment"> | Date | string
   updated_at?: Prisma.DateTimeWithAggregatesFilter<"Payment"> | Date | string
 }
@@ -354,16 +388,20 @@ export type PaymentCreateInput = {
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
   user: Prisma.UserCreateNestedOneWithoutPaymentsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutPaymentsInput
   package?: Prisma.CreditPackageCreateNestedOneWithoutPaymentsInput
   creditLog?: Prisma.CreditLogCreateNestedOneWithoutPaymentInput
+  refunds?: Prisma.PaymentRefundCreateNestedManyWithoutPaymentInput
 }
 
 export type PaymentUncheckedCreateInput = {
   id?: string
   user_id: string
+  organization_id?: string | null
   package_id?: string | null
   amount: number
   currency?: string
@@ -371,9 +409,11 @@ export type PaymentUncheckedCreateInput = {
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
   creditLog?: Prisma.CreditLogUncheckedCreateNestedOneWithoutPaymentInput
+  refunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutPaymentInput
 }
 
 export type PaymentUpdateInput = {
@@ -384,16 +424,20 @@ export type PaymentUpdateInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutPaymentsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutPaymentsNestedInput
   package?: Prisma.CreditPackageUpdateOneWithoutPaymentsNestedInput
   creditLog?: Prisma.CreditLogUpdateOneWithoutPaymentNestedInput
+  refunds?: Prisma.PaymentRefundUpdateManyWithoutPaymentNestedInput
 }
 
 export type PaymentUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   package_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amount?: Prisma.FloatFieldUpdateOperationsInput | number
   currency?: Prisma.StringFieldUpdateOperationsInput | string
@@ -401,14 +445,17 @@ export type PaymentUncheckedUpdateInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   creditLog?: Prisma.CreditLogUncheckedUpdateOneWithoutPaymentNestedInput
+  refunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutPaymentNestedInput
 }
 
 export type PaymentCreateManyInput = {
   id?: string
   user_id: string
+  organization_id?: string | null
   package_id?: string | null
   amount: number
   currency?: string
@@ -416,6 +463,7 @@ export type PaymentCreateManyInput = {
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -428,6 +476,7 @@ export type PaymentUpdateManyMutationInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -435,6 +484,7 @@ export type PaymentUpdateManyMutationInput = {
 export type PaymentUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   package_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amount?: Prisma.FloatFieldUpdateOperationsInput | number
   currency?: Prisma.StringFieldUpdateOperationsInput | string
@@ -442,6 +492,7 @@ export type PaymentUncheckedUpdateManyInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -459,6 +510,7 @@ export type PaymentOrderByRelationAggregateInput = {
 export type PaymentCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
   package_id?: Prisma.SortOrder
   amount?: Prisma.SortOrder
   currency?: Prisma.SortOrder
@@ -466,6 +518,7 @@ export type PaymentCountOrderByAggregateInput = {
   bkash_trx_id?: Prisma.SortOrder
   status?: Prisma.SortOrder
   credits_purchased?: Prisma.SortOrder
+  refunded_amount?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -473,11 +526,13 @@ export type PaymentCountOrderByAggregateInput = {
 export type PaymentAvgOrderByAggregateInput = {
   amount?: Prisma.SortOrder
   credits_purchased?: Prisma.SortOrder
+  refunded_amount?: Prisma.SortOrder
 }
 
 export type PaymentMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
   package_id?: Prisma.SortOrder
   amount?: Prisma.SortOrder
   currency?: Prisma.SortOrder
@@ -485,6 +540,7 @@ export type PaymentMaxOrderByAggregateInput = {
   bkash_trx_id?: Prisma.SortOrder
   status?: Prisma.SortOrder
   credits_purchased?: Prisma.SortOrder
+  refunded_amount?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -492,6 +548,7 @@ export type PaymentMaxOrderByAggregateInput = {
 export type PaymentMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   user_id?: Prisma.SortOrder
+  organization_id?: Prisma.SortOrder
   package_id?: Prisma.SortOrder
   amount?: Prisma.SortOrder
   currency?: Prisma.SortOrder
@@ -499,6 +556,7 @@ export type PaymentMinOrderByAggregateInput = {
   bkash_trx_id?: Prisma.SortOrder
   status?: Prisma.SortOrder
   credits_purchased?: Prisma.SortOrder
+  refunded_amount?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
@@ -506,6 +564,12 @@ export type PaymentMinOrderByAggregateInput = {
 export type PaymentSumOrderByAggregateInput = {
   amount?: Prisma.SortOrder
   credits_purchased?: Prisma.SortOrder
+  refunded_amount?: Prisma.SortOrder
+}
+
+export type PaymentScalarRelationFilter = {
+  is?: Prisma.PaymentWhereInput
+  isNot?: Prisma.PaymentWhereInput
 }
 
 export type PaymentNullableScalarRelationFilter = {
@@ -555,6 +619,48 @@ export type PaymentUncheckedUpdateManyWithoutUserNestedInput = {
   deleteMany?: Prisma.PaymentScalarWhereInput | Prisma.PaymentScalarWhereInput[]
 }
 
+export type PaymentCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.PaymentCreateWithoutOrganizationInput, Prisma.PaymentUncheckedCreateWithoutOrganizationInput> | Prisma.PaymentCreateWithoutOrganizationInput[] | Prisma.PaymentUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.PaymentCreateOrConnectWithoutOrganizationInput | Prisma.PaymentCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.PaymentCreateManyOrganizationInputEnvelope
+  connect?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+}
+
+export type PaymentUncheckedCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.PaymentCreateWithoutOrganizationInput, Prisma.PaymentUncheckedCreateWithoutOrganizationInput> | Prisma.PaymentCreateWithoutOrganizationInput[] | Prisma.PaymentUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.PaymentCreateOrConnectWithoutOrganizationInput | Prisma.PaymentCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.PaymentCreateManyOrganizationInputEnvelope
+  connect?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+}
+
+export type PaymentUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentCreateWithoutOrganizationInput, Prisma.PaymentUncheckedCreateWithoutOrganizationInput> | Prisma.PaymentCreateWithoutOrganizationInput[] | Prisma.PaymentUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.PaymentCreateOrConnectWithoutOrganizationInput | Prisma.PaymentCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.PaymentUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.PaymentUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.PaymentCreateManyOrganizationInputEnvelope
+  set?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+  disconnect?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+  delete?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+  connect?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+  update?: Prisma.PaymentUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.PaymentUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.PaymentUpdateManyWithWhereWithoutOrganizationInput | Prisma.PaymentUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.PaymentScalarWhereInput | Prisma.PaymentScalarWhereInput[]
+}
+
+export type PaymentUncheckedUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentCreateWithoutOrganizationInput, Prisma.PaymentUncheckedCreateWithoutOrganizationInput> | Prisma.PaymentCreateWithoutOrganizationInput[] | Prisma.PaymentUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.PaymentCreateOrConnectWithoutOrganizationInput | Prisma.PaymentCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.PaymentUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.PaymentUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.PaymentCreateManyOrganizationInputEnvelope
+  set?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+  disconnect?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+  delete?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+  connect?: Prisma.PaymentWhereUniqueInput | Prisma.PaymentWhereUniqueInput[]
+  update?: Prisma.PaymentUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.PaymentUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.PaymentUpdateManyWithWhereWithoutOrganizationInput | Prisma.PaymentUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.PaymentScalarWhereInput | Prisma.PaymentScalarWhereInput[]
+}
+
 export type PaymentCreateNestedManyWithoutPackageInput = {
   create?: Prisma.XOR<Prisma.PaymentCreateWithoutPackageInput, Prisma.PaymentUncheckedCreateWithoutPackageInput> | Prisma.PaymentCreateWithoutPackageInput[] | Prisma.PaymentUncheckedCreateWithoutPackageInput[]
   connectOrCreate?: Prisma.PaymentCreateOrConnectWithoutPackageInput | Prisma.PaymentCreateOrConnectWithoutPackageInput[]
@@ -601,6 +707,20 @@ export type EnumPaymentStatusFieldUpdateOperationsInput = {
   set?: $Enums.PaymentStatus
 }
 
+export type PaymentCreateNestedOneWithoutRefundsInput = {
+  create?: Prisma.XOR<Prisma.PaymentCreateWithoutRefundsInput, Prisma.PaymentUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.PaymentCreateOrConnectWithoutRefundsInput
+  connect?: Prisma.PaymentWhereUniqueInput
+}
+
+export type PaymentUpdateOneRequiredWithoutRefundsNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentCreateWithoutRefundsInput, Prisma.PaymentUncheckedCreateWithoutRefundsInput>
+  connectOrCreate?: Prisma.PaymentCreateOrConnectWithoutRefundsInput
+  upsert?: Prisma.PaymentUpsertWithoutRefundsInput
+  connect?: Prisma.PaymentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PaymentUpdateToOneWithWhereWithoutRefundsInput, Prisma.PaymentUpdateWithoutRefundsInput>, Prisma.PaymentUncheckedUpdateWithoutRefundsInput>
+}
+
 export type PaymentCreateNestedOneWithoutCreditLogInput = {
   create?: Prisma.XOR<Prisma.PaymentCreateWithoutCreditLogInput, Prisma.PaymentUncheckedCreateWithoutCreditLogInput>
   connectOrCreate?: Prisma.PaymentCreateOrConnectWithoutCreditLogInput
@@ -625,14 +745,18 @@ export type PaymentCreateWithoutUserInput = {
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
+  organization?: Prisma.OrganizationCreateNestedOneWithoutPaymentsInput
   package?: Prisma.CreditPackageCreateNestedOneWithoutPaymentsInput
   creditLog?: Prisma.CreditLogCreateNestedOneWithoutPaymentInput
+  refunds?: Prisma.PaymentRefundCreateNestedManyWithoutPaymentInput
 }
 
 export type PaymentUncheckedCreateWithoutUserInput = {
   id?: string
+  organization_id?: string | null
   package_id?: string | null
   amount: number
   currency?: string
@@ -640,9 +764,11 @@ export type PaymentUncheckedCreateWithoutUserInput = {
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
   creditLog?: Prisma.CreditLogUncheckedCreateNestedOneWithoutPaymentInput
+  refunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutPaymentInput
 }
 
 export type PaymentCreateOrConnectWithoutUserInput = {
@@ -677,6 +803,7 @@ export type PaymentScalarWhereInput = {
   NOT?: Prisma.PaymentScalarWhereInput | Prisma.PaymentScalarWhereInput[]
   id?: Prisma.StringFilter<"Payment"> | string
   user_id?: Prisma.StringFilter<"Payment"> | string
+  organization_id?: Prisma.StringNullableFilter<"Payment"> | string | null
   package_id?: Prisma.StringNullableFilter<"Payment"> | string | null
   amount?: Prisma.FloatFilter<"Payment"> | number
   currency?: Prisma.StringFilter<"Payment"> | string
@@ -684,10 +811,71 @@ export type PaymentScalarWhereInput = {
   bkash_trx_id?: Prisma.StringNullableFilter<"Payment"> | string | null
   status?: Prisma.EnumPaymentStatusFilter<"Payment"> | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFilter<"Payment"> | number
+  refunded_amount?: Prisma.FloatFilter<"Payment"> | number
   created_at?: Prisma.DateTimeFilter<"Payment"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"Payment"> | Date | string
 }
 
+export type PaymentCreateWithoutOrganizationInput = {
+  id?: string
+  amount: number
+  currency?: string
+  bkash_payment_id?: string | null
+  bkash_trx_id?: string | null
+  status?: $Enums.PaymentStatus
+  credits_purchased: number
+  refunded_amount?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutPaymentsInput
+  package?: Prisma.CreditPackageCreateNestedOneWithoutPaymentsInput
+  creditLog?: Prisma.CreditLogCreateNestedOneWithoutPaymentInput
+  refunds?: Prisma.PaymentRefundCreateNestedManyWithoutPaymentInput
+}
+
+export type PaymentUncheckedCreateWithoutOrganizationInput = {
+  id?: string
+  user_id: string
+  package_id?: string | null
+  amount: number
+  currency?: string
+  bkash_payment_id?: string | null
+  bkash_trx_id?: string | null
+  status?: $Enums.PaymentStatus
+  credits_purchased: number
+  refunded_amount?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  creditLog?: Prisma.CreditLogUncheckedCreateNestedOneWithoutPaymentInput
+  refunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutPaymentInput
+}
+
+export type PaymentCreateOrConnectWithoutOrganizationInput = {
+  where: Prisma.PaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentCreateWithoutOrganizationInput, Prisma.PaymentUncheckedCreateWithoutOrganizationInput>
+}
+
+export type PaymentCreateManyOrganizationInputEnvelope = {
+  data: Prisma.PaymentCreateManyOrganizationInput | Prisma.PaymentCreateManyOrganizationInput[]
+  skipDuplicates?: boolean
+}
+
+export type PaymentUpsertWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.PaymentWhereUniqueInput
+  update: Prisma.XOR<Prisma.PaymentUpdateWithoutOrganizationInput, Prisma.PaymentUncheckedUpdateWithoutOrganizationInput>
+  create: Prisma.XOR<Prisma.PaymentCreateWithoutOrganizationInput, Prisma.PaymentUncheckedCreateWithoutOrganizationInput>
+}
+
+export type PaymentUpdateWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.PaymentWhereUniqueInput
+  data: Prisma.XOR<Prisma.PaymentUpdateWithoutOrganizationInput, Prisma.PaymentUncheckedUpdateWithoutOrganizationInput>
+}
+
+export type PaymentUpdateManyWithWhereWithoutOrganizationInput = {
+  where: Prisma.PaymentScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentUpdateManyMutationInput, Prisma.PaymentUncheckedUpdateManyWithoutOrganizationInput>
+}
+
 export type PaymentCreateWithoutPackageInput = {
   id?: string
   amount: number
@@ -696,24 +884,30 @@ export type PaymentCreateWithoutPackageInput = {
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
   user: Prisma.UserCreateNestedOneWithoutPaymentsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutPaymentsInput
   creditLog?: Prisma.CreditLogCreateNestedOneWithoutPaymentInput
+  refunds?: Prisma.PaymentRefundCreateNestedManyWithoutPaymentInput
 }
 
 export type PaymentUncheckedCreateWithoutPackageInput = {
   id?: string
   user_id: string
+  organization_id?: string | null
   amount: number
   currency?: string
   bkash_payment_id?: string | null
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
   creditLog?: Prisma.CreditLogUncheckedCreateNestedOneWithoutPaymentInput
+  refunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutPaymentInput
 }
 
 export type PaymentCreateOrConnectWithoutPackageInput = {
@@ -742,6 +936,90 @@ export type PaymentUpdateManyWithWhereWithoutPackageInput = {
   data: Prisma.XOR<Prisma.PaymentUpdateManyMutationInput, Prisma.PaymentUncheckedUpdateManyWithoutPackageInput>
 }
 
+export type PaymentCreateWithoutRefundsInput = {
+  id?: string
+  amount: number
+  currency?: string
+  bkash_payment_id?: string | null
+  bkash_trx_id?: string | null
+  status?: $Enums.PaymentStatus
+  credits_purchased: number
+  refunded_amount?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutPaymentsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutPaymentsInput
+  package?: Prisma.CreditPackageCreateNestedOneWithoutPaymentsInput
+  creditLog?: Prisma.CreditLogCreateNestedOneWithoutPaymentInput
+}
+
+export type PaymentUncheckedCreateWithoutRefundsInput = {
+  id?: string
+  user_id: string
+  organization_id?: string | null
+  package_id?: string | null
+  amount: number
+  currency?: string
+  bkash_payment_id?: string | null
+  bkash_trx_id?: string | null
+  status?: $Enums.PaymentStatus
+  credits_purchased: number
+  refunded_amount?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  creditLog?: Prisma.CreditLogUncheckedCreateNestedOneWithoutPaymentInput
+}
+
+export type PaymentCreateOrConnectWithoutRefundsInput = {
+  where: Prisma.PaymentWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentCreateWithoutRefundsInput, Prisma.PaymentUncheckedCreateWithoutRefundsInput>
+}
+
+export type PaymentUpsertWithoutRefundsInput = {
+  update: Prisma.XOR<Prisma.PaymentUpdateWithoutRefundsInput, Prisma.PaymentUncheckedUpdateWithoutRefundsInput>
+  create: Prisma.XOR<Prisma.PaymentCreateWithoutRefundsInput, Prisma.PaymentUncheckedCreateWithoutRefundsInput>
+  where?: Prisma.PaymentWhereInput
+}
+
+export type PaymentUpdateToOneWithWhereWithoutRefundsInput = {
+  where?: Prisma.PaymentWhereInput
+  data: Prisma.XOR<Prisma.PaymentUpdateWithoutRefundsInput, Prisma.PaymentUncheckedUpdateWithoutRefundsInput>
+}
+
+export type PaymentUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bkash_payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutPaymentsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutPaymentsNestedInput
+  package?: Prisma.CreditPackageUpdateOneWithoutPaymentsNestedInput
+  creditLog?: Prisma.CreditLogUpdateOneWithoutPaymentNestedInput
+}
+
+export type PaymentUncheckedUpdateWithoutRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  package_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bkash_payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  creditLog?: Prisma.CreditLogUncheckedUpdateOneWithoutPaymentNestedInput
+}
+
 export type PaymentCreateWithoutCreditLogInput = {
   id?: string
   amount: number
@@ -750,15 +1028,19 @@ export type PaymentCreateWithoutCreditLogInput = {
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
   user: Prisma.UserCreateNestedOneWithoutPaymentsInput
+  organization?: Prisma.OrganizationCreateNestedOneWithoutPaymentsInput
   package?: Prisma.CreditPackageCreateNestedOneWithoutPaymentsInput
+  refunds?: Prisma.PaymentRefundCreateNestedManyWithoutPaymentInput
 }
 
 export type PaymentUncheckedCreateWithoutCreditLogInput = {
   id?: string
   user_id: string
+  organization_id?: string | null
   package_id?: string | null
   amount: number
   currency?: string
@@ -766,8 +1048,10 @@ export type PaymentUncheckedCreateWithoutCreditLogInput = {
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
+  refunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutPaymentInput
 }
 
 export type PaymentCreateOrConnectWithoutCreditLogInput = {
@@ -794,15 +1078,19 @@ export type PaymentUpdateWithoutCreditLogInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutPaymentsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutPaymentsNestedInput
   package?: Prisma.CreditPackageUpdateOneWithoutPaymentsNestedInput
+  refunds?: Prisma.PaymentRefundUpdateManyWithoutPaymentNestedInput
 }
 
 export type PaymentUncheckedUpdateWithoutCreditLogInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   package_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amount?: Prisma.FloatFieldUpdateOperationsInput | number
   currency?: Prisma.StringFieldUpdateOperationsInput | string
@@ -810,12 +1098,15 @@ export type PaymentUncheckedUpdateWithoutCreditLogInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutPaymentNestedInput
 }
 
 export type PaymentCreateManyUserInput = {
   id?: string
+  organization_id?: string | null
   package_id?: string | null
   amount: number
   currency?: string
@@ -823,6 +1114,7 @@ export type PaymentCreateManyUserInput = {
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -835,14 +1127,18 @@ export type PaymentUpdateWithoutUserInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  organization?: Prisma.OrganizationUpdateOneWithoutPaymentsNestedInput
   package?: Prisma.CreditPackageUpdateOneWithoutPaymentsNestedInput
   creditLog?: Prisma.CreditLogUpdateOneWithoutPaymentNestedInput
+  refunds?: Prisma.PaymentRefundUpdateManyWithoutPaymentNestedInput
 }
 
 export type PaymentUncheckedUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   package_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amount?: Prisma.FloatFieldUpdateOperationsInput | number
   currency?: Prisma.StringFieldUpdateOperationsInput | string
@@ -850,13 +1146,16 @@ export type PaymentUncheckedUpdateWithoutUserInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   creditLog?: Prisma.CreditLogUncheckedUpdateOneWithoutPaymentNestedInput
+  refunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutPaymentNestedInput
 }
 
 export type PaymentUncheckedUpdateManyWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   package_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amount?: Prisma.FloatFieldUpdateOperationsInput | number
   currency?: Prisma.StringFieldUpdateOperationsInput | string
@@ -864,6 +1163,71 @@ export type PaymentUncheckedUpdateManyWithoutUserInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentCreateManyOrganizationInput = {
+  id?: string
+  user_id: string
+  package_id?: string | null
+  amount: number
+  currency?: string
+  bkash_payment_id?: string | null
+  bkash_trx_id?: string | null
+  status?: $Enums.PaymentStatus
+  credits_purchased: number
+  refunded_amount?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type PaymentUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bkash_payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutPaymentsNestedInput
+  package?: Prisma.CreditPackageUpdateOneWithoutPaymentsNestedInput
+  creditLog?: Prisma.CreditLogUpdateOneWithoutPaymentNestedInput
+  refunds?: Prisma.PaymentRefundUpdateManyWithoutPaymentNestedInput
+}
+
+export type PaymentUncheckedUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  package_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bkash_payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  creditLog?: Prisma.CreditLogUncheckedUpdateOneWithoutPaymentNestedInput
+  refunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutPaymentNestedInput
+}
+
+export type PaymentUncheckedUpdateManyWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  package_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  bkash_payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
+  credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -871,12 +1235,14 @@ export type PaymentUncheckedUpdateManyWithoutUserInput = {
 export type PaymentCreateManyPackageInput = {
   id?: string
   user_id: string
+  organization_id?: string | null
   amount: number
   currency?: string
   bkash_payment_id?: string | null
   bkash_trx_id?: string | null
   status?: $Enums.PaymentStatus
   credits_purchased: number
+  refunded_amount?: number
   created_at?: Date | string
   updated_at?: Date | string
 }
@@ -889,44 +1255,82 @@ export type PaymentUpdateWithoutPackageInput = {
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   user?: Prisma.UserUpdateOneRequiredWithoutPaymentsNestedInput
+  organization?: Prisma.OrganizationUpdateOneWithoutPaymentsNestedInput
   creditLog?: Prisma.CreditLogUpdateOneWithoutPaymentNestedInput
+  refunds?: Prisma.PaymentRefundUpdateManyWithoutPaymentNestedInput
 }
 
 export type PaymentUncheckedUpdateWithoutPackageInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amount?: Prisma.FloatFieldUpdateOperationsInput | number
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   bkash_payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   creditLog?: Prisma.CreditLogUncheckedUpdateOneWithoutPaymentNestedInput
+  refunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutPaymentNestedInput
 }
 
 export type PaymentUncheckedUpdateManyWithoutPackageInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   user_id?: Prisma.StringFieldUpdateOperationsInput | string
+  organization_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   amount?: Prisma.FloatFieldUpdateOperationsInput | number
   currency?: Prisma.StringFieldUpdateOperationsInput | string
   bkash_payment_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   bkash_trx_id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   status?: Prisma.EnumPaymentStatusFieldUpdateOperationsInput | $Enums.PaymentStatus
   credits_purchased?: Prisma.IntFieldUpdateOperationsInput | number
+  refunded_amount?: Prisma.FloatFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
+/**
+ * Count Type PaymentCountOutputType
+ */
+
+export type PaymentCountOutputType = {
+  refunds: number
+}
+
+export type PaymentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  refunds?: boolean | PaymentCountOutputTypeCountRefundsArgs
+}
+
+/**
+ * PaymentCountOutputType without action
+ */
+export type PaymentCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentCountOutputType
+   */
+  select?: Prisma.PaymentCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * PaymentCountOutputType without action
+ */
+export type PaymentCountOutputTypeCountRefundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PaymentRefundWhereInput
+}
+
 
 export type PaymentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   user_id?: boolean
+  organization_id?: boolean
   package_id?: boolean
   amount?: boolean
   currency?: boolean
@@ -934,16 +1338,21 @@ export type PaymentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   bkash_trx_id?: boolean
   status?: boolean
   credits_purchased?: boolean
+  refunded_amount?: boolean
   created_at?: boolean
   updated_at?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Payment$organizationArgs<ExtArgs>
   package?: boolean | Prisma.Payment$packageArgs<ExtArgs>
   creditLog?: boolean | Prisma.Payment$creditLogArgs<ExtArgs>
+  refunds?: boolean | Prisma.Payment$refundsArgs<ExtArgs>
+  _count?: boolean | Prisma.PaymentCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["payment"]>
 
 export type PaymentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   user_id?: boolean
+  organization_id?: boolean
   package_id?: boolean
   amount?: boolean
   currency?: boolean
@@ -951,15 +1360,18 @@ export type PaymentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   bkash_trx_id?: boolean
   status?: boolean
   credits_purchased?: boolean
+  refunded_amount?: boolean
   created_at?: boolean
   updated_at?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Payment$organizationArgs<ExtArgs>
   package?: boolean | Prisma.Payment$packageArgs<ExtArgs>
 }, ExtArgs["result"]["payment"]>
 
 export type PaymentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   user_id?: boolean
+  organization_id?: boolean
   package_id?: boolean
   amount?: boolean
   currency?: boolean
@@ -967,15 +1379,18 @@ export type PaymentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   bkash_trx_id?: boolean
   status?: boolean
   credits_purchased?: boolean
+  refunded_amount?: boolean
   created_at?: boolean
   updated_at?: boolean
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Payment$organizationArgs<ExtArgs>
   package?: boolean | Prisma.Payment$packageArgs<ExtArgs>
 }, ExtArgs["result"]["payment"]>
 
 export type PaymentSelectScalar = {
   id?: boolean
   user_id?: boolean
+  organization_id?: boolean
   package_id?: boolean
   amount?: boolean
   currency?: boolean
@@ -983,22 +1398,28 @@ export type PaymentSelectScalar = {
   bkash_trx_id?: boolean
   status?: boolean
   credits_purchased?: boolean
+  refunded_amount?: boolean
   created_at?: boolean
   updated_at?: boolean
 }
 
-export type PaymentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "user_id" | "package_id" | "amount" | "currency" | "bkash_payment_id" | "bkash_trx_id" | "status" | "credits_purchased" | "created_at" | "updated_at", ExtArgs["result"]["payment"]>
+export type PaymentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "user_id" | "organization_id" | "package_id" | "amount" | "currency" | "bkash_payment_id" | "bkash_trx_id" | "status" | "credits_purchased" | "refunded_amount" | "created_at" | "updated_at", ExtArgs["result"]["payment"]>
 export type PaymentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Payment$organizationArgs<ExtArgs>
   package?: boolean | Prisma.Payment$packageArgs<ExtArgs>
   creditLog?: boolean | Prisma.Payment$creditLogArgs<ExtArgs>
+  refunds?: boolean | Prisma.Payment$refundsArgs<ExtArgs>
+  _count?: boolean | Prisma.PaymentCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type PaymentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Payment$organizationArgs<ExtArgs>
   package?: boolean | Prisma.Payment$packageArgs<ExtArgs>
 }
 export type PaymentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  organization?: boolean | Prisma.Payment$organizationArgs<ExtArgs>
   package?: boolean | Prisma.Payment$packageArgs<ExtArgs>
 }
 
@@ -1006,12 +1427,15 @@ export type $PaymentPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
   name: "Payment"
   objects: {
     user: Prisma.$UserPayload<ExtArgs>
+    organization: Prisma.$OrganizationPayload<ExtArgs> | null
     package: Prisma.$CreditPackagePayload<ExtArgs> | null
     creditLog: Prisma.$CreditLogPayload<ExtArgs> | null
+    refunds: Prisma.$PaymentRefundPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     user_id: string
+    organization_id: string | null
     package_id: string | null
     amount: number
     currency: string
@@ -1019,6 +1443,7 @@ export type $PaymentPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     bkash_trx_id: string | null
     status: $Enums.PaymentStatus
     credits_purchased: number
+    refunded_amount: number
     created_at: Date
     updated_at: Date
   }, ExtArgs["result"]["payment"]>
@@ -1416,8 +1841,10 @@ readonly fields: PaymentFieldRefs;
 export interface Prisma__PaymentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  organization<T extends Prisma.Payment$organizationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payment$organizationArgs<ExtArgs>>): Prisma.Prisma__OrganizationClient<runtime.Types.Result.GetResult<Prisma.$OrganizationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   package<T extends Prisma.Payment$packageArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payment$packageArgs<ExtArgs>>): Prisma.Prisma__CreditPackageClient<runtime.Types.Result.GetResult<Prisma.$CreditPackagePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   creditLog<T extends Prisma.Payment$creditLogArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payment$creditLogArgs<ExtArgs>>): Prisma.Prisma__CreditLogClient<runtime.Types.Result.GetResult<Prisma.$CreditLogPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  refunds<T extends Prisma.Payment$refundsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payment$refundsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1449,6 +1876,7 @@ export interface Prisma__PaymentClient<T, Null = never, ExtArgs extends runtime.
 export interface PaymentFieldRefs {
   readonly id: Prisma.FieldRef<"Payment", 'String'>
   readonly user_id: Prisma.FieldRef<"Payment", 'String'>
+  readonly organization_id: Prisma.FieldRef<"Payment", 'String'>
   readonly package_id: Prisma.FieldRef<"Payment", 'String'>
   readonly amount: Prisma.FieldRef<"Payment", 'Float'>
   readonly currency: Prisma.FieldRef<"Payment", 'String'>
@@ -1456,6 +1884,7 @@ export interface PaymentFieldRefs {
   readonly bkash_trx_id: Prisma.FieldRef<"Payment", 'String'>
   readonly status: Prisma.FieldRef<"Payment", 'PaymentStatus'>
   readonly credits_purchased: Prisma.FieldRef<"Payment", 'Int'>
+  readonly refunded_amount: Prisma.FieldRef<"Payment", 'Float'>
   readonly created_at: Prisma.FieldRef<"Payment", 'DateTime'>
   readonly updated_at: Prisma.FieldRef<"Payment", 'DateTime'>
 }
@@ -1853,6 +2282,25 @@ export type PaymentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inter
   limit?: number
 }
 
+/**
+ * Payment.organization
+ */
+export type Payment$organizationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Organization
+   */
+  select?: Prisma.OrganizationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Organization
+   */
+  omit?: Prisma.OrganizationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrganizationInclude<ExtArgs> | null
+  where?: Prisma.OrganizationWhereInput
+}
+
 /**
  * Payment.package
  */
@@ -1891,6 +2339,30 @@ export type Payment$creditLogArgs<ExtArgs extends runtime.Types.Extensions.Inter
   where?: Prisma.CreditLogWhereInput
 }
 
+/**
+ * Payment.refunds
+ */
+export type Payment$refundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  where?: Prisma.PaymentRefundWhereInput
+  orderBy?: Prisma.PaymentRefundOrderByWithRelationInput | Prisma.PaymentRefundOrderByWithRelationInput[]
+  cursor?: Prisma.PaymentRefundWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PaymentRefundScalarFieldEnum | Prisma.PaymentRefundScalarFieldEnum[]
+}
+
 /**
  * Payment without action
  */
@@ -0,0 +1,1867 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PaymentRefund` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PaymentRefund
+ * 
+ */
+export type PaymentRefundModel = runtime.Types.Result.DefaultSelection<Prisma.$PaymentRefundPayload>
+
+export type AggregatePaymentRefund = {
+  _count: PaymentRefundCountAggregateOutputType | null
+  _avg: PaymentRefundAvgAggregateOutputType | null
+  _sum: PaymentRefundSumAggregateOutputType | null
+  _min: PaymentRefundMinAggregateOutputType | null
+  _max: PaymentRefundMaxAggregateOutputType | null
+}
+
+export type PaymentRefundAvgAggregateOutputType = {
+  amount: number | null
+  credits: number | null
+  credits_clawed_back: number | null
+}
+
+export type PaymentRefundSumAggregateOutputType = {
+  amount: number | null
+  credits: number | null
+  credits_clawed_back: number | null
+}
+
+export type PaymentRefundMinAggregateOutputType = {
+  id: string | null
+  payment_id: string | null
+  amount: number | null
+  credits: number | null
+  credits_clawed_back: number | null
+  bkash_refund_trx_id: string | null
+  reason: string | null
+  refunded_by: string | null
+  created_at: Date | null
+  updated_at: Date | null
+}
+
+export type PaymentRefundMaxAggregateOutputType = {
+  id: string | null
+  payment_id: string | null
+  amount: number | null
+  credits: number | null
+  credits_clawed_back: number | null
+  bkash_refund_trx_id: string | null
+  reason: string | null
+  refunded_by: string | null
+  created_at: Date | null
+  updated_at: Date | null
+}
+
+export type PaymentRefundCountAggregateOutputType = {
+  id: number
+  payment_id: number
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: number
+  reason: number
+  refunded_by: number
+  created_at: number
+  updated_at: number
+  _all: number
+}
+
+
+export type PaymentRefundAvgAggregateInputType = {
+  amount?: true
+  credits?: true
+  credits_clawed_back?: true
+}
+
+export type PaymentRefundSumAggregateInputType = {
+  amount?: true
+  credits?: true
+  credits_clawed_back?: true
+}
+
+export type PaymentRefundMinAggregateInputType = {
+  id?: true
+  payment_id?: true
+  amount?: true
+  credits?: true
+  credits_clawed_back?: true
+  bkash_refund_trx_id?: true
+  reason?: true
+  refunded_by?: true
+  created_at?: true
+  updated_at?: true
+}
+
+export type PaymentRefundMaxAggregateInputType = {
+  id?: true
+  payment_id?: true
+  amount?: true
+  credits?: true
+  credits_clawed_back?: true
+  bkash_refund_trx_id?: true
+  reason?: true
+  refunded_by?: true
+  created_at?: true
+  updated_at?: true
+}
+
+export type PaymentRefundCountAggregateInputType = {
+  id?: true
+  payment_id?: true
+  amount?: true
+  credits?: true
+  credits_clawed_back?: true
+  bkash_refund_trx_id?: true
+  reason?: true
+  refunded_by?: true
+  created_at?: true
+  updated_at?: true
+  _all?: true
+}
+
+export type PaymentRefundAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PaymentRefund to aggregate.
+   */
+  where?: Prisma.PaymentRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentRefunds to fetch.
+   */
+  orderBy?: Prisma.PaymentRefundOrderByWithRelationInput | Prisma.PaymentRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PaymentRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentRefunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PaymentRefunds
+  **/
+  _count?: true | PaymentRefundCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PaymentRefundAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PaymentRefundSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PaymentRefundMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PaymentRefundMaxAggregateInputType
+}
+
+export type GetPaymentRefundAggregateType<T extends PaymentRefundAggregateArgs> = {
+      [P in keyof T & keyof AggregatePaymentRefund]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePaymentRefund[P]>
+    : Prisma.GetScalarType<T[P], AggregatePaymentRefund[P]>
+}
+
+
+
+
+export type PaymentRefundGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PaymentRefundWhereInput
+  orderBy?: Prisma.PaymentRefundOrderByWithAggregationInput | Prisma.PaymentRefundOrderByWithAggregationInput[]
+  by: Prisma.PaymentRefundScalarFieldEnum[] | Prisma.PaymentRefundScalarFieldEnum
+  having?: Prisma.PaymentRefundScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PaymentRefundCountAggregateInputType | true
+  _avg?: PaymentRefundAvgAggregateInputType
+  _sum?: PaymentRefundSumAggregateInputType
+  _min?: PaymentRefundMinAggregateInputType
+  _max?: PaymentRefundMaxAggregateInputType
+}
+
+export type PaymentRefundGroupByOutputType = {
+  id: string
+  payment_id: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason: string | null
+  refunded_by: string | null
+  created_at: Date
+  updated_at: Date
+  _count: PaymentRefundCountAggregateOutputType | null
+  _avg: PaymentRefundAvgAggregateOutputType | null
+  _sum: PaymentRefundSumAggregateOutputType | null
+  _min: PaymentRefundMinAggregateOutputType | null
+  _max: PaymentRefundMaxAggregateOutputType | null
+}
+
+type GetPaymentRefundGroupByPayload<T extends PaymentRefundGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PaymentRefundGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PaymentRefundGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PaymentRefundGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PaymentRefundGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PaymentRefundWhereInput = {
+  AND?: Prisma.PaymentRefundWhereInput | Prisma.PaymentRefundWhereInput[]
+  OR?: Prisma.PaymentRefundWhereInput[]
+  NOT?: Prisma.PaymentRefundWhereInput | Prisma.PaymentRefundWhereInput[]
+  id?: Prisma.StringFilter<"PaymentRefund"> | string
+  payment_id?: Prisma.StringFilter<"PaymentRefund"> | string
+  amount?: Prisma.FloatFilter<"PaymentRefund"> | number
+  credits?: Prisma.IntFilter<"PaymentRefund"> | number
+  credits_clawed_back?: Prisma.IntFilter<"PaymentRefund"> | number
+  bkash_refund_trx_id?: Prisma.StringFilter<"PaymentRefund"> | string
+  reason?: Prisma.StringNullableFilter<"PaymentRefund"> | string | null
+  refunded_by?: Prisma.StringNullableFilter<"PaymentRefund"> | string | null
+  created_at?: Prisma.DateTimeFilter<"PaymentRefund"> | Date | string
+  updated_at?: Prisma.DateTimeFilter<"PaymentRefund"> | Date | string
+  payment?: Prisma.XOR<Prisma.PaymentScalarRelationFilter, Prisma.PaymentWhereInput>
+  refundedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  creditLog?: Prisma.XOR<Prisma.CreditLogNullableScalarRelationFilter, Prisma.CreditLogWhereInput> | null
+}
+
+export type PaymentRefundOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  payment_id?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  credits?: Prisma.SortOrder
+  credits_clawed_back?: Prisma.SortOrder
+  bkash_refund_trx_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  refunded_by?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+  payment?: Prisma.PaymentOrderByWithRelationInput
+  refundedBy?: Prisma.UserOrderByWithRelationInput
+  creditLog?: Prisma.CreditLogOrderByWithRelationInput
+}
+
+export type PaymentRefundWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  bkash_refund_trx_id?: string
+  AND?: Prisma.PaymentRefundWhereInput | Prisma.PaymentRefundWhereInput[]
+  OR?: Prisma.PaymentRefundWhereInput[]
+  NOT?: Prisma.PaymentRefundWhereInput | Prisma.PaymentRefundWhereInput[]
+  payment_id?: Prisma.StringFilter<"PaymentRefund"> | string
+  amount?: Prisma.FloatFilter<"PaymentRefund"> | number
+  credits?: Prisma.IntFilter<"PaymentRefund"> | number
+  credits_clawed_back?: Prisma.IntFilter<"PaymentRefund"> | number
+  reason?: Prisma.StringNullableFilter<"PaymentRefund"> | string | null
+  refunded_by?: Prisma.StringNullableFilter<"PaymentRefund"> | string | null
+  created_at?: Prisma.DateTimeFilter<"PaymentRefund"> | Date | string
+  updated_at?: Prisma.DateTimeFilter<"PaymentRefund"> | Date | string
+  payment?: Prisma.XOR<Prisma.PaymentScalarRelationFilter, Prisma.PaymentWhereInput>
+  refundedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  creditLog?: Prisma.XOR<Prisma.CreditLogNullableScalarRelationFilter, Prisma.CreditLogWhereInput> | null
+}, "id" | "bkash_refund_trx_id">
+
+export type PaymentRefundOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  payment_id?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  credits?: Prisma.SortOrder
+  credits_clawed_back?: Prisma.SortOrder
+  bkash_refund_trx_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  refunded_by?: Prisma.SortOrderInput | Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+  _count?: Prisma.PaymentRefundCountOrderByAggregateInput
+  _avg?: Prisma.PaymentRefundAvgOrderByAggregateInput
+  _max?: Prisma.PaymentRefundMaxOrderByAggregateInput
+  _min?: Prisma.PaymentRefundMinOrderByAggregateInput
+  _sum?: Prisma.PaymentRefundSumOrderByAggregateInput
+}
+
+export type PaymentRefundScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PaymentRefundScalarWhereWithAggregatesInput | Prisma.PaymentRefundScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PaymentRefundScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PaymentRefundScalarWhereWithAggregatesInput | Prisma.PaymentRefundScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PaymentRefund"> | string
+  payment_id?: Prisma.StringWithAggregatesFilter<"PaymentRefund"> | string
+  amount?: Prisma.FloatWithAggregatesFilter<"PaymentRefund"> | number
+  credits?: Prisma.IntWithAggregatesFilter<"PaymentRefund"> | number
+  credits_clawed_back?: Prisma.IntWithAggregatesFilter<"PaymentRefund"> | number
+  bkash_refund_trx_id?: Prisma.StringWithAggregatesFilter<"PaymentRefund"> | string
+  reason?: Prisma.StringNullableWithAggregatesFilter<"PaymentRefund"> | string | null
+  refunded_by?: Prisma.StringNullableWithAggregatesFilter<"PaymentRefund"> | string | null
+  created_at?: Prisma.DateTimeWithAggregatesFilter<"PaymentRefund"> | Date | string
+  updated_at?: Prisma.DateTimeWithAggregatesFilter<"PaymentRefund"> | Date | string
+}
+
+export type PaymentRefundCreateInput = {
+  id?: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  payment: Prisma.PaymentCreateNestedOneWithoutRefundsInput
+  refundedBy?: Prisma.UserCreateNestedOneWithoutIssuedRefundsInput
+  creditLog?: Prisma.CreditLogCreateNestedOneWithoutRefundInput
+}
+
+export type PaymentRefundUncheckedCreateInput = {
+  id?: string
+  payment_id: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  refunded_by?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  creditLog?: Prisma.CreditLogUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type PaymentRefundUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payment?: Prisma.PaymentUpdateOneRequiredWithoutRefundsNestedInput
+  refundedBy?: Prisma.UserUpdateOneWithoutIssuedRefundsNestedInput
+  creditLog?: Prisma.CreditLogUpdateOneWithoutRefundNestedInput
+}
+
+export type PaymentRefundUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  payment_id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refunded_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  creditLog?: Prisma.CreditLogUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type PaymentRefundCreateManyInput = {
+  id?: string
+  payment_id: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  refunded_by?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type PaymentRefundUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentRefundUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  payment_id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refunded_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentRefundListRelationFilter = {
+  every?: Prisma.PaymentRefundWhereInput
+  some?: Prisma.PaymentRefundWhereInput
+  none?: Prisma.PaymentRefundWhereInput
+}
+
+export type PaymentRefundOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PaymentRefundCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  payment_id?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  credits?: Prisma.SortOrder
+  credits_clawed_back?: Prisma.SortOrder
+  bkash_refund_trx_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  refunded_by?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+}
+
+export type PaymentRefundAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+  credits?: Prisma.SortOrder
+  credits_clawed_back?: Prisma.SortOrder
+}
+
+export type PaymentRefundMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  payment_id?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  credits?: Prisma.SortOrder
+  credits_clawed_back?: Prisma.SortOrder
+  bkash_refund_trx_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  refunded_by?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+}
+
+export type PaymentRefundMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  payment_id?: Prisma.SortOrder
+  amount?: Prisma.SortOrder
+  credits?: Prisma.SortOrder
+  credits_clawed_back?: Prisma.SortOrder
+  bkash_refund_trx_id?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  refunded_by?: Prisma.SortOrder
+  created_at?: Prisma.SortOrder
+  updated_at?: Prisma.SortOrder
+}
+
+export type PaymentRefundSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder
+  credits?: Prisma.SortOrder
+  credits_clawed_back?: Prisma.SortOrder
+}
+
+export type PaymentRefundNullableScalarRelationFilter = {
+  is?: Prisma.PaymentRefundWhereInput | null
+  isNot?: Prisma.PaymentRefundWhereInput | null
+}
+
+export type PaymentRefundCreateNestedManyWithoutRefundedByInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutRefundedByInput, Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput> | Prisma.PaymentRefundCreateWithoutRefundedByInput[] | Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput[]
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutRefundedByInput | Prisma.PaymentRefundCreateOrConnectWithoutRefundedByInput[]
+  createMany?: Prisma.PaymentRefundCreateManyRefundedByInputEnvelope
+  connect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+}
+
+export type PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutRefundedByInput, Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput> | Prisma.PaymentRefundCreateWithoutRefundedByInput[] | Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput[]
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutRefundedByInput | Prisma.PaymentRefundCreateOrConnectWithoutRefundedByInput[]
+  createMany?: Prisma.PaymentRefundCreateManyRefundedByInputEnvelope
+  connect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+}
+
+export type PaymentRefundUpdateManyWithoutRefundedByNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutRefundedByInput, Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput> | Prisma.PaymentRefundCreateWithoutRefundedByInput[] | Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput[]
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutRefundedByInput | Prisma.PaymentRefundCreateOrConnectWithoutRefundedByInput[]
+  upsert?: Prisma.PaymentRefundUpsertWithWhereUniqueWithoutRefundedByInput | Prisma.PaymentRefundUpsertWithWhereUniqueWithoutRefundedByInput[]
+  createMany?: Prisma.PaymentRefundCreateManyRefundedByInputEnvelope
+  set?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  disconnect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  delete?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  connect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  update?: Prisma.PaymentRefundUpdateWithWhereUniqueWithoutRefundedByInput | Prisma.PaymentRefundUpdateWithWhereUniqueWithoutRefundedByInput[]
+  updateMany?: Prisma.PaymentRefundUpdateManyWithWhereWithoutRefundedByInput | Prisma.PaymentRefundUpdateManyWithWhereWithoutRefundedByInput[]
+  deleteMany?: Prisma.PaymentRefundScalarWhereInput | Prisma.PaymentRefundScalarWhereInput[]
+}
+
+export type PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutRefundedByInput, Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput> | Prisma.PaymentRefundCreateWithoutRefundedByInput[] | Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput[]
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutRefundedByInput | Prisma.PaymentRefundCreateOrConnectWithoutRefundedByInput[]
+  upsert?: Prisma.PaymentRefundUpsertWithWhereUniqueWithoutRefundedByInput | Prisma.PaymentRefundUpsertWithWhereUniqueWithoutRefundedByInput[]
+  createMany?: Prisma.PaymentRefundCreateManyRefundedByInputEnvelope
+  set?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  disconnect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  delete?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  connect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  update?: Prisma.PaymentRefundUpdateWithWhereUniqueWithoutRefundedByInput | Prisma.PaymentRefundUpdateWithWhereUniqueWithoutRefundedByInput[]
+  updateMany?: Prisma.PaymentRefundUpdateManyWithWhereWithoutRefundedByInput | Prisma.PaymentRefundUpdateManyWithWhereWithoutRefundedByInput[]
+  deleteMany?: Prisma.PaymentRefundScalarWhereInput | Prisma.PaymentRefundScalarWhereInput[]
+}
+
+export type PaymentRefundCreateNestedManyWithoutPaymentInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutPaymentInput, Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput> | Prisma.PaymentRefundCreateWithoutPaymentInput[] | Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput[]
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutPaymentInput | Prisma.PaymentRefundCreateOrConnectWithoutPaymentInput[]
+  createMany?: Prisma.PaymentRefundCreateManyPaymentInputEnvelope
+  connect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+}
+
+export type PaymentRefundUncheckedCreateNestedManyWithoutPaymentInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutPaymentInput, Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput> | Prisma.PaymentRefundCreateWithoutPaymentInput[] | Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput[]
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutPaymentInput | Prisma.PaymentRefundCreateOrConnectWithoutPaymentInput[]
+  createMany?: Prisma.PaymentRefundCreateManyPaymentInputEnvelope
+  connect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+}
+
+export type PaymentRefundUpdateManyWithoutPaymentNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutPaymentInput, Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput> | Prisma.PaymentRefundCreateWithoutPaymentInput[] | Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput[]
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutPaymentInput | Prisma.PaymentRefundCreateOrConnectWithoutPaymentInput[]
+  upsert?: Prisma.PaymentRefundUpsertWithWhereUniqueWithoutPaymentInput | Prisma.PaymentRefundUpsertWithWhereUniqueWithoutPaymentInput[]
+  createMany?: Prisma.PaymentRefundCreateManyPaymentInputEnvelope
+  set?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  disconnect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  delete?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  connect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  update?: Prisma.PaymentRefundUpdateWithWhereUniqueWithoutPaymentInput | Prisma.PaymentRefundUpdateWithWhereUniqueWithoutPaymentInput[]
+  updateMany?: Prisma.PaymentRefundUpdateManyWithWhereWithoutPaymentInput | Prisma.PaymentRefundUpdateManyWithWhereWithoutPaymentInput[]
+  deleteMany?: Prisma.PaymentRefundScalarWhereInput | Prisma.PaymentRefundScalarWhereInput[]
+}
+
+export type PaymentRefundUncheckedUpdateManyWithoutPaymentNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutPaymentInput, Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput> | Prisma.PaymentRefundCreateWithoutPaymentInput[] | Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput[]
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutPaymentInput | Prisma.PaymentRefundCreateOrConnectWithoutPaymentInput[]
+  upsert?: Prisma.PaymentRefundUpsertWithWhereUniqueWithoutPaymentInput | Prisma.PaymentRefundUpsertWithWhereUniqueWithoutPaymentInput[]
+  createMany?: Prisma.PaymentRefundCreateManyPaymentInputEnvelope
+  set?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  disconnect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  delete?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  connect?: Prisma.PaymentRefundWhereUniqueInput | Prisma.PaymentRefundWhereUniqueInput[]
+  update?: Prisma.PaymentRefundUpdateWithWhereUniqueWithoutPaymentInput | Prisma.PaymentRefundUpdateWithWhereUniqueWithoutPaymentInput[]
+  updateMany?: Prisma.PaymentRefundUpdateManyWithWhereWithoutPaymentInput | Prisma.PaymentRefundUpdateManyWithWhereWithoutPaymentInput[]
+  deleteMany?: Prisma.PaymentRefundScalarWhereInput | Prisma.PaymentRefundScalarWhereInput[]
+}
+
+export type PaymentRefundCreateNestedOneWithoutCreditLogInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutCreditLogInput, Prisma.PaymentRefundUncheckedCreateWithoutCreditLogInput>
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutCreditLogInput
+  connect?: Prisma.PaymentRefundWhereUniqueInput
+}
+
+export type PaymentRefundUpdateOneWithoutCreditLogNestedInput = {
+  create?: Prisma.XOR<Prisma.PaymentRefundCreateWithoutCreditLogInput, Prisma.PaymentRefundUncheckedCreateWithoutCreditLogInput>
+  connectOrCreate?: Prisma.PaymentRefundCreateOrConnectWithoutCreditLogInput
+  upsert?: Prisma.PaymentRefundUpsertWithoutCreditLogInput
+  disconnect?: Prisma.PaymentRefundWhereInput | boolean
+  delete?: Prisma.PaymentRefundWhereInput | boolean
+  connect?: Prisma.PaymentRefundWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PaymentRefundUpdateToOneWithWhereWithoutCreditLogInput, Prisma.PaymentRefundUpdateWithoutCreditLogInput>, Prisma.PaymentRefundUncheckedUpdateWithoutCreditLogInput>
+}
+
+export type PaymentRefundCreateWithoutRefundedByInput = {
+  id?: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  payment: Prisma.PaymentCreateNestedOneWithoutRefundsInput
+  creditLog?: Prisma.CreditLogCreateNestedOneWithoutRefundInput
+}
+
+export type PaymentRefundUncheckedCreateWithoutRefundedByInput = {
+  id?: string
+  payment_id: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  creditLog?: Prisma.CreditLogUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type PaymentRefundCreateOrConnectWithoutRefundedByInput = {
+  where: Prisma.PaymentRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentRefundCreateWithoutRefundedByInput, Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput>
+}
+
+export type PaymentRefundCreateManyRefundedByInputEnvelope = {
+  data: Prisma.PaymentRefundCreateManyRefundedByInput | Prisma.PaymentRefundCreateManyRefundedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type PaymentRefundUpsertWithWhereUniqueWithoutRefundedByInput = {
+  where: Prisma.PaymentRefundWhereUniqueInput
+  update: Prisma.XOR<Prisma.PaymentRefundUpdateWithoutRefundedByInput, Prisma.PaymentRefundUncheckedUpdateWithoutRefundedByInput>
+  create: Prisma.XOR<Prisma.PaymentRefundCreateWithoutRefundedByInput, Prisma.PaymentRefundUncheckedCreateWithoutRefundedByInput>
+}
+
+export type PaymentRefundUpdateWithWhereUniqueWithoutRefundedByInput = {
+  where: Prisma.PaymentRefundWhereUniqueInput
+  data: Prisma.XOR<Prisma.PaymentRefundUpdateWithoutRefundedByInput, Prisma.PaymentRefundUncheckedUpdateWithoutRefundedByInput>
+}
+
+export type PaymentRefundUpdateManyWithWhereWithoutRefundedByInput = {
+  where: Prisma.PaymentRefundScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentRefundUpdateManyMutationInput, Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByInput>
+}
+
+export type PaymentRefundScalarWhereInput = {
+  AND?: Prisma.PaymentRefundScalarWhereInput | Prisma.PaymentRefundScalarWhereInput[]
+  OR?: Prisma.PaymentRefundScalarWhereInput[]
+  NOT?: Prisma.PaymentRefundScalarWhereInput | Prisma.PaymentRefundScalarWhereInput[]
+  id?: Prisma.StringFilter<"PaymentRefund"> | string
+  payment_id?: Prisma.StringFilter<"PaymentRefund"> | string
+  amount?: Prisma.FloatFilter<"PaymentRefund"> | number
+  credits?: Prisma.IntFilter<"PaymentRefund"> | number
+  credits_clawed_back?: Prisma.IntFilter<"PaymentRefund"> | number
+  bkash_refund_trx_id?: Prisma.StringFilter<"PaymentRefund"> | string
+  reason?: Prisma.StringNullableFilter<"PaymentRefund"> | string | null
+  refunded_by?: Prisma.StringNullableFilter<"PaymentRefund"> | string | null
+  created_at?: Prisma.DateTimeFilter<"PaymentRefund"> | Date | string
+  updated_at?: Prisma.DateTimeFilter<"PaymentRefund"> | Date | string
+}
+
+export type PaymentRefundCreateWithoutPaymentInput = {
+  id?: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  refundedBy?: Prisma.UserCreateNestedOneWithoutIssuedRefundsInput
+  creditLog?: Prisma.CreditLogCreateNestedOneWithoutRefundInput
+}
+
+export type PaymentRefundUncheckedCreateWithoutPaymentInput = {
+  id?: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  refunded_by?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  creditLog?: Prisma.CreditLogUncheckedCreateNestedOneWithoutRefundInput
+}
+
+export type PaymentRefundCreateOrConnectWithoutPaymentInput = {
+  where: Prisma.PaymentRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentRefundCreateWithoutPaymentInput, Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput>
+}
+
+export type PaymentRefundCreateManyPaymentInputEnvelope = {
+  data: Prisma.PaymentRefundCreateManyPaymentInput | Prisma.PaymentRefundCreateManyPaymentInput[]
+  skipDuplicates?: boolean
+}
+
+export type PaymentRefundUpsertWithWhereUniqueWithoutPaymentInput = {
+  where: Prisma.PaymentRefundWhereUniqueInput
+  update: Prisma.XOR<Prisma.PaymentRefundUpdateWithoutPaymentInput, Prisma.PaymentRefundUncheckedUpdateWithoutPaymentInput>
+  create: Prisma.XOR<Prisma.PaymentRefundCreateWithoutPaymentInput, Prisma.PaymentRefundUncheckedCreateWithoutPaymentInput>
+}
+
+export type PaymentRefundUpdateWithWhereUniqueWithoutPaymentInput = {
+  where: Prisma.PaymentRefundWhereUniqueInput
+  data: Prisma.XOR<Prisma.PaymentRefundUpdateWithoutPaymentInput, Prisma.PaymentRefundUncheckedUpdateWithoutPaymentInput>
+}
+
+export type PaymentRefundUpdateManyWithWhereWithoutPaymentInput = {
+  where: Prisma.PaymentRefundScalarWhereInput
+  data: Prisma.XOR<Prisma.PaymentRefundUpdateManyMutationInput, Prisma.PaymentRefundUncheckedUpdateManyWithoutPaymentInput>
+}
+
+export type PaymentRefundCreateWithoutCreditLogInput = {
+  id?: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+  payment: Prisma.PaymentCreateNestedOneWithoutRefundsInput
+  refundedBy?: Prisma.UserCreateNestedOneWithoutIssuedRefundsInput
+}
+
+export type PaymentRefundUncheckedCreateWithoutCreditLogInput = {
+  id?: string
+  payment_id: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  refunded_by?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type PaymentRefundCreateOrConnectWithoutCreditLogInput = {
+  where: Prisma.PaymentRefundWhereUniqueInput
+  create: Prisma.XOR<Prisma.PaymentRefundCreateWithoutCreditLogInput, Prisma.PaymentRefundUncheckedCreateWithoutCreditLogInput>
+}
+
+export type PaymentRefundUpsertWithoutCreditLogInput = {
+  update: Prisma.XOR<Prisma.PaymentRefundUpdateWithoutCreditLogInput, Prisma.PaymentRefundUncheckedUpdateWithoutCreditLogInput>
+  create: Prisma.XOR<Prisma.PaymentRefundCreateWithoutCreditLogInput, Prisma.PaymentRefundUncheckedCreateWithoutCreditLogInput>
+  where?: Prisma.PaymentRefundWhereInput
+}
+
+export type PaymentRefundUpdateToOneWithWhereWithoutCreditLogInput = {
+  where?: Prisma.PaymentRefundWhereInput
+  data: Prisma.XOR<Prisma.PaymentRefundUpdateWithoutCreditLogInput, Prisma.PaymentRefundUncheckedUpdateWithoutCreditLogInput>
+}
+
+export type PaymentRefundUpdateWithoutCreditLogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payment?: Prisma.PaymentUpdateOneRequiredWithoutRefundsNestedInput
+  refundedBy?: Prisma.UserUpdateOneWithoutIssuedRefundsNestedInput
+}
+
+export type PaymentRefundUncheckedUpdateWithoutCreditLogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  payment_id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refunded_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentRefundCreateManyRefundedByInput = {
+  id?: string
+  payment_id: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type PaymentRefundUpdateWithoutRefundedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payment?: Prisma.PaymentUpdateOneRequiredWithoutRefundsNestedInput
+  creditLog?: Prisma.CreditLogUpdateOneWithoutRefundNestedInput
+}
+
+export type PaymentRefundUncheckedUpdateWithoutRefundedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  payment_id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  creditLog?: Prisma.CreditLogUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type PaymentRefundUncheckedUpdateManyWithoutRefundedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  payment_id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PaymentRefundCreateManyPaymentInput = {
+  id?: string
+  amount: number
+  credits: number
+  credits_clawed_back: number
+  bkash_refund_trx_id: string
+  reason?: string | null
+  refunded_by?: string | null
+  created_at?: Date | string
+  updated_at?: Date | string
+}
+
+export type PaymentRefundUpdateWithoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  refundedBy?: Prisma.UserUpdateOneWithoutIssuedRefundsNestedInput
+  creditLog?: Prisma.CreditLogUpdateOneWithoutRefundNestedInput
+}
+
+export type PaymentRefundUncheckedUpdateWithoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refunded_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  creditLog?: Prisma.CreditLogUncheckedUpdateOneWithoutRefundNestedInput
+}
+
+export type PaymentRefundUncheckedUpdateManyWithoutPaymentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  amount?: Prisma.FloatFieldUpdateOperationsInput | number
+  credits?: Prisma.IntFieldUpdateOperationsInput | number
+  credits_clawed_back?: Prisma.IntFieldUpdateOperationsInput | number
+  bkash_refund_trx_id?: Prisma.StringFieldUpdateOperationsInput | string
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  refunded_by?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PaymentRefundSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  payment_id?: boolean
+  amount?: boolean
+  credits?: boolean
+  credits_clawed_back?: boolean
+  bkash_refund_trx_id?: boolean
+  reason?: boolean
+  refunded_by?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+  payment?: boolean | Prisma.PaymentDefaultArgs<ExtArgs>
+  refundedBy?: boolean | Prisma.PaymentRefund$refundedByArgs<ExtArgs>
+  creditLog?: boolean | Prisma.PaymentRefund$creditLogArgs<ExtArgs>
+}, ExtArgs["result"]["paymentRefund"]>
+
+export type PaymentRefundSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  payment_id?: boolean
+  amount?: boolean
+  credits?: boolean
+  credits_clawed_back?: boolean
+  bkash_refund_trx_id?: boolean
+  reason?: boolean
+  refunded_by?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+  payment?: boolean | Prisma.PaymentDefaultArgs<ExtArgs>
+  refundedBy?: boolean | Prisma.PaymentRefund$refundedByArgs<ExtArgs>
+}, ExtArgs["result"]["paymentRefund"]>
+
+export type PaymentRefundSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  payment_id?: boolean
+  amount?: boolean
+  credits?: boolean
+  credits_clawed_back?: boolean
+  bkash_refund_trx_id?: boolean
+  reason?: boolean
+  refunded_by?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+  payment?: boolean | Prisma.PaymentDefaultArgs<ExtArgs>
+  refundedBy?: boolean | Prisma.PaymentRefund$refundedByArgs<ExtArgs>
+}, ExtArgs["result"]["paymentRefund"]>
+
+export type PaymentRefundSelectScalar = {
+  id?: boolean
+  payment_id?: boolean
+  amount?: boolean
+  credits?: boolean
+  credits_clawed_back?: boolean
+  bkash_refund_trx_id?: boolean
+  reason?: boolean
+  refunded_by?: boolean
+  created_at?: boolean
+  updated_at?: boolean
+}
+
+export type PaymentRefundOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "payment_id" | "amount" | "credits" | "credits_clawed_back" | "bkash_refund_trx_id" | "reason" | "refunded_by" | "created_at" | "updated_at", ExtArgs["result"]["paymentRefund"]>
+export type PaymentRefundInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  payment?: boolean | Prisma.PaymentDefaultArgs<ExtArgs>
+  refundedBy?: boolean | Prisma.PaymentRefund$refundedByArgs<ExtArgs>
+  creditLog?: boolean | Prisma.PaymentRefund$creditLogArgs<ExtArgs>
+}
+export type PaymentRefundIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  payment?: boolean | Prisma.PaymentDefaultArgs<ExtArgs>
+  refundedBy?: boolean | Prisma.PaymentRefund$refundedByArgs<ExtArgs>
+}
+export type PaymentRefundIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  payment?: boolean | Prisma.PaymentDefaultArgs<ExtArgs>
+  refundedBy?: boolean | Prisma.PaymentRefund$refundedByArgs<ExtArgs>
+}
+
+export type $PaymentRefundPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PaymentRefund"
+  objects: {
+    payment: Prisma.$PaymentPayload<ExtArgs>
+    refundedBy: Prisma.$UserPayload<ExtArgs> | null
+    creditLog: Prisma.$CreditLogPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    payment_id: string
+    amount: number
+    credits: number
+    credits_clawed_back: number
+    bkash_refund_trx_id: string
+    reason: string | null
+    refunded_by: string | null
+    created_at: Date
+    updated_at: Date
+  }, ExtArgs["result"]["paymentRefund"]>
+  composites: {}
+}
+
+export type PaymentRefundGetPayload<S extends boolean | null | undefined | PaymentRefundDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload, S>
+
+export type PaymentRefundCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PaymentRefundFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PaymentRefundCountAggregateInputType | true
+  }
+
+export interface PaymentRefundDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PaymentRefund'], meta: { name: 'PaymentRefund' } }
+  /**
+   * Find zero or one PaymentRefund that matches the filter.
+   * @param {PaymentRefundFindUniqueArgs} args - Arguments to find a PaymentRefund
+   * @example
+   * // Get one PaymentRefund
+   * const paymentRefund = await prisma.paymentRefund.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PaymentRefundFindUniqueArgs>(args: Prisma.SelectSubset<T, PaymentRefundFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PaymentRefundClient<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PaymentRefund that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PaymentRefundFindUniqueOrThrowArgs} args - Arguments to find a PaymentRefund
+   * @example
+   * // Get one PaymentRefund
+   * const paymentRefund = await prisma.paymentRefund.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PaymentRefundFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PaymentRefundFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PaymentRefundClient<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PaymentRefund that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentRefundFindFirstArgs} args - Arguments to find a PaymentRefund
+   * @example
+   * // Get one PaymentRefund
+   * const paymentRefund = await prisma.paymentRefund.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PaymentRefundFindFirstArgs>(args?: Prisma.SelectSubset<T, PaymentRefundFindFirstArgs<ExtArgs>>): Prisma.Prisma__PaymentRefundClient<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PaymentRefund that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentRefundFindFirstOrThrowArgs} args - Arguments to find a PaymentRefund
+   * @example
+   * // Get one PaymentRefund
+   * const paymentRefund = await prisma.paymentRefund.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PaymentRefundFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PaymentRefundFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PaymentRefundClient<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PaymentRefunds that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentRefundFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PaymentRefunds
+   * const paymentRefunds = await prisma.paymentRefund.findMany()
+   * 
+   * // Get first 10 PaymentRefunds
+   * const paymentRefunds = await prisma.paymentRefund.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const paymentRefundWithIdOnly = await prisma.paymentRefund.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PaymentRefundFindManyArgs>(args?: Prisma.SelectSubset<T, PaymentRefundFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PaymentRefund.
+   * @param {PaymentRefundCreateArgs} args - Arguments to create a PaymentRefund.
+   * @example
+   * // Create one PaymentRefund
+   * const PaymentRefund = await prisma.paymentRefund.create({
+   *   data: {
+   *     // ... data to create a PaymentRefund
+   *   }
+   * })
+   * 
+   */
+  create<T extends PaymentRefundCreateArgs>(args: Prisma.SelectSubset<T, PaymentRefundCreateArgs<ExtArgs>>): Prisma.Prisma__PaymentRefundClient<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PaymentRefunds.
+   * @param {PaymentRefundCreateManyArgs} args - Arguments to create many PaymentRefunds.
+   * @example
+   * // Create many PaymentRefunds
+   * const paymentRefund = await prisma.paymentRefund.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PaymentRefundCreateManyArgs>(args?: Prisma.SelectSubset<T, PaymentRefundCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PaymentRefunds and returns the data saved in the database.
+   * @param {PaymentRefundCreateManyAndReturnArgs} args - Arguments to create many PaymentRefunds.
+   * @example
+   * // Create many PaymentRefunds
+   * const paymentRefund = await prisma.paymentRefund.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PaymentRefunds and only return the `id`
+   * const paymentRefundWithIdOnly = await prisma.paymentRefund.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PaymentRefundCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PaymentRefundCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PaymentRefund.
+   * @param {PaymentRefundDeleteArgs} args - Arguments to delete one PaymentRefund.
+   * @example
+   * // Delete one PaymentRefund
+   * const PaymentRefund = await prisma.paymentRefund.delete({
+   *   where: {
+   *     // ... filter to delete one PaymentRefund
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PaymentRefundDeleteArgs>(args: Prisma.SelectSubset<T, PaymentRefundDeleteArgs<ExtArgs>>): Prisma.Prisma__PaymentRefundClient<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PaymentRefund.
+   * @param {PaymentRefundUpdateArgs} args - Arguments to update one PaymentRefund.
+   * @example
+   * // Update one PaymentRefund
+   * const paymentRefund = await prisma.paymentRefund.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PaymentRefundUpdateArgs>(args: Prisma.SelectSubset<T, PaymentRefundUpdateArgs<ExtArgs>>): Prisma.Prisma__PaymentRefundClient<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PaymentRefunds.
+   * @param {PaymentRefundDeleteManyArgs} args - Arguments to filter PaymentRefunds to delete.
+   * @example
+   * // Delete a few PaymentRefunds
+   * const { count } = await prisma.paymentRefund.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PaymentRefundDeleteManyArgs>(args?: Prisma.SelectSubset<T, PaymentRefundDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PaymentRefunds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentRefundUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PaymentRefunds
+   * const paymentRefund = await prisma.paymentRefund.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PaymentRefundUpdateManyArgs>(args: Prisma.SelectSubset<T, PaymentRefundUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PaymentRefunds and returns the data updated in the database.
+   * @param {PaymentRefundUpdateManyAndReturnArgs} args - Arguments to update many PaymentRefunds.
+   * @example
+   * // Update many PaymentRefunds
+   * const paymentRefund = await prisma.paymentRefund.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PaymentRefunds and only return the `id`
+   * const paymentRefundWithIdOnly = await prisma.paymentRefund.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PaymentRefundUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PaymentRefundUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PaymentRefund.
+   * @param {PaymentRefundUpsertArgs} args - Arguments to update or create a PaymentRefund.
+   * @example
+   * // Update or create a PaymentRefund
+   * const paymentRefund = await prisma.paymentRefund.upsert({
+   *   create: {
+   *     // ... data to create a PaymentRefund
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PaymentRefund we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PaymentRefundUpsertArgs>(args: Prisma.SelectSubset<T, PaymentRefundUpsertArgs<ExtArgs>>): Prisma.Prisma__PaymentRefundClient<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PaymentRefunds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentRefundCountArgs} args - Arguments to filter PaymentRefunds to count.
+   * @example
+   * // Count the number of PaymentRefunds
+   * const count = await prisma.paymentRefund.count({
+   *   where: {
+   *     // ... the filter for the PaymentRefunds we want to count
+   *   }
+   * })
+  **/
+  count<T extends PaymentRefundCountArgs>(
+    args?: Prisma.Subset<T, PaymentRefundCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PaymentRefundCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PaymentRefund.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentRefundAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PaymentRefundAggregateArgs>(args: Prisma.Subset<T, PaymentRefundAggregateArgs>): Prisma.PrismaPromise<GetPaymentRefundAggregateType<T>>
+
+  /**
+   * Group by PaymentRefund.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PaymentRefundGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PaymentRefundGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PaymentRefundGroupByArgs['orderBy'] }
+      : { orderBy?: PaymentRefundGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PaymentRefundGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPaymentRefundGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PaymentRefund model
+ */
+readonly fields: PaymentRefundFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PaymentRefund.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PaymentRefundClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  payment<T extends Prisma.PaymentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentDefaultArgs<ExtArgs>>): Prisma.Prisma__PaymentClient<runtime.Types.Result.GetResult<Prisma.$PaymentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  refundedBy<T extends Prisma.PaymentRefund$refundedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentRefund$refundedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  creditLog<T extends Prisma.PaymentRefund$creditLogArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PaymentRefund$creditLogArgs<ExtArgs>>): Prisma.Prisma__CreditLogClient<runtime.Types.Result.GetResult<Prisma.$CreditLogPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PaymentRefund model
+ */
+export interface PaymentRefundFieldRefs {
+  readonly id: Prisma.FieldRef<"PaymentRefund", 'String'>
+  readonly payment_id: Prisma.FieldRef<"PaymentRefund", 'String'>
+  readonly amount: Prisma.FieldRef<"PaymentRefund", 'Float'>
+  readonly credits: Prisma.FieldRef<"PaymentRefund", 'Int'>
+  readonly credits_clawed_back: Prisma.FieldRef<"PaymentRefund", 'Int'>
+  readonly bkash_refund_trx_id: Prisma.FieldRef<"PaymentRefund", 'String'>
+  readonly reason: Prisma.FieldRef<"PaymentRefund", 'String'>
+  readonly refunded_by: Prisma.FieldRef<"PaymentRefund", 'String'>
+  readonly created_at: Prisma.FieldRef<"PaymentRefund", 'DateTime'>
+  readonly updated_at: Prisma.FieldRef<"PaymentRefund", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PaymentRefund findUnique
+ */
+export type PaymentRefundFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentRefund to fetch.
+   */
+  where: Prisma.PaymentRefundWhereUniqueInput
+}
+
+/**
+ * PaymentRefund findUniqueOrThrow
+ */
+export type PaymentRefundFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentRefund to fetch.
+   */
+  where: Prisma.PaymentRefundWhereUniqueInput
+}
+
+/**
+ * PaymentRefund findFirst
+ */
+export type PaymentRefundFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentRefund to fetch.
+   */
+  where?: Prisma.PaymentRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentRefunds to fetch.
+   */
+  orderBy?: Prisma.PaymentRefundOrderByWithRelationInput | Prisma.PaymentRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PaymentRefunds.
+   */
+  cursor?: Prisma.PaymentRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentRefunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PaymentRefunds.
+   */
+  distinct?: Prisma.PaymentRefundScalarFieldEnum | Prisma.PaymentRefundScalarFieldEnum[]
+}
+
+/**
+ * PaymentRefund findFirstOrThrow
+ */
+export type PaymentRefundFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentRefund to fetch.
+   */
+  where?: Prisma.PaymentRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentRefunds to fetch.
+   */
+  orderBy?: Prisma.PaymentRefundOrderByWithRelationInput | Prisma.PaymentRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PaymentRefunds.
+   */
+  cursor?: Prisma.PaymentRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentRefunds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PaymentRefunds.
+   */
+  distinct?: Prisma.PaymentRefundScalarFieldEnum | Prisma.PaymentRefundScalarFieldEnum[]
+}
+
+/**
+ * PaymentRefund findMany
+ */
+export type PaymentRefundFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  /**
+   * Filter, which PaymentRefunds to fetch.
+   */
+  where?: Prisma.PaymentRefundWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PaymentRefunds to fetch.
+   */
+  orderBy?: Prisma.PaymentRefundOrderByWithRelationInput | Prisma.PaymentRefundOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PaymentRefunds.
+   */
+  cursor?: Prisma.PaymentRefundWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PaymentRefunds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PaymentRefunds.
+   */
+  skip?: number
+  distinct?: Prisma.PaymentRefundScalarFieldEnum | Prisma.PaymentRefundScalarFieldEnum[]
+}
+
+/**
+ * PaymentRefund create
+ */
+export type PaymentRefundCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PaymentRefund.
+   */
+  data: Prisma.XOR<Prisma.PaymentRefundCreateInput, Prisma.PaymentRefundUncheckedCreateInput>
+}
+
+/**
+ * PaymentRefund createMany
+ */
+export type PaymentRefundCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PaymentRefunds.
+   */
+  data: Prisma.PaymentRefundCreateManyInput | Prisma.PaymentRefundCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PaymentRefund createManyAndReturn
+ */
+export type PaymentRefundCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * The data used to create many PaymentRefunds.
+   */
+  data: Prisma.PaymentRefundCreateManyInput | Prisma.PaymentRefundCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PaymentRefund update
+ */
+export type PaymentRefundUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PaymentRefund.
+   */
+  data: Prisma.XOR<Prisma.PaymentRefundUpdateInput, Prisma.PaymentRefundUncheckedUpdateInput>
+  /**
+   * Choose, which PaymentRefund to update.
+   */
+  where: Prisma.PaymentRefundWhereUniqueInput
+}
+
+/**
+ * PaymentRefund updateMany
+ */
+export type PaymentRefundUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PaymentRefunds.
+   */
+  data: Prisma.XOR<Prisma.PaymentRefundUpdateManyMutationInput, Prisma.PaymentRefundUncheckedUpdateManyInput>
+  /**
+   * Filter which PaymentRefunds to update
+   */
+  where?: Prisma.PaymentRefundWhereInput
+  /**
+   * Limit how many PaymentRefunds to update.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentRefund updateManyAndReturn
+ */
+export type PaymentRefundUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * The data used to update PaymentRefunds.
+   */
+  data: Prisma.XOR<Prisma.PaymentRefundUpdateManyMutationInput, Prisma.PaymentRefundUncheckedUpdateManyInput>
+  /**
+   * Filter which PaymentRefunds to update
+   */
+  where?: Prisma.PaymentRefundWhereInput
+  /**
+   * Limit how many PaymentRefunds to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PaymentRefund upsert
+ */
+export type PaymentRefundUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PaymentRefund to update in case it exists.
+   */
+  where: Prisma.PaymentRefundWhereUniqueInput
+  /**
+   * In case the PaymentRefund found by the `where` argument doesn't exist, create a new PaymentRefund with this data.
+   */
+  create: Prisma.XOR<Prisma.PaymentRefundCreateInput, Prisma.PaymentRefundUncheckedCreateInput>
+  /**
+   * In case the PaymentRefund was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PaymentRefundUpdateInput, Prisma.PaymentRefundUncheckedUpdateInput>
+}
+
+/**
+ * PaymentRefund delete
+ */
+export type PaymentRefundDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  /**
+   * Filter which PaymentRefund to delete.
+   */
+  where: Prisma.PaymentRefundWhereUniqueInput
+}
+
+/**
+ * PaymentRefund deleteMany
+ */
+export type PaymentRefundDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PaymentRefunds to delete
+   */
+  where?: Prisma.PaymentRefundWhereInput
+  /**
+   * Limit how many PaymentRefunds to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PaymentRefund.refundedBy
+ */
+export type PaymentRefund$refundedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * PaymentRefund.creditLog
+ */
+export type PaymentRefund$creditLogArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CreditLog
+   */
+  select?: Prisma.CreditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CreditLog
+   */
+  omit?: Prisma.CreditLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CreditLogInclude<ExtArgs> | null
+  where?: Prisma.CreditLogWhereInput
+}
+
+/**
+ * PaymentRefund without action
+ */
+export type PaymentRefundDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+}
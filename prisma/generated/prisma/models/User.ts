@@ -27,10 +27,16 @@ export type AggregateUser = {
 }
 
 export type UserAvgAggregateOutputType = {
+  two_factor_last_used_step: number | null
+  failed_login_attempts: number | null
+  lockout_count: number | null
   credit_balance: number | null
 }
 
 export type UserSumAggregateOutputType = {
+  two_factor_last_used_step: number | null
+  failed_login_attempts: number | null
+  lockout_count: number | null
   credit_balance: number | null
 }
 
@@ -43,12 +49,24 @@ export type UserMinAggregateOutputType = {
   phone: string | null
   image_url: string | null
   email_verified: boolean | null
+  email_verification_token: string | null
+  email_verification_expires: Date | null
+  pending_email: string | null
+  email_change_token: string | null
+  email_change_expires: Date | null
   is_active: boolean | null
   is_deleted: boolean | null
-  refresh_token: string | null
   password_reset_token: string | null
   password_reset_expires: Date | null
   password_reset_at: Date | null
+  two_factor_enabled: boolean | null
+  two_factor_secret: string | null
+  two_factor_last_used_step: number | null
+  failed_login_attempts: number | null
+  locked_until: Date | null
+  lockout_count: number | null
+  deleted_at: Date | null
+  anonymized_at: Date | null
   credit_balance: number | null
   created_at: Date | null
   updated_at: Date | null
@@ -63,12 +81,24 @@ export type UserMaxAggregateOutputType = {
   phone: string | null
   image_url: string | null
   email_verified: boolean | null
+  email_verification_token: string | null
+  email_verification_expires: Date | null
+  pending_email: string | null
+  email_change_token: string | null
+  email_change_expires: Date | null
   is_active: boolean | null
   is_deleted: boolean | null
-  refresh_token: string | null
   password_reset_token: string | null
   password_reset_expires: Date | null
   password_reset_at: Date | null
+  two_factor_enabled: boolean | null
+  two_factor_secret: string | null
+  two_factor_last_used_step: number | null
+  failed_login_attempts: number | null
+  locked_until: Date | null
+  lockout_count: number | null
+  deleted_at: Date | null
+  anonymized_at: Date | null
   credit_balance: number | null
   created_at: Date | null
   updated_at: Date | null
@@ -83,12 +113,25 @@ export type UserCountAggregateOutputType = {
   phone: number
   image_url: number
   email_verified: number
+  email_verification_token: number
+  email_verification_expires: number
+  pending_email: number
+  email_change_token: number
+  email_change_expires: number
   is_active: number
   is_deleted: number
-  refresh_token: number
   password_reset_token: number
   password_reset_expires: number
   password_reset_at: number
+  two_factor_enabled: number
+  two_factor_secret: number
+  two_factor_recovery_codes: number
+  two_factor_last_used_step: number
+  failed_login_attempts: number
+  locked_until: number
+  lockout_count: number
+  deleted_at: number
+  anonymized_at: number
   credit_balance: number
   created_at: number
   updated_at: number
@@ -97,10 +140,16 @@ export type UserCountAggregateOutputType = {
 
 
 export type UserAvgAggregateInputType = {
+  two_factor_last_used_step?: true
+  failed_login_attempts?: true
+  lockout_count?: true
   credit_balance?: true
 }
 
 export type UserSumAggregateInputType = {
+  two_factor_last_used_step?: true
+  failed_login_attempts?: true
+  lockout_count?: true
   credit_balance?: true
 }
 
@@ -113,12 +162,24 @@ export type UserMinAggregateInputType = {
   phone?: true
   image_url?: true
   email_verified?: true
+  email_verification_token?: true
+  email_verification_expires?: true
+  pending_email?: true
+  email_change_token?: true
+  email_change_expires?: true
   is_active?: true
   is_deleted?: true
-  refresh_token?: true
   password_reset_token?: true
   password_reset_expires?: true
   password_reset_at?: true
+  two_factor_enabled?: true
+  two_factor_secret?: true
+  two_factor_last_used_step?: true
+  failed_login_attempts?: true
+  locked_until?: true
+  lockout_count?: true
+  deleted_at?: true
+  anonymized_at?: true
   credit_balance?: true
   created_at?: true
   updated_at?: true
@@ -133,12 +194,24 @@ export type UserMaxAggregateInputType = {
   phone?: true
   image_url?: true
   email_verified?: true
+  email_verification_token?: true
+  email_verification_expires?: true
+  pending_email?: true
+  email_change_token?: true
+  email_change_expires?: true
   is_active?: true
   is_deleted?: true
-  refresh_token?: true
   password_reset_token?: true
   password_reset_expires?: true
   password_reset_at?: true
+  two_factor_enabled?: true
+  two_factor_secret?: true
+  two_factor_last_used_step?: true
+  failed_login_attempts?: true
+  locked_until?: true
+  lockout_count?: true
+  deleted_at?: true
+  anonymized_at?: true
   credit_balance?: true
   created_at?: true
   updated_at?: true
@@ -153,12 +226,25 @@ export type UserCountAggregateInputType = {
   phone?: true
   image_url?: true
   email_verified?: true
+  email_verification_token?: true
+  email_verification_expires?: true
+  pending_email?: true
+  email_change_token?: true
+  email_change_expires?: true
   is_active?: true
   is_deleted?: true
-  refresh_token?: true
   password_reset_token?: true
   password_reset_expires?: true
   password_reset_at?: true
+  two_factor_enabled?: true
+  two_factor_secret?: true
+  two_factor_recovery_codes?: true
+  two_factor_last_used_step?: true
+  failed_login_attempts?: true
+  locked_until?: true
+  lockout_count?: true
+  deleted_at?: true
+  anonymized_at?: true
   credit_balance?: true
   created_at?: true
   updated_at?: true
@@ -254,18 +340,31 @@ export type UserGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArg
 export type UserGroupByOutputType = {
   id: string
   email: string
-  password: string
+  password: string | null
   name: string
   role: $Enums.UserRole
   phone: string | null
   image_url: string | null
   email_verified: boolean
+  email_verification_token: string | null
+  email_verification_expires: Date | null
+  pending_email: string | null
+  email_change_token: string | null
+  email_change_expires: Date | null
   is_active: boolean
   is_deleted: boolean
-  refresh_token: string | null
   password_reset_token: string | null
   password_reset_expires: Date | null
   password_reset_at: Date | null
+  two_factor_enabled: boolean
+  two_factor_secret: string | null
+  two_factor_recovery_codes: string[]
+  two_factor_last_used_step: number | null
+  failed_login_attempts: number
+  locked_until: Date | null
+  lockout_count: number
+  deleted_at: Date | null
+  anonymized_at: Date | null
   credit_balance: number
   created_at: Date
   updated_at: Date
@@ -297,47 +396,93 @@ export type UserWhereInput = {
   NOT?: Prisma.UserWhereInput | Prisma.UserWhereInput[]
   id?: Prisma.StringFilter<"User"> | string
   email?: Prisma.StringFilter<"User"> | string
-  password?: Prisma.StringFilter<"User"> | string
+  password?: Prisma.StringNullableFilter<"User"> | string | null
   name?: Prisma.StringFilter<"User"> | string
   role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole
   phone?: Prisma.StringNullableFilter<"User"> | string | null
   image_url?: Prisma.StringNullableFilter<"User"> | string | null
   email_verified?: Prisma.BoolFilter<"User"> | boolean
+  email_verification_token?: Prisma.StringNullableFilter<"User"> | string | null
+  email_verification_expires?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  pending_email?: Prisma.StringNullableFilter<"User"> | string | null
+  email_change_token?: Prisma.StringNullableFilter<"User"> | string | null
+  email_change_expires?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   is_active?: Prisma.BoolFilter<"User"> | boolean
   is_deleted?: Prisma.BoolFilter<"User"> | boolean
-  refresh_token?: Prisma.StringNullableFilter<"User"> | string | null
   password_reset_token?: Prisma.StringNullableFilter<"User"> | string | null
   password_reset_expires?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   password_reset_at?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  two_factor_enabled?: Prisma.BoolFilter<"User"> | boolean
+  two_factor_secret?: Prisma.StringNullableFilter<"User"> | string | null
+  two_factor_recovery_codes?: Prisma.StringNullableListFilter<"User">
+  two_factor_last_used_step?: Prisma.IntNullableFilter<"User"> | number | null
+  failed_login_attempts?: Prisma.IntFilter<"User"> | number
+  locked_until?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  lockout_count?: Prisma.IntFilter<"User"> | number
+  deleted_at?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  anonymized_at?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   credit_balance?: Prisma.IntFilter<"User"> | number
   created_at?: Prisma.DateTimeFilter<"User"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"User"> | Date | string
   payments?: Prisma.PaymentListRelationFilter
   jobs?: Prisma.JobListRelationFilter
   creditLogs?: Prisma.CreditLogListRelationFilter
+  creditGrants?: Prisma.CreditLogListRelationFilter
+  impersonations?: Prisma.ImpersonationListRelationFilter
+  impersonatedBy?: Prisma.ImpersonationListRelationFilter
+  issuedRefunds?: Prisma.PaymentRefundListRelationFilter
+  sessions?: Prisma.SessionListRelationFilter
+  loginAttempts?: Prisma.LoginAttemptListRelationFilter
+  identities?: Prisma.UserIdentityListRelationFilter
+  apiKeys?: Prisma.ApiKeyListRelationFilter
+  memberships?: Prisma.OrganizationMemberListRelationFilter
+  invitations?: Prisma.OrganizationInvitationListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   email?: Prisma.SortOrder
-  password?: Prisma.SortOrder
+  password?: Prisma.SortOrderInput | Prisma.SortOrder
   name?: Prisma.SortOrder
   role?: Prisma.SortOrder
   phone?: Prisma.SortOrderInput | Prisma.SortOrder
   image_url?: Prisma.SortOrderInput | Prisma.SortOrder
   email_verified?: Prisma.SortOrder
+  email_verification_token?: Prisma.SortOrderInput | Prisma.SortOrder
+  email_verification_expires?: Prisma.SortOrderInput | Prisma.SortOrder
+  pending_email?: Prisma.SortOrderInput | Prisma.SortOrder
+  email_change_token?: Prisma.SortOrderInput | Prisma.SortOrder
+  email_change_expires?: Prisma.SortOrderInput | Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_deleted?: Prisma.SortOrder
-  refresh_token?: Prisma.SortOrderInput | Prisma.SortOrder
   password_reset_token?: Prisma.SortOrderInput | Prisma.SortOrder
   password_reset_expires?: Prisma.SortOrderInput | Prisma.SortOrder
   password_reset_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  two_factor_enabled?: Prisma.SortOrder
+  two_factor_secret?: Prisma.SortOrderInput | Prisma.SortOrder
+  two_factor_recovery_codes?: Prisma.SortOrder
+  two_factor_last_used_step?: Prisma.SortOrderInput | Prisma.SortOrder
+  failed_login_attempts?: Prisma.SortOrder
+  locked_until?: Prisma.SortOrderInput | Prisma.SortOrder
+  lockout_count?: Prisma.SortOrder
+  deleted_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  anonymized_at?: Prisma.SortOrderInput | Prisma.SortOrder
   credit_balance?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
   payments?: Prisma.PaymentOrderByRelationAggregateInput
   jobs?: Prisma.JobOrderByRelationAggregateInput
   creditLogs?: Prisma.CreditLogOrderByRelationAggregateInput
+  creditGrants?: Prisma.CreditLogOrderByRelationAggregateInput
+  impersonations?: Prisma.ImpersonationOrderByRelationAggregateInput
+  impersonatedBy?: Prisma.ImpersonationOrderByRelationAggregateInput
+  issuedRefunds?: Prisma.PaymentRefundOrderByRelationAggregateInput
+  sessions?: Prisma.SessionOrderByRelationAggregateInput
+  loginAttempts?: Prisma.LoginAttemptOrderByRelationAggregateInput
+  identities?: Prisma.UserIdentityOrderByRelationAggregateInput
+  apiKeys?: Prisma.ApiKeyOrderByRelationAggregateInput
+  memberships?: Prisma.OrganizationMemberOrderByRelationAggregateInput
+  invitations?: Prisma.OrganizationInvitationOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -346,41 +491,77 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   AND?: Prisma.UserWhereInput | Prisma.UserWhereInput[]
   OR?: Prisma.UserWhereInput[]
   NOT?: Prisma.UserWhereInput | Prisma.UserWhereInput[]
-  password?: Prisma.StringFilter<"User"> | string
+  password?: Prisma.StringNullableFilter<"User"> | string | null
   name?: Prisma.StringFilter<"User"> | string
   role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole
   phone?: Prisma.StringNullableFilter<"User"> | string | null
   image_url?: Prisma.StringNullableFilter<"User"> | string | null
   email_verified?: Prisma.BoolFilter<"User"> | boolean
+  email_verification_token?: Prisma.StringNullableFilter<"User"> | string | null
+  email_verification_expires?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  pending_email?: Prisma.StringNullableFilter<"User"> | string | null
+  email_change_token?: Prisma.StringNullableFilter<"User"> | string | null
+  email_change_expires?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   is_active?: Prisma.BoolFilter<"User"> | boolean
   is_deleted?: Prisma.BoolFilter<"User"> | boolean
-  refresh_token?: Prisma.StringNullableFilter<"User"> | string | null
   password_reset_token?: Prisma.StringNullableFilter<"User"> | string | null
   password_reset_expires?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   password_reset_at?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  two_factor_enabled?: Prisma.BoolFilter<"User"> | boolean
+  two_factor_secret?: Prisma.StringNullableFilter<"User"> | string | null
+  two_factor_recovery_codes?: Prisma.StringNullableListFilter<"User">
+  two_factor_last_used_step?: Prisma.IntNullableFilter<"User"> | number | null
+  failed_login_attempts?: Prisma.IntFilter<"User"> | number
+  locked_until?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  lockout_count?: Prisma.IntFilter<"User"> | number
+  deleted_at?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  anonymized_at?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   credit_balance?: Prisma.IntFilter<"User"> | number
   created_at?: Prisma.DateTimeFilter<"User"> | Date | string
   updated_at?: Prisma.DateTimeFilter<"User"> | Date | string
   payments?: Prisma.PaymentListRelationFilter
   jobs?: Prisma.JobListRelationFilter
   creditLogs?: Prisma.CreditLogListRelationFilter
+  creditGrants?: Prisma.CreditLogListRelationFilter
+  impersonations?: Prisma.ImpersonationListRelationFilter
+  impersonatedBy?: Prisma.ImpersonationListRelationFilter
+  issuedRefunds?: Prisma.PaymentRefundListRelationFilter
+  sessions?: Prisma.SessionListRelationFilter
+  loginAttempts?: Prisma.LoginAttemptListRelationFilter
+  identities?: Prisma.UserIdentityListRelationFilter
+  apiKeys?: Prisma.ApiKeyListRelationFilter
+  memberships?: Prisma.OrganizationMemberListRelationFilter
+  invitations?: Prisma.OrganizationInvitationListRelationFilter
 }, "id" | "email">
 
 export type UserOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   email?: Prisma.SortOrder
-  password?: Prisma.SortOrder
+  password?: Prisma.SortOrderInput | Prisma.SortOrder
   name?: Prisma.SortOrder
   role?: Prisma.SortOrder
   phone?: Prisma.SortOrderInput | Prisma.SortOrder
   image_url?: Prisma.SortOrderInput | Prisma.SortOrder
   email_verified?: Prisma.SortOrder
+  email_verification_token?: Prisma.SortOrderInput | Prisma.SortOrder
+  email_verification_expires?: Prisma.SortOrderInput | Prisma.SortOrder
+  pending_email?: Prisma.SortOrderInput | Prisma.SortOrder
+  email_change_token?: Prisma.SortOrderInput | Prisma.SortOrder
+  email_change_expires?: Prisma.SortOrderInput | Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_deleted?: Prisma.SortOrder
-  refresh_token?: Prisma.SortOrderInput | Prisma.SortOrder
   password_reset_token?: Prisma.SortOrderInput | Prisma.SortOrder
   password_reset_expires?: Prisma.SortOrderInput | Prisma.SortOrder
   password_reset_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  two_factor_enabled?: Prisma.SortOrder
+  two_factor_secret?: Prisma.SortOrderInput | Prisma.SortOrder
+  two_factor_recovery_codes?: Prisma.SortOrder
+  two_factor_last_used_step?: Prisma.SortOrderInput | Prisma.SortOrder
+  failed_login_attempts?: Prisma.SortOrder
+  locked_until?: Prisma.SortOrderInput | Prisma.SortOrder
+  lockout_count?: Prisma.SortOrder
+  deleted_at?: Prisma.SortOrderInput | Prisma.SortOrder
+  anonymized_at?: Prisma.SortOrderInput | Prisma.SortOrder
   credit_balance?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
@@ -397,18 +578,31 @@ export type UserScalarWhereWithAggregatesInput = {
   NOT?: Prisma.UserScalarWhereWithAggregatesInput | Prisma.UserScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"User"> | string
   email?: Prisma.StringWithAggregatesFilter<"User"> | string
-  password?: Prisma.StringWithAggregatesFilter<"User"> | string
+  password?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   name?: Prisma.StringWithAggregatesFilter<"User"> | string
   role?: Prisma.EnumUserRoleWithAggregatesFilter<"User"> | $Enums.UserRole
   phone?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   image_url?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   email_verified?: Prisma.BoolWithAggregatesFilter<"User"> | boolean
+  email_verification_token?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  email_verification_expires?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
+  pending_email?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  email_change_token?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  email_change_expires?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
   is_active?: Prisma.BoolWithAggregatesFilter<"User"> | boolean
   is_deleted?: Prisma.BoolWithAggregatesFilter<"User"> | boolean
-  refresh_token?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   password_reset_token?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
   password_reset_expires?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
   password_reset_at?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
+  two_factor_enabled?: Prisma.BoolWithAggregatesFilter<"User"> | boolean
+  two_factor_secret?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  two_factor_recovery_codes?: Prisma.StringNullableListFilter<"User">
+  two_factor_last_used_step?: Prisma.IntNullableWithAggregatesFilter<"User"> | number | null
+  failed_login_attempts?: Prisma.IntWithAggregatesFilter<"User"> | number
+  locked_until?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
+  lockout_count?: Prisma.IntWithAggregatesFilter<"User"> | number
+  deleted_at?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
+  anonymized_at?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
   credit_balance?: Prisma.IntWithAggregatesFilter<"User"> | number
   created_at?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
   updated_at?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string
@@ -417,110 +611,215 @@ export type UserScalarWhereWithAggregatesInput = {
 export type UserCreateInput = {
   id?: string
   email: string
-  password: string
+  password?: string | null
   name: string
   role?: $Enums.UserRole
   phone?: string | null
   image_url?: string | null
   email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: string | null
   password_reset_token?: string | null
   password_reset_expires?: Date | string | null
   password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
   credit_balance?: number
   created_at?: Date | string
   updated_at?: Date | string
   payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
   jobs?: Prisma.JobCreateNestedManyWithoutUserInput
   creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
 }
 
 export type UserUncheckedCreateInput = {
   id?: string
   email: string
-  password: string
+  password?: string | null
   name: string
   role?: $Enums.UserRole
   phone?: string | null
   image_url?: string | null
   email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: string | null
   password_reset_token?: string | null
   password_reset_expires?: Date | string | null
   password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
   credit_balance?: number
   created_at?: Date | string
   updated_at?: Date | string
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
   jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
   creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
 }
 
 export type UserUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
   jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
   creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
   jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
   creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
 }
 
 export type UserCreateManyInput = {
   id?: string
   email: string
-  password: string
+  password?: string | null
   name: string
   role?: $Enums.UserRole
   phone?: string | null
   image_url?: string | null
   email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: string | null
   password_reset_token?: string | null
   password_reset_expires?: Date | string | null
   password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
   credit_balance?: number
   created_at?: Date | string
   updated_at?: Date | string
@@ -529,18 +828,31 @@ export type UserCreateManyInput = {
 export type UserUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -549,23 +861,44 @@ export type UserUpdateManyMutationInput = {
 export type UserUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
+export type StringNullableListFilter<$PrismaModel = never> = {
+  equals?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  has?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  hasEvery?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  hasSome?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
 export type UserCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   email?: Prisma.SortOrder
@@ -575,18 +908,34 @@ export type UserCountOrderByAggregateInput = {
   phone?: Prisma.SortOrder
   image_url?: Prisma.SortOrder
   email_verified?: Prisma.SortOrder
+  email_verification_token?: Prisma.SortOrder
+  email_verification_expires?: Prisma.SortOrder
+  pending_email?: Prisma.SortOrder
+  email_change_token?: Prisma.SortOrder
+  email_change_expires?: Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_deleted?: Prisma.SortOrder
-  refresh_token?: Prisma.SortOrder
   password_reset_token?: Prisma.SortOrder
   password_reset_expires?: Prisma.SortOrder
   password_reset_at?: Prisma.SortOrder
+  two_factor_enabled?: Prisma.SortOrder
+  two_factor_secret?: Prisma.SortOrder
+  two_factor_recovery_codes?: Prisma.SortOrder
+  two_factor_last_used_step?: Prisma.SortOrder
+  failed_login_attempts?: Prisma.SortOrder
+  locked_until?: Prisma.SortOrder
+  lockout_count?: Prisma.SortOrder
+  deleted_at?: Prisma.SortOrder
+  anonymized_at?: Prisma.SortOrder
   credit_balance?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
 
 export type UserAvgOrderByAggregateInput = {
+  two_factor_last_used_step?: Prisma.SortOrder
+  failed_login_attempts?: Prisma.SortOrder
+  lockout_count?: Prisma.SortOrder
   credit_balance?: Prisma.SortOrder
 }
 
@@ -599,12 +948,24 @@ export type UserMaxOrderByAggregateInput = {
   phone?: Prisma.SortOrder
   image_url?: Prisma.SortOrder
   email_verified?: Prisma.SortOrder
+  email_verification_token?: Prisma.SortOrder
+  email_verification_expires?: Prisma.SortOrder
+  pending_email?: Prisma.SortOrder
+  email_change_token?: Prisma.SortOrder
+  email_change_expires?: Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_deleted?: Prisma.SortOrder
-  refresh_token?: Prisma.SortOrder
   password_reset_token?: Prisma.SortOrder
   password_reset_expires?: Prisma.SortOrder
   password_reset_at?: Prisma.SortOrder
+  two_factor_enabled?: Prisma.SortOrder
+  two_factor_secret?: Prisma.SortOrder
+  two_factor_last_used_step?: Prisma.SortOrder
+  failed_login_attempts?: Prisma.SortOrder
+  locked_until?: Prisma.SortOrder
+  lockout_count?: Prisma.SortOrder
+  deleted_at?: Prisma.SortOrder
+  anonymized_at?: Prisma.SortOrder
   credit_balance?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
@@ -619,18 +980,33 @@ export type UserMinOrderByAggregateInput = {
   phone?: Prisma.SortOrder
   image_url?: Prisma.SortOrder
   email_verified?: Prisma.SortOrder
+  email_verification_token?: Prisma.SortOrder
+  email_verification_expires?: Prisma.SortOrder
+  pending_email?: Prisma.SortOrder
+  email_change_token?: Prisma.SortOrder
+  email_change_expires?: Prisma.SortOrder
   is_active?: Prisma.SortOrder
   is_deleted?: Prisma.SortOrder
-  refresh_token?: Prisma.SortOrder
   password_reset_token?: Prisma.SortOrder
   password_reset_expires?: Prisma.SortOrder
   password_reset_at?: Prisma.SortOrder
+  two_factor_enabled?: Prisma.SortOrder
+  two_factor_secret?: Prisma.SortOrder
+  two_factor_last_used_step?: Prisma.SortOrder
+  failed_login_attempts?: Prisma.SortOrder
+  locked_until?: Prisma.SortOrder
+  lockout_count?: Prisma.SortOrder
+  deleted_at?: Prisma.SortOrder
+  anonymized_at?: Prisma.SortOrder
   credit_balance?: Prisma.SortOrder
   created_at?: Prisma.SortOrder
   updated_at?: Prisma.SortOrder
 }
 
 export type UserSumOrderByAggregateInput = {
+  two_factor_last_used_step?: Prisma.SortOrder
+  failed_login_attempts?: Prisma.SortOrder
+  lockout_count?: Prisma.SortOrder
   credit_balance?: Prisma.SortOrder
 }
 
@@ -639,18 +1015,27 @@ export type UserScalarRelationFilter = {
   isNot?: Prisma.UserWhereInput
 }
 
-export type StringFieldUpdateOperationsInput = {
-  set?: string
+export type UserNullableScalarRelationFilter = {
+  is?: Prisma.UserWhereInput | null
+  isNot?: Prisma.UserWhereInput | null
 }
 
-export type EnumUserRoleFieldUpdateOperationsInput = {
-  set?: $Enums.UserRole
+export type UserCreatetwo_factor_recovery_codesInput = {
+  set: string[]
+}
+
+export type StringFieldUpdateOperationsInput = {
+  set?: string
 }
 
 export type NullableStringFieldUpdateOperationsInput = {
   set?: string | null
 }
 
+export type EnumUserRoleFieldUpdateOperationsInput = {
+  set?: $Enums.UserRole
+}
+
 export type BoolFieldUpdateOperationsInput = {
   set?: boolean
 }
@@ -659,6 +1044,19 @@ export type NullableDateTimeFieldUpdateOperationsInput = {
   set?: Date | string | null
 }
 
+export type UserUpdatetwo_factor_recovery_codesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type NullableIntFieldUpdateOperationsInput = {
+  set?: number | null
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
 export type IntFieldUpdateOperationsInput = {
   set?: number
   increment?: number
@@ -671,6 +1069,122 @@ export type DateTimeFieldUpdateOperationsInput = {
   set?: Date | string
 }
 
+export type UserCreateNestedOneWithoutSessionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSessionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutSessionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSessionsInput
+  upsert?: Prisma.UserUpsertWithoutSessionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSessionsInput, Prisma.UserUpdateWithoutSessionsInput>, Prisma.UserUncheckedUpdateWithoutSessionsInput>
+}
+
+export type UserCreateNestedOneWithoutImpersonationsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutImpersonationsInput, Prisma.UserUncheckedCreateWithoutImpersonationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutImpersonationsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutImpersonatedByInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutImpersonatedByInput, Prisma.UserUncheckedCreateWithoutImpersonatedByInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutImpersonatedByInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutImpersonationsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutImpersonationsInput, Prisma.UserUncheckedCreateWithoutImpersonationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutImpersonationsInput
+  upsert?: Prisma.UserUpsertWithoutImpersonationsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutImpersonationsInput, Prisma.UserUpdateWithoutImpersonationsInput>, Prisma.UserUncheckedUpdateWithoutImpersonationsInput>
+}
+
+export type UserUpdateOneRequiredWithoutImpersonatedByNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutImpersonatedByInput, Prisma.UserUncheckedCreateWithoutImpersonatedByInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutImpersonatedByInput
+  upsert?: Prisma.UserUpsertWithoutImpersonatedByInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutImpersonatedByInput, Prisma.UserUpdateWithoutImpersonatedByInput>, Prisma.UserUncheckedUpdateWithoutImpersonatedByInput>
+}
+
+export type UserCreateNestedOneWithoutMembershipsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMembershipsInput, Prisma.UserUncheckedCreateWithoutMembershipsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMembershipsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutMembershipsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutMembershipsInput, Prisma.UserUncheckedCreateWithoutMembershipsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutMembershipsInput
+  upsert?: Prisma.UserUpsertWithoutMembershipsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutMembershipsInput, Prisma.UserUpdateWithoutMembershipsInput>, Prisma.UserUncheckedUpdateWithoutMembershipsInput>
+}
+
+export type UserCreateNestedOneWithoutInvitationsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvitationsInput, Prisma.UserUncheckedCreateWithoutInvitationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvitationsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutInvitationsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvitationsInput, Prisma.UserUncheckedCreateWithoutInvitationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvitationsInput
+  upsert?: Prisma.UserUpsertWithoutInvitationsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInvitationsInput, Prisma.UserUpdateWithoutInvitationsInput>, Prisma.UserUncheckedUpdateWithoutInvitationsInput>
+}
+
+export type UserCreateNestedOneWithoutApiKeysInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutApiKeysInput, Prisma.UserUncheckedCreateWithoutApiKeysInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutApiKeysInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutApiKeysNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutApiKeysInput, Prisma.UserUncheckedCreateWithoutApiKeysInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutApiKeysInput
+  upsert?: Prisma.UserUpsertWithoutApiKeysInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutApiKeysInput, Prisma.UserUpdateWithoutApiKeysInput>, Prisma.UserUncheckedUpdateWithoutApiKeysInput>
+}
+
+export type UserCreateNestedOneWithoutIdentitiesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutIdentitiesInput, Prisma.UserUncheckedCreateWithoutIdentitiesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutIdentitiesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutIdentitiesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutIdentitiesInput, Prisma.UserUncheckedCreateWithoutIdentitiesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutIdentitiesInput
+  upsert?: Prisma.UserUpsertWithoutIdentitiesInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutIdentitiesInput, Prisma.UserUpdateWithoutIdentitiesInput>, Prisma.UserUncheckedUpdateWithoutIdentitiesInput>
+}
+
+export type UserCreateNestedOneWithoutLoginAttemptsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutLoginAttemptsInput, Prisma.UserUncheckedCreateWithoutLoginAttemptsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutLoginAttemptsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutLoginAttemptsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutLoginAttemptsInput, Prisma.UserUncheckedCreateWithoutLoginAttemptsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutLoginAttemptsInput
+  upsert?: Prisma.UserUpsertWithoutLoginAttemptsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutLoginAttemptsInput, Prisma.UserUpdateWithoutLoginAttemptsInput>, Prisma.UserUncheckedUpdateWithoutLoginAttemptsInput>
+}
+
 export type UserCreateNestedOneWithoutPaymentsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutPaymentsInput, Prisma.UserUncheckedCreateWithoutPaymentsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutPaymentsInput
@@ -685,6 +1199,22 @@ export type UserUpdateOneRequiredWithoutPaymentsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutPaymentsInput, Prisma.UserUpdateWithoutPaymentsInput>, Prisma.UserUncheckedUpdateWithoutPaymentsInput>
 }
 
+export type UserCreateNestedOneWithoutIssuedRefundsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutIssuedRefundsInput, Prisma.UserUncheckedCreateWithoutIssuedRefundsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutIssuedRefundsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutIssuedRefundsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutIssuedRefundsInput, Prisma.UserUncheckedCreateWithoutIssuedRefundsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutIssuedRefundsInput
+  upsert?: Prisma.UserUpsertWithoutIssuedRefundsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutIssuedRefundsInput, Prisma.UserUpdateWithoutIssuedRefundsInput>, Prisma.UserUncheckedUpdateWithoutIssuedRefundsInput>
+}
+
 export type UserCreateNestedOneWithoutJobsInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutJobsInput, Prisma.UserUncheckedCreateWithoutJobsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutJobsInput
@@ -705,6 +1235,12 @@ export type UserCreateNestedOneWithoutCreditLogsInput = {
   connect?: Prisma.UserWhereUniqueInput
 }
 
+export type UserCreateNestedOneWithoutCreditGrantsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCreditGrantsInput, Prisma.UserUncheckedCreateWithoutCreditGrantsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCreditGrantsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
 export type UserUpdateOneRequiredWithoutCreditLogsNestedInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutCreditLogsInput, Prisma.UserUncheckedCreateWithoutCreditLogsInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutCreditLogsInput
@@ -713,261 +1249,2360 @@ export type UserUpdateOneRequiredWithoutCreditLogsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutCreditLogsInput, Prisma.UserUpdateWithoutCreditLogsInput>, Prisma.UserUncheckedUpdateWithoutCreditLogsInput>
 }
 
-export type UserCreateWithoutPaymentsInput = {
+export type UserUpdateOneWithoutCreditGrantsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCreditGrantsInput, Prisma.UserUncheckedCreateWithoutCreditGrantsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCreditGrantsInput
+  upsert?: Prisma.UserUpsertWithoutCreditGrantsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutCreditGrantsInput, Prisma.UserUpdateWithoutCreditGrantsInput>, Prisma.UserUncheckedUpdateWithoutCreditGrantsInput>
+}
+
+export type UserCreateWithoutSessionsInput = {
   id?: string
   email: string
-  password: string
+  password?: string | null
   name: string
   role?: $Enums.UserRole
   phone?: string | null
   image_url?: string | null
   email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: string | null
   password_reset_token?: string | null
   password_reset_expires?: Date | string | null
   password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
   credit_balance?: number
   created_at?: Date | string
   updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
   jobs?: Prisma.JobCreateNestedManyWithoutUserInput
   creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
 }
 
-export type UserUncheckedCreateWithoutPaymentsInput = {
+export type UserUncheckedCreateWithoutSessionsInput = {
   id?: string
   email: string
-  password: string
+  password?: string | null
   name: string
   role?: $Enums.UserRole
   phone?: string | null
   image_url?: string | null
   email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: string | null
   password_reset_token?: string | null
   password_reset_expires?: Date | string | null
   password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
   credit_balance?: number
   created_at?: Date | string
   updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
   jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
   creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
 }
 
-export type UserCreateOrConnectWithoutPaymentsInput = {
+export type UserCreateOrConnectWithoutSessionsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutPaymentsInput, Prisma.UserUncheckedCreateWithoutPaymentsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
 }
 
-export type UserUpsertWithoutPaymentsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutPaymentsInput, Prisma.UserUncheckedUpdateWithoutPaymentsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutPaymentsInput, Prisma.UserUncheckedCreateWithoutPaymentsInput>
+export type UserUpsertWithoutSessionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSessionsInput, Prisma.UserUncheckedUpdateWithoutSessionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutPaymentsInput = {
+export type UserUpdateToOneWithWhereWithoutSessionsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutPaymentsInput, Prisma.UserUncheckedUpdateWithoutPaymentsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSessionsInput, Prisma.UserUncheckedUpdateWithoutSessionsInput>
 }
 
-export type UserUpdateWithoutPaymentsInput = {
+export type UserUpdateWithoutSessionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
   jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
   creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
 }
 
-export type UserUncheckedUpdateWithoutPaymentsInput = {
+export type UserUncheckedUpdateWithoutSessionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
   jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
   creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
 }
 
-export type UserCreateWithoutJobsInput = {
+export type UserCreateWithoutImpersonationsInput = {
   id?: string
   email: string
-  password: string
+  password?: string | null
   name: string
   role?: $Enums.UserRole
   phone?: string | null
   image_url?: string | null
   email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: string | null
   password_reset_token?: string | null
   password_reset_expires?: Date | string | null
   password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
   credit_balance?: number
   created_at?: Date | string
   updated_at?: Date | string
   payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
   creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
 }
 
-export type UserUncheckedCreateWithoutJobsInput = {
+export type UserUncheckedCreateWithoutImpersonationsInput = {
   id?: string
   email: string
-  password: string
+  password?: string | null
   name: string
   role?: $Enums.UserRole
   phone?: string | null
   image_url?: string | null
   email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: string | null
   password_reset_token?: string | null
   password_reset_expires?: Date | string | null
   password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
   credit_balance?: number
   created_at?: Date | string
   updated_at?: Date | string
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
   creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
 }
 
-export type UserCreateOrConnectWithoutJobsInput = {
+export type UserCreateOrConnectWithoutImpersonationsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutJobsInput, Prisma.UserUncheckedCreateWithoutJobsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutImpersonationsInput, Prisma.UserUncheckedCreateWithoutImpersonationsInput>
 }
 
-export type UserUpsertWithoutJobsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutJobsInput, Prisma.UserUncheckedUpdateWithoutJobsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutJobsInput, Prisma.UserUncheckedCreateWithoutJobsInput>
+export type UserCreateWithoutImpersonatedByInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserUncheckedCreateWithoutImpersonatedByInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserCreateOrConnectWithoutImpersonatedByInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutImpersonatedByInput, Prisma.UserUncheckedCreateWithoutImpersonatedByInput>
+}
+
+export type UserUpsertWithoutImpersonationsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutImpersonationsInput, Prisma.UserUncheckedUpdateWithoutImpersonationsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutImpersonationsInput, Prisma.UserUncheckedCreateWithoutImpersonationsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutJobsInput = {
+export type UserUpdateToOneWithWhereWithoutImpersonationsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutJobsInput, Prisma.UserUncheckedUpdateWithoutJobsInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutImpersonationsInput, Prisma.UserUncheckedUpdateWithoutImpersonationsInput>
 }
 
-export type UserUpdateWithoutJobsInput = {
+export type UserUpdateWithoutImpersonationsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
   creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
 }
 
-export type UserUncheckedUpdateWithoutJobsInput = {
+export type UserUncheckedUpdateWithoutImpersonationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUpsertWithoutImpersonatedByInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutImpersonatedByInput, Prisma.UserUncheckedUpdateWithoutImpersonatedByInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutImpersonatedByInput, Prisma.UserUncheckedCreateWithoutImpersonatedByInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutImpersonatedByInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutImpersonatedByInput, Prisma.UserUncheckedUpdateWithoutImpersonatedByInput>
+}
+
+export type UserUpdateWithoutImpersonatedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutImpersonatedByInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
   creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserCreateWithoutMembershipsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserUncheckedCreateWithoutMembershipsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserCreateOrConnectWithoutMembershipsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutMembershipsInput, Prisma.UserUncheckedCreateWithoutMembershipsInput>
+}
+
+export type UserUpsertWithoutMembershipsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutMembershipsInput, Prisma.UserUncheckedUpdateWithoutMembershipsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutMembershipsInput, Prisma.UserUncheckedCreateWithoutMembershipsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutMembershipsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutMembershipsInput, Prisma.UserUncheckedUpdateWithoutMembershipsInput>
+}
+
+export type UserUpdateWithoutMembershipsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutMembershipsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserCreateWithoutInvitationsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutInvitationsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutInvitationsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvitationsInput, Prisma.UserUncheckedCreateWithoutInvitationsInput>
+}
+
+export type UserUpsertWithoutInvitationsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutInvitationsInput, Prisma.UserUncheckedUpdateWithoutInvitationsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvitationsInput, Prisma.UserUncheckedCreateWithoutInvitationsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutInvitationsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutInvitationsInput, Prisma.UserUncheckedUpdateWithoutInvitationsInput>
+}
+
+export type UserUpdateWithoutInvitationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutInvitationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutApiKeysInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserUncheckedCreateWithoutApiKeysInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserCreateOrConnectWithoutApiKeysInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutApiKeysInput, Prisma.UserUncheckedCreateWithoutApiKeysInput>
+}
+
+export type UserUpsertWithoutApiKeysInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutApiKeysInput, Prisma.UserUncheckedUpdateWithoutApiKeysInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutApiKeysInput, Prisma.UserUncheckedCreateWithoutApiKeysInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutApiKeysInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutApiKeysInput, Prisma.UserUncheckedUpdateWithoutApiKeysInput>
+}
+
+export type UserUpdateWithoutApiKeysInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutApiKeysInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserCreateWithoutIdentitiesInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserUncheckedCreateWithoutIdentitiesInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserCreateOrConnectWithoutIdentitiesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutIdentitiesInput, Prisma.UserUncheckedCreateWithoutIdentitiesInput>
+}
+
+export type UserUpsertWithoutIdentitiesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutIdentitiesInput, Prisma.UserUncheckedUpdateWithoutIdentitiesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutIdentitiesInput, Prisma.UserUncheckedCreateWithoutIdentitiesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutIdentitiesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutIdentitiesInput, Prisma.UserUncheckedUpdateWithoutIdentitiesInput>
+}
+
+export type UserUpdateWithoutIdentitiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutIdentitiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserCreateWithoutLoginAttemptsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserUncheckedCreateWithoutLoginAttemptsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserCreateOrConnectWithoutLoginAttemptsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutLoginAttemptsInput, Prisma.UserUncheckedCreateWithoutLoginAttemptsInput>
+}
+
+export type UserUpsertWithoutLoginAttemptsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutLoginAttemptsInput, Prisma.UserUncheckedUpdateWithoutLoginAttemptsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutLoginAttemptsInput, Prisma.UserUncheckedCreateWithoutLoginAttemptsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutLoginAttemptsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutLoginAttemptsInput, Prisma.UserUncheckedUpdateWithoutLoginAttemptsInput>
+}
+
+export type UserUpdateWithoutLoginAttemptsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutLoginAttemptsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserCreateWithoutPaymentsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserUncheckedCreateWithoutPaymentsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserCreateOrConnectWithoutPaymentsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutPaymentsInput, Prisma.UserUncheckedCreateWithoutPaymentsInput>
+}
+
+export type UserUpsertWithoutPaymentsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutPaymentsInput, Prisma.UserUncheckedUpdateWithoutPaymentsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPaymentsInput, Prisma.UserUncheckedCreateWithoutPaymentsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutPaymentsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutPaymentsInput, Prisma.UserUncheckedUpdateWithoutPaymentsInput>
+}
+
+export type UserUpdateWithoutPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutPaymentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserCreateWithoutIssuedRefundsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserUncheckedCreateWithoutIssuedRefundsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserCreateOrConnectWithoutIssuedRefundsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutIssuedRefundsInput, Prisma.UserUncheckedCreateWithoutIssuedRefundsInput>
+}
+
+export type UserUpsertWithoutIssuedRefundsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutIssuedRefundsInput, Prisma.UserUncheckedUpdateWithoutIssuedRefundsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutIssuedRefundsInput, Prisma.UserUncheckedCreateWithoutIssuedRefundsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutIssuedRefundsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutIssuedRefundsInput, Prisma.UserUncheckedUpdateWithoutIssuedRefundsInput>
+}
+
+export type UserUpdateWithoutIssuedRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutIssuedRefundsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserCreateWithoutJobsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserUncheckedCreateWithoutJobsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserCreateOrConnectWithoutJobsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutJobsInput, Prisma.UserUncheckedCreateWithoutJobsInput>
+}
+
+export type UserUpsertWithoutJobsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutJobsInput, Prisma.UserUncheckedUpdateWithoutJobsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutJobsInput, Prisma.UserUncheckedCreateWithoutJobsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutJobsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutJobsInput, Prisma.UserUncheckedUpdateWithoutJobsInput>
+}
+
+export type UserUpdateWithoutJobsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutJobsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserCreateWithoutCreditLogsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
+}
+
+export type UserUncheckedCreateWithoutCreditLogsInput = {
+  id?: string
+  email: string
+  password?: string | null
+  name: string
+  role?: $Enums.UserRole
+  phone?: string | null
+  image_url?: string | null
+  email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
+  is_active?: boolean
+  is_deleted?: boolean
+  password_reset_token?: string | null
+  password_reset_expires?: Date | string | null
+  password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
+  credit_balance?: number
+  created_at?: Date | string
+  updated_at?: Date | string
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
+  jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditGrants?: Prisma.CreditLogUncheckedCreateNestedManyWithoutCreatedByInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
 }
 
-export type UserCreateWithoutCreditLogsInput = {
+export type UserCreateOrConnectWithoutCreditLogsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutCreditLogsInput, Prisma.UserUncheckedCreateWithoutCreditLogsInput>
+}
+
+export type UserCreateWithoutCreditGrantsInput = {
   id?: string
   email: string
-  password: string
+  password?: string | null
   name: string
   role?: $Enums.UserRole
   phone?: string | null
   image_url?: string | null
   email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: string | null
   password_reset_token?: string | null
   password_reset_expires?: Date | string | null
   password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
   credit_balance?: number
   created_at?: Date | string
   updated_at?: Date | string
   payments?: Prisma.PaymentCreateNestedManyWithoutUserInput
   jobs?: Prisma.JobCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogCreateNestedManyWithoutUserInput
+  impersonations?: Prisma.ImpersonationCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationCreateNestedManyWithoutInvitedByInput
 }
 
-export type UserUncheckedCreateWithoutCreditLogsInput = {
+export type UserUncheckedCreateWithoutCreditGrantsInput = {
   id?: string
   email: string
-  password: string
+  password?: string | null
   name: string
   role?: $Enums.UserRole
   phone?: string | null
   image_url?: string | null
   email_verified?: boolean
+  email_verification_token?: string | null
+  email_verification_expires?: Date | string | null
+  pending_email?: string | null
+  email_change_token?: string | null
+  email_change_expires?: Date | string | null
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: string | null
   password_reset_token?: string | null
   password_reset_expires?: Date | string | null
   password_reset_at?: Date | string | null
+  two_factor_enabled?: boolean
+  two_factor_secret?: string | null
+  two_factor_recovery_codes?: Prisma.UserCreatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: number | null
+  failed_login_attempts?: number
+  locked_until?: Date | string | null
+  lockout_count?: number
+  deleted_at?: Date | string | null
+  anonymized_at?: Date | string | null
   credit_balance?: number
   created_at?: Date | string
   updated_at?: Date | string
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutUserInput
   jobs?: Prisma.JobUncheckedCreateNestedManyWithoutUserInput
+  creditLogs?: Prisma.CreditLogUncheckedCreateNestedManyWithoutUserInput
+  impersonations?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutAdminInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedCreateNestedManyWithoutUserInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedCreateNestedManyWithoutRefundedByInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedCreateNestedManyWithoutUserInput
+  identities?: Prisma.UserIdentityUncheckedCreateNestedManyWithoutUserInput
+  apiKeys?: Prisma.ApiKeyUncheckedCreateNestedManyWithoutUserInput
+  memberships?: Prisma.OrganizationMemberUncheckedCreateNestedManyWithoutUserInput
+  invitations?: Prisma.OrganizationInvitationUncheckedCreateNestedManyWithoutInvitedByInput
 }
 
-export type UserCreateOrConnectWithoutCreditLogsInput = {
+export type UserCreateOrConnectWithoutCreditGrantsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutCreditLogsInput, Prisma.UserUncheckedCreateWithoutCreditLogsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCreditGrantsInput, Prisma.UserUncheckedCreateWithoutCreditGrantsInput>
 }
 
 export type UserUpsertWithoutCreditLogsInput = {
@@ -984,45 +3619,192 @@ export type UserUpdateToOneWithWhereWithoutCreditLogsInput = {
 export type UserUpdateWithoutCreditLogsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
   jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
 }
 
 export type UserUncheckedUpdateWithoutCreditLogsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
-  password?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditGrants?: Prisma.CreditLogUncheckedUpdateManyWithoutCreatedByNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUpsertWithoutCreditGrantsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCreditGrantsInput, Prisma.UserUncheckedUpdateWithoutCreditGrantsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCreditGrantsInput, Prisma.UserUncheckedCreateWithoutCreditGrantsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutCreditGrantsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCreditGrantsInput, Prisma.UserUncheckedUpdateWithoutCreditGrantsInput>
+}
+
+export type UserUpdateWithoutCreditGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
+  created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payments?: Prisma.PaymentUpdateManyWithoutUserNestedInput
+  jobs?: Prisma.JobUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUpdateManyWithoutUserNestedInput
+  impersonations?: Prisma.ImpersonationUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUpdateManyWithoutInvitedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutCreditGrantsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  password?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   image_url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email_verified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  email_verification_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_verification_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  pending_email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  email_change_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   is_active?: Prisma.BoolFieldUpdateOperationsInput | boolean
   is_deleted?: Prisma.BoolFieldUpdateOperationsInput | boolean
-  refresh_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_token?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   password_reset_expires?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   password_reset_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  two_factor_enabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  two_factor_secret?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  two_factor_recovery_codes?: Prisma.UserUpdatetwo_factor_recovery_codesInput | string[]
+  two_factor_last_used_step?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  failed_login_attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  locked_until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lockout_count?: Prisma.IntFieldUpdateOperationsInput | number
+  deleted_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  anonymized_at?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   credit_balance?: Prisma.IntFieldUpdateOperationsInput | number
   created_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updated_at?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutUserNestedInput
   jobs?: Prisma.JobUncheckedUpdateManyWithoutUserNestedInput
+  creditLogs?: Prisma.CreditLogUncheckedUpdateManyWithoutUserNestedInput
+  impersonations?: Prisma.ImpersonationUncheckedUpdateManyWithoutAdminNestedInput
+  impersonatedBy?: Prisma.ImpersonationUncheckedUpdateManyWithoutUserNestedInput
+  issuedRefunds?: Prisma.PaymentRefundUncheckedUpdateManyWithoutRefundedByNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  loginAttempts?: Prisma.LoginAttemptUncheckedUpdateManyWithoutUserNestedInput
+  identities?: Prisma.UserIdentityUncheckedUpdateManyWithoutUserNestedInput
+  apiKeys?: Prisma.ApiKeyUncheckedUpdateManyWithoutUserNestedInput
+  memberships?: Prisma.OrganizationMemberUncheckedUpdateManyWithoutUserNestedInput
+  invitations?: Prisma.OrganizationInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
 }
 
 
@@ -1034,12 +3816,32 @@ export type UserCountOutputType = {
   payments: number
   jobs: number
   creditLogs: number
+  creditGrants: number
+  impersonations: number
+  impersonatedBy: number
+  issuedRefunds: number
+  sessions: number
+  loginAttempts: number
+  identities: number
+  apiKeys: number
+  memberships: number
+  invitations: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   payments?: boolean | UserCountOutputTypeCountPaymentsArgs
   jobs?: boolean | UserCountOutputTypeCountJobsArgs
   creditLogs?: boolean | UserCountOutputTypeCountCreditLogsArgs
+  creditGrants?: boolean | UserCountOutputTypeCountCreditGrantsArgs
+  impersonations?: boolean | UserCountOutputTypeCountImpersonationsArgs
+  impersonatedBy?: boolean | UserCountOutputTypeCountImpersonatedByArgs
+  issuedRefunds?: boolean | UserCountOutputTypeCountIssuedRefundsArgs
+  sessions?: boolean | UserCountOutputTypeCountSessionsArgs
+  loginAttempts?: boolean | UserCountOutputTypeCountLoginAttemptsArgs
+  identities?: boolean | UserCountOutputTypeCountIdentitiesArgs
+  apiKeys?: boolean | UserCountOutputTypeCountApiKeysArgs
+  memberships?: boolean | UserCountOutputTypeCountMembershipsArgs
+  invitations?: boolean | UserCountOutputTypeCountInvitationsArgs
 }
 
 /**
@@ -1073,6 +3875,76 @@ export type UserCountOutputTypeCountCreditLogsArgs<ExtArgs extends runtime.Types
   where?: Prisma.CreditLogWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountCreditGrantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CreditLogWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountImpersonationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ImpersonationWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountImpersonatedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ImpersonationWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountIssuedRefundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PaymentRefundWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SessionWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountLoginAttemptsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LoginAttemptWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountIdentitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.UserIdentityWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountApiKeysArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ApiKeyWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountMembershipsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrganizationMemberWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountInvitationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OrganizationInvitationWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1083,18 +3955,41 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   phone?: boolean
   image_url?: boolean
   email_verified?: boolean
+  email_verification_token?: boolean
+  email_verification_expires?: boolean
+  pending_email?: boolean
+  email_change_token?: boolean
+  email_change_expires?: boolean
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: boolean
   password_reset_token?: boolean
   password_reset_expires?: boolean
   password_reset_at?: boolean
+  two_factor_enabled?: boolean
+  two_factor_secret?: boolean
+  two_factor_recovery_codes?: boolean
+  two_factor_last_used_step?: boolean
+  failed_login_attempts?: boolean
+  locked_until?: boolean
+  lockout_count?: boolean
+  deleted_at?: boolean
+  anonymized_at?: boolean
   credit_balance?: boolean
   created_at?: boolean
   updated_at?: boolean
   payments?: boolean | Prisma.User$paymentsArgs<ExtArgs>
   jobs?: boolean | Prisma.User$jobsArgs<ExtArgs>
   creditLogs?: boolean | Prisma.User$creditLogsArgs<ExtArgs>
+  creditGrants?: boolean | Prisma.User$creditGrantsArgs<ExtArgs>
+  impersonations?: boolean | Prisma.User$impersonationsArgs<ExtArgs>
+  impersonatedBy?: boolean | Prisma.User$impersonatedByArgs<ExtArgs>
+  issuedRefunds?: boolean | Prisma.User$issuedRefundsArgs<ExtArgs>
+  sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
+  loginAttempts?: boolean | Prisma.User$loginAttemptsArgs<ExtArgs>
+  identities?: boolean | Prisma.User$identitiesArgs<ExtArgs>
+  apiKeys?: boolean | Prisma.User$apiKeysArgs<ExtArgs>
+  memberships?: boolean | Prisma.User$membershipsArgs<ExtArgs>
+  invitations?: boolean | Prisma.User$invitationsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -1107,12 +4002,25 @@ export type UserSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   phone?: boolean
   image_url?: boolean
   email_verified?: boolean
+  email_verification_token?: boolean
+  email_verification_expires?: boolean
+  pending_email?: boolean
+  email_change_token?: boolean
+  email_change_expires?: boolean
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: boolean
   password_reset_token?: boolean
   password_reset_expires?: boolean
   password_reset_at?: boolean
+  two_factor_enabled?: boolean
+  two_factor_secret?: boolean
+  two_factor_recovery_codes?: boolean
+  two_factor_last_used_step?: boolean
+  failed_login_attempts?: boolean
+  locked_until?: boolean
+  lockout_count?: boolean
+  deleted_at?: boolean
+  anonymized_at?: boolean
   credit_balance?: boolean
   created_at?: boolean
   updated_at?: boolean
@@ -1127,12 +4035,25 @@ export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   phone?: boolean
   image_url?: boolean
   email_verified?: boolean
+  email_verification_token?: boolean
+  email_verification_expires?: boolean
+  pending_email?: boolean
+  email_change_token?: boolean
+  email_change_expires?: boolean
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: boolean
   password_reset_token?: boolean
   password_reset_expires?: boolean
   password_reset_at?: boolean
+  two_factor_enabled?: boolean
+  two_factor_secret?: boolean
+  two_factor_recovery_codes?: boolean
+  two_factor_last_used_step?: boolean
+  failed_login_attempts?: boolean
+  locked_until?: boolean
+  lockout_count?: boolean
+  deleted_at?: boolean
+  anonymized_at?: boolean
   credit_balance?: boolean
   created_at?: boolean
   updated_at?: boolean
@@ -1147,22 +4068,45 @@ export type UserSelectScalar = {
   phone?: boolean
   image_url?: boolean
   email_verified?: boolean
+  email_verification_token?: boolean
+  email_verification_expires?: boolean
+  pending_email?: boolean
+  email_change_token?: boolean
+  email_change_expires?: boolean
   is_active?: boolean
   is_deleted?: boolean
-  refresh_token?: boolean
   password_reset_token?: boolean
   password_reset_expires?: boolean
   password_reset_at?: boolean
+  two_factor_enabled?: boolean
+  two_factor_secret?: boolean
+  two_factor_recovery_codes?: boolean
+  two_factor_last_used_step?: boolean
+  failed_login_attempts?: boolean
+  locked_until?: boolean
+  lockout_count?: boolean
+  deleted_at?: boolean
+  anonymized_at?: boolean
   credit_balance?: boolean
   created_at?: boolean
   updated_at?: boolean
 }
 
-export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "password" | "name" | "role" | "phone" | "image_url" | "email_verified" | "is_active" | "is_deleted" | "refresh_token" | "password_reset_token" | "password_reset_expires" | "password_reset_at" | "credit_balance" | "created_at" | "updated_at", ExtArgs["result"]["user"]>
+export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "password" | "name" | "role" | "phone" | "image_url" | "email_verified" | "email_verification_token" | "email_verification_expires" | "pending_email" | "email_change_token" | "email_change_expires" | "is_active" | "is_deleted" | "password_reset_token" | "password_reset_expires" | "password_reset_at" | "two_factor_enabled" | "two_factor_secret" | "two_factor_recovery_codes" | "two_factor_last_used_step" | "failed_login_attempts" | "locked_until" | "lockout_count" | "deleted_at" | "anonymized_at" | "credit_balance" | "created_at" | "updated_at", ExtArgs["result"]["user"]>
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   payments?: boolean | Prisma.User$paymentsArgs<ExtArgs>
   jobs?: boolean | Prisma.User$jobsArgs<ExtArgs>
   creditLogs?: boolean | Prisma.User$creditLogsArgs<ExtArgs>
+  creditGrants?: boolean | Prisma.User$creditGrantsArgs<ExtArgs>
+  impersonations?: boolean | Prisma.User$impersonationsArgs<ExtArgs>
+  impersonatedBy?: boolean | Prisma.User$impersonatedByArgs<ExtArgs>
+  issuedRefunds?: boolean | Prisma.User$issuedRefundsArgs<ExtArgs>
+  sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
+  loginAttempts?: boolean | Prisma.User$loginAttemptsArgs<ExtArgs>
+  identities?: boolean | Prisma.User$identitiesArgs<ExtArgs>
+  apiKeys?: boolean | Prisma.User$apiKeysArgs<ExtArgs>
+  memberships?: boolean | Prisma.User$membershipsArgs<ExtArgs>
+  invitations?: boolean | Prisma.User$invitationsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -1174,22 +4118,45 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     payments: Prisma.$PaymentPayload<ExtArgs>[]
     jobs: Prisma.$JobPayload<ExtArgs>[]
     creditLogs: Prisma.$CreditLogPayload<ExtArgs>[]
+    creditGrants: Prisma.$CreditLogPayload<ExtArgs>[]
+    impersonations: Prisma.$ImpersonationPayload<ExtArgs>[]
+    impersonatedBy: Prisma.$ImpersonationPayload<ExtArgs>[]
+    issuedRefunds: Prisma.$PaymentRefundPayload<ExtArgs>[]
+    sessions: Prisma.$SessionPayload<ExtArgs>[]
+    loginAttempts: Prisma.$LoginAttemptPayload<ExtArgs>[]
+    identities: Prisma.$UserIdentityPayload<ExtArgs>[]
+    apiKeys: Prisma.$ApiKeyPayload<ExtArgs>[]
+    memberships: Prisma.$OrganizationMemberPayload<ExtArgs>[]
+    invitations: Prisma.$OrganizationInvitationPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     email: string
-    password: string
+    password: string | null
     name: string
     role: $Enums.UserRole
     phone: string | null
     image_url: string | null
     email_verified: boolean
+    email_verification_token: string | null
+    email_verification_expires: Date | null
+    pending_email: string | null
+    email_change_token: string | null
+    email_change_expires: Date | null
     is_active: boolean
     is_deleted: boolean
-    refresh_token: string | null
     password_reset_token: string | null
     password_reset_expires: Date | null
     password_reset_at: Date | null
+    two_factor_enabled: boolean
+    two_factor_secret: string | null
+    two_factor_recovery_codes: string[]
+    two_factor_last_used_step: number | null
+    failed_login_attempts: number
+    locked_until: Date | null
+    lockout_count: number
+    deleted_at: Date | null
+    anonymized_at: Date | null
     credit_balance: number
     created_at: Date
     updated_at: Date
@@ -1590,6 +4557,16 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   payments<T extends Prisma.User$paymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$paymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   jobs<T extends Prisma.User$jobsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$jobsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$JobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   creditLogs<T extends Prisma.User$creditLogsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$creditLogsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CreditLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  creditGrants<T extends Prisma.User$creditGrantsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$creditGrantsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CreditLogPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  impersonations<T extends Prisma.User$impersonationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$impersonationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  impersonatedBy<T extends Prisma.User$impersonatedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$impersonatedByArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImpersonationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  issuedRefunds<T extends Prisma.User$issuedRefundsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$issuedRefundsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentRefundPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sessions<T extends Prisma.User$sessionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sessionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  loginAttempts<T extends Prisma.User$loginAttemptsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$loginAttemptsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LoginAttemptPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  identities<T extends Prisma.User$identitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$identitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserIdentityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  apiKeys<T extends Prisma.User$apiKeysArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$apiKeysArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ApiKeyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  memberships<T extends Prisma.User$membershipsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$membershipsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrganizationMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  invitations<T extends Prisma.User$invitationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$invitationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OrganizationInvitationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1627,12 +4604,25 @@ export interface UserFieldRefs {
   readonly phone: Prisma.FieldRef<"User", 'String'>
   readonly image_url: Prisma.FieldRef<"User", 'String'>
   readonly email_verified: Prisma.FieldRef<"User", 'Boolean'>
+  readonly email_verification_token: Prisma.FieldRef<"User", 'String'>
+  readonly email_verification_expires: Prisma.FieldRef<"User", 'DateTime'>
+  readonly pending_email: Prisma.FieldRef<"User", 'String'>
+  readonly email_change_token: Prisma.FieldRef<"User", 'String'>
+  readonly email_change_expires: Prisma.FieldRef<"User", 'DateTime'>
   readonly is_active: Prisma.FieldRef<"User", 'Boolean'>
   readonly is_deleted: Prisma.FieldRef<"User", 'Boolean'>
-  readonly refresh_token: Prisma.FieldRef<"User", 'String'>
   readonly password_reset_token: Prisma.FieldRef<"User", 'String'>
   readonly password_reset_expires: Prisma.FieldRef<"User", 'DateTime'>
   readonly password_reset_at: Prisma.FieldRef<"User", 'DateTime'>
+  readonly two_factor_enabled: Prisma.FieldRef<"User", 'Boolean'>
+  readonly two_factor_secret: Prisma.FieldRef<"User", 'String'>
+  readonly two_factor_recovery_codes: Prisma.FieldRef<"User", 'String[]'>
+  readonly two_factor_last_used_step: Prisma.FieldRef<"User", 'Int'>
+  readonly failed_login_attempts: Prisma.FieldRef<"User", 'Int'>
+  readonly locked_until: Prisma.FieldRef<"User", 'DateTime'>
+  readonly lockout_count: Prisma.FieldRef<"User", 'Int'>
+  readonly deleted_at: Prisma.FieldRef<"User", 'DateTime'>
+  readonly anonymized_at: Prisma.FieldRef<"User", 'DateTime'>
   readonly credit_balance: Prisma.FieldRef<"User", 'Int'>
   readonly created_at: Prisma.FieldRef<"User", 'DateTime'>
   readonly updated_at: Prisma.FieldRef<"User", 'DateTime'>
@@ -2095,6 +5085,246 @@ export type User$creditLogsArgs<ExtArgs extends runtime.Types.Extensions.Interna
   distinct?: Prisma.CreditLogScalarFieldEnum | Prisma.CreditLogScalarFieldEnum[]
 }
 
+/**
+ * User.creditGrants
+ */
+export type User$creditGrantsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CreditLog
+   */
+  select?: Prisma.CreditLogSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CreditLog
+   */
+  omit?: Prisma.CreditLogOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CreditLogInclude<ExtArgs> | null
+  where?: Prisma.CreditLogWhereInput
+  orderBy?: Prisma.CreditLogOrderByWithRelationInput | Prisma.CreditLogOrderByWithRelationInput[]
+  cursor?: Prisma.CreditLogWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CreditLogScalarFieldEnum | Prisma.CreditLogScalarFieldEnum[]
+}
+
+/**
+ * User.impersonations
+ */
+export type User$impersonationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  where?: Prisma.ImpersonationWhereInput
+  orderBy?: Prisma.ImpersonationOrderByWithRelationInput | Prisma.ImpersonationOrderByWithRelationInput[]
+  cursor?: Prisma.ImpersonationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ImpersonationScalarFieldEnum | Prisma.ImpersonationScalarFieldEnum[]
+}
+
+/**
+ * User.impersonatedBy
+ */
+export type User$impersonatedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Impersonation
+   */
+  select?: Prisma.ImpersonationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Impersonation
+   */
+  omit?: Prisma.ImpersonationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImpersonationInclude<ExtArgs> | null
+  where?: Prisma.ImpersonationWhereInput
+  orderBy?: Prisma.ImpersonationOrderByWithRelationInput | Prisma.ImpersonationOrderByWithRelationInput[]
+  cursor?: Prisma.ImpersonationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ImpersonationScalarFieldEnum | Prisma.ImpersonationScalarFieldEnum[]
+}
+
+/**
+ * User.issuedRefunds
+ */
+export type User$issuedRefundsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PaymentRefund
+   */
+  select?: Prisma.PaymentRefundSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PaymentRefund
+   */
+  omit?: Prisma.PaymentRefundOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PaymentRefundInclude<ExtArgs> | null
+  where?: Prisma.PaymentRefundWhereInput
+  orderBy?: Prisma.PaymentRefundOrderByWithRelationInput | Prisma.PaymentRefundOrderByWithRelationInput[]
+  cursor?: Prisma.PaymentRefundWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PaymentRefundScalarFieldEnum | Prisma.PaymentRefundScalarFieldEnum[]
+}
+
+/**
+ * User.sessions
+ */
+export type User$sessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Session
+   */
+  select?: Prisma.SessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Session
+   */
+  omit?: Prisma.SessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SessionInclude<ExtArgs> | null
+  where?: Prisma.SessionWhereInput
+  orderBy?: Prisma.SessionOrderByWithRelationInput | Prisma.SessionOrderByWithRelationInput[]
+  cursor?: Prisma.SessionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SessionScalarFieldEnum | Prisma.SessionScalarFieldEnum[]
+}
+
+/**
+ * User.loginAttempts
+ */
+export type User$loginAttemptsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginAttempt
+   */
+  select?: Prisma.LoginAttemptSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginAttempt
+   */
+  omit?: Prisma.LoginAttemptOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginAttemptInclude<ExtArgs> | null
+  where?: Prisma.LoginAttemptWhereInput
+  orderBy?: Prisma.LoginAttemptOrderByWithRelationInput | Prisma.LoginAttemptOrderByWithRelationInput[]
+  cursor?: Prisma.LoginAttemptWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.LoginAttemptScalarFieldEnum | Prisma.LoginAttemptScalarFieldEnum[]
+}
+
+/**
+ * User.identities
+ */
+export type User$identitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserIdentity
+   */
+  select?: Prisma.UserIdentitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the UserIdentity
+   */
+  omit?: Prisma.UserIdentityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIdentityInclude<ExtArgs> | null
+  where?: Prisma.UserIdentityWhereInput
+  orderBy?: Prisma.UserIdentityOrderByWithRelationInput | Prisma.UserIdentityOrderByWithRelationInput[]
+  cursor?: Prisma.UserIdentityWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.UserIdentityScalarFieldEnum | Prisma.UserIdentityScalarFieldEnum[]
+}
+
+/**
+ * User.apiKeys
+ */
+export type User$apiKeysArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ApiKey
+   */
+  select?: Prisma.ApiKeySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ApiKey
+   */
+  omit?: Prisma.ApiKeyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApiKeyInclude<ExtArgs> | null
+  where?: Prisma.ApiKeyWhereInput
+  orderBy?: Prisma.ApiKeyOrderByWithRelationInput | Prisma.ApiKeyOrderByWithRelationInput[]
+  cursor?: Prisma.ApiKeyWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ApiKeyScalarFieldEnum | Prisma.ApiKeyScalarFieldEnum[]
+}
+
+/**
+ * User.memberships
+ */
+export type User$membershipsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrganizationMember
+   */
+  select?: Prisma.OrganizationMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrganizationMember
+   */
+  omit?: Prisma.OrganizationMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrganizationMemberInclude<ExtArgs> | null
+  where?: Prisma.OrganizationMemberWhereInput
+  orderBy?: Prisma.OrganizationMemberOrderByWithRelationInput | Prisma.OrganizationMemberOrderByWithRelationInput[]
+  cursor?: Prisma.OrganizationMemberWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrganizationMemberScalarFieldEnum | Prisma.OrganizationMemberScalarFieldEnum[]
+}
+
+/**
+ * User.invitations
+ */
+export type User$invitationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OrganizationInvitation
+   */
+  select?: Prisma.OrganizationInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OrganizationInvitation
+   */
+  omit?: Prisma.OrganizationInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.OrganizationInvitationInclude<ExtArgs> | null
+  where?: Prisma.OrganizationInvitationWhereInput
+  orderBy?: Prisma.OrganizationInvitationOrderByWithRelationInput | Prisma.OrganizationInvitationOrderByWithRelationInput[]
+  cursor?: Prisma.OrganizationInvitationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.OrganizationInvitationScalarFieldEnum | Prisma.OrganizationInvitationScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "credit_logs" ADD COLUMN     "refund_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "refunded_amount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "payment_refunds" (
+    "id" TEXT NOT NULL,
+    "payment_id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "credits" INTEGER NOT NULL,
+    "credits_clawed_back" INTEGER NOT NULL,
+    "bkash_refund_trx_id" TEXT NOT NULL,
+    "reason" TEXT,
+    "refunded_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_refunds_bkash_refund_trx_id_key" ON "payment_refunds"("bkash_refund_trx_id");
+
+-- CreateIndex
+CREATE INDEX "payment_refunds_payment_id_idx" ON "payment_refunds"("payment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_logs_refund_id_key" ON "credit_logs"("refund_id");
+
+-- AddForeignKey
+ALTER TABLE "payment_refunds" ADD CONSTRAINT "payment_refunds_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_refunds" ADD CONSTRAINT "payment_refunds_refunded_by_fkey" FOREIGN KEY ("refunded_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_logs" ADD CONSTRAINT "credit_logs_refund_id_fkey" FOREIGN KEY ("refund_id") REFERENCES "payment_refunds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
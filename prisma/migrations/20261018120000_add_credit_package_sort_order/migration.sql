@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "credit_packages" ADD COLUMN     "sort_order" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "credit_packages_sort_order_idx" ON "credit_packages"("sort_order");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "email_verification_expires" TIMESTAMP(3),
+ADD COLUMN     "email_verification_token" TEXT;
+
+-- CreateIndex
+CREATE INDEX "users_email_verification_token_idx" ON "users"("email_verification_token");
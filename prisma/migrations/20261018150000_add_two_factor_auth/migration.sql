@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "two_factor_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "two_factor_last_used_step" INTEGER,
+ADD COLUMN     "two_factor_recovery_codes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "two_factor_secret" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "anonymized_at" TIMESTAMP(3),
+ADD COLUMN     "deleted_at" TIMESTAMP(3);
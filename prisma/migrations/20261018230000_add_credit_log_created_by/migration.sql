@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "credit_logs" ADD COLUMN     "created_by" TEXT;
+
+-- CreateIndex
+CREATE INDEX "credit_logs_created_by_idx" ON "credit_logs"("created_by");
+
+-- AddForeignKey
+ALTER TABLE "credit_logs" ADD CONSTRAINT "credit_logs_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
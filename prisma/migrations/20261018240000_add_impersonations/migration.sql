@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "impersonations" (
+    "id" TEXT NOT NULL,
+    "admin_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "impersonations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "impersonations_admin_id_idx" ON "impersonations"("admin_id");
+
+-- CreateIndex
+CREATE INDEX "impersonations_user_id_idx" ON "impersonations"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "impersonations" ADD CONSTRAINT "impersonations_admin_id_fkey" FOREIGN KEY ("admin_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "impersonations" ADD CONSTRAINT "impersonations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
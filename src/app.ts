@@ -14,7 +14,7 @@ const corsOptions = {
   origin: config.corsOrigin.split(','),
   methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
   allowedHeaders:
-    'Content-Type, Authorization, Origin, X-Requested-With, Accept',
+    'Content-Type, Authorization, Origin, X-Requested-With, Accept, X-Organization-Id',
   credentials: true,
 };
 
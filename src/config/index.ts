@@ -38,6 +38,47 @@ interface Config {
     bucket_name?: string;
     public_url?: string;
   };
+  scoring: {
+    provider: string;
+    uploadTimeoutMs: number;
+  };
+  credits: {
+    costPerCandidate: number;
+  };
+  accountDeletion: {
+    gracePeriodDays: number;
+  };
+  bkash: {
+    baseUrl: string;
+    username: string;
+    password: string;
+    appKey: string;
+    appSecret: string;
+    callbackUrl: string;
+  };
+  oauth: {
+    redirectBaseUrl: string;
+    google: {
+      issuer: string;
+      clientId: string;
+      clientSecret: string;
+    };
+    github: {
+      clientId: string;
+      clientSecret: string;
+    };
+  };
+  twoFactor: {
+    issuer: string;
+    encryptionKey: string;
+  };
+  llm: {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    timeoutMs: number;
+    maxRetries: number;
+  };
 }
 
 const config: Config = {
@@ -77,6 +118,49 @@ const config: Config = {
     bucket_name: process.env.CLOUDFLARE_R2_BUCKET_NAME,
     public_url: process.env.CLOUDFLARE_R2_PUBLIC_URL,
   },
+  scoring: {
+    provider: process.env.SCORING_PROVIDER || 'keyword',
+    uploadTimeoutMs: Number(process.env.SCORING_UPLOAD_TIMEOUT_MS) || 120000,
+  },
+  credits: {
+    costPerCandidate: Number(process.env.CREDITS_PER_CANDIDATE || 1),
+  },
+  accountDeletion: {
+    gracePeriodDays: Number(process.env.ACCOUNT_DELETION_GRACE_DAYS || 30),
+  },
+  bkash: {
+    baseUrl:
+      process.env.BKASH_BASE_URL ||
+      'https://tokenized.sandbox.bka.sh/v1.2.0-beta',
+    username: process.env.BKASH_USERNAME || '',
+    password: process.env.BKASH_PASSWORD || '',
+    appKey: process.env.BKASH_APP_KEY || '',
+    appSecret: process.env.BKASH_APP_SECRET || '',
+    callbackUrl: process.env.BKASH_CALLBACK_URL || '',
+  },
+  oauth: {
+    redirectBaseUrl: process.env.OAUTH_REDIRECT_BASE_URL || '',
+    google: {
+      issuer: process.env.GOOGLE_OIDC_ISSUER || 'https://accounts.google.com',
+      clientId: process.env.GOOGLE_CLIENT_ID || '',
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+    },
+    github: {
+      clientId: process.env.GITHUB_CLIENT_ID || '',
+      clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+    },
+  },
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'TalentSift',
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY || '',
+  },
+  llm: {
+    baseUrl: process.env.LLM_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: process.env.LLM_API_KEY || '',
+    model: process.env.LLM_MODEL || 'gpt-4o-mini',
+    timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 30000,
+    maxRetries: Number(process.env.LLM_MAX_RETRIES || 2),
+  },
 };
 
 export default config;
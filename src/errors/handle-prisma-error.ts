@@ -445,4 +445,16 @@ const handlePrismaError = (
   };
 };
 
+/**
+ * Whether an error is a unique constraint violation (P2002), for callers
+ * that treat a duplicate as an expected outcome rather than a conflict
+ */
+export const isUniqueConstraintError = (
+  err: unknown,
+): err is Prisma.PrismaClientKnownRequestError => {
+  return (
+    err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002'
+  );
+};
+
 export default handlePrismaError;
@@ -0,0 +1,93 @@
+import config from '@/config';
+import { OAuthProvider } from './types';
+import { exchangeAuthorizationCode, getWithAccessToken } from './oauth-client';
+
+// GitHub speaks plain OAuth 2.0 rather than OpenID Connect, so its
+// endpoints are fixed and the profile comes from the REST API
+const AUTHORIZATION_ENDPOINT = 'https://github.com/login/oauth/authorize';
+const TOKEN_ENDPOINT = 'https://github.com/login/oauth/access_token';
+const API_BASE_URL = 'https://api.github.com';
+
+// The REST API rejects requests without a user agent
+const API_HEADERS = {
+  Accept: 'application/vnd.github+json',
+  'User-Agent': 'talentsift-backend',
+};
+
+interface GithubUser {
+  id: number;
+  login: string;
+  name: string | null;
+  avatar_url: string | null;
+}
+
+interface GithubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+export const githubOAuthProvider: OAuthProvider = {
+  name: 'github',
+  displayName: 'GitHub',
+
+  isConfigured() {
+    return Boolean(
+      config.oauth.github.clientId && config.oauth.github.clientSecret,
+    );
+  },
+
+  async getAuthorizationUrl({ state, codeChallenge, redirectUri }) {
+    const url = new URL(AUTHORIZATION_ENDPOINT);
+    url.search = new URLSearchParams({
+      client_id: config.oauth.github.clientId,
+      redirect_uri: redirectUri,
+      scope: 'read:user user:email',
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return url.toString();
+  },
+
+  async getProfile({ code, codeVerifier, redirectUri }) {
+    const accessToken = await exchangeAuthorizationCode(
+      this.displayName,
+      TOKEN_ENDPOINT,
+      {
+        code,
+        codeVerifier,
+        redirectUri,
+        clientId: config.oauth.github.clientId,
+        clientSecret: config.oauth.github.clientSecret,
+      },
+    );
+
+    const [user, emails] = await Promise.all([
+      getWithAccessToken<GithubUser>(
+        this.displayName,
+        `${API_BASE_URL}/user`,
+        accessToken,
+        API_HEADERS,
+      ),
+      getWithAccessToken<GithubEmail[]>(
+        this.displayName,
+        `${API_BASE_URL}/user/emails`,
+        accessToken,
+        API_HEADERS,
+      ),
+    ]);
+
+    // The profile email may be hidden, the primary address always exists
+    const primary = emails.find((email) => email.primary);
+
+    return {
+      providerUserId: String(user.id),
+      email: primary?.email.toLowerCase() || null,
+      emailVerified: Boolean(primary?.verified),
+      name: user.name || user.login,
+      avatarUrl: user.avatar_url,
+    };
+  },
+};
@@ -0,0 +1,8 @@
+import config from '@/config';
+import { createOidcProvider } from './oidc-provider';
+
+export const googleOAuthProvider = createOidcProvider({
+  name: 'google',
+  displayName: 'Google',
+  getSettings: () => config.oauth.google,
+});
@@ -0,0 +1,29 @@
+import { googleOAuthProvider } from './google-provider';
+import { githubOAuthProvider } from './github-provider';
+import { OAuthProvider } from './types';
+
+export * from './types';
+export { generatePkcePair } from './oauth-client';
+
+const providers: Record<string, OAuthProvider> = {
+  [googleOAuthProvider.name]: googleOAuthProvider,
+  [githubOAuthProvider.name]: githubOAuthProvider,
+};
+
+/**
+ * Get a provider by name, if it exists and has credentials configured
+ */
+export const getOAuthProvider = (name: string): OAuthProvider | undefined => {
+  const provider = Object.prototype.hasOwnProperty.call(providers, name)
+    ? providers[name]
+    : undefined;
+
+  return provider?.isConfigured() ? provider : undefined;
+};
+
+/**
+ * Get the providers users can currently sign in with
+ */
+export const getEnabledOAuthProviders = (): OAuthProvider[] => {
+  return Object.values(providers).filter((provider) => provider.isConfigured());
+};
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import AppError from '@/errors/app-error';
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Generate a PKCE code verifier (RFC 7636) and its S256 challenge
+ */
+export const generatePkcePair = () => {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto
+    .createHash('sha256')
+    .update(codeVerifier)
+    .digest('base64url');
+
+  return { codeVerifier, codeChallenge };
+};
+
+const request = async <T>(
+  providerName: string,
+  url: string,
+  init: RequestInit,
+): Promise<T> => {
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      `Could not reach ${providerName}: ${(error as Error).message}`,
+    );
+  }
+
+  const data = (await response.json().catch(() => ({}))) as T & {
+    error?: string;
+    error_description?: string;
+  };
+
+  if (!response.ok || data.error) {
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      `${providerName} request failed: ${data.error_description || data.error || response.statusText}`,
+    );
+  }
+
+  return data;
+};
+
+/**
+ * Exchange an authorization code for an access token
+ */
+export const exchangeAuthorizationCode = async (
+  providerName: string,
+  tokenEndpoint: string,
+  {
+    code,
+    codeVerifier,
+    redirectUri,
+    clientId,
+    clientSecret,
+  }: {
+    code: string;
+    codeVerifier: string;
+    redirectUri: string;
+    clientId: string;
+    clientSecret: string;
+  },
+): Promise<string> => {
+  const data = await request<{ access_token?: string }>(
+    providerName,
+    tokenEndpoint,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        code_verifier: codeVerifier,
+        redirect_uri: redirectUri,
+        client_id: clientId,
+        client_secret: clientSecret,
+      }),
+    },
+  );
+
+  if (!data.access_token) {
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      `${providerName} did not return an access token`,
+    );
+  }
+
+  return data.access_token;
+};
+
+/**
+ * Call a provider API with the user's access token
+ */
+export const getWithAccessToken = async <T>(
+  providerName: string,
+  url: string,
+  accessToken: string,
+  headers: Record<string, string> = {},
+): Promise<T> => {
+  return request<T>(providerName, url, {
+    method: 'GET',
+    headers: {
+      Accept: 'application/json',
+      Authorization: `Bearer ${accessToken}`,
+      ...headers,
+    },
+  });
+};
+
+/**
+ * Fetch a JSON document that needs no authentication
+ */
+export const getJson = async <T>(providerName: string, url: string) => {
+  return request<T>(providerName, url, {
+    method: 'GET',
+    headers: { Accept: 'application/json' },
+  });
+};
@@ -0,0 +1,33 @@
+export interface OAuthProfile {
+  // Stable id of the account at the provider
+  providerUserId: string;
+  email: string | null;
+  // Whether the provider vouches that the user owns the email address
+  emailVerified: boolean;
+  name: string | null;
+  avatarUrl: string | null;
+}
+
+export interface OAuthAuthorizationParams {
+  state: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+export interface OAuthCodeExchangeParams {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+/**
+ * An identity provider users can sign in with through the authorization
+ * code flow with PKCE
+ */
+export interface OAuthProvider {
+  name: string;
+  displayName: string;
+  isConfigured(): boolean;
+  getAuthorizationUrl(params: OAuthAuthorizationParams): Promise<string>;
+  getProfile(params: OAuthCodeExchangeParams): Promise<OAuthProfile>;
+}
@@ -0,0 +1,114 @@
+export interface ContactDetails {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/i;
+
+// Digits with the usual separators, optionally starting with a country code
+const PHONE_PATTERN = /(?:\+|\(|\b)\d[\d\s().-]{5,}\d\b/g;
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+// Only the top of a resume is searched for the candidate's name
+const NAME_SEARCH_LINES = 8;
+
+const NON_NAME_WORDS = new Set([
+  'resume',
+  'résumé',
+  'cv',
+  'curriculum',
+  'vitae',
+  'profile',
+  'summary',
+  'objective',
+  'contact',
+  'experience',
+  'education',
+  'skills',
+  'address',
+  'email',
+  'phone',
+  'mobile',
+]);
+
+const toTitleCase = (value: string): string => {
+  return value
+    .toLowerCase()
+    .replace(
+      /(^|[\s'-])(\p{L})/gu,
+      (_match, separator, letter) => `${separator}${letter.toUpperCase()}`,
+    );
+};
+
+const extractEmail = (text: string): string | null => {
+  const match = text.match(EMAIL_PATTERN);
+  return match ? match[0].replace(/\.$/, '').toLowerCase() : null;
+};
+
+const extractPhone = (text: string): string | null => {
+  for (const match of text.matchAll(PHONE_PATTERN)) {
+    const candidate = match[0].trim();
+    const digits = candidate.replace(/\D/g, '');
+
+    // Skip year ranges (2019 - 2023), sentence breaks and filler digits
+    if (
+      /^(19|20)\d{2}\s*[-–]\s*(19|20)\d{2}$/.test(candidate) ||
+      /\.\s/.test(candidate) ||
+      /^(\d)\1+$/.test(digits)
+    ) {
+      continue;
+    }
+
+    if (
+      digits.length >= MIN_PHONE_DIGITS &&
+      digits.length <= MAX_PHONE_DIGITS
+    ) {
+      return candidate.replace(/\s+/g, ' ');
+    }
+  }
+
+  return null;
+};
+
+const extractName = (text: string): string | null => {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, NAME_SEARCH_LINES);
+
+  for (const line of lines) {
+    // Names are often followed by a title: "Jane Doe | Software Engineer"
+    const candidate = line.split(/\s[|•·,–-]\s|\t/)[0].trim();
+    const words = candidate.split(/\s+/);
+
+    if (
+      words.length < 2 ||
+      words.length > 4 ||
+      !/^[\p{L}][\p{L}.' -]*$/u.test(candidate) ||
+      words.some((word) => NON_NAME_WORDS.has(word.toLowerCase()))
+    ) {
+      continue;
+    }
+
+    return candidate === candidate.toUpperCase() ||
+      candidate === candidate.toLowerCase()
+      ? toTitleCase(candidate)
+      : candidate;
+  }
+
+  return null;
+};
+
+/**
+ * Best-effort extraction of the candidate's name, email and phone number
+ */
+export const extractContactDetails = (text: string): ContactDetails => {
+  return {
+    name: extractName(text),
+    email: extractEmail(text),
+    phone: extractPhone(text),
+  };
+};
@@ -0,0 +1,318 @@
+interface DirectoryEntry {
+  name: string;
+  type: number;
+  startSector: number;
+  size: number;
+}
+
+const CFB_SIGNATURE = 'd0cf11e0a1b11ae1';
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const HEADER_DIFAT_ENTRIES = 109;
+const STREAM_ENTRY = 2;
+const ROOT_ENTRY = 5;
+
+const WORD_IDENT = 0xa5ec;
+const FLAG_ENCRYPTED = 0x0100;
+const FLAG_WHICH_TABLE_STREAM = 0x0200;
+// fcClx is the 67th 32-bit field of FibRgFcLcb97
+const FC_CLX_OFFSET = 66 * 4;
+
+// Windows-1252 characters in the 0x80-0x9f range used by compressed pieces
+const CP1252_HIGH: Record<number, string> = {
+  0x80: '€',
+  0x82: '‚',
+  0x83: 'ƒ',
+  0x84: '„',
+  0x85: '…',
+  0x86: '†',
+  0x87: '‡',
+  0x88: 'ˆ',
+  0x89: '‰',
+  0x8a: 'Š',
+  0x8b: '‹',
+  0x8c: 'Œ',
+  0x8e: 'Ž',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x95: '•',
+  0x96: '–',
+  0x97: '—',
+  0x98: '˜',
+  0x99: '™',
+  0x9a: 'š',
+  0x9b: '›',
+  0x9c: 'œ',
+  0x9e: 'ž',
+  0x9f: 'Ÿ',
+};
+
+/**
+ * Minimal reader for the OLE compound file container used by legacy DOC
+ */
+const readCompoundFile = (buffer: Buffer) => {
+  if (buffer.length < 512 || buffer.toString('hex', 0, 8) !== CFB_SIGNATURE) {
+    throw new Error('Invalid DOC file: not an OLE compound document');
+  }
+
+  const sectorSize = 1 << buffer.readUInt16LE(0x1e);
+  const miniSectorSize = 1 << buffer.readUInt16LE(0x20);
+  const miniStreamCutoff = buffer.readUInt32LE(0x38);
+  const entriesPerSector = sectorSize / 4;
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+  const readChain = (start: number, table: number[]): number[] => {
+    const chain: number[] = [];
+    const seen = new Set<number>();
+
+    for (
+      let sector = start;
+      sector !== END_OF_CHAIN &&
+      sector !== FREE_SECTOR &&
+      sector < table.length;
+      sector = table[sector]
+    ) {
+      if (seen.has(sector)) {
+        throw new Error('Invalid DOC file: cyclic sector chain');
+      }
+      seen.add(sector);
+      chain.push(sector);
+    }
+
+    return chain;
+  };
+
+  // Sectors holding the FAT, from the header and the DIFAT chain
+  const fatSectors: number[] = [];
+  for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+    const sector = buffer.readUInt32LE(0x4c + i * 4);
+    if (sector !== FREE_SECTOR) fatSectors.push(sector);
+  }
+
+  let difatSector = buffer.readUInt32LE(0x44);
+  for (
+    let count = buffer.readUInt32LE(0x48);
+    count > 0 && difatSector !== END_OF_CHAIN;
+    count--
+  ) {
+    const offset = sectorOffset(difatSector);
+    for (let i = 0; i < entriesPerSector - 1; i++) {
+      const sector = buffer.readUInt32LE(offset + i * 4);
+      if (sector !== FREE_SECTOR) fatSectors.push(sector);
+    }
+    difatSector = buffer.readUInt32LE(offset + (entriesPerSector - 1) * 4);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const offset = sectorOffset(sector);
+    for (
+      let i = 0;
+      i < entriesPerSector && offset + i * 4 + 4 <= buffer.length;
+      i++
+    ) {
+      fat.push(buffer.readUInt32LE(offset + i * 4));
+    }
+  }
+
+  const readSectors = (start: number): Buffer => {
+    return Buffer.concat(
+      readChain(start, fat).map((sector) =>
+        buffer.subarray(
+          sectorOffset(sector),
+          sectorOffset(sector) + sectorSize,
+        ),
+      ),
+    );
+  };
+
+  const directoryData = readSectors(buffer.readUInt32LE(0x30));
+  const entries: DirectoryEntry[] = [];
+
+  for (let offset = 0; offset + 128 <= directoryData.length; offset += 128) {
+    const nameLength = directoryData.readUInt16LE(offset + 0x40);
+    entries.push({
+      name: directoryData.toString(
+        'utf16le',
+        offset,
+        offset + Math.max(0, nameLength - 2),
+      ),
+      type: directoryData[offset + 0x42],
+      startSector: directoryData.readUInt32LE(offset + 0x74),
+      size: directoryData.readUInt32LE(offset + 0x78),
+    });
+  }
+
+  const root = entries.find((entry) => entry.type === ROOT_ENTRY);
+  const miniStream = root ? readSectors(root.startSector) : Buffer.alloc(0);
+  const miniFat: number[] = [];
+  const miniFatData = readSectors(buffer.readUInt32LE(0x3c));
+  for (let offset = 0; offset + 4 <= miniFatData.length; offset += 4) {
+    miniFat.push(miniFatData.readUInt32LE(offset));
+  }
+
+  const readStream = (name: string): Buffer | null => {
+    const entry = entries.find(
+      (item) => item.type === STREAM_ENTRY && item.name === name,
+    );
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.size < miniStreamCutoff) {
+      return Buffer.concat(
+        readChain(entry.startSector, miniFat).map((sector) =>
+          miniStream.subarray(
+            sector * miniSectorSize,
+            (sector + 1) * miniSectorSize,
+          ),
+        ),
+      ).subarray(0, entry.size);
+    }
+
+    return readSectors(entry.startSector).subarray(0, entry.size);
+  };
+
+  return { readStream };
+};
+
+/**
+ * Read the document text through the piece table (CLX) of a Word 97+ file.
+ * Pieces can't overlap in a valid file, so the text never holds more
+ * characters than the WordDocument stream has bytes.
+ */
+const readPieces = (
+  wordDocument: Buffer,
+  table: Buffer,
+  fcClx: number,
+  lcbClx: number,
+): string => {
+  let offset = fcClx;
+  const end = fcClx + lcbClx;
+
+  // Skip the property modifiers (Prc) preceding the piece table (Pcdt)
+  while (offset < end && table[offset] === 0x01) {
+    offset += 3 + table.readUInt16LE(offset + 1);
+  }
+
+  if (table[offset] !== 0x02) {
+    throw new Error('Invalid DOC file: piece table not found');
+  }
+
+  const lcb = table.readUInt32LE(offset + 1);
+  const plcPcd = offset + 5;
+  const pieceCount = (lcb - 4) / 12;
+  let text = '';
+  let characterCount = 0;
+
+  for (let i = 0; i < pieceCount; i++) {
+    const cpStart = table.readUInt32LE(plcPcd + i * 4);
+    const cpEnd = table.readUInt32LE(plcPcd + (i + 1) * 4);
+    const pcd = plcPcd + (pieceCount + 1) * 4 + i * 8;
+    const fcValue = table.readUInt32LE(pcd + 2);
+    const compressed = (fcValue & 0x40000000) !== 0;
+    const length = cpEnd - cpStart;
+    const start = compressed
+      ? (fcValue & 0x3fffffff) / 2
+      : fcValue & 0x3fffffff;
+    const byteLength = compressed ? length : length * 2;
+
+    if (length < 0 || start + byteLength > wordDocument.length) {
+      throw new Error('Invalid DOC file: piece outside the document');
+    }
+
+    characterCount += length;
+    if (characterCount > wordDocument.length) {
+      throw new Error('Invalid DOC file: piece table exceeds the document');
+    }
+
+    if (compressed) {
+      const bytes = wordDocument.subarray(start, start + length);
+      for (const byte of bytes) {
+        text += CP1252_HIGH[byte] ?? String.fromCharCode(byte);
+      }
+    } else {
+      text += wordDocument.toString('utf16le', start, start + length * 2);
+    }
+  }
+
+  return text;
+};
+
+/**
+ * Replace Word's special characters and drop field instructions
+ */
+const cleanWordText = (text: string): string => {
+  let result = '';
+  // Each open field tracks whether we are still in its instruction part
+  const fields: boolean[] = [];
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+
+    if (code === 0x13) {
+      fields.push(true);
+      continue;
+    }
+    if (code === 0x14) {
+      if (fields.length) fields[fields.length - 1] = false;
+      continue;
+    }
+    if (code === 0x15) {
+      fields.pop();
+      continue;
+    }
+    if (fields.some((inInstruction) => inInstruction)) {
+      continue;
+    }
+
+    if (code === 0x0d || code === 0x0b || code === 0x0c) result += '\n';
+    else if (code === 0x07) result += '\t';
+    else if (code === 0x1e) result += '-';
+    else if (code < 0x20 && code !== 0x09) continue;
+    else result += char;
+  }
+
+  return result;
+};
+
+/**
+ * Extract plain text from a legacy Word 97-2003 (DOC) document
+ */
+export const extractDocText = (buffer: Buffer): string => {
+  const compoundFile = readCompoundFile(buffer);
+  const wordDocument = compoundFile.readStream('WordDocument');
+
+  if (!wordDocument || wordDocument.readUInt16LE(0) !== WORD_IDENT) {
+    throw new Error('Invalid DOC file: WordDocument stream not found');
+  }
+
+  const flags = wordDocument.readUInt16LE(0x0a);
+
+  if (flags & FLAG_ENCRYPTED) {
+    throw new Error('Encrypted DOC files are not supported');
+  }
+
+  const table = compoundFile.readStream(
+    flags & FLAG_WHICH_TABLE_STREAM ? '1Table' : '0Table',
+  );
+
+  if (!table) {
+    throw new Error('Invalid DOC file: table stream not found');
+  }
+
+  // Walk the variable-length FIB to reach FibRgFcLcb
+  let offset = 32;
+  offset += 2 + wordDocument.readUInt16LE(offset) * 2;
+  offset += 2 + wordDocument.readUInt16LE(offset) * 4;
+  offset += 2;
+
+  const fcClx = wordDocument.readUInt32LE(offset + FC_CLX_OFFSET);
+  const lcbClx = wordDocument.readUInt32LE(offset + FC_CLX_OFFSET + 4);
+
+  return cleanWordText(readPieces(wordDocument, table, fcClx, lcbClx));
+};
@@ -0,0 +1,60 @@
+import { readZipEntries, readZipEntry } from '@/utils/zip';
+import { decodeXmlEntities } from './normalize';
+
+const DOCUMENT_PATH = 'word/document.xml';
+
+// Headers often hold the candidate's name and contact details
+const HEADER_PATTERN = /^word\/header\d*\.xml$/;
+
+/**
+ * Convert a WordprocessingML part into plain text
+ */
+const wordXmlToText = (xml: string): string => {
+  const tokenPattern =
+    /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:(?:br|cr)(?:\s[^>]*)?\/>|<\/w:p>|<\/w:tc>/g;
+
+  let text = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(xml)) !== null) {
+    const token = match[0];
+
+    if (match[1] !== undefined) {
+      text += decodeXmlEntities(match[1]);
+    } else if (token === '<w:tab/>' || token === '</w:tc>') {
+      text += '\t';
+    } else {
+      text += '\n';
+    }
+  }
+
+  return text;
+};
+
+/**
+ * Extract plain text from a DOCX (Office Open XML) document
+ */
+export const extractDocxText = (buffer: Buffer): string => {
+  const entries = readZipEntries(buffer);
+  const document = entries.find((entry) => entry.name === DOCUMENT_PATH);
+
+  if (!document) {
+    throw new Error('Invalid DOCX file: word/document.xml not found');
+  }
+
+  // Oversized parts are skipped, they can't be a real resume
+  const headers = entries
+    .filter((entry) => HEADER_PATTERN.test(entry.name))
+    .map((entry) => readZipEntry(buffer, entry))
+    .flatMap((xml) => (xml ? [wordXmlToText(xml.toString())] : []));
+
+  const documentXml = readZipEntry(buffer, document);
+
+  if (!documentXml) {
+    throw new Error('Invalid DOCX file: word/document.xml is too large');
+  }
+
+  const body = wordXmlToText(documentXml.toString());
+
+  return [...headers, body].join('\n');
+};
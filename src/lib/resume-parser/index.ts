@@ -0,0 +1,60 @@
+import path from 'path';
+import { extractPdfText } from './pdf';
+import { extractDocxText } from './docx';
+import { extractDocText } from './doc';
+import { normalizeResumeText } from './normalize';
+import { ContactDetails, extractContactDetails } from './contact';
+
+export interface ParsedResume extends ContactDetails {
+  text: string;
+}
+
+type ResumeFormat = 'pdf' | 'docx' | 'doc';
+
+/**
+ * Detect the document format from its magic bytes, falling back to the
+ * file extension (uploads are frequently mislabelled)
+ */
+const detectFormat = (
+  buffer: Buffer,
+  filename: string,
+): ResumeFormat | null => {
+  if (buffer.toString('hex', 0, 4) === '504b0304') {
+    return 'docx';
+  }
+  if (buffer.toString('hex', 0, 8) === 'd0cf11e0a1b11ae1') {
+    return 'doc';
+  }
+  if (buffer.toString('latin1', 0, 1024).includes('%PDF-')) {
+    return 'pdf';
+  }
+
+  const extension = path.extname(filename).toLowerCase().slice(1);
+  return extension === 'pdf' || extension === 'docx' || extension === 'doc'
+    ? extension
+    : null;
+};
+
+const extractors: Record<ResumeFormat, (buffer: Buffer) => string> = {
+  pdf: extractPdfText,
+  docx: extractDocxText,
+  doc: extractDocText,
+};
+
+/**
+ * Extract normalized text and contact details from a resume file
+ */
+export const parseResume = (buffer: Buffer, filename: string): ParsedResume => {
+  const format = detectFormat(buffer, filename);
+
+  if (!format) {
+    throw new Error(`Unsupported resume format: ${filename}`);
+  }
+
+  const text = normalizeResumeText(extractors[format](buffer));
+
+  return {
+    text,
+    ...extractContactDetails(text),
+  };
+};
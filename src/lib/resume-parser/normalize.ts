@@ -0,0 +1,65 @@
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+// Bullet-like glyphs resumes use to start list items
+const BULLET_PATTERN =
+  /^[\u2022\u2023\u2043\u2219\u25aa\u25ab\u25cf\u25cb\u25a0\u25a1\u25ba\u25b6\u2713\u2714\u27a2\u27a4\u2605\u2606\u00b7\uf0b7*>o-]\s+/;
+
+/**
+ * Decode XML character references and the predefined entities
+ */
+export const decodeXmlEntities = (value: string): string => {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, code: string) => {
+      if (code[0] === '#') {
+        const codePoint =
+          code[1].toLowerCase() === 'x'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+
+        return Number.isNaN(codePoint) || codePoint > 0x10ffff
+          ? entity
+          : String.fromCodePoint(codePoint);
+      }
+
+      return XML_ENTITIES[code.toLowerCase()] ?? entity;
+    },
+  );
+};
+
+/**
+ * Normalize extracted resume text: unify whitespace and line endings,
+ * drop control characters and rewrite bullet glyphs as "- "
+ */
+export const normalizeResumeText = (text: string): string => {
+  const lines = text
+    .normalize('NFKC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u2028\u2029\f\v]/g, '\n')
+    // Zero-width characters, BOM and soft hyphens
+    .replace(/[\u200b-\u200d\u2060\ufeff\u00ad]/g, '')
+    // Remaining control characters except tab and newline
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000e-\u001f\u007f]/g, '')
+    .split('\n')
+    .map((line) =>
+      line
+        .replace(/[\t\u00a0\u2000-\u200a\u202f\u205f\u3000 ]+/g, ' ')
+        .trim()
+        .replace(BULLET_PATTERN, '- '),
+    );
+
+  return (
+    lines
+      .join('\n')
+      // Keep paragraph breaks but never more than one blank line
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  );
+};
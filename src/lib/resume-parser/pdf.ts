@@ -0,0 +1,807 @@
+import zlib from 'zlib';
+
+interface PdfObject {
+  dictionary: string;
+  stream: Buffer | null;
+}
+
+interface FontEncoding {
+  // Number of bytes per character code
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+type Token =
+  | { type: 'string'; value: Buffer }
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'array'; value: Token[] };
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([
+  0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25,
+]);
+
+// Glyph names (Adobe Glyph List) commonly found in /Differences arrays
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ',
+  exclam: '!',
+  quotedbl: '"',
+  numbersign: '#',
+  dollar: '$',
+  percent: '%',
+  ampersand: '&',
+  quotesingle: "'",
+  quoteright: '\u2019',
+  quoteleft: '\u2018',
+  quotedblleft: '\u201c',
+  quotedblright: '\u201d',
+  parenleft: '(',
+  parenright: ')',
+  asterisk: '*',
+  plus: '+',
+  comma: ',',
+  hyphen: '-',
+  period: '.',
+  slash: '/',
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+  colon: ':',
+  semicolon: ';',
+  less: '<',
+  equal: '=',
+  greater: '>',
+  question: '?',
+  at: '@',
+  bracketleft: '[',
+  backslash: '\\',
+  bracketright: ']',
+  underscore: '_',
+  braceleft: '{',
+  bar: '|',
+  braceright: '}',
+  asciitilde: '~',
+  endash: '\u2013',
+  emdash: '\u2014',
+  bullet: '\u2022',
+  ellipsis: '\u2026',
+  ff: 'ff',
+  fi: 'fi',
+  fl: 'fl',
+  ffi: 'ffi',
+  ffl: 'ffl',
+};
+
+// Horizontal gap (in thousandths of an em) treated as a word break in TJ arrays
+const TJ_SPACE_THRESHOLD = 200;
+
+// Caps on inflated stream data, per stream and per document, so a small
+// crafted PDF can't expand into gigabytes in memory (a flate bomb)
+const MAX_STREAM_SIZE = 5 * 1024 * 1024;
+const MAX_DECODED_SIZE = 50 * 1024 * 1024;
+
+// Codes a single ToUnicode CMap may map, across all its bfchar and bfrange
+// entries (a full two-byte code space)
+const MAX_MAPPED_CODES = 0x10000;
+
+const isOutputLimitError = (error: unknown): boolean => {
+  return (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE';
+};
+
+/**
+ * Decode a stream according to its /Filter entry. Only FlateDecode is
+ * supported, which is what virtually every text-producing tool emits.
+ * Streams that would inflate past maxLength are treated as undecodable.
+ */
+const decodeStream = (
+  dictionary: string,
+  data: Buffer,
+  maxLength: number,
+): Buffer | null => {
+  const filter = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/);
+
+  if (!filter) {
+    return data;
+  }
+
+  const filters = filter[1].match(/\/\w+/g) || [];
+
+  if (filters.some((name) => name !== '/FlateDecode' && name !== '/Fl')) {
+    return null;
+  }
+
+  let decoded = data;
+  for (let i = 0; i < filters.length; i++) {
+    try {
+      decoded = zlib.inflateSync(decoded, { maxOutputLength: maxLength });
+    } catch (error) {
+      if (isOutputLimitError(error)) {
+        return null;
+      }
+
+      // Some producers write truncated streams, salvage what we can
+      try {
+        decoded = zlib.inflateSync(decoded, {
+          finishFlush: zlib.constants.Z_SYNC_FLUSH,
+          maxOutputLength: maxLength,
+        });
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return decoded;
+};
+
+/**
+ * Collect every indirect object, including the ones packed in object streams
+ */
+const parseObjects = (buffer: Buffer): Map<number, PdfObject> => {
+  const source = buffer.toString('latin1');
+  const objects = new Map<number, PdfObject>();
+  const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+  let decodedBudget = MAX_DECODED_SIZE;
+
+  let match: RegExpExecArray | null;
+  while ((match = objectPattern.exec(source)) !== null) {
+    const number = Number(match[1]);
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endobj', start);
+
+    if (end === -1) {
+      break;
+    }
+
+    const body = source.slice(start, end);
+    const streamIndex = body.search(/\bstream\r?\n/);
+
+    if (streamIndex === -1) {
+      objects.set(number, { dictionary: body, stream: null });
+    } else {
+      const dictionary = body.slice(0, streamIndex);
+      const dataStart =
+        start + streamIndex + (body[streamIndex + 6] === '\r' ? 8 : 7);
+      const endStream = source.lastIndexOf('endstream', end);
+      const raw = buffer.subarray(dataStart, Math.max(dataStart, endStream));
+
+      // Once the document's budget is spent, later streams stay undecoded
+      const stream =
+        decodedBudget > 0
+          ? decodeStream(
+              dictionary,
+              raw,
+              Math.min(MAX_STREAM_SIZE, decodedBudget),
+            )
+          : null;
+      if (stream && stream !== raw) {
+        decodedBudget -= stream.length;
+      }
+
+      objects.set(number, { dictionary, stream });
+    }
+
+    objectPattern.lastIndex = end;
+  }
+
+  // PDF 1.5+ may compress font and page dictionaries into object streams
+  for (const object of Array.from(objects.values())) {
+    if (!object.stream || !/\/Type\s*\/ObjStm/.test(object.dictionary)) {
+      continue;
+    }
+
+    const count = Number(object.dictionary.match(/\/N\s+(\d+)/)?.[1]);
+    const first = Number(object.dictionary.match(/\/First\s+(\d+)/)?.[1]);
+
+    if (!count || Number.isNaN(first)) {
+      continue;
+    }
+
+    const content = object.stream.toString('latin1');
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+
+    for (let i = 0; i < count; i++) {
+      const number = header[i * 2];
+      const offset = first + header[i * 2 + 1];
+      const next =
+        i + 1 < count ? first + header[(i + 1) * 2 + 1] : content.length;
+
+      if (!objects.has(number)) {
+        objects.set(number, {
+          dictionary: content.slice(offset, next),
+          stream: null,
+        });
+      }
+    }
+  }
+
+  return objects;
+};
+
+/**
+ * Resolve an entry that is either inline or an indirect reference
+ */
+const resolveEntry = (
+  dictionary: string,
+  key: string,
+  objects: Map<number, PdfObject>,
+): string | null => {
+  const reference = dictionary.match(
+    new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`),
+  );
+
+  if (reference) {
+    return objects.get(Number(reference[1]))?.dictionary ?? null;
+  }
+
+  const inline = dictionary.indexOf(`/${key}`);
+  if (inline === -1) {
+    return null;
+  }
+
+  // Inline dictionary: take the balanced << ... >> following the key
+  const start = dictionary.indexOf('<<', inline);
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  for (let i = start; i < dictionary.length - 1; i++) {
+    if (dictionary[i] === '<' && dictionary[i + 1] === '<') {
+      depth++;
+      i++;
+    } else if (dictionary[i] === '>' && dictionary[i + 1] === '>') {
+      depth--;
+      i++;
+      if (depth === 0) {
+        return dictionary.slice(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+};
+
+const hexToBytes = (hex: string): Buffer => {
+  const clean = hex.replace(/[^0-9a-f]/gi, '');
+  return Buffer.from(clean.length % 2 ? `${clean}0` : clean, 'hex');
+};
+
+const bytesToNumber = (bytes: Buffer): number => {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+};
+
+const utf16ToString = (bytes: Buffer): string => {
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode(bytes.readUInt16BE(i));
+  }
+  return result;
+};
+
+/**
+ * Parse a ToUnicode CMap into a code -> text lookup
+ */
+const parseToUnicode = (cmap: string): FontEncoding => {
+  const map = new Map<number, string>();
+  let codeLength = 1;
+  let mappedCodes = 0;
+
+  const reserveCodes = (count: number) => {
+    mappedCodes += count;
+    if (mappedCodes > MAX_MAPPED_CODES) {
+      throw new Error('Invalid PDF file: ToUnicode map is too large');
+    }
+  };
+
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-f]+)>/i);
+  if (codespace) {
+    codeLength = Math.max(1, Math.ceil(codespace[1].length / 2));
+  }
+
+  const charBlocks = cmap.match(/beginbfchar([\s\S]*?)endbfchar/g) || [];
+  for (const block of charBlocks) {
+    const pairs = block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi);
+    for (const [, code, text] of pairs) {
+      reserveCodes(1);
+      map.set(parseInt(code, 16), utf16ToString(hexToBytes(text)));
+    }
+  }
+
+  const rangeBlocks = cmap.match(/beginbfrange([\s\S]*?)endbfrange/g) || [];
+  for (const block of rangeBlocks) {
+    const ranges = block.matchAll(
+      /<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi,
+    );
+
+    for (const [, startHex, endHex, target] of ranges) {
+      const start = parseInt(startHex, 16);
+      const end = Math.min(parseInt(endHex, 16), start + 0xffff);
+
+      if (target.startsWith('[')) {
+        const values = target.match(/<([0-9a-f]*)>/gi) || [];
+        reserveCodes(values.length);
+        values.forEach((value, index) => {
+          map.set(start + index, utf16ToString(hexToBytes(value)));
+        });
+      } else {
+        const base = hexToBytes(target);
+        const baseText = utf16ToString(base);
+        const lastCode = baseText.charCodeAt(baseText.length - 1);
+        reserveCodes(Math.max(0, end - start + 1));
+
+        for (let code = start; code <= end; code++) {
+          map.set(
+            code,
+            baseText.slice(0, -1) +
+              String.fromCharCode(lastCode + (code - start)),
+          );
+        }
+      }
+    }
+  }
+
+  return { codeLength, map };
+};
+
+/**
+ * Map glyph names from an encoding's /Differences array (common with
+ * LaTeX-generated PDFs that carry no ToUnicode map)
+ */
+const parseDifferences = (encoding: string): FontEncoding | null => {
+  const differences = encoding.match(/\/Differences\s*\[([^\]]*)\]/);
+
+  if (!differences) {
+    return null;
+  }
+
+  const map = new Map<number, string>();
+  let code = 0;
+
+  for (const [, number, glyph] of differences[1].matchAll(
+    /(\d+)|\/([^\s/[\]]+)/g,
+  )) {
+    if (number !== undefined) {
+      code = Number(number);
+      continue;
+    }
+
+    const unicode = glyph.match(/^uni([0-9A-F]{4})$/);
+    const text = unicode
+      ? String.fromCharCode(parseInt(unicode[1], 16))
+      : glyph.length === 1
+        ? glyph
+        : GLYPH_NAMES[glyph];
+
+    if (text !== undefined) {
+      map.set(code, text);
+    }
+    code++;
+  }
+
+  return { codeLength: 1, map };
+};
+
+/**
+ * Build the font name -> encoding table of a page's resources
+ */
+const getFontEncodings = (
+  resources: string | null,
+  objects: Map<number, PdfObject>,
+  cache: Map<number, FontEncoding | null>,
+): Map<string, FontEncoding | null> => {
+  const fonts = new Map<string, FontEncoding | null>();
+  const fontDictionary = resources
+    ? resolveEntry(resources, 'Font', objects)
+    : null;
+
+  if (!fontDictionary) {
+    return fonts;
+  }
+
+  const entries = fontDictionary.matchAll(
+    /\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g,
+  );
+  for (const [, name, reference] of entries) {
+    const fontNumber = Number(reference);
+
+    if (!cache.has(fontNumber)) {
+      const font = objects.get(fontNumber)?.dictionary ?? '';
+      const toUnicode = font.match(/\/ToUnicode\s+(\d+)\s+\d+\s+R/);
+      const cmap = toUnicode ? objects.get(Number(toUnicode[1]))?.stream : null;
+      const encoding = resolveEntry(font, 'Encoding', objects);
+
+      cache.set(
+        fontNumber,
+        cmap
+          ? parseToUnicode(cmap.toString('latin1'))
+          : encoding
+            ? parseDifferences(encoding)
+            : null,
+      );
+    }
+
+    fonts.set(name, cache.get(fontNumber) ?? null);
+  }
+
+  return fonts;
+};
+
+/**
+ * Split a content stream into operands and operators
+ */
+const tokenize = (content: Buffer): Token[] => {
+  const tokens: Token[] = [];
+  const stack: Token[][] = [];
+  let i = 0;
+
+  const push = (token: Token) => {
+    (stack.length ? stack[stack.length - 1] : tokens).push(token);
+  };
+
+  while (i < content.length) {
+    const byte = content[i];
+
+    if (WHITESPACE.has(byte)) {
+      i++;
+    } else if (byte === 0x25) {
+      // Comment until end of line
+      while (i < content.length && content[i] !== 0x0a && content[i] !== 0x0d) {
+        i++;
+      }
+    } else if (byte === 0x28) {
+      // Literal string with balanced parentheses and escapes
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+
+      while (i < content.length && depth > 0) {
+        const char = content[i];
+
+        if (char === 0x5c) {
+          const next = content[i + 1];
+          i += 2;
+
+          if (next === 0x6e) bytes.push(0x0a);
+          else if (next === 0x72) bytes.push(0x0d);
+          else if (next === 0x74) bytes.push(0x09);
+          else if (next === 0x62) bytes.push(0x08);
+          else if (next === 0x66) bytes.push(0x0c);
+          else if (next === 0x0d) {
+            if (content[i] === 0x0a) i++;
+          } else if (next === 0x0a) {
+            // Escaped line break is a continuation
+          } else if (next >= 0x30 && next <= 0x37) {
+            let octal = next - 0x30;
+            for (
+              let n = 0;
+              n < 2 && content[i] >= 0x30 && content[i] <= 0x37;
+              n++
+            ) {
+              octal = octal * 8 + (content[i] - 0x30);
+              i++;
+            }
+            bytes.push(octal & 0xff);
+          } else if (next !== undefined) {
+            bytes.push(next);
+          }
+          continue;
+        }
+
+        if (char === 0x28) depth++;
+        if (char === 0x29) depth--;
+        if (depth > 0) bytes.push(char);
+        i++;
+      }
+
+      push({ type: 'string', value: Buffer.from(bytes) });
+    } else if (byte === 0x3c && content[i + 1] === 0x3c) {
+      // Inline dictionaries (marked content properties) carry no text
+      let depth = 0;
+      while (i < content.length - 1) {
+        if (content[i] === 0x3c && content[i + 1] === 0x3c) {
+          depth++;
+          i += 2;
+        } else if (content[i] === 0x3e && content[i + 1] === 0x3e) {
+          depth--;
+          i += 2;
+          if (depth === 0) break;
+        } else {
+          i++;
+        }
+      }
+    } else if (byte === 0x3c) {
+      const end = content.indexOf(0x3e, i);
+      const stop = end === -1 ? content.length : end;
+      push({
+        type: 'string',
+        value: hexToBytes(content.toString('latin1', i + 1, stop)),
+      });
+      i = stop + 1;
+    } else if (byte === 0x5b) {
+      stack.push([]);
+      i++;
+    } else if (byte === 0x5d) {
+      const items = stack.pop();
+      if (items) push({ type: 'array', value: items });
+      i++;
+    } else {
+      let end = i + 1;
+      while (
+        end < content.length &&
+        !WHITESPACE.has(content[end]) &&
+        !DELIMITERS.has(content[end])
+      ) {
+        end++;
+      }
+
+      const word = content.toString('latin1', i, end);
+      i = end;
+
+      if (byte === 0x2f) {
+        push({ type: 'name', value: word.slice(1) });
+      } else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        push({ type: 'number', value: Number(word) });
+      } else if (word === 'BI') {
+        // Skip inline image data up to the EI operator
+        const imageEnd = content.indexOf('EI', i, 'latin1');
+        i = imageEnd === -1 ? content.length : imageEnd + 2;
+      } else {
+        push({ type: 'operator', value: word });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+const decodeText = (bytes: Buffer, encoding: FontEncoding | null): string => {
+  if (!encoding) {
+    // Without a ToUnicode map, simple fonts are close enough to Latin-1
+    if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return utf16ToString(bytes.subarray(2));
+    }
+    return bytes.toString('latin1');
+  }
+
+  let text = '';
+  for (let i = 0; i < bytes.length; i += encoding.codeLength) {
+    const code = bytesToNumber(bytes.subarray(i, i + encoding.codeLength));
+    // Single-byte codes missing from the map keep their Latin-1 meaning
+    text +=
+      encoding.map.get(code) ??
+      (encoding.codeLength === 1 ? String.fromCharCode(code) : '');
+  }
+  return text;
+};
+
+/**
+ * Interpret the text operators of a content stream
+ */
+const extractContentText = (
+  content: Buffer,
+  fonts: Map<string, FontEncoding | null>,
+): string => {
+  const tokens = tokenize(content);
+  let operands: Token[] = [];
+  let font: FontEncoding | null = null;
+  let lastY: number | null = null;
+  let text = '';
+
+  const newLine = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+  const space = () => {
+    if (text && !/\s$/.test(text)) text += ' ';
+  };
+  const numberAt = (index: number): number => {
+    const token = operands[operands.length + index];
+    return token?.type === 'number' ? token.value : 0;
+  };
+
+  for (const token of tokens) {
+    if (token.type !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.value) {
+      case 'Tf': {
+        const name = operands.find((operand) => operand.type === 'name');
+        font = name ? (fonts.get(name.value as string) ?? null) : null;
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        const ty = numberAt(-1);
+        const tx = numberAt(-2);
+        if (ty !== 0) newLine();
+        else if (tx > 0) space();
+        break;
+      }
+      case 'Tm': {
+        const y = numberAt(-1);
+        if (lastY !== null && Math.abs(y - lastY) > 1) newLine();
+        else space();
+        lastY = y;
+        break;
+      }
+      case 'T*':
+        newLine();
+        break;
+      case 'Tj':
+      case "'":
+      case '"': {
+        if (token.value !== 'Tj') newLine();
+        const value = operands[operands.length - 1];
+        if (value?.type === 'string') text += decodeText(value.value, font);
+        break;
+      }
+      case 'TJ': {
+        const array = operands[operands.length - 1];
+        if (array?.type === 'array') {
+          for (const item of array.value) {
+            if (item.type === 'string') {
+              text += decodeText(item.value, font);
+            } else if (
+              item.type === 'number' &&
+              item.value < -TJ_SPACE_THRESHOLD
+            ) {
+              space();
+            }
+          }
+        }
+        break;
+      }
+      case 'ET':
+        space();
+        break;
+    }
+
+    operands = [];
+  }
+
+  return text;
+};
+
+/**
+ * Collect a page's content streams in order
+ */
+const getPageContents = (
+  page: PdfObject,
+  objects: Map<number, PdfObject>,
+): Buffer[] => {
+  const contents = page.dictionary.match(
+    /\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/,
+  );
+
+  if (!contents) {
+    return [];
+  }
+
+  const references = Array.from(contents[1].matchAll(/(\d+)\s+\d+\s+R/g));
+  const streams: Buffer[] = [];
+
+  for (const [, reference] of references) {
+    const object = objects.get(Number(reference));
+
+    if (object?.stream) {
+      streams.push(object.stream);
+    } else if (object && object.dictionary.trim().startsWith('[')) {
+      // Contents pointing at an indirect array of streams
+      for (const [, nested] of object.dictionary.matchAll(/(\d+)\s+\d+\s+R/g)) {
+        const stream = objects.get(Number(nested))?.stream;
+        if (stream) streams.push(stream);
+      }
+    }
+  }
+
+  return streams;
+};
+
+/**
+ * Find the resources of a page, walking up the page tree when inherited
+ */
+const getPageResources = (
+  page: PdfObject,
+  objects: Map<number, PdfObject>,
+): string | null => {
+  let node: PdfObject | undefined = page;
+
+  for (let depth = 0; node && depth < 32; depth++) {
+    const resources = resolveEntry(node.dictionary, 'Resources', objects);
+    if (resources) {
+      return resources;
+    }
+
+    const parent: RegExpMatchArray | null = node.dictionary.match(
+      /\/Parent\s+(\d+)\s+\d+\s+R/,
+    );
+    node = parent ? objects.get(Number(parent[1])) : undefined;
+  }
+
+  return null;
+};
+
+/**
+ * Order pages by walking the page tree from the catalog's /Pages root
+ */
+const getOrderedPages = (objects: Map<number, PdfObject>): PdfObject[] => {
+  const catalog = Array.from(objects.values()).find((object) =>
+    /\/Type\s*\/Catalog/.test(object.dictionary),
+  );
+  const root = catalog?.dictionary.match(/\/Pages\s+(\d+)\s+\d+\s+R/);
+
+  const pages: PdfObject[] = [];
+  const visited = new Set<number>();
+
+  const walk = (number: number) => {
+    const node = objects.get(number);
+    if (!node || visited.has(number)) return;
+    visited.add(number);
+
+    if (/\/Type\s*\/Pages\b/.test(node.dictionary)) {
+      const kids = node.dictionary.match(/\/Kids\s*\[([^\]]*)\]/);
+      for (const [, kid] of kids?.[1].matchAll(/(\d+)\s+\d+\s+R/g) ?? []) {
+        walk(Number(kid));
+      }
+    } else if (/\/Type\s*\/Page\b/.test(node.dictionary)) {
+      pages.push(node);
+    }
+  };
+
+  if (root) {
+    walk(Number(root[1]));
+  }
+
+  // Fall back to document order if the page tree could not be walked
+  if (pages.length === 0) {
+    return Array.from(objects.values()).filter((object) =>
+      /\/Type\s*\/Page\b/.test(object.dictionary),
+    );
+  }
+
+  return pages;
+};
+
+/**
+ * Extract plain text from a PDF document
+ */
+export const extractPdfText = (buffer: Buffer): string => {
+  if (buffer.toString('latin1', 0, 1024).indexOf('%PDF-') === -1) {
+    throw new Error('Invalid PDF file: missing PDF header');
+  }
+
+  // The /Encrypt entry lives in the trailer (or the cross-reference stream)
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(buffer.toString('latin1'))) {
+    throw new Error('Encrypted PDF files are not supported');
+  }
+
+  const objects = parseObjects(buffer);
+
+  const fontCache = new Map<number, FontEncoding | null>();
+  const pages = getOrderedPages(objects);
+
+  return pages
+    .map((page) => {
+      const fonts = getFontEncodings(
+        getPageResources(page, objects),
+        objects,
+        fontCache,
+      );
+
+      return getPageContents(page, objects)
+        .map((content) => extractContentText(content, fonts))
+        .join('\n');
+    })
+    .join('\n\n');
+};
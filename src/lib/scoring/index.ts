@@ -0,0 +1,25 @@
+import config from '@/config';
+import { keywordScoringProvider } from './keyword-provider';
+import { llmScoringProvider } from './llm-provider';
+import { ScoringProvider } from './types';
+
+export * from './types';
+export { keywordScoringProvider };
+
+const providers: Record<string, ScoringProvider> = {
+  [keywordScoringProvider.name]: keywordScoringProvider,
+  [llmScoringProvider.name]: llmScoringProvider,
+};
+
+/**
+ * Get the scoring provider selected in the configuration
+ */
+export const getScoringProvider = (): ScoringProvider => {
+  const provider = providers[config.scoring.provider];
+
+  if (!provider) {
+    throw new Error(`Unknown scoring provider: ${config.scoring.provider}`);
+  }
+
+  return provider;
+};
@@ -0,0 +1,184 @@
+import { ScoringInput, ScoringProvider, ScoringResult } from './types';
+import { splitWords, stem, termFrequencies, tokenize } from './tokenizer';
+import { extractSkills } from './skills';
+
+// BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+// Typical resume length in terms, used as the BM25 average document length
+const AVERAGE_RESUME_LENGTH = 400;
+
+// Job title terms say the most about the role, skills come next
+const TITLE_TERM_WEIGHT = 2;
+const SKILL_TERM_WEIGHT = 1.5;
+
+// Share of the final score coming from keyword relevance vs. skill overlap
+const KEYWORD_SHARE = 0.6;
+const SKILL_SHARE = 0.4;
+
+const MAX_LISTED_TERMS = 5;
+
+const toSkillTerms = (skills: string[]): Set<string> => {
+  return new Set(skills.flatMap((skill) => splitWords(skill).map(stem)));
+};
+
+/**
+ * BM25 relevance of the resume for the job's terms, normalized to 0..1
+ * against a resume that saturates every term
+ */
+const keywordRelevance = (
+  input: ScoringInput,
+  resumeTerms: string[],
+  jobSkills: string[],
+) => {
+  const queryFrequencies = termFrequencies(
+    tokenize(`${input.jobTitle}\n${input.jobDescription}`),
+  );
+  const resumeFrequencies = termFrequencies(resumeTerms);
+  const titleTerms = new Set(tokenize(input.jobTitle));
+  const skillTerms = toSkillTerms(jobSkills);
+  const lengthNorm = 1 - B + (B * resumeTerms.length) / AVERAGE_RESUME_LENGTH;
+
+  let achieved = 0;
+  let maximum = 0;
+  const matchedTerms: { term: string; weight: number }[] = [];
+
+  queryFrequencies.forEach((queryFrequency, term) => {
+    let weight = 1 + Math.log(queryFrequency);
+    if (titleTerms.has(term)) weight *= TITLE_TERM_WEIGHT;
+    if (skillTerms.has(term)) weight *= SKILL_TERM_WEIGHT;
+
+    const frequency = resumeFrequencies.get(term) ?? 0;
+    const saturation = (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+
+    achieved += weight * saturation;
+    maximum += weight * (K1 + 1);
+
+    if (frequency > 0) {
+      matchedTerms.push({ term, weight: weight * saturation });
+    }
+  });
+
+  return {
+    relevance: maximum > 0 ? Math.min(1, achieved / maximum) : 0,
+    topTerms: matchedTerms
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_LISTED_TERMS)
+      .map(({ term }) => term),
+  };
+};
+
+/**
+ * Pull the largest "N years" figure mentioned in the resume
+ */
+const yearsOfExperience = (resumeText: string): number | null => {
+  const mentions = Array.from(
+    resumeText.matchAll(/(\d{1,2})\+?\s*(?:years?|yrs?)\b/gi),
+  ).map((match) => Number(match[1]));
+
+  return mentions.length ? Math.max(...mentions) : null;
+};
+
+const buildSummary = ({
+  score,
+  matchedSkills,
+  missingSkills,
+  topTerms,
+  years,
+}: {
+  score: number;
+  matchedSkills: string[];
+  missingSkills: string[];
+  topTerms: string[];
+  years: number | null;
+}): string => {
+  const fit = score >= 75 ? 'Strong' : score >= 50 ? 'Moderate' : 'Weak';
+  const sentences = [`${fit} match for this role (score ${score}/100).`];
+
+  const requiredCount = matchedSkills.length + missingSkills.length;
+  if (requiredCount > 0) {
+    sentences.push(
+      matchedSkills.length > 0
+        ? `Covers ${matchedSkills.length} of ${requiredCount} key skills: ${matchedSkills.join(', ')}.`
+        : `None of the ${requiredCount} key skills were found.`,
+    );
+  }
+
+  if (missingSkills.length > 0 && matchedSkills.length > 0) {
+    sentences.push(`Missing: ${missingSkills.join(', ')}.`);
+  }
+
+  if (years !== null) {
+    sentences.push(`Mentions ${years}+ years of experience.`);
+  }
+
+  if (topTerms.length > 0) {
+    sentences.push(`Strongest keyword matches: ${topTerms.join(', ')}.`);
+  }
+
+  return sentences.join(' ');
+};
+
+/**
+ * Deterministic, offline scorer based on BM25 keyword weighting and skill
+ * overlap between the resume and the job description
+ */
+export const keywordScoringProvider: ScoringProvider = {
+  name: 'keyword',
+
+  async score(input: ScoringInput): Promise<ScoringResult> {
+    const resumeTerms = tokenize(input.resumeText);
+
+    if (resumeTerms.length === 0) {
+      return {
+        score: 0,
+        skills: [],
+        summary: 'No readable text was found in the resume.',
+      };
+    }
+
+    const jobSkills = extractSkills(
+      `${input.jobTitle}\n${input.jobDescription}`,
+    );
+    const candidateSkills = extractSkills(input.resumeText);
+    const candidateSkillSet = new Set(candidateSkills);
+
+    const matchedSkills = jobSkills.filter((skill) =>
+      candidateSkillSet.has(skill),
+    );
+    const missingSkills = jobSkills.filter(
+      (skill) => !candidateSkillSet.has(skill),
+    );
+
+    const { relevance, topTerms } = keywordRelevance(
+      input,
+      resumeTerms,
+      jobSkills,
+    );
+
+    // Without recognizable skills in the job, rely on keywords alone
+    const combined =
+      jobSkills.length > 0
+        ? KEYWORD_SHARE * relevance +
+          SKILL_SHARE * (matchedSkills.length / jobSkills.length)
+        : relevance;
+
+    const score = Math.round(Math.min(1, Math.max(0, combined)) * 100);
+
+    return {
+      score,
+      // Skills the job asks for first, then the rest of the candidate's
+      skills: [
+        ...matchedSkills,
+        ...candidateSkills.filter((skill) => !matchedSkills.includes(skill)),
+      ],
+      summary: buildSummary({
+        score,
+        matchedSkills,
+        missingSkills,
+        topTerms,
+        years: yearsOfExperience(input.resumeText),
+      }),
+    };
+  },
+};
@@ -0,0 +1,287 @@
+import httpStatus from 'http-status';
+import { z } from 'zod';
+import config from '@/config';
+import AppError from '@/errors/app-error';
+import { logger } from '@/utils/logger';
+import { ScoringInput, ScoringProvider, ScoringResult } from './types';
+
+// Keep prompts well inside the context window of small models
+const MAX_RESUME_CHARACTERS = 12000;
+const MAX_DESCRIPTION_CHARACTERS = 6000;
+
+// Exponential backoff between attempts: 0.5s, 1s, 2s... up to 8s
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+// Give up instead of holding the request open when asked to wait longer
+const MAX_RETRY_AFTER_MS = 30000;
+
+const SYSTEM_PROMPT = `You are an experienced technical recruiter screening resumes.
+Compare the candidate's resume with the job and reply with a single JSON object, no prose, in this exact shape:
+{"score": <integer 0-100, overall fit for the job>, "skills": [<up to 20 short skill names found in the resume>], "summary": "<2-4 sentences on strengths and gaps for this job>"}`;
+
+const scoringReplySchema = z.object({
+  score: z.coerce.number().min(0).max(100),
+  skills: z.array(z.string().trim().min(1)).max(50),
+  summary: z.string().trim().min(1),
+});
+
+const chatCompletionSchema = z.object({
+  choices: z
+    .array(
+      z.object({
+        message: z.object({
+          content: z.string().nullable(),
+        }),
+      }),
+    )
+    .min(1),
+});
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+const truncate = (value: string, length: number): string => {
+  return value.length > length
+    ? `${value.slice(0, length)}\n[truncated]`
+    : value;
+};
+
+/**
+ * Build the user prompt with clearly delimited job and resume sections
+ */
+export const buildScoringPrompt = (input: ScoringInput): string => {
+  return [
+    `JOB TITLE: ${input.jobTitle}`,
+    'JOB DESCRIPTION:',
+    '<<<',
+    truncate(input.jobDescription, MAX_DESCRIPTION_CHARACTERS),
+    '>>>',
+    'RESUME:',
+    '<<<',
+    truncate(input.resumeText, MAX_RESUME_CHARACTERS),
+    '>>>',
+  ].join('\n');
+};
+
+/**
+ * Parse the model's reply, tolerating markdown code fences around the JSON
+ */
+const parseScoringReply = (content: string): ScoringResult => {
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  const reply = scoringReplySchema.parse(JSON.parse(json));
+
+  return {
+    score: Math.round(reply.score),
+    skills: Array.from(new Set(reply.skills)),
+    summary: reply.summary,
+  };
+};
+
+/**
+ * A transient upstream failure. Surfaces as a 502 once retries run out.
+ */
+class RetryableScoringError extends AppError {
+  // Delay requested by the service through Retry-After
+  retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(httpStatus.BAD_GATEWAY, message);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Read a Retry-After header, given either in seconds or as an HTTP date
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  const delay = Number.isNaN(seconds)
+    ? Date.parse(value) - Date.now()
+    : seconds * 1000;
+
+  return Number.isNaN(delay) ? undefined : Math.max(0, delay);
+};
+
+const getRetryDelay = (attempt: number, error?: RetryableScoringError) => {
+  if (error?.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+
+  // Full jitter spreads out retries of resumes scored side by side
+  const backoff = Math.min(
+    MAX_RETRY_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+  );
+  return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+};
+
+/**
+ * Wait for the delay, returning early once the signal is aborted
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+const requestCompletion = async (
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+): Promise<string> => {
+  const timeout = AbortSignal.timeout(config.llm.timeoutMs);
+  let response: Response;
+
+  try {
+    response = await fetch(
+      `${config.llm.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${config.llm.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: config.llm.model,
+          messages,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+        }),
+        signal: signal ? AbortSignal.any([timeout, signal]) : timeout,
+      },
+    );
+  } catch (error) {
+    throw new RetryableScoringError(`LLM request failed: ${error}`);
+  }
+
+  if (response.status === 429 || response.status >= 500) {
+    throw new RetryableScoringError(
+      `LLM request failed with status ${response.status}`,
+      parseRetryAfter(response.headers.get('retry-after')),
+    );
+  }
+
+  if (!response.ok) {
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      `Candidate scoring service rejected the request (${response.status})`,
+    );
+  }
+
+  // A proxy error page or an unexpected body is the service's fault too
+  let completion: z.infer<typeof chatCompletionSchema>;
+  try {
+    completion = chatCompletionSchema.parse(await response.json());
+  } catch (error) {
+    throw new RetryableScoringError(
+      `LLM returned an unexpected response body: ${error}`,
+    );
+  }
+
+  return completion.choices[0].message.content ?? '';
+};
+
+/**
+ * Scores candidates with an OpenAI-compatible chat completions endpoint
+ */
+export const llmScoringProvider: ScoringProvider = {
+  name: 'llm',
+
+  async score(
+    input: ScoringInput,
+    signal?: AbortSignal,
+  ): Promise<ScoringResult> {
+    if (!config.llm.baseUrl || !config.llm.model) {
+      throw new AppError(
+        httpStatus.INTERNAL_SERVER_ERROR,
+        'LLM scoring provider is not configured',
+      );
+    }
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildScoringPrompt(input) },
+    ];
+
+    let lastError: RetryableScoringError | undefined;
+
+    for (let attempt = 0; attempt <= config.llm.maxRetries; attempt++) {
+      if (signal?.aborted) {
+        break;
+      }
+
+      if (attempt > 0) {
+        const delay = getRetryDelay(attempt, lastError);
+
+        if (delay > MAX_RETRY_AFTER_MS) {
+          break;
+        }
+
+        await sleep(delay, signal);
+
+        if (signal?.aborted) {
+          break;
+        }
+      }
+
+      let content: string;
+
+      try {
+        content = await requestCompletion(messages, signal);
+      } catch (error) {
+        if (!(error instanceof RetryableScoringError)) throw error;
+        logger.warn(`LLM scoring attempt ${attempt + 1} failed:`, error);
+        lastError = error;
+        continue;
+      }
+
+      lastError = undefined;
+
+      try {
+        return parseScoringReply(content);
+      } catch (error) {
+        logger.warn(
+          `LLM scoring attempt ${attempt + 1} returned malformed output:`,
+          error,
+        );
+
+        // Show the model its invalid reply and ask for a corrected one
+        messages.push(
+          { role: 'assistant', content },
+          {
+            role: 'user',
+            content:
+              'That reply was not valid. Respond again with only the JSON object in the required shape.',
+          },
+        );
+      }
+    }
+
+    if (signal?.aborted) {
+      throw new AppError(
+        httpStatus.GATEWAY_TIMEOUT,
+        'Candidate scoring ran out of time',
+      );
+    }
+
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      lastError
+        ? 'Candidate scoring service is unavailable. Please try again later.'
+        : 'Candidate scoring service returned an invalid response',
+    );
+  },
+};
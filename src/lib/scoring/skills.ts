@@ -0,0 +1,142 @@
+import { splitWords } from './tokenizer';
+
+/**
+ * Known skills keyed by their display name, with the spellings that
+ * resumes and job descriptions commonly use for them
+ */
+const SKILL_ALIASES: Record<string, string[]> = {
+  // Languages
+  JavaScript: ['javascript', 'js', 'es6', 'ecmascript'],
+  TypeScript: ['typescript', 'ts'],
+  Python: ['python'],
+  Java: ['java'],
+  Kotlin: ['kotlin'],
+  Swift: ['swift'],
+  'Objective-C': ['objective-c', 'objective c'],
+  'C++': ['c++', 'cpp'],
+  'C#': ['c#', 'csharp'],
+  C: ['c language', 'ansi c'],
+  Go: ['golang', 'go lang'],
+  Rust: ['rust'],
+  Ruby: ['ruby'],
+  PHP: ['php'],
+  Scala: ['scala'],
+  R: ['r language', 'rstudio'],
+  Dart: ['dart'],
+  SQL: ['sql'],
+  Bash: ['bash', 'shell scripting'],
+  // Frontend
+  React: ['react', 'react.js', 'reactjs'],
+  'Next.js': ['next.js', 'nextjs'],
+  Angular: ['angular', 'angularjs'],
+  'Vue.js': ['vue', 'vue.js', 'vuejs'],
+  Svelte: ['svelte'],
+  Redux: ['redux'],
+  HTML: ['html', 'html5'],
+  CSS: ['css', 'css3'],
+  Sass: ['sass', 'scss'],
+  'Tailwind CSS': ['tailwind', 'tailwindcss', 'tailwind css'],
+  // Mobile
+  'React Native': ['react native'],
+  Flutter: ['flutter'],
+  Android: ['android'],
+  iOS: ['ios'],
+  // Backend
+  'Node.js': ['node.js', 'nodejs', 'node'],
+  Express: ['express', 'express.js', 'expressjs'],
+  NestJS: ['nestjs', 'nest.js'],
+  Django: ['django'],
+  Flask: ['flask'],
+  FastAPI: ['fastapi'],
+  Spring: ['spring', 'spring boot', 'springboot'],
+  Laravel: ['laravel'],
+  'Ruby on Rails': ['rails', 'ruby on rails'],
+  '.NET': ['.net', 'dotnet', 'asp.net'],
+  GraphQL: ['graphql'],
+  'REST APIs': ['restful', 'rest api', 'rest apis'],
+  gRPC: ['grpc'],
+  Microservices: ['microservices', 'microservice'],
+  // Data
+  PostgreSQL: ['postgresql', 'postgres'],
+  MySQL: ['mysql'],
+  MongoDB: ['mongodb', 'mongo'],
+  Redis: ['redis'],
+  Elasticsearch: ['elasticsearch', 'elastic search'],
+  Kafka: ['kafka'],
+  RabbitMQ: ['rabbitmq'],
+  Prisma: ['prisma'],
+  'Data Analysis': ['data analysis', 'data analytics'],
+  'Machine Learning': ['machine learning', 'ml'],
+  'Deep Learning': ['deep learning'],
+  NLP: ['nlp', 'natural language processing'],
+  TensorFlow: ['tensorflow'],
+  PyTorch: ['pytorch'],
+  Pandas: ['pandas'],
+  NumPy: ['numpy'],
+  Spark: ['spark', 'apache spark', 'pyspark'],
+  Tableau: ['tableau'],
+  'Power BI': ['power bi', 'powerbi'],
+  Excel: ['excel', 'ms excel', 'microsoft excel'],
+  // Cloud & DevOps
+  AWS: ['aws', 'amazon web services'],
+  Azure: ['azure'],
+  GCP: ['gcp', 'google cloud'],
+  Docker: ['docker'],
+  Kubernetes: ['kubernetes', 'k8s'],
+  Terraform: ['terraform'],
+  Ansible: ['ansible'],
+  'CI/CD': ['ci/cd', 'cicd', 'continuous integration', 'continuous delivery'],
+  Jenkins: ['jenkins'],
+  'GitHub Actions': ['github actions'],
+  Linux: ['linux', 'unix'],
+  Nginx: ['nginx'],
+  Git: ['git'],
+  // Quality
+  Jest: ['jest'],
+  Cypress: ['cypress'],
+  Selenium: ['selenium'],
+  'Unit Testing': ['unit testing', 'unit tests', 'tdd'],
+  // Design & product
+  Figma: ['figma'],
+  'UI/UX': ['ui/ux', 'ux', 'user experience', 'ui design'],
+  'Product Management': ['product management'],
+  Agile: ['agile', 'scrum', 'kanban'],
+  Jira: ['jira'],
+  // Business
+  'Project Management': ['project management', 'pmp'],
+  'Digital Marketing': ['digital marketing'],
+  SEO: ['seo', 'search engine optimization'],
+  Sales: ['sales'],
+  Accounting: ['accounting', 'bookkeeping'],
+  'Customer Service': ['customer service', 'customer support'],
+  Communication: ['communication skills', 'communication'],
+  Leadership: ['leadership', 'team lead', 'team leadership'],
+};
+
+// Alias word sequences, longest first so "react native" wins over "react"
+const SKILL_PATTERNS = Object.entries(SKILL_ALIASES)
+  .flatMap(([skill, aliases]) =>
+    aliases.map((alias) => ({ skill, words: splitWords(alias) })),
+  )
+  .filter(({ words }) => words.length > 0)
+  .sort((a, b) => b.words.length - a.words.length);
+
+/**
+ * Find known skills mentioned in a text, in order of first appearance
+ */
+export const extractSkills = (text: string): string[] => {
+  const words = splitWords(text);
+  const found = new Set<string>();
+
+  for (let i = 0; i < words.length; i++) {
+    for (const { skill, words: pattern } of SKILL_PATTERNS) {
+      if (pattern.every((word, offset) => words[i + offset] === word)) {
+        found.add(skill);
+        i += pattern.length - 1;
+        break;
+      }
+    }
+  }
+
+  return Array.from(found);
+};
@@ -0,0 +1,167 @@
+// Words that carry no signal when matching a resume to a job
+const STOP_WORDS = new Set([
+  'a',
+  'about',
+  'above',
+  'across',
+  'after',
+  'all',
+  'also',
+  'an',
+  'and',
+  'any',
+  'are',
+  'as',
+  'at',
+  'be',
+  'been',
+  'being',
+  'both',
+  'but',
+  'by',
+  'can',
+  'could',
+  'do',
+  'does',
+  'each',
+  'etc',
+  'for',
+  'from',
+  'has',
+  'have',
+  'he',
+  'her',
+  'his',
+  'how',
+  'i',
+  'if',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'may',
+  'me',
+  'more',
+  'most',
+  'must',
+  'my',
+  'new',
+  'of',
+  'on',
+  'or',
+  'our',
+  'out',
+  'over',
+  'per',
+  'plus',
+  'she',
+  'should',
+  'so',
+  'such',
+  'than',
+  'that',
+  'the',
+  'their',
+  'them',
+  'then',
+  'there',
+  'these',
+  'they',
+  'this',
+  'those',
+  'through',
+  'to',
+  'up',
+  'us',
+  'using',
+  'very',
+  'was',
+  'we',
+  'well',
+  'were',
+  'what',
+  'when',
+  'where',
+  'which',
+  'while',
+  'who',
+  'will',
+  'with',
+  'within',
+  'would',
+  'you',
+  'your',
+  // Job posting boilerplate
+  'ability',
+  'candidate',
+  'company',
+  'excellent',
+  'good',
+  'great',
+  'ideal',
+  'including',
+  'job',
+  'looking',
+  'preferred',
+  'required',
+  'requirement',
+  'responsibility',
+  'role',
+  'strong',
+  'team',
+  'work',
+  'working',
+  'year',
+]);
+
+/**
+ * Split text into lowercase word tokens, keeping technology names such as
+ * "c++", "c#", "node.js" and ".net" intact
+ */
+export const splitWords = (text: string): string[] => {
+  return (
+    text
+      .toLowerCase()
+      .match(/\.?[\p{L}\p{N}]+(?:[.+#-][\p{L}\p{N}]+)*[+#]*/gu) || []
+  );
+};
+
+/**
+ * Reduce a word to a crude stem so "developers" matches "developer"
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 4 || /[^a-z]/.test(word)) {
+    return word;
+  }
+
+  return word
+    .replace(/(ies)$/, 'y')
+    .replace(/(sses)$/, 'ss')
+    .replace(/([^s])s$/, '$1')
+    .replace(/(ing|ed)$/, (suffix, _group, offset: number) =>
+      offset >= 4 ? '' : suffix,
+    );
+};
+
+/**
+ * Tokenize text into stemmed terms without stop words
+ */
+export const tokenize = (text: string): string[] => {
+  return splitWords(text)
+    .map(stem)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+};
+
+/**
+ * Count how often each term occurs
+ */
+export const termFrequencies = (terms: string[]): Map<string, number> => {
+  const frequencies = new Map<string, number>();
+
+  for (const term of terms) {
+    frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+  }
+
+  return frequencies;
+};
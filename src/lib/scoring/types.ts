@@ -0,0 +1,21 @@
+export interface ScoringInput {
+  jobTitle: string;
+  jobDescription: string;
+  resumeText: string;
+}
+
+export interface ScoringResult {
+  // Overall fit between 0 and 100
+  score: number;
+  skills: string[];
+  summary: string;
+}
+
+/**
+ * A strategy for scoring a resume against a job description. Providers
+ * calling out to a service stop retrying once the signal is aborted.
+ */
+export interface ScoringProvider {
+  name: string;
+  score(input: ScoringInput, signal?: AbortSignal): Promise<ScoringResult>;
+}
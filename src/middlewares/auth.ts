@@ -1,72 +1,339 @@
+import crypto from 'crypto';
 import { NextFunction, Request, Response } from 'express';
 import httpStatus from 'http-status';
 import AppError from '@/errors/app-error';
-import { verifyAccessToken } from '@/modules/auth/auth.utils';
+import {
+  hashApiKeySecret,
+  parseApiKey,
+  verifyAccessToken,
+} from '@/modules/auth/auth.utils';
+import { ApiKeyScope } from '@/modules/auth/auth.constant';
+import { ORGANIZATION_HEADER } from '@/modules/organization/organization.constant';
 import { prisma } from '@/lib/prisma';
-import { UserRole } from '../../prisma/generated/prisma/enums';
+import { Prisma } from '../../prisma/generated/prisma/client';
+import {
+  OrganizationRole,
+  UserRole,
+} from '../../prisma/generated/prisma/enums';
+
+export interface AuthenticateOptions {
+  // Reject users who haven't verified their email address yet
+  requireEmailVerified?: boolean;
+  // Also accept API keys granted this scope. Routes without one only accept
+  // access tokens.
+  scope?: ApiKeyScope;
+  // Reject admins impersonating the user, for credential and payment changes
+  forbidImpersonation?: boolean;
+}
+
+const authUserSelect = {
+  id: true,
+  email: true,
+  role: true,
+  is_active: true,
+  is_deleted: true,
+  email_verified: true,
+  password_reset_at: true,
+} satisfies Prisma.UserSelect;
+
+type AuthUser = Prisma.UserGetPayload<{ select: typeof authUserSelect }>;
+
+interface AuthResult {
+  user: AuthUser;
+  sessionId?: string;
+  apiKeyId?: string;
+  // Organization the API key was created in
+  organizationId?: string;
+  impersonatorId?: string;
+  impersonationId?: string;
+}
+
+// Only record API key use once a minute, not on every request
+const API_KEY_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const assertUserExists = (user: AuthUser | null): AuthUser => {
+  // Check if user account is deleted
+  if (!user || user.is_deleted) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'User not found or account has been deleted',
+    );
+  }
+
+  return user;
+};
+
+/**
+ * Authenticate with a Bearer access token of a signed in device
+ */
+const authenticateAccessToken = async (token: string): Promise<AuthResult> => {
+  if (!token) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Authentication token is required',
+    );
+  }
+
+  // Verify token (decoded object includes iat claim)
+  let decoded: any;
+  try {
+    decoded = verifyAccessToken(token);
+  } catch (error) {
+    throw new AppError(httpStatus.UNAUTHORIZED, 'Invalid or expired token');
+  }
+
+  // Get token issued time from decoded token (iat is in seconds)
+  const tokenIssuedAt = decoded.iat ? new Date(decoded.iat * 1000) : null;
+
+  // Fetch user from database to ensure user still exists and get latest role,
+  // and the session to make sure the device hasn't been logged out.
+  // Impersonation tokens are bound to their impersonation instead.
+  const [foundUser, session, impersonation] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: decoded.userId },
+      select: authUserSelect,
+    }),
+    decoded.sessionId
+      ? prisma.session.findUnique({
+          where: { id: decoded.sessionId },
+          select: { user_id: true, revoked_at: true, expires_at: true },
+        })
+      : null,
+    decoded.impersonationId
+      ? prisma.impersonation.findUnique({
+          where: { id: decoded.impersonationId },
+          select: {
+            user_id: true,
+            admin_id: true,
+            expires_at: true,
+            ended_at: true,
+            admin: {
+              select: { role: true, is_active: true, is_deleted: true },
+            },
+          },
+        })
+      : null,
+  ]);
+
+  const user = assertUserExists(foundUser);
+
+  if (decoded.impersonationId) {
+    // Also ends when the admin loses access
+    if (
+      !impersonation ||
+      impersonation.user_id !== user.id ||
+      impersonation.admin_id !== decoded.impersonatorId ||
+      impersonation.ended_at ||
+      impersonation.expires_at <= new Date() ||
+      impersonation.admin.role !== UserRole.SUPER_ADMIN ||
+      !impersonation.admin.is_active ||
+      impersonation.admin.is_deleted
+    ) {
+      throw new AppError(
+        httpStatus.UNAUTHORIZED,
+        'This impersonation session has ended',
+      );
+    }
+
+    return {
+      user,
+      impersonatorId: impersonation.admin_id,
+      impersonationId: decoded.impersonationId,
+    };
+  }
+
+  // Check if the session was revoked (logout, other device) or expired
+  if (
+    !session ||
+    session.user_id !== user.id ||
+    session.revoked_at ||
+    session.expires_at <= new Date()
+  ) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Your session has ended. Please login again.',
+    );
+  }
+
+  // Check if token was issued before password was changed
+  if (user.password_reset_at && tokenIssuedAt) {
+    const passwordResetTime = new Date(user.password_reset_at);
+    if (tokenIssuedAt < passwordResetTime) {
+      throw new AppError(
+        httpStatus.UNAUTHORIZED,
+        'Token is invalid. Please login again.',
+      );
+    }
+  }
+
+  return { user, sessionId: decoded.sessionId };
+};
+
+/**
+ * Authenticate with a personal API key, which must carry the route's scope
+ */
+const authenticateApiKey = async (
+  key: string,
+  scope?: ApiKeyScope,
+): Promise<AuthResult> => {
+  if (!scope) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'API keys cannot be used to access this resource',
+    );
+  }
+
+  const parsed = parseApiKey(key);
+  const apiKey = parsed
+    ? await prisma.apiKey.findUnique({
+        where: { prefix: parsed.prefix },
+        include: { user: { select: authUserSelect } },
+      })
+    : null;
+
+  const isSecretValid =
+    !!parsed &&
+    !!apiKey &&
+    crypto.timingSafeEqual(
+      Buffer.from(hashApiKeySecret(parsed.secret)),
+      Buffer.from(apiKey.secret_hash),
+    );
+
+  const now = new Date();
+
+  if (
+    !apiKey ||
+    !isSecretValid ||
+    apiKey.revoked_at ||
+    (apiKey.expires_at && apiKey.expires_at <= now)
+  ) {
+    throw new AppError(httpStatus.UNAUTHORIZED, 'Invalid or expired API key');
+  }
+
+  const user = assertUserExists(apiKey.user);
+
+  if (!apiKey.scopes.includes(scope)) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      `This API key does not have the ${scope} scope`,
+    );
+  }
+
+  await prisma.apiKey.updateMany({
+    where: {
+      id: apiKey.id,
+      OR: [
+        { last_used_at: null },
+        {
+          last_used_at: {
+            lt: new Date(now.getTime() - API_KEY_LAST_USED_RESOLUTION_MS),
+          },
+        },
+      ],
+    },
+    data: { last_used_at: now },
+  });
+
+  return {
+    user,
+    apiKeyId: apiKey.id,
+    organizationId: apiKey.organization_id ?? undefined,
+  };
+};
+
+/**
+ * Resolve the organization the request acts in and the user's role there
+ */
+const resolveOrganization = async (
+  userId: string,
+  requestedId: string | undefined,
+  boundId: string | undefined,
+): Promise<{
+  organizationId?: string;
+  organizationRole?: OrganizationRole;
+}> => {
+  if (boundId && requestedId && requestedId !== boundId) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'This API key can only be used in the organization it was created in',
+    );
+  }
+
+  const organizationId = requestedId || boundId;
+
+  if (!organizationId) {
+    return {};
+  }
+
+  const membership = await prisma.organizationMember.findUnique({
+    where: {
+      organization_id_user_id: {
+        organization_id: organizationId,
+        user_id: userId,
+      },
+    },
+    select: { role: true },
+  });
+
+  if (!membership) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'You are not a member of this organization',
+    );
+  }
+
+  return { organizationId, organizationRole: membership.role };
+};
+
+/**
+ * Authenticate the request, optionally restricted to some roles:
+ * authenticate(), authenticate(UserRole.SUPER_ADMIN),
+ * authenticate({ requireEmailVerified: true }),
+ * authenticate({ scope: 'jobs:write' }),
+ * authenticate({ forbidImpersonation: true })
+ *
+ * Accepts `Authorization: Bearer <access token>` and, on routes with a
+ * scope, `Authorization: ApiKey <key>`. An `X-Organization-Id` header (or
+ * the organization an API key belongs to) makes the request act in that
+ * organization, see getWorkspace.
+ */
+const authenticate = (...args: (UserRole | AuthenticateOptions)[]) => {
+  const roles = args.filter((arg): arg is UserRole => typeof arg === 'string');
+  const options: AuthenticateOptions = Object.assign(
+    {},
+    ...args.filter((arg) => typeof arg === 'object'),
+  );
 
-const authenticate = (...roles: UserRole[]) => {
   return async (
     req: Request,
     _res: Response,
     next: NextFunction,
   ): Promise<void> => {
     try {
-      // Get token from Authorization header
+      // Get credentials from Authorization header
       const authHeader = req.headers.authorization;
 
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        throw new AppError(
-          httpStatus.UNAUTHORIZED,
-          'Authentication token is required',
+      let result: AuthResult;
+      if (authHeader?.startsWith('Bearer ')) {
+        result = await authenticateAccessToken(authHeader.substring(7));
+      } else if (authHeader?.startsWith('ApiKey ')) {
+        result = await authenticateApiKey(
+          authHeader.substring(7),
+          options.scope,
         );
-      }
-
-      const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-
-      if (!token) {
+      } else {
         throw new AppError(
           httpStatus.UNAUTHORIZED,
           'Authentication token is required',
         );
       }
 
-      // Verify token (decoded object includes iat claim)
-      let decoded: any;
-      try {
-        decoded = verifyAccessToken(token);
-      } catch (error) {
-        throw new AppError(httpStatus.UNAUTHORIZED, 'Invalid or expired token');
-      }
-
-      // Get token issued time from decoded token (iat is in seconds)
-      const tokenIssuedAt = decoded.iat ? new Date(decoded.iat * 1000) : null;
-
-      // Fetch user from database to ensure user still exists and get latest role
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
-        select: {
-          id: true,
-          email: true,
-          role: true,
-          is_active: true,
-          is_deleted: true,
-          password_reset_at: true,
-        },
-      });
+      const { user } = result;
 
-      if (!user) {
+      if (options.forbidImpersonation && result.impersonatorId) {
         throw new AppError(
-          httpStatus.UNAUTHORIZED,
-          'User not found or account has been deleted',
-        );
-      }
-
-      // Check if user account is deleted
-      if (user.is_deleted) {
-        throw new AppError(
-          httpStatus.UNAUTHORIZED,
-          'User not found or account has been deleted',
+          httpStatus.FORBIDDEN,
+          'This action is not available while impersonating a user',
         );
       }
 
@@ -78,22 +345,31 @@ const authenticate = (...roles: UserRole[]) => {
         );
       }
 
-      // Check if token was issued before password was changed
-      if (user.password_reset_at && tokenIssuedAt) {
-        const passwordResetTime = new Date(user.password_reset_at);
-        if (tokenIssuedAt < passwordResetTime) {
-          throw new AppError(
-            httpStatus.UNAUTHORIZED,
-            'Token is invalid. Please login again.',
-          );
-        }
+      // Check if the route needs a verified email address
+      if (options.requireEmailVerified && !user.email_verified) {
+        throw new AppError(
+          httpStatus.FORBIDDEN,
+          'Please verify your email address to continue',
+        );
       }
 
+      const { organizationId, organizationRole } = await resolveOrganization(
+        user.id,
+        req.header(ORGANIZATION_HEADER),
+        result.organizationId,
+      );
+
       // Attach user info to request
       req.user = {
         userId: user.id,
         email: user.email,
         role: user.role,
+        sessionId: result.sessionId,
+        apiKeyId: result.apiKeyId,
+        organizationId,
+        organizationRole,
+        impersonatorId: result.impersonatorId,
+        impersonationId: result.impersonationId,
       };
 
       // If roles are specified, check authorization
@@ -72,3 +72,94 @@ export const resetPasswordRateLimiter = rateLimit({
     return process.env.NODE_ENV === 'test';
   },
 });
+
+/**
+ * Rate limiter for verify email endpoint
+ * 10 attempts per hour per IP
+ */
+export const verifyEmailRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // 10 requests per window
+  message: {
+    success: false,
+    message: 'Too many email verification attempts, please try again later',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (_req) => {
+    return process.env.NODE_ENV === 'test';
+  },
+});
+
+/**
+ * Rate limiter for resend verification endpoint
+ * 3 requests per hour per IP
+ */
+export const resendVerificationRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 3, // 3 requests per window
+  message: {
+    success: false,
+    message: 'Too many verification email requests, please try again later',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (_req) => {
+    return process.env.NODE_ENV === 'test';
+  },
+});
+
+/**
+ * Rate limiter for two-factor code endpoints
+ * 5 attempts per 15 minutes per IP
+ */
+export const twoFactorRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // 5 requests per window
+  message: {
+    success: false,
+    message:
+      'Too many two-factor authentication attempts, please try again later',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (_req) => {
+    return process.env.NODE_ENV === 'test';
+  },
+});
+
+/**
+ * Rate limiter for account data export endpoint
+ * 5 requests per hour per IP
+ */
+export const accountExportRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // 5 requests per window
+  message: {
+    success: false,
+    message: 'Too many data export requests, please try again later',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (_req) => {
+    return process.env.NODE_ENV === 'test';
+  },
+});
+
+/**
+ * Rate limiter for sending organization invitations
+ * 20 requests per hour per IP
+ */
+export const invitationRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 20, // 20 requests per window
+  message: {
+    success: false,
+    message: 'Too many invitations sent, please try again later',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (_req) => {
+    return process.env.NODE_ENV === 'test';
+  },
+});
@@ -0,0 +1,48 @@
+export const adminUserFilterableFields = [
+  'searchTerm',
+  'role',
+  'is_active',
+  'is_deleted',
+  'email_verified',
+];
+
+export const adminUserPaginationFields = [
+  'page',
+  'limit',
+  'sort_by',
+  'sort_order',
+];
+
+export const adminUserSortableFields = [
+  'created_at',
+  'updated_at',
+  'name',
+  'email',
+  'credit_balance',
+];
+
+// Fields the search term is matched against
+export const adminUserSearchableFields = ['name', 'email', 'phone'] as const;
+
+export const creditAdjustmentFilterableFields = [
+  'type',
+  'user_id',
+  'created_by',
+  'from',
+  'to',
+];
+
+export const creditAdjustmentPaginationFields = ['page', 'limit'];
+
+// Largest single grant or deduction, to catch typos like an extra zero
+export const MAX_CREDIT_ADJUSTMENT = 100_000;
+
+// Users credited per statement in a bulk bonus grant
+export const BONUS_GRANT_BATCH_SIZE = 1000;
+
+export const impersonationFilterableFields = ['admin_id', 'user_id', 'active'];
+
+export const impersonationPaginationFields = ['page', 'limit'];
+
+// Impersonation tokens can't be refreshed, a new one has to be started
+export const IMPERSONATION_EXPIRES_IN_MINUTES = 30;
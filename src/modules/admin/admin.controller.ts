@@ -0,0 +1,205 @@
+import { Request, Response } from 'express';
+import catchAsync from '@/utils/catch-async';
+import sendResponse from '@/utils/send-response';
+import pick from '@/utils/pick';
+import httpStatus from 'http-status';
+import { getSessionContext } from '../auth/auth.utils';
+import AdminService from './admin.services';
+import {
+  adminUserFilterableFields,
+  adminUserPaginationFields,
+  creditAdjustmentFilterableFields,
+  creditAdjustmentPaginationFields,
+  impersonationFilterableFields,
+  impersonationPaginationFields,
+} from './admin.constant';
+
+const getUsers = catchAsync(async (req: Request, res: Response) => {
+  const filters = pick(req.query, adminUserFilterableFields);
+  const options = pick(req.query, adminUserPaginationFields);
+
+  const result = await AdminService.getUsers(filters, options);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Users fetched successfully',
+    meta: result.meta,
+    data: result.data,
+  });
+});
+
+const getUserById = catchAsync(async (req: Request, res: Response) => {
+  const result = await AdminService.getUserById(req.params.id as string);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'User fetched successfully',
+    data: result,
+  });
+});
+
+const getUserSummary = catchAsync(async (req: Request, res: Response) => {
+  const result = await AdminService.getUserSummary(req.params.id as string);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'User summary fetched successfully',
+    data: result,
+  });
+});
+
+const updateUserStatus = catchAsync(async (req: Request, res: Response) => {
+  const result = await AdminService.updateUserStatus(
+    req.user.userId,
+    req.params.id as string,
+    req.body.is_active,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.is_active
+      ? 'User reactivated successfully'
+      : 'User deactivated successfully',
+    data: result,
+  });
+});
+
+const updateUserRole = catchAsync(async (req: Request, res: Response) => {
+  const result = await AdminService.updateUserRole(
+    req.user.userId,
+    req.params.id as string,
+    req.body.role,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'User role updated successfully',
+    data: result,
+  });
+});
+
+const forceLogout = catchAsync(async (req: Request, res: Response) => {
+  const result = await AdminService.forceLogout(
+    req.user.userId,
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+  });
+});
+
+const sendPasswordReset = catchAsync(async (req: Request, res: Response) => {
+  const result = await AdminService.sendPasswordReset(
+    req.user.userId,
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+  });
+});
+
+const adjustUserCredits = catchAsync(async (req: Request, res: Response) => {
+  const result = await AdminService.adjustUserCredits(
+    req.user.userId,
+    req.params.id as string,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message:
+      req.body.amount > 0
+        ? 'Credits granted successfully'
+        : 'Credits deducted successfully',
+    data: result,
+  });
+});
+
+const grantBonusCredits = catchAsync(async (req: Request, res: Response) => {
+  const result = await AdminService.grantBonusCredits(
+    req.user.userId,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: `Bonus credits granted to ${result.users} users`,
+    data: result,
+  });
+});
+
+const getCreditAdjustments = catchAsync(async (req: Request, res: Response) => {
+  const filters = pick(req.query, creditAdjustmentFilterableFields);
+  const options = pick(req.query, creditAdjustmentPaginationFields);
+
+  const result = await AdminService.getCreditAdjustments(filters, options);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Credit adjustments fetched successfully',
+    meta: result.meta,
+    data: result.data,
+  });
+});
+
+const impersonateUser = catchAsync(async (req: Request, res: Response) => {
+  const result = await AdminService.impersonateUser(
+    req.user.userId,
+    req.params.id as string,
+    req.body.reason,
+    getSessionContext(req),
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: 'Impersonation started successfully',
+    data: result,
+  });
+});
+
+const getImpersonations = catchAsync(async (req: Request, res: Response) => {
+  const filters = pick(req.query, impersonationFilterableFields);
+  const options = pick(req.query, impersonationPaginationFields);
+
+  const result = await AdminService.getImpersonations(filters, options);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Impersonations fetched successfully',
+    meta: result.meta,
+    data: result.data,
+  });
+});
+
+const AdminController = {
+  getUsers,
+  getUserById,
+  getUserSummary,
+  updateUserStatus,
+  updateUserRole,
+  forceLogout,
+  sendPasswordReset,
+  adjustUserCredits,
+  grantBonusCredits,
+  getCreditAdjustments,
+  impersonateUser,
+  getImpersonations,
+};
+
+export default AdminController;
@@ -0,0 +1,107 @@
+import express from 'express';
+import validateRequest from '@/middlewares/validate-request';
+import authenticate from '@/middlewares/auth';
+import { UserRole } from '../../../prisma/generated/prisma/enums';
+import {
+  adjustUserCreditsSchema,
+  getCreditAdjustmentsSchema,
+  getImpersonationsSchema,
+  getUsersSchema,
+  grantBonusCreditsSchema,
+  impersonateUserSchema,
+  updateUserRoleSchema,
+  updateUserStatusSchema,
+  userIdSchema,
+} from './admin.validation';
+import AdminController from './admin.controller';
+
+const router = express.Router();
+
+router.get(
+  '/users',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(getUsersSchema),
+  AdminController.getUsers,
+);
+
+router.get(
+  '/users/:id',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(userIdSchema),
+  AdminController.getUserById,
+);
+
+router.get(
+  '/users/:id/summary',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(userIdSchema),
+  AdminController.getUserSummary,
+);
+
+router.patch(
+  '/users/:id/status',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(updateUserStatusSchema),
+  AdminController.updateUserStatus,
+);
+
+router.patch(
+  '/users/:id/role',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(updateUserRoleSchema),
+  AdminController.updateUserRole,
+);
+
+// Revoke every session, signing the user out on all devices
+router.post(
+  '/users/:id/logout',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(userIdSchema),
+  AdminController.forceLogout,
+);
+
+router.post(
+  '/users/:id/password-reset',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(userIdSchema),
+  AdminController.sendPasswordReset,
+);
+
+// Positive amounts grant credits, negative ones deduct them
+router.post(
+  '/users/:id/credits',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(adjustUserCreditsSchema),
+  AdminController.adjustUserCredits,
+);
+
+router.post(
+  '/credits/bonus',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(grantBonusCreditsSchema),
+  AdminController.grantBonusCredits,
+);
+
+router.get(
+  '/credits/adjustments',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(getCreditAdjustmentsSchema),
+  AdminController.getCreditAdjustments,
+);
+
+// Returns an access token acting as the user, see POST /auth/impersonation/stop
+router.post(
+  '/users/:id/impersonate',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(impersonateUserSchema),
+  AdminController.impersonateUser,
+);
+
+router.get(
+  '/impersonations',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(getImpersonationsSchema),
+  AdminController.getImpersonations,
+);
+
+export const AdminRoutes = router;
@@ -0,0 +1,621 @@
+import httpStatus from 'http-status';
+import AppError from '@/errors/app-error';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/utils/logger';
+import { buildDateRangeFilter } from '@/utils/date-range';
+import { calculatePagination, IPaginationOptions } from '@/utils/pagination';
+import { Prisma } from '../../../prisma/generated/prisma/client';
+import {
+  CreditType,
+  PaymentStatus,
+  UserRole,
+} from '../../../prisma/generated/prisma/enums';
+import AuthService from '../auth/auth.services';
+import { generateImpersonationToken } from '../auth/auth.utils';
+import CreditService from '../credit/credit.services';
+import {
+  adminUserSearchableFields,
+  BONUS_GRANT_BATCH_SIZE,
+  IMPERSONATION_EXPIRES_IN_MINUTES,
+} from './admin.constant';
+
+interface BonusGrantPayload {
+  amount: number;
+  reason: string;
+  role?: UserRole;
+  email_verified?: boolean;
+}
+
+interface CreditAdjustmentFilters {
+  type?: CreditType;
+  user_id?: string;
+  created_by?: string;
+  from?: string;
+  to?: string;
+}
+
+interface ImpersonationFilters {
+  admin_id?: string;
+  user_id?: string;
+  active?: string;
+}
+
+interface UserFilters {
+  searchTerm?: string;
+  role?: UserRole;
+  is_active?: string;
+  is_deleted?: string;
+  email_verified?: string;
+}
+
+const adminUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  phone: true,
+  image_url: true,
+  role: true,
+  email_verified: true,
+  is_active: true,
+  is_deleted: true,
+  two_factor_enabled: true,
+  credit_balance: true,
+  locked_until: true,
+  deleted_at: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.UserSelect;
+
+const toBoolean = (value?: string) => {
+  return value === undefined ? undefined : value === 'true';
+};
+
+/**
+ * Find a user an admin can act on
+ */
+const getManageableUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: adminUserSelect,
+  });
+
+  if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  if (user.is_deleted) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'User account has been deleted');
+  }
+
+  return user;
+};
+
+/**
+ * Admins can't lock themselves out by deactivating or demoting their own
+ * account
+ */
+const assertNotSelf = (adminId: string, userId: string, action: string) => {
+  if (adminId === userId) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `You cannot ${action} your own account`,
+    );
+  }
+};
+
+/**
+ * Get paginated users, searchable by name, email and phone
+ */
+const getUsers = async (filters: UserFilters, options: IPaginationOptions) => {
+  const { page, limit, skip, sort_by, sort_order } =
+    calculatePagination(options);
+  const { searchTerm, role, is_active, is_deleted, email_verified } = filters;
+
+  const where: Prisma.UserWhereInput = {
+    role,
+    is_active: toBoolean(is_active),
+    is_deleted: toBoolean(is_deleted),
+    email_verified: toBoolean(email_verified),
+    OR: searchTerm
+      ? adminUserSearchableFields.map((field) => ({
+          [field]: { contains: searchTerm, mode: 'insensitive' },
+        }))
+      : undefined,
+  };
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { [sort_by]: sort_order },
+      select: adminUserSelect,
+    }),
+    prisma.user.count({ where }),
+  ]);
+
+  return {
+    meta: {
+      page,
+      limit,
+      total,
+    },
+    data: users,
+  };
+};
+
+/**
+ * Get a user with their organizations and active session count
+ */
+const getUserById = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      ...adminUserSelect,
+      memberships: {
+        select: {
+          role: true,
+          organization: { select: { id: true, name: true } },
+        },
+      },
+      _count: {
+        select: {
+          jobs: true,
+          sessions: {
+            where: { revoked_at: null, expires_at: { gt: new Date() } },
+          },
+        },
+      },
+    },
+  });
+
+  if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  return user;
+};
+
+/**
+ * Deactivate or reactivate a user. Deactivated users are logged out
+ * everywhere and can't sign in until reactivated.
+ */
+const updateUserStatus = async (
+  adminId: string,
+  userId: string,
+  isActive: boolean,
+) => {
+  assertNotSelf(adminId, userId, 'deactivate');
+  const user = await getManageableUser(userId);
+
+  if (user.is_active === isActive) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `User is already ${isActive ? 'active' : 'deactivated'}`,
+    );
+  }
+
+  const [updatedUser] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: { is_active: isActive },
+      select: adminUserSelect,
+    }),
+    ...(isActive ? [] : [AuthService.revokeAllSessions(user.id)]),
+  ]);
+
+  logger.info(
+    `Admin ${adminId} ${isActive ? 'reactivated' : 'deactivated'} user ${user.id}`,
+  );
+
+  return updatedUser;
+};
+
+/**
+ * Change a user's role
+ */
+const updateUserRole = async (
+  adminId: string,
+  userId: string,
+  role: UserRole,
+) => {
+  assertNotSelf(adminId, userId, 'change the role of');
+  const user = await getManageableUser(userId);
+
+  const updatedUser = await prisma.user.update({
+    where: { id: user.id },
+    data: { role },
+    select: adminUserSelect,
+  });
+
+  logger.info(
+    `Admin ${adminId} changed the role of user ${user.id} from ${user.role} to ${role}`,
+  );
+
+  return updatedUser;
+};
+
+/**
+ * Log a user out of every device
+ */
+const forceLogout = async (adminId: string, userId: string) => {
+  const user = await getManageableUser(userId);
+
+  const { count } = await AuthService.revokeAllSessions(user.id);
+
+  logger.info(
+    `Admin ${adminId} logged user ${user.id} out of ${count} sessions`,
+  );
+
+  return {
+    message: `Revoked ${count} session${count === 1 ? '' : 's'}`,
+  };
+};
+
+/**
+ * Email the user a password reset link
+ */
+const sendPasswordReset = async (adminId: string, userId: string) => {
+  const user = await getManageableUser(userId);
+
+  if (!user.is_active) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Cannot reset password for a deactivated account',
+    );
+  }
+
+  await AuthService.forgotPassword(user.email);
+
+  logger.info(
+    `Admin ${adminId} sent a password reset email to user ${user.id}`,
+  );
+
+  return {
+    message: `A password reset link has been sent to ${user.email}`,
+  };
+};
+
+/**
+ * Summarize a user's personal credit ledger and payments
+ */
+const getUserSummary = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, credit_balance: true },
+  });
+
+  if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  // Purchases and spending in organizations belong to their shared balance
+  const personal = { user_id: userId, organization_id: null };
+
+  const [creditsByType, paymentsByStatus, lastPayment] = await Promise.all([
+    prisma.creditLog.groupBy({
+      by: ['type'],
+      where: personal,
+      _sum: { amount: true },
+      _count: { _all: true },
+    }),
+    prisma.payment.groupBy({
+      by: ['status'],
+      where: personal,
+      _sum: { amount: true, refunded_amount: true, credits_purchased: true },
+      _count: { _all: true },
+    }),
+    prisma.payment.findFirst({
+      where: { ...personal, status: PaymentStatus.COMPLETED },
+      orderBy: { created_at: 'desc' },
+      select: { id: true, amount: true, created_at: true },
+    }),
+  ]);
+
+  // Ledger amounts are signed, so spending and refunds come out negative
+  const credits = Object.values(CreditType).map((type) => {
+    const entry = creditsByType.find((group) => group.type === type);
+    return {
+      type,
+      entries: entry?._count._all ?? 0,
+      amount: entry?._sum.amount ?? 0,
+    };
+  });
+
+  const payments = Object.values(PaymentStatus).map((status) => {
+    const entry = paymentsByStatus.find((group) => group.status === status);
+    return {
+      status,
+      count: entry?._count._all ?? 0,
+      amount: entry?._sum.amount ?? 0,
+    };
+  });
+
+  // Refunded payments were completed before the money was returned
+  const paidGroups = paymentsByStatus.filter(
+    ({ status }) =>
+      status === PaymentStatus.COMPLETED || status === PaymentStatus.REFUNDED,
+  );
+  const totalPaid = paidGroups.reduce(
+    (sum, group) => sum + (group._sum.amount ?? 0),
+    0,
+  );
+  const totalRefunded = paidGroups.reduce(
+    (sum, group) => sum + (group._sum.refunded_amount ?? 0),
+    0,
+  );
+
+  return {
+    user,
+    credits: {
+      balance: user.credit_balance,
+      by_type: credits,
+    },
+    payments: {
+      total_paid: totalPaid,
+      total_refunded: totalRefunded,
+      net_revenue: totalPaid - totalRefunded,
+      credits_purchased: paidGroups.reduce(
+        (sum, group) => sum + (group._sum.credits_purchased ?? 0),
+        0,
+      ),
+      by_status: payments,
+      last_payment: lastPayment,
+    },
+  };
+};
+
+/**
+ * Grant or deduct credits on a user's personal balance, recording the
+ * reason and the admin who made the change
+ */
+const adjustUserCredits = async (
+  adminId: string,
+  userId: string,
+  payload: { amount: number; reason: string },
+) => {
+  const user = await getManageableUser(userId);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const creditLog = await CreditService.adjustCredits(tx, {
+      userId: user.id,
+      amount: payload.amount,
+      description: payload.reason.trim(),
+      createdBy: adminId,
+    });
+
+    const { credit_balance } = await tx.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { credit_balance: true },
+    });
+
+    return { credit_log: creditLog, balance: credit_balance };
+  });
+
+  logger.info(
+    `Admin ${adminId} adjusted the credits of user ${user.id} by ${payload.amount}`,
+  );
+
+  return result;
+};
+
+/**
+ * Grant a bonus to every active user matching the filters, all or nothing
+ */
+const grantBonusCredits = async (
+  adminId: string,
+  payload: BonusGrantPayload,
+) => {
+  const { amount, role, email_verified } = payload;
+  const description = payload.reason.trim();
+
+  const granted = await prisma.$transaction(
+    async (tx) => {
+      const users = await tx.user.findMany({
+        where: { is_active: true, is_deleted: false, role, email_verified },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+      });
+
+      if (users.length === 0) {
+        throw new AppError(
+          httpStatus.BAD_REQUEST,
+          'No active users match the given filters',
+        );
+      }
+
+      // Keep each statement well under the bind parameter limit
+      for (let i = 0; i < users.length; i += BONUS_GRANT_BATCH_SIZE) {
+        await CreditService.grantBonusCredits(tx, {
+          userIds: users
+            .slice(i, i + BONUS_GRANT_BATCH_SIZE)
+            .map(({ id }) => id),
+          amount,
+          description,
+          createdBy: adminId,
+        });
+      }
+
+      return users.length;
+    },
+    { timeout: 60_000 },
+  );
+
+  logger.info(
+    `Admin ${adminId} granted a bonus of ${amount} credits to ${granted} users`,
+  );
+
+  return {
+    users: granted,
+    amount,
+    total_credits: granted * amount,
+  };
+};
+
+/**
+ * Get the paginated audit trail of admin credit grants and deductions,
+ * newest first
+ */
+const getCreditAdjustments = async (
+  filters: CreditAdjustmentFilters,
+  options: IPaginationOptions,
+) => {
+  const { page, limit, skip } = calculatePagination(options);
+  const { type, user_id, created_by, from, to } = filters;
+
+  const where: Prisma.CreditLogWhereInput = {
+    type: type ?? { in: [CreditType.BONUS, CreditType.MANUAL_ADJUSTMENT] },
+    user_id,
+    created_by,
+    created_at: buildDateRangeFilter(from, to),
+  };
+
+  const [logs, total] = await Promise.all([
+    prisma.creditLog.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      include: {
+        user: { select: { id: true, email: true, name: true } },
+        createdBy: { select: { id: true, email: true, name: true } },
+      },
+    }),
+    prisma.creditLog.count({ where }),
+  ]);
+
+  return {
+    meta: {
+      page,
+      limit,
+      total,
+    },
+    data: logs,
+  };
+};
+
+/**
+ * Start acting as a user to see what they see. Issues a short-lived access
+ * token bound to an impersonation record, which is the audit trail.
+ */
+const impersonateUser = async (
+  adminId: string,
+  userId: string,
+  reason: string,
+  context: { userAgent?: string; ipAddress?: string },
+) => {
+  assertNotSelf(adminId, userId, 'impersonate');
+  const user = await getManageableUser(userId);
+
+  if (!user.is_active) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Cannot impersonate a deactivated account',
+    );
+  }
+
+  // Would hand out admin access without the admin's own credentials
+  if (user.role === UserRole.SUPER_ADMIN) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'Super admins cannot be impersonated',
+    );
+  }
+
+  const expiresAt = new Date(
+    Date.now() + IMPERSONATION_EXPIRES_IN_MINUTES * 60 * 1000,
+  );
+
+  const impersonation = await prisma.impersonation.create({
+    data: {
+      admin_id: adminId,
+      user_id: user.id,
+      reason: reason.trim(),
+      ip_address: context.ipAddress,
+      user_agent: context.userAgent,
+      expires_at: expiresAt,
+    },
+  });
+
+  const accessToken = generateImpersonationToken(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      impersonatorId: adminId,
+      impersonationId: impersonation.id,
+    },
+    expiresAt,
+  );
+
+  logger.info(
+    `Admin ${adminId} started impersonating user ${user.id} (${impersonation.id})`,
+  );
+
+  return {
+    accessToken,
+    impersonation,
+    user: { id: user.id, email: user.email, name: user.name },
+  };
+};
+
+/**
+ * Get the paginated impersonation audit trail, newest first
+ */
+const getImpersonations = async (
+  filters: ImpersonationFilters,
+  options: IPaginationOptions,
+) => {
+  const { page, limit, skip } = calculatePagination(options);
+  const { admin_id, user_id, active } = filters;
+  const now = new Date();
+
+  const where: Prisma.ImpersonationWhereInput = {
+    admin_id,
+    user_id,
+    ...(active === 'true' && { ended_at: null, expires_at: { gt: now } }),
+    ...(active === 'false' && {
+      OR: [{ ended_at: { not: null } }, { expires_at: { lte: now } }],
+    }),
+  };
+
+  const [impersonations, total] = await Promise.all([
+    prisma.impersonation.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      include: {
+        admin: { select: { id: true, email: true, name: true } },
+        user: { select: { id: true, email: true, name: true } },
+      },
+    }),
+    prisma.impersonation.count({ where }),
+  ]);
+
+  return {
+    meta: {
+      page,
+      limit,
+      total,
+    },
+    data: impersonations,
+  };
+};
+
+const AdminService = {
+  getUsers,
+  getUserById,
+  updateUserStatus,
+  updateUserRole,
+  forceLogout,
+  sendPasswordReset,
+  getUserSummary,
+  adjustUserCredits,
+  grantBonusCredits,
+  getCreditAdjustments,
+  impersonateUser,
+  getImpersonations,
+};
+
+export default AdminService;
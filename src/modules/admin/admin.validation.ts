@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { CreditType, UserRole } from '../../../prisma/generated/prisma/enums';
+import {
+  adminUserSortableFields,
+  MAX_CREDIT_ADJUSTMENT,
+} from './admin.constant';
+
+const userIdParamsSchema = z.object({
+  id: z.string().min(1, 'User id is required'),
+});
+
+const reasonSchema = z
+  .string({ required_error: 'Reason is required' })
+  .trim()
+  .min(3, 'Reason must be at least 3 characters')
+  .max(500, 'Reason must be at most 500 characters');
+
+// Query strings carry booleans as text
+const booleanQuerySchema = z.enum(['true', 'false'], {
+  errorMap: () => ({ message: 'Must be true or false' }),
+});
+
+// User listing validation
+export const getUsersSchema = z.object({
+  query: z.object({
+    searchTerm: z.string().trim().min(1).max(100).optional(),
+    role: z.nativeEnum(UserRole).optional(),
+    is_active: booleanQuerySchema.optional(),
+    is_deleted: booleanQuerySchema.optional(),
+    email_verified: booleanQuerySchema.optional(),
+    page: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().positive().max(100).optional(),
+    sort_by: z
+      .enum(adminUserSortableFields as [string, ...string[]])
+      .optional(),
+    sort_order: z.enum(['asc', 'desc']).optional(),
+  }),
+});
+
+// Single user validation
+export const userIdSchema = z.object({
+  params: userIdParamsSchema,
+});
+
+// User status validation (deactivate / reactivate)
+export const updateUserStatusSchema = z.object({
+  params: userIdParamsSchema,
+  body: z.object({
+    is_active: z.boolean({ required_error: 'is_active is required' }),
+  }),
+});
+
+// User role validation
+export const updateUserRoleSchema = z.object({
+  params: userIdParamsSchema,
+  body: z.object({
+    role: z.nativeEnum(UserRole, {
+      errorMap: () => ({ message: 'Invalid role' }),
+    }),
+  }),
+});
+
+// Manual credit adjustment validation, positive to grant and negative to
+// deduct
+export const adjustUserCreditsSchema = z.object({
+  params: userIdParamsSchema,
+  body: z.object({
+    amount: z
+      .number({ required_error: 'Amount is required' })
+      .int('Amount must be a whole number')
+      .min(
+        -MAX_CREDIT_ADJUSTMENT,
+        `Amount must be at least -${MAX_CREDIT_ADJUSTMENT}`,
+      )
+      .max(
+        MAX_CREDIT_ADJUSTMENT,
+        `Amount must be at most ${MAX_CREDIT_ADJUSTMENT}`,
+      )
+      .refine((amount) => amount !== 0, 'Amount cannot be zero'),
+    reason: reasonSchema,
+  }),
+});
+
+// Bulk bonus grant validation. Only active users matching every given
+// filter receive the bonus.
+export const grantBonusCreditsSchema = z.object({
+  body: z.object({
+    amount: z
+      .number({ required_error: 'Amount is required' })
+      .int('Amount must be a whole number')
+      .positive('Amount must be positive')
+      .max(
+        MAX_CREDIT_ADJUSTMENT,
+        `Amount must be at most ${MAX_CREDIT_ADJUSTMENT}`,
+      ),
+    reason: reasonSchema,
+    role: z
+      .nativeEnum(UserRole, { errorMap: () => ({ message: 'Invalid role' }) })
+      .optional(),
+    email_verified: z.boolean().optional(),
+  }),
+});
+
+// Credit adjustment audit trail validation
+export const getCreditAdjustmentsSchema = z.object({
+  query: z
+    .object({
+      type: z.enum([CreditType.BONUS, CreditType.MANUAL_ADJUSTMENT], {
+        errorMap: () => ({ message: 'Invalid credit adjustment type' }),
+      }),
+      user_id: z.string().min(1),
+      created_by: z.string().min(1),
+      from: z.coerce.date({
+        errorMap: () => ({ message: 'Invalid from date' }),
+      }),
+      to: z.coerce.date({ errorMap: () => ({ message: 'Invalid to date' }) }),
+      page: z.coerce.number().int().positive(),
+      limit: z.coerce.number().int().positive().max(100),
+    })
+    .partial()
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: 'from must be before to',
+      path: ['from'],
+    }),
+});
+
+// Impersonation validation
+export const impersonateUserSchema = z.object({
+  params: userIdParamsSchema,
+  body: z.object({
+    reason: reasonSchema,
+  }),
+});
+
+// Impersonation audit trail validation
+export const getImpersonationsSchema = z.object({
+  query: z
+    .object({
+      admin_id: z.string().min(1),
+      user_id: z.string().min(1),
+      active: booleanQuerySchema,
+      page: z.coerce.number().int().positive(),
+      limit: z.coerce.number().int().positive().max(100),
+    })
+    .partial(),
+});
@@ -0,0 +1,35 @@
+// Failed logins in a row before the account is locked
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+
+// The first lockout lasts 15 minutes and every further one in a row doubles
+// it, up to a day
+export const LOCKOUT_BASE_MINUTES = 15;
+export const LOCKOUT_MAX_MINUTES = 24 * 60;
+
+// Time allowed to finish signing in at an OAuth provider
+export const OAUTH_STATE_EXPIRES_IN_MINUTES = 10;
+
+// How often deleted accounts past their grace period are erased, and how
+// many per run
+export const ACCOUNT_PURGE_INTERVAL_MINUTES = 60;
+export const ACCOUNT_PURGE_BATCH_SIZE = 50;
+
+// Largest avatar image accepted
+export const AVATAR_MAX_SIZE_BYTES = 5 * 1024 * 1024;
+
+// What an API key can be allowed to do. Routes name the scope they need,
+// routes without one can't be used with an API key at all.
+export const API_KEY_SCOPES = [
+  'jobs:read',
+  'jobs:write',
+  'candidates:read',
+  'candidates:write',
+  'credits:read',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Active API keys a user can have at once
+export const MAX_API_KEYS_PER_USER = 10;
+
+export const loginHistoryPaginationFields = ['page', 'limit'];
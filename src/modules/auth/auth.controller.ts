@@ -2,18 +2,40 @@ import { Request, Response } from 'express';
 import catchAsync from '@/utils/catch-async';
 import sendResponse from '@/utils/send-response';
 import httpStatus from 'http-status';
+import { getWorkspace } from '../organization/organization.utils';
 import AuthService from './auth.services';
+import pick from '@/utils/pick';
+import { logger } from '@/utils/logger';
+import AppError from '@/errors/app-error';
+import config from '@/config';
+import { getSessionContext } from './auth.utils';
+import {
+  loginHistoryPaginationFields,
+  OAUTH_STATE_EXPIRES_IN_MINUTES,
+} from './auth.constant';
 
-const register = catchAsync(async (req: Request, res: Response) => {
-  const result = await AuthService.register(req.body);
-
-  // Set refresh token as HTTP-only cookie
-  res.cookie('refreshToken', result.refreshToken, {
+const setRefreshTokenCookie = (res: Response, refreshToken: string) => {
+  res.cookie('refreshToken', refreshToken, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'strict',
     maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
   });
+};
+
+// Lax, not strict: the cookie has to come along on the redirect back from
+// the provider's site
+const oauthStateCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+};
+
+const register = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.register(req.body, getSessionContext(req));
+
+  // Set refresh token as HTTP-only cookie
+  setRefreshTokenCookie(res, result.refreshToken);
 
   sendResponse(res, {
     statusCode: httpStatus.CREATED,
@@ -21,21 +43,50 @@ const register = catchAsync(async (req: Request, res: Response) => {
     message: 'User registered successfully',
     data: {
       user: result.user,
+      organization: result.organization,
       accessToken: result.accessToken,
     },
   });
 });
 
 const login = catchAsync(async (req: Request, res: Response) => {
-  const result = await AuthService.login(req.body);
+  const result = await AuthService.login(req.body, getSessionContext(req));
+
+  // Accounts with 2FA finish logging in at /login/2fa
+  if (result.mfaRequired) {
+    return sendResponse(res, {
+      statusCode: httpStatus.OK,
+      success: true,
+      message: 'Two-factor authentication code required',
+      data: {
+        mfaRequired: true,
+        mfaToken: result.mfaToken,
+      },
+    });
+  }
 
   // Set refresh token as HTTP-only cookie
-  res.cookie('refreshToken', result.refreshToken, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'strict',
-    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+  setRefreshTokenCookie(res, result.refreshToken);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Login successful',
+    data: {
+      user: result.user,
+      accessToken: result.accessToken,
+    },
   });
+});
+
+const loginWithTwoFactor = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.loginWithTwoFactor(
+    req.body,
+    getSessionContext(req),
+  );
+
+  // Set refresh token as HTTP-only cookie
+  setRefreshTokenCookie(res, result.refreshToken);
 
   sendResponse(res, {
     statusCode: httpStatus.OK,
@@ -48,6 +99,87 @@ const login = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const getOAuthProviders = catchAsync(async (_req: Request, res: Response) => {
+  const result = AuthService.getOAuthProviders();
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Sign-in providers fetched successfully',
+    data: result,
+  });
+});
+
+const startOAuthLogin = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.startOAuthLogin(
+    req.params.provider as string,
+  );
+
+  // Ties the callback to this browser
+  res.cookie('oauthState', result.state, {
+    ...oauthStateCookieOptions,
+    maxAge: OAUTH_STATE_EXPIRES_IN_MINUTES * 60 * 1000,
+  });
+
+  res.redirect(result.authorizationUrl);
+});
+
+const oauthCallback = catchAsync(async (req: Request, res: Response) => {
+  const redirectToFrontend = (params: Record<string, string>) => {
+    res.redirect(
+      `${config.frontendBaseUrl}/oauth/callback?${new URLSearchParams(params)}`,
+    );
+  };
+
+  const browserState = req.cookies?.oauthState;
+  res.clearCookie('oauthState', oauthStateCookieOptions);
+
+  // The provider sends an error instead of a code when the user cancels
+  if (req.query.error) {
+    return redirectToFrontend({
+      status: 'error',
+      message: 'Sign-in was cancelled',
+    });
+  }
+
+  try {
+    const result = await AuthService.completeOAuthLogin(
+      req.params.provider as string,
+      {
+        code: req.query.code as string,
+        state: req.query.state as string,
+        browserState,
+      },
+      getSessionContext(req),
+    );
+
+    // Accounts with 2FA finish logging in at /login/2fa
+    if (result.mfaRequired) {
+      return redirectToFrontend({
+        status: 'mfa_required',
+        mfa_token: result.mfaToken,
+      });
+    }
+
+    // The frontend gets its access token from /refresh-token
+    setRefreshTokenCookie(res, result.refreshToken);
+
+    redirectToFrontend({ status: 'success' });
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      logger.error('OAuth sign-in failed:', error);
+    }
+
+    redirectToFrontend({
+      status: 'error',
+      message:
+        error instanceof AppError
+          ? error.message
+          : 'Sign-in failed. Please try again.',
+    });
+  }
+});
+
 const getMe = catchAsync(async (req: Request, res: Response) => {
   const userId = req.user?.userId;
 
@@ -59,7 +191,7 @@ const getMe = catchAsync(async (req: Request, res: Response) => {
     });
   }
 
-  const result = await AuthService.getMe(userId);
+  const result = await AuthService.getMe(userId, req.user.impersonationId);
 
   sendResponse(res, {
     statusCode: httpStatus.OK,
@@ -69,6 +201,34 @@ const getMe = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const updateProfile = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.updateProfile(
+    req.user.userId,
+    req.body ?? {},
+    req.file,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.emailChangeRequested
+      ? 'Profile updated. Please check your new email address to confirm the change.'
+      : 'Profile updated successfully',
+    data: result.user,
+  });
+});
+
+const confirmEmailChange = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.confirmEmailChange(req.body.token);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
 const refreshToken = catchAsync(async (req: Request, res: Response) => {
   const refreshToken = req.cookies?.refreshToken || req.body?.refreshToken;
 
@@ -80,13 +240,21 @@ const refreshToken = catchAsync(async (req: Request, res: Response) => {
     });
   }
 
-  const result = await AuthService.refreshAccessToken(refreshToken);
+  const result = await AuthService.refreshAccessToken(
+    refreshToken,
+    getSessionContext(req),
+  );
+
+  // The refresh token is rotated on every use
+  setRefreshTokenCookie(res, result.refreshToken);
 
   sendResponse(res, {
     statusCode: httpStatus.OK,
     success: true,
     message: 'Access token refreshed successfully',
-    data: result,
+    data: {
+      accessToken: result.accessToken,
+    },
   });
 });
 
@@ -137,11 +305,256 @@ const changePassword = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const verifyEmail = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.verifyEmail(req.body.token);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
+const resendVerification = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.resendVerification(req.user.userId);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
+const getSessions = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.getSessions(
+    req.user.userId,
+    req.user.sessionId,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Sessions fetched successfully',
+    data: result,
+  });
+});
+
+const revokeSession = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.revokeSession(
+    req.user.userId,
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
+const revokeOtherSessions = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.revokeOtherSessions(
+    req.user.userId,
+    req.user.sessionId,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
+const deleteAccount = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.deleteAccount(
+    req.user.userId,
+    req.body ?? {},
+  );
+
+  // Accounts without a password or 2FA confirm through an emailed link
+  if (result.confirmationRequired) {
+    return sendResponse(res, {
+      statusCode: httpStatus.ACCEPTED,
+      success: true,
+      message: result.message,
+      data: { confirmationRequired: true },
+    });
+  }
+
+  // Clear refresh token cookie
+  res.clearCookie('refreshToken', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+  });
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
+const confirmAccountExport = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.confirmAccountExport(
+    req.user.userId,
+    req.body ?? {},
+  );
+
+  sendResponse(res, {
+    statusCode: result.confirmationRequired
+      ? httpStatus.ACCEPTED
+      : httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: result.confirmationRequired
+      ? { confirmationRequired: true }
+      : { confirmationRequired: false, exportToken: result.exportToken },
+  });
+});
+
+const exportAccountData = catchAsync(async (req: Request, res: Response) => {
+  AuthService.assertAccountExportToken(
+    req.user.userId,
+    req.query.token as string,
+  );
+
+  if (req.query.format === 'zip') {
+    const archive = await AuthService.getAccountExportZip(req.user.userId);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.attachment(`talentsift-export-${date}.zip`);
+    res.send(archive);
+    return;
+  }
+
+  const result = await AuthService.getAccountExport(req.user.userId);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Account data exported successfully',
+    data: result,
+  });
+});
+
+const createApiKey = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.createApiKey(getWorkspace(req), req.body);
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: "API key created. Copy it now, it won't be shown again.",
+    data: result,
+  });
+});
+
+const getApiKeys = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.getApiKeys(req.user.userId);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'API keys fetched successfully',
+    data: result,
+  });
+});
+
+const revokeApiKey = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.revokeApiKey(
+    req.user.userId,
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
+const getLoginHistory = catchAsync(async (req: Request, res: Response) => {
+  const options = pick(req.query, loginHistoryPaginationFields);
+
+  const result = await AuthService.getLoginHistory(req.user.userId, options);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Login history fetched successfully',
+    meta: result.meta,
+    data: result.data,
+  });
+});
+
+const setupTwoFactor = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.setupTwoFactor(req.user.userId);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message:
+      'Scan the QR code with your authenticator app, then confirm with a code',
+    data: result,
+  });
+});
+
+const confirmTwoFactor = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.confirmTwoFactor(
+    req.user.userId,
+    req.body.code,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message:
+      'Two-factor authentication has been enabled. Store your recovery codes somewhere safe.',
+    data: result,
+  });
+});
+
+const regenerateRecoveryCodes = catchAsync(
+  async (req: Request, res: Response) => {
+    const result = await AuthService.regenerateRecoveryCodes(
+      req.user.userId,
+      req.body.code,
+    );
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      success: true,
+      message: 'Recovery codes regenerated successfully',
+      data: result,
+    });
+  },
+);
+
+const disableTwoFactor = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.disableTwoFactor(req.user.userId, req.body);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
 const logout = catchAsync(async (req: Request, res: Response) => {
   const userId = req.user?.userId;
 
-  if (userId) {
-    await AuthService.logout(userId);
+  // Impersonation tokens have no session, logging out ends the impersonation
+  if (req.user?.impersonationId) {
+    await AuthService.endImpersonation(req.user.impersonationId);
+  } else if (userId) {
+    await AuthService.logout(userId, req.user.sessionId);
   }
 
   // Clear refresh token cookie
@@ -159,15 +572,49 @@ const logout = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+const stopImpersonation = catchAsync(async (req: Request, res: Response) => {
+  const result = await AuthService.endImpersonation(req.user.impersonationId);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
 const AuthController = {
   register,
   login,
+  loginWithTwoFactor,
+  getOAuthProviders,
+  startOAuthLogin,
+  oauthCallback,
   getMe,
+  updateProfile,
+  confirmEmailChange,
   refreshToken,
   forgotPassword,
   resetPassword,
   changePassword,
+  verifyEmail,
+  resendVerification,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
   logout,
+  stopImpersonation,
+  deleteAccount,
+  confirmAccountExport,
+  exportAccountData,
+  getLoginHistory,
+  createApiKey,
+  getApiKeys,
+  revokeApiKey,
+  setupTwoFactor,
+  confirmTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
 };
 
 export default AuthController;
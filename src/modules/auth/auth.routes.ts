@@ -7,6 +7,20 @@ import {
   forgotPasswordSchema,
   resetPasswordSchema,
   changePasswordSchema,
+  verifyEmailSchema,
+  updateProfileSchema,
+  confirmEmailChangeSchema,
+  sessionIdSchema,
+  loginTwoFactorSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  getLoginHistorySchema,
+  createApiKeySchema,
+  apiKeyIdSchema,
+  oauthProviderSchema,
+  deleteAccountSchema,
+  confirmAccountExportSchema,
+  exportAccountDataSchema,
 } from './auth.validation';
 import AuthController from './auth.controller';
 import {
@@ -14,8 +28,13 @@ import {
   forgotPasswordRateLimiter,
   refreshTokenRateLimiter,
   resetPasswordRateLimiter,
+  verifyEmailRateLimiter,
+  resendVerificationRateLimiter,
+  twoFactorRateLimiter,
+  accountExportRateLimiter,
 } from '@/middlewares/rate-limiter';
 import authenticate from '@/middlewares/auth';
+import { upload } from '@/utils/handle-cloudflare-r2-file';
 
 const router = express.Router();
 
@@ -34,8 +53,63 @@ router.post(
   AuthController.login,
 );
 
+router.post(
+  '/login/2fa',
+  twoFactorRateLimiter,
+  validateRequest(loginTwoFactorSchema),
+  AuthController.loginWithTwoFactor,
+);
+
+router.get('/oauth/providers', AuthController.getOAuthProviders);
+
+router.get(
+  '/oauth/:provider',
+  authRateLimiter,
+  validateRequest(oauthProviderSchema),
+  AuthController.startOAuthLogin,
+);
+
+router.get(
+  '/oauth/:provider/callback',
+  validateRequest(oauthProviderSchema),
+  AuthController.oauthCallback,
+);
+
 router.get('/me', authenticate(), AuthController.getMe);
 
+router.patch(
+  '/me',
+  authenticate({ forbidImpersonation: true }),
+  upload.single('avatar'),
+  validateRequest(updateProfileSchema),
+  AuthController.updateProfile,
+);
+
+router.delete(
+  '/me',
+  authenticate({ forbidImpersonation: true }),
+  validateRequest(deleteAccountSchema),
+  AuthController.deleteAccount,
+);
+
+// Re-authenticates and returns the token GET /me/export takes, so the
+// password or code travels in the body, not the URL
+router.post(
+  '/me/export/confirm',
+  accountExportRateLimiter,
+  authenticate(),
+  validateRequest(confirmAccountExportSchema),
+  AuthController.confirmAccountExport,
+);
+
+router.get(
+  '/me/export',
+  accountExportRateLimiter,
+  authenticate(),
+  validateRequest(exportAccountDataSchema),
+  AuthController.exportAccountData,
+);
+
 router.post(
   '/refresh-token',
   refreshTokenRateLimiter,
@@ -57,14 +131,110 @@ router.post(
   AuthController.resetPassword,
 );
 
+router.post(
+  '/verify-email',
+  verifyEmailRateLimiter,
+  validateRequest(verifyEmailSchema),
+  AuthController.verifyEmail,
+);
+
+router.post(
+  '/confirm-email-change',
+  verifyEmailRateLimiter,
+  validateRequest(confirmEmailChangeSchema),
+  AuthController.confirmEmailChange,
+);
+
 // Protected routes
 router.post(
   '/change-password',
-  authenticate(),
+  authenticate({ forbidImpersonation: true }),
   validateRequest(changePasswordSchema),
   AuthController.changePassword,
 );
 
+router.post(
+  '/resend-verification',
+  resendVerificationRateLimiter,
+  authenticate(),
+  AuthController.resendVerification,
+);
+
+router.get('/sessions', authenticate(), AuthController.getSessions);
+
+router.post(
+  '/sessions/revoke-others',
+  authenticate({ forbidImpersonation: true }),
+  AuthController.revokeOtherSessions,
+);
+
+router.delete(
+  '/sessions/:id',
+  authenticate({ forbidImpersonation: true }),
+  validateRequest(sessionIdSchema),
+  AuthController.revokeSession,
+);
+
+router.get(
+  '/login-history',
+  authenticate(),
+  validateRequest(getLoginHistorySchema),
+  AuthController.getLoginHistory,
+);
+
+router.get('/api-keys', authenticate(), AuthController.getApiKeys);
+
+router.post(
+  '/api-keys',
+  authenticate({ requireEmailVerified: true, forbidImpersonation: true }),
+  validateRequest(createApiKeySchema),
+  AuthController.createApiKey,
+);
+
+router.delete(
+  '/api-keys/:id',
+  authenticate({ forbidImpersonation: true }),
+  validateRequest(apiKeyIdSchema),
+  AuthController.revokeApiKey,
+);
+
+router.post(
+  '/2fa/setup',
+  authenticate({ forbidImpersonation: true }),
+  AuthController.setupTwoFactor,
+);
+
+router.post(
+  '/2fa/confirm',
+  twoFactorRateLimiter,
+  authenticate({ forbidImpersonation: true }),
+  validateRequest(twoFactorCodeSchema),
+  AuthController.confirmTwoFactor,
+);
+
+router.post(
+  '/2fa/recovery-codes',
+  twoFactorRateLimiter,
+  authenticate({ forbidImpersonation: true }),
+  validateRequest(twoFactorCodeSchema),
+  AuthController.regenerateRecoveryCodes,
+);
+
+router.post(
+  '/2fa/disable',
+  twoFactorRateLimiter,
+  authenticate({ forbidImpersonation: true }),
+  validateRequest(disableTwoFactorSchema),
+  AuthController.disableTwoFactor,
+);
+
 router.post('/logout', authenticate(), AuthController.logout);
 
+// Ends the impersonation the access token belongs to
+router.post(
+  '/impersonation/stop',
+  authenticate(),
+  AuthController.stopImpersonation,
+);
+
 export const AuthRoutes = router;
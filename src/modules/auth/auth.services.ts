@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import httpStatus from 'http-status';
 import AppError from '@/errors/app-error';
 import { prisma } from '@/lib/prisma';
@@ -7,17 +8,69 @@ import {
   generateAccessToken,
   generateRefreshToken,
   verifyRefreshToken,
+  hashRefreshToken,
+  getDeviceLabel,
   generatePasswordResetToken,
   hashPasswordResetToken,
+  generateEmailVerificationToken,
+  hashEmailVerificationToken,
+  generateMfaChallengeToken,
+  verifyMfaChallengeToken,
+  encryptTwoFactorSecret,
+  decryptTwoFactorSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  generateEmailChangeToken,
+  hashEmailChangeToken,
+  generateApiKey,
+  AccountAction,
+  generateAccountActionToken,
+  verifyAccountActionToken,
 } from './auth.utils';
 import sendMail from '@/utils/mailer';
+import { logger } from '@/utils/logger';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '@/utils/totp';
+import { calculatePagination, IPaginationOptions } from '@/utils/pagination';
+import { createZip } from '@/utils/zip';
+import {
+  deleteFromR2,
+  deleteMultipleFromR2,
+  extractKeyFromUrl,
+  uploadToR2,
+} from '@/utils/handle-cloudflare-r2-file';
+import { isUniqueConstraintError } from '@/errors/handle-prisma-error';
+import {
+  generatePkcePair,
+  getEnabledOAuthProviders,
+  getOAuthProvider,
+  OAuthProfile,
+} from '@/lib/oauth';
 import config from '@/config';
 import AuthTemplate from './auth.template';
+import {
+  LOCKOUT_BASE_MINUTES,
+  LOCKOUT_MAX_MINUTES,
+  MAX_FAILED_LOGIN_ATTEMPTS,
+  OAUTH_STATE_EXPIRES_IN_MINUTES,
+  ACCOUNT_PURGE_BATCH_SIZE,
+  AVATAR_MAX_SIZE_BYTES,
+  MAX_API_KEYS_PER_USER,
+  ApiKeyScope,
+} from './auth.constant';
+import { Prisma, User } from '../../../prisma/generated/prisma/client';
+import {
+  LoginFailureReason,
+  OrganizationRole,
+} from '../../../prisma/generated/prisma/enums';
+import { Workspace } from '../organization/organization.utils';
+import OrganizationService from '../organization/organization.services';
 
 interface RegisterPayload {
   email: string;
   password: string;
   name: string;
+  // Signing up from an organization invitation joins the organization
+  invitationToken?: string;
 }
 
 interface LoginPayload {
@@ -25,6 +78,43 @@ interface LoginPayload {
   password: string;
 }
 
+interface LoginTwoFactorPayload {
+  mfaToken: string;
+  code: string;
+}
+
+interface OAuthCallbackPayload {
+  code: string;
+  state: string;
+  // The state saved in the cookie of the browser that started the sign-in
+  browserState?: string;
+}
+
+interface ReauthenticationPayload {
+  password?: string;
+  code?: string;
+  confirmationToken?: string;
+}
+
+interface DisableTwoFactorPayload {
+  password?: string;
+  code: string;
+}
+
+interface UpdateProfilePayload {
+  name?: string;
+  // An empty string clears the phone number
+  phone?: string;
+  email?: string;
+}
+
+interface CreateApiKeyPayload {
+  name: string;
+  scopes: ApiKeyScope[];
+  // Keys without an expiry stay valid until revoked
+  expiresInDays?: number;
+}
+
 interface ResetPasswordPayload {
   token: string;
   password: string;
@@ -36,11 +126,293 @@ interface ChangePasswordPayload {
   newPassword: string;
 }
 
+interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * The user fields returned by register and login
+ */
+const toAuthUser = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  email_verified: user.email_verified,
+  created_at: user.created_at,
+});
+
+/**
+ * The user's own profile, as returned by getMe
+ */
+const toProfile = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  pending_email: user.pending_email,
+  name: user.name,
+  phone: user.phone,
+  image_url: user.image_url,
+  role: user.role,
+  email_verified: user.email_verified,
+  two_factor_enabled: user.two_factor_enabled,
+  created_at: user.created_at,
+});
+
+/**
+ * Start a session for the device the user signs in from and issue its
+ * tokens. Each device gets its own refresh token, stored only as a hash.
+ */
+const createSession = async (
+  user: { id: string; email: string; role: string },
+  context: SessionContext,
+) => {
+  const sessionId = crypto.randomUUID();
+  const tokenPayload = {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId,
+  };
+
+  const accessToken = generateAccessToken(tokenPayload);
+  const refreshToken = generateRefreshToken(tokenPayload);
+  const { exp } = verifyRefreshToken(refreshToken);
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      user_id: user.id,
+      refresh_token_hash: hashRefreshToken(refreshToken),
+      device_label: getDeviceLabel(context.userAgent),
+      user_agent: context.userAgent,
+      ip_address: context.ipAddress,
+      expires_at: new Date(exp * 1000),
+    },
+  });
+
+  return {
+    accessToken,
+    refreshToken,
+  };
+};
+
+/**
+ * Revoke every active session of the user
+ */
+const revokeAllSessions = (userId: string) => {
+  return prisma.session.updateMany({
+    where: { user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
+};
+
+/**
+ * Issue a new email verification token and email the verification link.
+ * Any previously sent link stops working.
+ */
+const sendVerificationEmail = async (user: {
+  id: string;
+  email: string;
+  name: string;
+}) => {
+  const verificationToken = generateEmailVerificationToken();
+
+  // Set token expiration (24 hours from now)
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + 24);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      email_verification_token: hashEmailVerificationToken(verificationToken),
+      email_verification_expires: expiresAt,
+    },
+  });
+
+  const verifyUrl = `${config.frontendBaseUrl}/verify-email?token=${verificationToken}`;
+
+  const emailBody = AuthTemplate.emailVerificationTemplate({
+    userName: user.name,
+    verifyUrl,
+  });
+
+  await sendMail(user.email, 'Verify Your Email Address', emailBody);
+};
+
+/**
+ * Record a sign-in attempt in the user's login history
+ */
+const recordLoginAttempt = (
+  email: string,
+  context: SessionContext,
+  {
+    userId,
+    success,
+    failureReason,
+  }: {
+    userId?: string;
+    success: boolean;
+    failureReason?: LoginFailureReason;
+  },
+) => {
+  return prisma.loginAttempt.create({
+    data: {
+      user_id: userId,
+      email: email.toLowerCase(),
+      success,
+      failure_reason: failureReason,
+      device_label: getDeviceLabel(context.userAgent),
+      user_agent: context.userAgent,
+      ip_address: context.ipAddress,
+    },
+  });
+};
+
+/**
+ * Reject the login while the account is locked
+ */
+const assertNotLocked = async (user: User, context: SessionContext) => {
+  if (!user.locked_until || user.locked_until <= new Date()) {
+    return;
+  }
+
+  await recordLoginAttempt(user.email, context, {
+    userId: user.id,
+    success: false,
+    failureReason: LoginFailureReason.ACCOUNT_LOCKED,
+  });
+
+  const minutesLeft = Math.ceil(
+    (user.locked_until.getTime() - Date.now()) / (60 * 1000),
+  );
+
+  throw new AppError(
+    httpStatus.LOCKED,
+    `Too many failed login attempts. Please try again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`,
+  );
+};
+
+/**
+ * Count a failed login against the account and lock it once too many
+ * fail in a row. Each lockout in a row lasts twice as long as the last.
+ */
+const registerFailedLogin = async (
+  user: User,
+  context: SessionContext,
+  failureReason: LoginFailureReason,
+) => {
+  await recordLoginAttempt(user.email, context, {
+    userId: user.id,
+    success: false,
+    failureReason,
+  });
+
+  const { failed_login_attempts, lockout_count } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failed_login_attempts: { increment: 1 } },
+    select: { failed_login_attempts: true, lockout_count: true },
+  });
+
+  if (failed_login_attempts < MAX_FAILED_LOGIN_ATTEMPTS) {
+    return;
+  }
+
+  const lockedMinutes = Math.min(
+    LOCKOUT_BASE_MINUTES * 2 ** lockout_count,
+    LOCKOUT_MAX_MINUTES,
+  );
+
+  // Concurrent failures can all pass the threshold, only one of them locks
+  const locked = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      failed_login_attempts: { gte: MAX_FAILED_LOGIN_ATTEMPTS },
+    },
+    data: {
+      failed_login_attempts: 0,
+      locked_until: new Date(Date.now() + lockedMinutes * 60 * 1000),
+      lockout_count: { increment: 1 },
+    },
+  });
+
+  if (locked.count === 0) {
+    return;
+  }
+
+  logger.warn(
+    `Security: account ${user.id} locked for ${lockedMinutes} minutes after ${MAX_FAILED_LOGIN_ATTEMPTS} failed logins (ip: ${context.ipAddress})`,
+  );
+
+  const emailBody = AuthTemplate.accountLockedTemplate({
+    userName: user.name,
+    lockedMinutes,
+    resetUrl: `${config.frontendBaseUrl}/forgot-password`,
+  });
+
+  try {
+    await sendMail(user.email, 'Your Account Has Been Locked', emailBody);
+  } catch (error) {
+    logger.error(`Failed to send lockout email to ${user.email}:`, error);
+  }
+};
+
+/**
+ * Clear the failed login count and let the user know when the sign-in
+ * comes from a device that never signed in to the account before
+ */
+const registerSuccessfulLogin = async (user: User, context: SessionContext) => {
+  const deviceLabel = getDeviceLabel(context.userAgent);
+
+  const knownDevice = await prisma.loginAttempt.findFirst({
+    where: {
+      user_id: user.id,
+      success: true,
+      ...(deviceLabel
+        ? { device_label: deviceLabel }
+        : { user_agent: context.userAgent ?? null }),
+    },
+    select: { id: true },
+  });
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        failed_login_attempts: 0,
+        lockout_count: 0,
+        locked_until: null,
+      },
+    }),
+    recordLoginAttempt(user.email, context, {
+      userId: user.id,
+      success: true,
+    }),
+  ]);
+
+  if (knownDevice) {
+    return;
+  }
+
+  const emailBody = AuthTemplate.newDeviceLoginTemplate({
+    userName: user.name,
+    device: deviceLabel || context.userAgent || 'Unknown device',
+    ipAddress: context.ipAddress || 'Unknown',
+    signedInAt: new Date(),
+  });
+
+  try {
+    await sendMail(user.email, 'New Sign-in to Your Account', emailBody);
+  } catch (error) {
+    logger.error(`Failed to send new device email to ${user.email}:`, error);
+  }
+};
+
 /**
  * Register a new user
  */
-const register = async (payload: RegisterPayload) => {
-  const { email, password, name } = payload;
+const register = async (payload: RegisterPayload, context: SessionContext) => {
+  const { email, password, name, invitationToken } = payload;
 
   // Check if user already exists
   const existingUser = await prisma.user.findUnique({
@@ -54,6 +426,12 @@ const register = async (payload: RegisterPayload) => {
     );
   }
 
+  // Reject a bad invitation before creating the account. The link was
+  // emailed to this address, so it also proves the address is theirs.
+  const invitation = invitationToken
+    ? await OrganizationService.findInvitationByToken(invitationToken, email)
+    : null;
+
   // Hash password
   const hashedPassword = await hashPassword(password);
 
@@ -63,6 +441,7 @@ const register = async (payload: RegisterPayload) => {
       email: email.toLowerCase(),
       password: hashedPassword,
       name: name,
+      email_verified: !!invitation,
     },
     select: {
       id: true,
@@ -74,26 +453,42 @@ const register = async (payload: RegisterPayload) => {
     },
   });
 
-  // Generate tokens
-  const accessToken = generateAccessToken({
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-  });
-  const refreshToken = generateRefreshToken({
+  // Start a session for this device
+  const { accessToken, refreshToken } = await createSession(user, context);
+
+  // Remember the device so signing in from it later isn't reported as new
+  await recordLoginAttempt(user.email, context, {
     userId: user.id,
-    email: user.email,
-    role: user.role,
+    success: true,
   });
 
-  // Store refresh token in database
-  await prisma.user.update({
-    where: { id: user.id },
-    data: { refresh_token: refreshToken },
-  });
+  let organization = null;
+
+  if (invitationToken) {
+    // The account is already created, joining can be retried while signed in
+    try {
+      organization = await OrganizationService.acceptInvitation(
+        user.id,
+        invitationToken,
+      );
+    } catch (error) {
+      logger.warn(`Failed to accept invitation for ${user.email}:`, error);
+    }
+  } else {
+    // The account works without it, the user can ask for a new link later
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      logger.error(
+        `Failed to send verification email to ${user.email}:`,
+        error,
+      );
+    }
+  }
 
   return {
     user,
+    organization,
     accessToken,
     refreshToken,
   };
@@ -102,7 +497,7 @@ const register = async (payload: RegisterPayload) => {
 /**
  * Login user
  */
-const login = async (payload: LoginPayload) => {
+const login = async (payload: LoginPayload, context: SessionContext) => {
   const { email, password } = payload;
 
   // Find user
@@ -111,11 +506,20 @@ const login = async (payload: LoginPayload) => {
   });
 
   if (!user) {
+    await recordLoginAttempt(email, context, {
+      success: false,
+      failureReason: LoginFailureReason.INVALID_CREDENTIALS,
+    });
     throw new AppError(httpStatus.UNAUTHORIZED, 'Invalid email or password');
   }
 
   // Check if user account is deleted
   if (user.is_deleted) {
+    await recordLoginAttempt(email, context, {
+      userId: user.id,
+      success: false,
+      failureReason: LoginFailureReason.ACCOUNT_DISABLED,
+    });
     throw new AppError(
       httpStatus.UNAUTHORIZED,
       'Your account has been deleted',
@@ -124,121 +528,136 @@ const login = async (payload: LoginPayload) => {
 
   // Check if user account is active
   if (!user.is_active) {
+    await recordLoginAttempt(email, context, {
+      userId: user.id,
+      success: false,
+      failureReason: LoginFailureReason.ACCOUNT_DISABLED,
+    });
     throw new AppError(
       httpStatus.UNAUTHORIZED,
       'Your account has been deactivated. Please contact support.',
     );
   }
 
-  // Verify password
-  const isPasswordValid = await comparePassword(password, user.password);
+  // Check if the account is locked after too many failed logins
+  await assertNotLocked(user, context);
+
+  // Verify password (accounts created through OAuth may have none)
+  const isPasswordValid =
+    !!user.password && (await comparePassword(password, user.password));
 
   if (!isPasswordValid) {
+    await registerFailedLogin(
+      user,
+      context,
+      LoginFailureReason.INVALID_CREDENTIALS,
+    );
     throw new AppError(httpStatus.UNAUTHORIZED, 'Invalid email or password');
   }
 
-  // Generate tokens
-  const accessToken = generateAccessToken({
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-  });
-  const refreshToken = generateRefreshToken({
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-  });
+  // With 2FA on, the password alone only earns a challenge to answer with
+  // a code, no session is started yet
+  if (user.two_factor_enabled) {
+    return {
+      mfaRequired: true as const,
+      mfaToken: generateMfaChallengeToken(user.id),
+    };
+  }
 
-  // Store refresh token in database
-  await prisma.user.update({
-    where: { id: user.id },
-    data: { refresh_token: refreshToken },
-  });
+  // Start a session for this device
+  const { accessToken, refreshToken } = await createSession(user, context);
+  await registerSuccessfulLogin(user, context);
 
   return {
-    user: {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-      email_verified: user.email_verified,
-      created_at: user.created_at,
-    },
+    mfaRequired: false as const,
+    user: toAuthUser(user),
     accessToken,
     refreshToken,
   };
 };
 
 /**
- * Get user by id
+ * Check a 2FA code, either from the authenticator app or one of the
+ * recovery codes. Both are single use, so a code that was already used
+ * counts as wrong.
  */
-const getMe = async (userId: string) => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-  });
-
-  if (!user) {
-    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+const consumeTwoFactorCode = async (user: User, code: string) => {
+  if (!user.two_factor_secret) {
+    return false;
   }
 
-  // Check if user account is deleted
-  if (user.is_deleted) {
-    throw new AppError(
-      httpStatus.UNAUTHORIZED,
-      'User not found or account has been deleted',
-    );
-  }
+  const step = verifyTotp(
+    decryptTwoFactorSecret(user.two_factor_secret),
+    code,
+    {
+      afterStep: user.two_factor_last_used_step,
+    },
+  );
+
+  if (step !== null) {
+    // Remember the time step so the same code can't be replayed, even by a
+    // concurrent request
+    const result = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [
+          { two_factor_last_used_step: null },
+          { two_factor_last_used_step: { lt: step } },
+        ],
+      },
+      data: { two_factor_last_used_step: step },
+    });
 
-  // Check if user account is active
-  if (!user.is_active) {
-    throw new AppError(
-      httpStatus.UNAUTHORIZED,
-      'Your account has been deactivated. Please contact support.',
-    );
+    return result.count > 0;
   }
 
-  return {
-    user: {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      phone: user.phone,
-      image_url: user.image_url,
-      role: user.role,
-      email_verified: user.email_verified,
-      created_at: user.created_at,
-    },
-  };
+  // Check and remove the recovery code in one statement
+  const codeHash = hashRecoveryCode(code);
+  const removed = await prisma.$executeRaw`
+    UPDATE users
+    SET
+      two_factor_recovery_codes = array_remove(two_factor_recovery_codes, ${codeHash}),
+      updated_at = NOW()
+    WHERE id = ${user.id} AND ${codeHash} = ANY(two_factor_recovery_codes)
+  `;
+
+  return removed > 0;
 };
 
 /**
- * Refresh access token using refresh token
+ * Second step of login for accounts with 2FA: exchange the challenge token
+ * and a code for a session
  */
-const refreshAccessToken = async (refreshToken: string) => {
-  if (!refreshToken) {
-    throw new AppError(httpStatus.UNAUTHORIZED, 'Refresh token is required');
-  }
+const loginWithTwoFactor = async (
+  payload: LoginTwoFactorPayload,
+  context: SessionContext,
+) => {
+  const { mfaToken, code } = payload;
 
-  // Verify refresh token
-  let decoded;
+  let challenge;
   try {
-    decoded = verifyRefreshToken(refreshToken);
+    challenge = verifyMfaChallengeToken(mfaToken);
   } catch (error) {
     throw new AppError(
       httpStatus.UNAUTHORIZED,
-      'Invalid or expired refresh token',
+      'Login attempt has expired. Please login again.',
     );
   }
 
-  // Find user and verify refresh token matches
   const user = await prisma.user.findUnique({
-    where: { id: decoded.userId },
+    where: { id: challenge.userId },
   });
 
-  if (!user || user.refresh_token !== refreshToken) {
+  // The password may have changed since the challenge was issued
+  if (
+    !user ||
+    !user.two_factor_enabled ||
+    (user.password_reset_at &&
+      new Date(challenge.iat * 1000) < user.password_reset_at)
+  ) {
     throw new AppError(
       httpStatus.UNAUTHORIZED,
-      'Invalid or expired refresh token',
+      'Login attempt has expired. Please login again.',
     );
   }
 
@@ -258,62 +677,702 @@ const refreshAccessToken = async (refreshToken: string) => {
     );
   }
 
-  // Generate new access token
-  const accessToken = generateAccessToken({
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-  });
+  // Wrong codes count towards the lockout just like wrong passwords
+  await assertNotLocked(user, context);
+
+  if (!(await consumeTwoFactorCode(user, code))) {
+    await registerFailedLogin(
+      user,
+      context,
+      LoginFailureReason.INVALID_TWO_FACTOR_CODE,
+    );
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Invalid two-factor authentication code',
+    );
+  }
+
+  // Start a session for this device
+  const { accessToken, refreshToken } = await createSession(user, context);
+  await registerSuccessfulLogin(user, context);
 
   return {
+    user: toAuthUser(user),
     accessToken,
+    refreshToken,
   };
 };
 
 /**
- * Forgot password - send reset email
+ * Get the OAuth providers users can sign in with
  */
-const forgotPassword = async (email: string) => {
-  const user = await prisma.user.findUnique({
-    where: { email: email.toLowerCase() },
-  });
+const getOAuthProviders = () => {
+  return getEnabledOAuthProviders().map(({ name, displayName }) => ({
+    name,
+    displayName,
+  }));
+};
 
-  // Don't reveal if user exists or not (security best practice)
-  if (!user) {
-    // Return success even if user doesn't exist to prevent email enumeration
-    return {
-      message: 'A password reset link has been sent.',
-    };
-  }
+const getConfiguredOAuthProvider = (providerName: string) => {
+  const provider = getOAuthProvider(providerName);
 
-  // Check if user account is deleted or inactive
-  // Don't reveal specific reason to prevent enumeration
-  if (user.is_deleted || !user.is_active) {
-    // Return success message even if account is deleted/inactive
-    return {
-      message: 'A password reset link has been sent.',
-    };
+  if (!provider) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Sign-in provider not found');
   }
 
-  // Generate reset token
-  const resetToken = generatePasswordResetToken();
-  const hashedToken = hashPasswordResetToken(resetToken);
+  return provider;
+};
 
-  // Set token expiration (1 hour from now)
-  const expiresAt = new Date();
-  expiresAt.setHours(expiresAt.getHours() + 1);
+const getOAuthRedirectUri = (providerName: string) => {
+  return `${config.oauth.redirectBaseUrl.replace(/\/$/, '')}/${providerName}/callback`;
+};
 
-  // Store hashed token and expiration
-  await prisma.user.update({
-    where: { id: user.id },
-    data: {
-      password_reset_token: hashedToken,
-      password_reset_expires: expiresAt,
-    },
-  });
+/**
+ * Start signing in with a provider: keep the PKCE verifier under a random
+ * state and return the provider's consent page to send the user to
+ */
+const startOAuthLogin = async (providerName: string) => {
+  const provider = getConfiguredOAuthProvider(providerName);
 
-  // Create reset URL (frontend URL)
-  const resetUrl = `${config.frontendBaseUrl}/reset-password?token=${resetToken}`;
+  const state = crypto.randomBytes(32).toString('base64url');
+  const { codeVerifier, codeChallenge } = generatePkcePair();
+
+  const authorizationUrl = await provider.getAuthorizationUrl({
+    state,
+    codeChallenge,
+    redirectUri: getOAuthRedirectUri(provider.name),
+  });
+
+  // Abandoned sign-ins leave their state behind, clear them out as we go
+  await prisma.oAuthState.deleteMany({
+    where: { expires_at: { lt: new Date() } },
+  });
+
+  await prisma.oAuthState.create({
+    data: {
+      state,
+      provider: provider.name,
+      code_verifier: codeVerifier,
+      expires_at: new Date(
+        Date.now() + OAUTH_STATE_EXPIRES_IN_MINUTES * 60 * 1000,
+      ),
+    },
+  });
+
+  return {
+    authorizationUrl,
+    state,
+  };
+};
+
+/**
+ * Find the user a provider account belongs to. A provider account we
+ * haven't seen is linked to the user with the same email when the provider
+ * verified that email, otherwise it gets a new user without a password.
+ */
+const findOrCreateOAuthUser = async (
+  providerName: string,
+  displayName: string,
+  profile: OAuthProfile,
+): Promise<{ user: User; isNewUser: boolean }> => {
+  const identity = await prisma.userIdentity.findUnique({
+    where: {
+      provider_provider_user_id: {
+        provider: providerName,
+        provider_user_id: profile.providerUserId,
+      },
+    },
+    include: { user: true },
+  });
+
+  if (identity) {
+    if (identity.email !== profile.email) {
+      await prisma.userIdentity.update({
+        where: { id: identity.id },
+        data: { email: profile.email },
+      });
+    }
+
+    return { user: identity.user, isNewUser: false };
+  }
+
+  if (!profile.email || !profile.emailVerified) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Your ${displayName} account has no verified email address`,
+    );
+  }
+
+  const identityData = {
+    provider: providerName,
+    provider_user_id: profile.providerUserId,
+    email: profile.email,
+  };
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: profile.email },
+  });
+
+  if (existingUser) {
+    // Nobody proved they own the email of an unverified account, so whoever
+    // registered it may not be the provider's user: drop the password and
+    // sessions they might have set up
+    const takeOver = !existingUser.email_verified;
+
+    const [, user] = await prisma.$transaction([
+      prisma.userIdentity.create({
+        data: { ...identityData, user_id: existingUser.id },
+      }),
+      prisma.user.update({
+        where: { id: existingUser.id },
+        data: {
+          email_verified: true,
+          email_verification_token: null,
+          email_verification_expires: null,
+          ...(takeOver && { password: null }),
+        },
+      }),
+      ...(takeOver ? [revokeAllSessions(existingUser.id)] : []),
+    ]);
+
+    return { user, isNewUser: false };
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email: profile.email,
+      name: profile.name || profile.email.split('@')[0],
+      image_url: profile.avatarUrl,
+      // The provider vouches for the email and there is no password
+      email_verified: true,
+      identities: { create: identityData },
+    },
+  });
+
+  return { user, isNewUser: true };
+};
+
+/**
+ * Finish signing in with a provider after it redirected back with a code
+ */
+const completeOAuthLogin = async (
+  providerName: string,
+  payload: OAuthCallbackPayload,
+  context: SessionContext,
+) => {
+  const provider = getConfiguredOAuthProvider(providerName);
+  const { code, state, browserState } = payload;
+
+  // The callback must reach the browser that started the sign-in, or an
+  // attacker could sign the user in to the attacker's account
+  if (!code || !state || state !== browserState) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Invalid sign-in request. Please try again.',
+    );
+  }
+
+  // Each state can only be used once
+  const storedState = await prisma.oAuthState.findUnique({
+    where: { state },
+  });
+  const consumed = storedState
+    ? await prisma.oAuthState.deleteMany({ where: { id: storedState.id } })
+    : null;
+
+  if (
+    !storedState ||
+    !consumed?.count ||
+    storedState.provider !== provider.name ||
+    storedState.expires_at <= new Date()
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Sign-in attempt has expired. Please try again.',
+    );
+  }
+
+  const profile = await provider.getProfile({
+    code,
+    codeVerifier: storedState.code_verifier,
+    redirectUri: getOAuthRedirectUri(provider.name),
+  });
+
+  const { user, isNewUser } = await findOrCreateOAuthUser(
+    provider.name,
+    provider.displayName,
+    profile,
+  );
+
+  // Check if user account is deleted or deactivated
+  if (user.is_deleted || !user.is_active) {
+    await recordLoginAttempt(user.email, context, {
+      userId: user.id,
+      success: false,
+      failureReason: LoginFailureReason.ACCOUNT_DISABLED,
+    });
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      user.is_deleted
+        ? 'Your account has been deleted'
+        : 'Your account has been deactivated. Please contact support.',
+    );
+  }
+
+  // The provider replaces the password, not the second factor
+  if (user.two_factor_enabled) {
+    return {
+      mfaRequired: true as const,
+      mfaToken: generateMfaChallengeToken(user.id),
+    };
+  }
+
+  // Start a session for this device
+  const { accessToken, refreshToken } = await createSession(user, context);
+
+  if (isNewUser) {
+    await recordLoginAttempt(user.email, context, {
+      userId: user.id,
+      success: true,
+    });
+  } else {
+    await registerSuccessfulLogin(user, context);
+  }
+
+  return {
+    mfaRequired: false as const,
+    user: toAuthUser(user),
+    accessToken,
+    refreshToken,
+  };
+};
+
+/**
+ * Get user by id
+ */
+const getMe = async (userId: string, impersonationId?: string) => {
+  const [user, impersonation] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+    }),
+    impersonationId
+      ? prisma.impersonation.findUnique({
+          where: { id: impersonationId },
+          select: {
+            id: true,
+            reason: true,
+            expires_at: true,
+            created_at: true,
+            admin: { select: { id: true, email: true, name: true } },
+          },
+        })
+      : null,
+  ]);
+
+  if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  // Check if user account is deleted
+  if (user.is_deleted) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'User not found or account has been deleted',
+    );
+  }
+
+  // Check if user account is active
+  if (!user.is_active) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Your account has been deactivated. Please contact support.',
+    );
+  }
+
+  return {
+    user: {
+      ...toProfile(user),
+      // Lets the frontend show a banner while support staff act as the user
+      impersonation,
+    },
+  };
+};
+
+/**
+ * Email a link that confirms the new address. The email only changes once
+ * the link is used, until then it is kept as the pending email.
+ */
+const sendEmailChangeConfirmation = async (user: User, newEmail: string) => {
+  const changeToken = generateEmailChangeToken();
+
+  // Set token expiration (24 hours from now)
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + 24);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      pending_email: newEmail,
+      email_change_token: hashEmailChangeToken(changeToken),
+      email_change_expires: expiresAt,
+    },
+  });
+
+  const confirmUrl = `${config.frontendBaseUrl}/confirm-email-change?token=${changeToken}`;
+
+  const emailBody = AuthTemplate.emailChangeTemplate({
+    userName: user.name,
+    newEmail,
+    confirmUrl,
+  });
+
+  try {
+    await sendMail(newEmail, 'Confirm Your New Email Address', emailBody);
+  } catch (error) {
+    // Clear the pending change if email fails
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        pending_email: null,
+        email_change_token: null,
+        email_change_expires: null,
+      },
+    });
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      'Failed to send the email change confirmation',
+    );
+  }
+};
+
+/**
+ * Update the user's own profile. A new avatar replaces the stored one, and
+ * a new email address has to be confirmed before it takes effect.
+ */
+const updateProfile = async (
+  userId: string,
+  payload: UpdateProfilePayload,
+  avatar?: Express.Multer.File,
+) => {
+  const user = await findUserOrThrow(userId);
+
+  if (avatar) {
+    // The shared upload filter also lets documents through
+    if (!/\.(jpe?g|png|gif|webp|heic|heif)$/i.test(avatar.originalname)) {
+      throw new AppError(httpStatus.BAD_REQUEST, 'Avatar must be an image');
+    }
+
+    if (avatar.size > AVATAR_MAX_SIZE_BYTES) {
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Avatar must be at most ${AVATAR_MAX_SIZE_BYTES / (1024 * 1024)}MB`,
+      );
+    }
+  }
+
+  const newEmail = payload.email?.trim().toLowerCase();
+  const isEmailChange = !!newEmail && newEmail !== user.email;
+
+  if (isEmailChange) {
+    const existingUser = await prisma.user.findUnique({
+      where: { email: newEmail },
+      select: { id: true },
+    });
+
+    if (existingUser) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'User with this email already exists',
+      );
+    }
+  }
+
+  // HEIC photos are converted to JPEG on upload
+  const uploadedAvatar = avatar
+    ? await uploadToR2(avatar, { folder: `avatars/${user.id}` })
+    : null;
+
+  const phone = payload.phone?.trim();
+
+  let updatedUser: User;
+  try {
+    updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        name: payload.name?.trim(),
+        phone: phone === '' ? null : phone,
+        image_url: uploadedAvatar?.url,
+      },
+    });
+  } catch (error) {
+    // Don't leave an orphaned file behind if the profile was not updated
+    if (uploadedAvatar) {
+      await deleteFromR2(uploadedAvatar.key).catch((cleanupError) =>
+        logger.error('Failed to clean up uploaded avatar:', cleanupError),
+      );
+    }
+    throw error;
+  }
+
+  // Remove the replaced avatar, unless it isn't ours (e.g. an OAuth picture)
+  const previousAvatarKey =
+    uploadedAvatar && user.image_url && extractKeyFromUrl(user.image_url);
+
+  if (previousAvatarKey && previousAvatarKey.startsWith('avatars/')) {
+    await deleteFromR2(previousAvatarKey).catch((error) =>
+      logger.error('Failed to delete previous avatar:', error),
+    );
+  }
+
+  if (isEmailChange) {
+    await sendEmailChangeConfirmation(updatedUser, newEmail);
+    updatedUser = { ...updatedUser, pending_email: newEmail };
+  }
+
+  return {
+    user: toProfile(updatedUser),
+    emailChangeRequested: isEmailChange,
+  };
+};
+
+/**
+ * Switch to the new email address using the token from the confirmation
+ * link
+ */
+const confirmEmailChange = async (token: string) => {
+  // Hash the token to compare with stored hash
+  const hashedToken = hashEmailChangeToken(token);
+
+  const user = await prisma.user.findFirst({
+    where: {
+      email_change_token: hashedToken,
+      email_change_expires: {
+        gt: new Date(), // Token not expired
+      },
+    },
+  });
+
+  if (!user || user.is_deleted || !user.pending_email) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Invalid or expired email change token',
+    );
+  }
+
+  const previousEmail = user.email;
+  const newEmail = user.pending_email;
+
+  try {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        email: newEmail,
+        // Confirming the link proves the new address is theirs
+        email_verified: true,
+        email_verification_token: null,
+        email_verification_expires: null,
+        pending_email: null,
+        email_change_token: null,
+        email_change_expires: null,
+      },
+    });
+  } catch (error) {
+    // Someone registered the address after the change was requested
+    if (isUniqueConstraintError(error)) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'User with this email already exists',
+      );
+    }
+    throw error;
+  }
+
+  // Let the old address know in case the change wasn't the user's doing
+  const emailBody = AuthTemplate.emailChangedNoticeTemplate({
+    userName: user.name,
+    newEmail,
+  });
+
+  try {
+    await sendMail(previousEmail, 'Your Email Address Was Changed', emailBody);
+  } catch (error) {
+    logger.error(
+      `Failed to send email change notice to ${previousEmail}:`,
+      error,
+    );
+  }
+
+  return {
+    message: 'Email address has been changed successfully',
+  };
+};
+
+/**
+ * Issue new tokens for a session, rotating its refresh token. Each session
+ * is a token family: presenting a refresh token that was already rotated
+ * means it was stolen or replayed, so the whole session is revoked.
+ */
+const refreshAccessToken = async (
+  refreshToken: string,
+  context: SessionContext,
+) => {
+  if (!refreshToken) {
+    throw new AppError(httpStatus.UNAUTHORIZED, 'Refresh token is required');
+  }
+
+  // Verify refresh token
+  let decoded;
+  try {
+    decoded = verifyRefreshToken(refreshToken);
+  } catch (error) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Invalid or expired refresh token',
+    );
+  }
+
+  // Find the session the refresh token was issued for
+  const session = decoded.sessionId
+    ? await prisma.session.findUnique({
+        where: { id: decoded.sessionId },
+        include: { user: true },
+      })
+    : null;
+
+  if (!session || session.user_id !== decoded.userId) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Invalid or expired refresh token',
+    );
+  }
+
+  const refreshTokenHash = hashRefreshToken(refreshToken);
+
+  const revokeReusedSession = async () => {
+    await prisma.session.updateMany({
+      where: { id: session.id, revoked_at: null },
+      data: { revoked_at: new Date() },
+    });
+
+    logger.warn(
+      `Security: refresh token reuse detected for user ${session.user_id}, session ${session.id} revoked (ip: ${context.ipAddress}, user agent: ${context.userAgent})`,
+    );
+
+    return new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Refresh token has already been used. Please login again.',
+    );
+  };
+
+  // A genuine token for this session that is no longer its latest one
+  if (session.refresh_token_hash !== refreshTokenHash) {
+    throw await revokeReusedSession();
+  }
+
+  if (session.revoked_at || session.expires_at <= new Date()) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Invalid or expired refresh token',
+    );
+  }
+
+  const { user } = session;
+
+  // Check if user account is deleted
+  if (user.is_deleted) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Your account has been deleted',
+    );
+  }
+
+  // Check if user account is active
+  if (!user.is_active) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Your account has been deactivated. Please contact support.',
+    );
+  }
+
+  const tokenPayload = {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId: session.id,
+  };
+
+  const newRefreshToken = generateRefreshToken(tokenPayload);
+  const { exp } = verifyRefreshToken(newRefreshToken);
+
+  // Swap the token only if nobody rotated it in the meantime
+  const rotated = await prisma.session.updateMany({
+    where: {
+      id: session.id,
+      refresh_token_hash: refreshTokenHash,
+      revoked_at: null,
+    },
+    data: {
+      refresh_token_hash: hashRefreshToken(newRefreshToken),
+      last_used_at: new Date(),
+      ip_address: context.ipAddress,
+      expires_at: new Date(exp * 1000),
+    },
+  });
+
+  if (rotated.count === 0) {
+    throw await revokeReusedSession();
+  }
+
+  return {
+    accessToken: generateAccessToken(tokenPayload),
+    refreshToken: newRefreshToken,
+  };
+};
+
+/**
+ * Forgot password - send reset email
+ */
+const forgotPassword = async (email: string) => {
+  const user = await prisma.user.findUnique({
+    where: { email: email.toLowerCase() },
+  });
+
+  // Don't reveal if user exists or not (security best practice)
+  if (!user) {
+    // Return success even if user doesn't exist to prevent email enumeration
+    return {
+      message: 'A password reset link has been sent.',
+    };
+  }
+
+  // Check if user account is deleted or inactive
+  // Don't reveal specific reason to prevent enumeration
+  if (user.is_deleted || !user.is_active) {
+    // Return success message even if account is deleted/inactive
+    return {
+      message: 'A password reset link has been sent.',
+    };
+  }
+
+  // Generate reset token
+  const resetToken = generatePasswordResetToken();
+  const hashedToken = hashPasswordResetToken(resetToken);
+
+  // Set token expiration (1 hour from now)
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + 1);
+
+  // Store hashed token and expiration
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      password_reset_token: hashedToken,
+      password_reset_expires: expiresAt,
+    },
+  });
+
+  // Create reset URL (frontend URL)
+  const resetUrl = `${config.frontendBaseUrl}/reset-password?token=${resetToken}`;
 
   // Send email
   const emailBody = AuthTemplate.passwordResetEmailTemplate({
@@ -333,161 +1392,1127 @@ const forgotPassword = async (email: string) => {
       },
     });
     throw new AppError(
-      httpStatus.INTERNAL_SERVER_ERROR,
-      'Failed to send password reset email',
+      httpStatus.INTERNAL_SERVER_ERROR,
+      'Failed to send password reset email',
+    );
+  }
+
+  return {
+    message:
+      'If an account with that email exists, a password reset link has been sent.',
+  };
+};
+
+/**
+ * Reset password using reset token
+ */
+const resetPassword = async (payload: ResetPasswordPayload) => {
+  const { token, password } = payload;
+
+  // Hash the token to compare with stored hash
+  const hashedToken = hashPasswordResetToken(token);
+
+  // Find user with this token and check expiration
+  const user = await prisma.user.findFirst({
+    where: {
+      password_reset_token: hashedToken,
+      password_reset_expires: {
+        gt: new Date(), // Token not expired
+      },
+    },
+  });
+
+  if (!user) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Invalid or expired password reset token',
+    );
+  }
+
+  // Check if user account is deleted
+  if (user.is_deleted) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Cannot reset password for a deleted account',
+    );
+  }
+
+  // Check if user account is active
+  if (!user.is_active) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Cannot reset password for a deactivated account',
+    );
+  }
+
+  // Hash new password
+  const hashedPassword = await hashPassword(password);
+
+  // Update password, clear reset token and end all sessions for security
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: hashedPassword,
+        password_reset_token: null,
+        password_reset_expires: null,
+        password_reset_at: new Date(),
+        // Resetting proves the user owns the email, so lift any lockout
+        // and its escalation
+        failed_login_attempts: 0,
+        lockout_count: 0,
+        locked_until: null,
+      },
+    }),
+    revokeAllSessions(user.id),
+  ]);
+
+  return {
+    message: 'Password has been reset successfully',
+  };
+};
+
+/**
+ * Change password (for authenticated users)
+ */
+const changePassword = async (payload: ChangePasswordPayload) => {
+  const { userId, currentPassword, newPassword } = payload;
+
+  // Find user
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  // Check if user account is deleted
+  if (user.is_deleted) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Your account has been deleted',
+    );
+  }
+
+  // Check if user account is active
+  if (!user.is_active) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Your account has been deactivated. Please contact support.',
+    );
+  }
+
+  // Accounts created through OAuth set their first password via the
+  // forgot password flow
+  if (!user.password) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Your account has no password yet. Use forgot password to set one.',
+    );
+  }
+
+  // Verify current password
+  const isPasswordValid = await comparePassword(currentPassword, user.password);
+
+  if (!isPasswordValid) {
+    throw new AppError(
+      httpStatus.UNAUTHORIZED,
+      'Current password is incorrect',
+    );
+  }
+
+  // Hash new password
+  const hashedPassword = await hashPassword(newPassword);
+
+  // Update password and end all sessions for security
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: hashedPassword,
+        password_reset_at: new Date(),
+      },
+    }),
+    revokeAllSessions(user.id),
+  ]);
+
+  return {
+    message: 'Password has been changed successfully',
+  };
+};
+
+/**
+ * Verify email address using verification token
+ */
+const verifyEmail = async (token: string) => {
+  // Hash the token to compare with stored hash
+  const hashedToken = hashEmailVerificationToken(token);
+
+  const user = await prisma.user.findFirst({
+    where: {
+      email_verification_token: hashedToken,
+      email_verification_expires: {
+        gt: new Date(), // Token not expired
+      },
+    },
+  });
+
+  if (!user || user.is_deleted) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Invalid or expired email verification token',
+    );
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      email_verified: true,
+      email_verification_token: null,
+      email_verification_expires: null,
+    },
+  });
+
+  return {
+    message: 'Email has been verified successfully',
+  };
+};
+
+/**
+ * Resend the verification email (for authenticated users)
+ */
+const resendVerification = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  if (user.email_verified) {
+    throw new AppError(httpStatus.BAD_REQUEST, 'Email is already verified');
+  }
+
+  try {
+    await sendVerificationEmail(user);
+  } catch (error) {
+    // Clear the verification token if email fails
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        email_verification_token: null,
+        email_verification_expires: null,
+      },
+    });
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      'Failed to send verification email',
+    );
+  }
+
+  return {
+    message: 'A verification link has been sent to your email address.',
+  };
+};
+
+/**
+ * Get the user's active sessions, most recently used first
+ */
+const getSessions = async (userId: string, currentSessionId: string) => {
+  const sessions = await prisma.session.findMany({
+    where: {
+      user_id: userId,
+      revoked_at: null,
+      expires_at: { gt: new Date() },
+    },
+    orderBy: { last_used_at: 'desc' },
+    select: {
+      id: true,
+      device_label: true,
+      user_agent: true,
+      ip_address: true,
+      created_at: true,
+      last_used_at: true,
+      expires_at: true,
+    },
+  });
+
+  return sessions.map((session) => ({
+    ...session,
+    is_current: session.id === currentSessionId,
+  }));
+};
+
+/**
+ * Revoke one of the user's sessions, logging that device out
+ */
+const revokeSession = async (userId: string, sessionId: string) => {
+  const result = await prisma.session.updateMany({
+    where: { id: sessionId, user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
+
+  if (result.count === 0) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Session not found');
+  }
+
+  return {
+    message: 'Session revoked successfully',
+  };
+};
+
+/**
+ * Log out everywhere except the current session
+ */
+const revokeOtherSessions = async (
+  userId: string,
+  currentSessionId: string,
+) => {
+  const result = await prisma.session.updateMany({
+    where: {
+      user_id: userId,
+      id: { not: currentSessionId },
+      revoked_at: null,
+    },
+    data: { revoked_at: new Date() },
+  });
+
+  return {
+    message: `Logged out of ${result.count} other session${result.count === 1 ? '' : 's'}`,
+  };
+};
+
+/**
+ * Logout user (revoke the current session)
+ */
+const logout = async (userId: string, sessionId: string) => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
+
+  return {
+    message: 'Logged out successfully',
+  };
+};
+
+/**
+ * End an impersonation, so its access token stops working
+ */
+const endImpersonation = async (impersonationId?: string) => {
+  if (!impersonationId) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'You are not impersonating a user',
+    );
+  }
+
+  await prisma.impersonation.updateMany({
+    where: { id: impersonationId, ended_at: null },
+    data: { ended_at: new Date() },
+  });
+
+  logger.info(`Impersonation ${impersonationId} ended`);
+
+  return {
+    message: 'Impersonation ended successfully',
+  };
+};
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  organization_id: true,
+  last_used_at: true,
+  expires_at: true,
+  created_at: true,
+} satisfies Prisma.ApiKeySelect;
+
+/**
+ * Create an API key for scripts and integrations. The key is only returned
+ * here, just its hash is stored. A key created in an organization only
+ * works there.
+ */
+const createApiKey = async (
+  workspace: Workspace,
+  payload: CreateApiKeyPayload,
+) => {
+  const userId = workspace.userId;
+  const now = new Date();
+
+  const activeKeyCount = await prisma.apiKey.count({
+    where: {
+      user_id: userId,
+      revoked_at: null,
+      OR: [{ expires_at: null }, { expires_at: { gt: now } }],
+    },
+  });
+
+  if (activeKeyCount >= MAX_API_KEYS_PER_USER) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `You can have at most ${MAX_API_KEYS_PER_USER} active API keys. Revoke one to create another.`,
     );
   }
 
-  return {
-    message:
-      'If an account with that email exists, a password reset link has been sent.',
-  };
+  let expiresAt: Date | null = null;
+  if (payload.expiresInDays) {
+    expiresAt = new Date(now);
+    expiresAt.setDate(expiresAt.getDate() + payload.expiresInDays);
+  }
+
+  const { key, prefix, secretHash } = generateApiKey();
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      user_id: userId,
+      organization_id: workspace.organizationId,
+      name: payload.name.trim(),
+      prefix,
+      secret_hash: secretHash,
+      // Drop duplicates
+      scopes: [...new Set(payload.scopes)],
+      expires_at: expiresAt,
+    },
+    select: apiKeySelect,
+  });
+
+  return { ...apiKey, key };
 };
 
 /**
- * Reset password using reset token
+ * Get the user's API keys that haven't been revoked, newest first
  */
-const resetPassword = async (payload: ResetPasswordPayload) => {
-  const { token, password } = payload;
+const getApiKeys = async (userId: string) => {
+  return prisma.apiKey.findMany({
+    where: { user_id: userId, revoked_at: null },
+    orderBy: { created_at: 'desc' },
+    select: apiKeySelect,
+  });
+};
 
-  // Hash the token to compare with stored hash
-  const hashedToken = hashPasswordResetToken(token);
+/**
+ * Revoke one of the user's API keys
+ */
+const revokeApiKey = async (userId: string, apiKeyId: string) => {
+  const result = await prisma.apiKey.updateMany({
+    where: { id: apiKeyId, user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
 
-  // Find user with this token and check expiration
-  const user = await prisma.user.findFirst({
-    where: {
-      password_reset_token: hashedToken,
-      password_reset_expires: {
-        gt: new Date(), // Token not expired
+  if (result.count === 0) {
+    throw new AppError(httpStatus.NOT_FOUND, 'API key not found');
+  }
+
+  return {
+    message: 'API key revoked successfully',
+  };
+};
+
+/**
+ * Get the user's sign-in history, newest first
+ */
+const getLoginHistory = async (userId: string, options: IPaginationOptions) => {
+  const { page, limit, skip } = calculatePagination(options);
+
+  const [attempts, total] = await Promise.all([
+    prisma.loginAttempt.findMany({
+      where: { user_id: userId },
+      skip,
+      take: limit,
+      orderBy: { created_at: 'desc' },
+      select: {
+        id: true,
+        success: true,
+        failure_reason: true,
+        device_label: true,
+        user_agent: true,
+        ip_address: true,
+        created_at: true,
       },
+    }),
+    prisma.loginAttempt.count({ where: { user_id: userId } }),
+  ]);
+
+  return {
+    meta: {
+      page,
+      limit,
+      total,
     },
+    data: attempts,
+  };
+};
+
+const findUserOrThrow = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
   });
 
   if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  return user;
+};
+
+/**
+ * Start 2FA enrollment: generate a secret for the authenticator app. 2FA
+ * stays off until a code from the app is confirmed.
+ */
+const setupTwoFactor = async (userId: string) => {
+  const user = await findUserOrThrow(userId);
+
+  if (user.two_factor_enabled) {
     throw new AppError(
       httpStatus.BAD_REQUEST,
-      'Invalid or expired password reset token',
+      'Two-factor authentication is already enabled',
     );
   }
 
-  // Check if user account is deleted
-  if (user.is_deleted) {
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      two_factor_secret: encryptTwoFactorSecret(secret),
+      two_factor_recovery_codes: [],
+      two_factor_last_used_step: null,
+    },
+  });
+
+  return {
+    secret,
+    otpauthUrl: buildOtpauthUri({
+      secret,
+      accountName: user.email,
+      issuer: config.twoFactor.issuer,
+    }),
+  };
+};
+
+/**
+ * Finish 2FA enrollment with a code from the authenticator app and hand
+ * out the recovery codes. They are only stored hashed, so this is the
+ * only time the user sees them.
+ */
+const confirmTwoFactor = async (userId: string, code: string) => {
+  const user = await findUserOrThrow(userId);
+
+  if (user.two_factor_enabled) {
     throw new AppError(
       httpStatus.BAD_REQUEST,
-      'Cannot reset password for a deleted account',
+      'Two-factor authentication is already enabled',
     );
   }
 
-  // Check if user account is active
-  if (!user.is_active) {
+  if (!user.two_factor_secret) {
     throw new AppError(
       httpStatus.BAD_REQUEST,
-      'Cannot reset password for a deactivated account',
+      'Start two-factor authentication setup first',
     );
   }
 
-  // Hash new password
-  const hashedPassword = await hashPassword(password);
+  if (!(await consumeTwoFactorCode(user, code))) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Invalid two-factor authentication code',
+    );
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
 
-  // Update password and clear reset token
   await prisma.user.update({
     where: { id: user.id },
     data: {
-      password: hashedPassword,
-      password_reset_token: null,
-      password_reset_expires: null,
-      password_reset_at: new Date(),
-      refresh_token: null, // Invalidate all refresh tokens for security
+      two_factor_enabled: true,
+      two_factor_recovery_codes: recoveryCodes.map(hashRecoveryCode),
     },
   });
 
   return {
-    message: 'Password has been reset successfully',
+    recoveryCodes,
   };
 };
 
 /**
- * Change password (for authenticated users)
+ * Replace the recovery codes, e.g. after using some of them
  */
-const changePassword = async (payload: ChangePasswordPayload) => {
-  const { userId, currentPassword, newPassword } = payload;
-
-  // Find user
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-  });
+const regenerateRecoveryCodes = async (userId: string, code: string) => {
+  const user = await findUserOrThrow(userId);
 
-  if (!user) {
-    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  if (!user.two_factor_enabled) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Two-factor authentication is not enabled',
+    );
   }
 
-  // Check if user account is deleted
-  if (user.is_deleted) {
+  if (!(await consumeTwoFactorCode(user, code))) {
     throw new AppError(
       httpStatus.UNAUTHORIZED,
-      'Your account has been deleted',
+      'Invalid two-factor authentication code',
     );
   }
 
-  // Check if user account is active
-  if (!user.is_active) {
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      two_factor_recovery_codes: recoveryCodes.map(hashRecoveryCode),
+    },
+  });
+
+  return {
+    recoveryCodes,
+  };
+};
+
+/**
+ * Turn 2FA off, which takes both the password and a code
+ */
+const disableTwoFactor = async (
+  userId: string,
+  payload: DisableTwoFactorPayload,
+) => {
+  const user = await findUserOrThrow(userId);
+
+  if (!user.two_factor_enabled) {
     throw new AppError(
-      httpStatus.UNAUTHORIZED,
-      'Your account has been deactivated. Please contact support.',
+      httpStatus.BAD_REQUEST,
+      'Two-factor authentication is not enabled',
     );
   }
 
-  // Verify current password
-  const isPasswordValid = await comparePassword(currentPassword, user.password);
+  // Accounts created through OAuth have no password to check
+  const isPasswordValid =
+    !user.password ||
+    (!!payload.password &&
+      (await comparePassword(payload.password, user.password)));
 
   if (!isPasswordValid) {
+    throw new AppError(httpStatus.UNAUTHORIZED, 'Password is incorrect');
+  }
+
+  if (!(await consumeTwoFactorCode(user, payload.code))) {
     throw new AppError(
       httpStatus.UNAUTHORIZED,
-      'Current password is incorrect',
+      'Invalid two-factor authentication code',
     );
   }
 
-  // Hash new password
-  const hashedPassword = await hashPassword(newPassword);
-
-  // Update password and invalidate refresh tokens
   await prisma.user.update({
     where: { id: user.id },
     data: {
-      password: hashedPassword,
-      password_reset_at: new Date(),
-      refresh_token: null, // Invalidate all refresh tokens for security
+      two_factor_enabled: false,
+      two_factor_secret: null,
+      two_factor_recovery_codes: [],
+      two_factor_last_used_step: null,
     },
   });
 
   return {
-    message: 'Password has been changed successfully',
+    message: 'Two-factor authentication has been disabled',
   };
 };
 
+const accountActionDescriptions: Record<AccountAction, string> = {
+  account_deletion: 'delete your account',
+  account_export: 'export your personal data',
+};
+
 /**
- * Logout user (invalidate refresh token)
+ * Email the link that confirms an account action
  */
-const logout = async (userId: string) => {
-  await prisma.user.update({
+const sendAccountActionConfirmation = async (
+  user: User,
+  action: AccountAction,
+) => {
+  const token = generateAccountActionToken(user.id, action);
+  const confirmUrl = `${config.frontendBaseUrl}/confirm-account-action?action=${action}&token=${token}`;
+
+  const emailBody = AuthTemplate.accountActionTemplate({
+    userName: user.name,
+    actionDescription: accountActionDescriptions[action],
+    confirmUrl,
+  });
+
+  try {
+    await sendMail(user.email, "Confirm It's You", emailBody);
+  } catch (error) {
+    logger.error('Failed to send account action confirmation:', error);
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      'Failed to send confirmation email. Please try again later.',
+    );
+  }
+};
+
+/**
+ * Make sure the account owner, not just someone holding an access token,
+ * asked for a sensitive action: the password, else a 2FA code, else a link
+ * emailed to the account. Returns false when that link was just sent.
+ */
+const reauthenticate = async (
+  user: User,
+  action: AccountAction,
+  payload: ReauthenticationPayload,
+): Promise<boolean> => {
+  if (user.password) {
+    const isPasswordValid =
+      !!payload.password &&
+      (await comparePassword(payload.password, user.password));
+
+    if (!isPasswordValid) {
+      throw new AppError(httpStatus.UNAUTHORIZED, 'Password is incorrect');
+    }
+
+    return true;
+  }
+
+  // Accounts created through OAuth have no password to check
+  if (user.two_factor_enabled) {
+    if (!payload.code || !(await consumeTwoFactorCode(user, payload.code))) {
+      throw new AppError(
+        httpStatus.UNAUTHORIZED,
+        'Invalid two-factor authentication code',
+      );
+    }
+
+    return true;
+  }
+
+  if (!payload.confirmationToken) {
+    await sendAccountActionConfirmation(user, action);
+    return false;
+  }
+
+  assertAccountActionToken(
+    user.id,
+    action,
+    payload.confirmationToken,
+    'Invalid or expired confirmation link',
+  );
+
+  return true;
+};
+
+/**
+ * Make sure an account action token was issued to the user for the action
+ */
+const assertAccountActionToken = (
+  userId: string,
+  action: AccountAction,
+  token: string,
+  message: string,
+) => {
+  let tokenUserId: string | undefined;
+  try {
+    tokenUserId = verifyAccountActionToken(token, action).userId;
+  } catch {
+    tokenUserId = undefined;
+  }
+
+  if (tokenUserId !== userId) {
+    throw new AppError(httpStatus.UNAUTHORIZED, message);
+  }
+};
+
+/**
+ * Re-authenticate before exporting the user's personal data. Hands out the
+ * token that downloads the export, or emails a link carrying one.
+ */
+const confirmAccountExport = async (
+  userId: string,
+  payload: ReauthenticationPayload,
+) => {
+  const user = await findUserOrThrow(userId);
+
+  const confirmed = await reauthenticate(user, 'account_export', payload);
+
+  return confirmed
+    ? {
+        confirmationRequired: false,
+        exportToken: generateAccountActionToken(user.id, 'account_export'),
+        message: 'Export confirmed',
+      }
+    : {
+        confirmationRequired: true,
+        message: 'We have emailed you a link to confirm the export',
+      };
+};
+
+/**
+ * Make sure the export was confirmed through POST /me/export/confirm or the
+ * emailed link
+ */
+const assertAccountExportToken = (userId: string, token: string) => {
+  assertAccountActionToken(
+    userId,
+    'account_export',
+    token,
+    'Invalid or expired export token. Confirm the export again.',
+  );
+};
+
+/**
+ * Delete the user's own account. It is only marked deleted and logged out
+ * everywhere for now, its personal data is erased after the grace period.
+ */
+const deleteAccount = async (
+  userId: string,
+  payload: ReauthenticationPayload,
+) => {
+  const user = await findUserOrThrow(userId);
+
+  if (!(await reauthenticate(user, 'account_deletion', payload))) {
+    return {
+      confirmationRequired: true,
+      message: 'We have emailed you a link to confirm the deletion',
+    };
+  }
+
+  // Don't leave organizations with members but nobody to manage them
+  const ownedOrganizations = await prisma.organization.findMany({
+    where: {
+      members: { some: { user_id: user.id, role: OrganizationRole.OWNER } },
+      AND: [
+        {
+          members: {
+            none: { role: OrganizationRole.OWNER, user_id: { not: user.id } },
+          },
+        },
+        { members: { some: { user_id: { not: user.id } } } },
+      ],
+    },
+    select: { name: true },
+  });
+
+  if (ownedOrganizations.length > 0) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `You are the only owner of ${ownedOrganizations
+        .map(({ name }) => `"${name}"`)
+        .join(', ')}. Make another member an owner first.`,
+    );
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        is_deleted: true,
+        deleted_at: new Date(),
+      },
+    }),
+    revokeAllSessions(user.id),
+    prisma.apiKey.updateMany({
+      where: { user_id: user.id, revoked_at: null },
+      data: { revoked_at: new Date() },
+    }),
+  ]);
+
+  return {
+    confirmationRequired: false,
+    message: `Your account has been deleted. Your personal data will be erased in ${config.accountDeletion.gracePeriodDays} days.`,
+  };
+};
+
+/**
+ * Erase the personal data of a deleted account: stored resume files and
+ * candidates, the uploaded avatar, sign-in history, linked providers,
+ * organization invitations sent to the user, and the user's own details.
+ * Jobs, payments and the credit ledger stay for bookkeeping.
+ */
+const purgeAccount = async (userId: string) => {
+  const [user, candidates] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true, image_url: true },
+    }),
+    prisma.candidate.findMany({
+      // Jobs of organizations stay with the organization
+      where: {
+        job: { user_id: userId, organization_id: null },
+        resume_url: { not: null },
+      },
+      select: { resume_url: true },
+    }),
+  ]);
+
+  const keys = candidates.flatMap(({ resume_url }) => {
+    const key = resume_url && extractKeyFromUrl(resume_url);
+    return key ? [key] : [];
+  });
+
+  // Uploaded avatars only, not pictures hosted by an OAuth provider
+  const avatarKey = user.image_url && extractKeyFromUrl(user.image_url);
+  if (avatarKey && avatarKey.startsWith('avatars/')) {
+    keys.push(avatarKey);
+  }
+
+  // R2 deletes at most 1000 objects per request. Files go first: if this
+  // fails the account is left as is and retried on the next run.
+  for (let i = 0; i < keys.length; i += 1000) {
+    await deleteMultipleFromR2(keys.slice(i, i + 1000));
+  }
+
+  await prisma.$transaction([
+    prisma.candidate.deleteMany({
+      where: { job: { user_id: userId, organization_id: null } },
+    }),
+    prisma.session.deleteMany({ where: { user_id: userId } }),
+    prisma.loginAttempt.deleteMany({ where: { user_id: userId } }),
+    prisma.userIdentity.deleteMany({ where: { user_id: userId } }),
+    prisma.apiKey.deleteMany({ where: { user_id: userId } }),
+    prisma.organizationMember.deleteMany({ where: { user_id: userId } }),
+    // Invitations, pending or not, still carry the original email address
+    prisma.organizationInvitation.deleteMany({
+      where: { email: { equals: user.email, mode: 'insensitive' } },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-${userId}@deleted.invalid`,
+        name: 'Deleted User',
+        phone: null,
+        image_url: null,
+        password: null,
+        email_verification_token: null,
+        email_verification_expires: null,
+        pending_email: null,
+        email_change_token: null,
+        email_change_expires: null,
+        password_reset_token: null,
+        password_reset_expires: null,
+        two_factor_enabled: false,
+        two_factor_secret: null,
+        two_factor_recovery_codes: [],
+        two_factor_last_used_step: null,
+        anonymized_at: new Date(),
+      },
+    }),
+  ]);
+};
+
+/**
+ * Erase accounts whose deletion grace period is over. Runs on a schedule
+ * and handles a batch per run.
+ */
+const purgeDeletedAccounts = async () => {
+  const cutoff = new Date(
+    Date.now() - config.accountDeletion.gracePeriodDays * 24 * 60 * 60 * 1000,
+  );
+
+  const users = await prisma.user.findMany({
+    where: {
+      is_deleted: true,
+      anonymized_at: null,
+      deleted_at: { lte: cutoff },
+    },
+    orderBy: { deleted_at: 'asc' },
+    take: ACCOUNT_PURGE_BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let purged = 0;
+
+  for (const { id } of users) {
+    try {
+      await purgeAccount(id);
+      purged++;
+    } catch (error) {
+      logger.error(`Failed to purge deleted account ${id}:`, error);
+    }
+  }
+
+  if (purged > 0) {
+    logger.info(`Purged ${purged} deleted account${purged === 1 ? '' : 's'}`);
+  }
+
+  return purged;
+};
+
+/**
+ * Collect everything stored about the user, without secrets such as the
+ * password hash or 2FA secret
+ */
+const getAccountExport = async (userId: string) => {
+  const user = await prisma.user.findUnique({
     where: { id: userId },
-    data: { refresh_token: null },
+    select: {
+      id: true,
+      email: true,
+      pending_email: true,
+      name: true,
+      phone: true,
+      image_url: true,
+      role: true,
+      email_verified: true,
+      two_factor_enabled: true,
+      credit_balance: true,
+      created_at: true,
+      updated_at: true,
+    },
   });
 
+  if (!user) {
+    throw new AppError(httpStatus.NOT_FOUND, 'User not found');
+  }
+
+  const [
+    identities,
+    jobs,
+    payments,
+    creditLogs,
+    sessions,
+    loginHistory,
+    apiKeys,
+    memberships,
+  ] = await Promise.all([
+    prisma.userIdentity.findMany({
+      where: { user_id: userId },
+      select: { provider: true, email: true, created_at: true },
+    }),
+    prisma.job.findMany({
+      where: { user_id: userId, organization_id: null },
+      orderBy: { created_at: 'asc' },
+      include: {
+        candidates: {
+          orderBy: { created_at: 'asc' },
+          omit: { resume_text: true },
+        },
+      },
+    }),
+    prisma.payment.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: 'asc' },
+      include: {
+        package: { select: { name: true } },
+        refunds: {
+          select: {
+            id: true,
+            amount: true,
+            credits: true,
+            credits_clawed_back: true,
+            reason: true,
+            created_at: true,
+          },
+        },
+      },
+    }),
+    prisma.creditLog.findMany({
+      where: { user_id: userId, organization_id: null },
+      orderBy: { created_at: 'asc' },
+    }),
+    prisma.session.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: 'asc' },
+      omit: { refresh_token_hash: true },
+    }),
+    prisma.loginAttempt.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: 'asc' },
+    }),
+    prisma.apiKey.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: 'asc' },
+      omit: { secret_hash: true },
+    }),
+    prisma.organizationMember.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: 'asc' },
+      select: {
+        role: true,
+        created_at: true,
+        organization: { select: { id: true, name: true } },
+      },
+    }),
+  ]);
+
   return {
-    message: 'Logged out successfully',
+    exported_at: new Date(),
+    user,
+    identities,
+    organizations: memberships,
+    jobs,
+    payments,
+    credit_logs: creditLogs,
+    sessions,
+    login_history: loginHistory,
+    api_keys: apiKeys,
   };
 };
 
+/**
+ * The account export as a ZIP archive with one JSON file per section
+ */
+const getAccountExportZip = async (userId: string) => {
+  const data = await getAccountExport(userId);
+
+  const toJson = (value: unknown) =>
+    Buffer.from(JSON.stringify(value, null, 2));
+
+  return createZip([
+    {
+      name: 'account.json',
+      data: toJson({
+        exported_at: data.exported_at,
+        user: data.user,
+        identities: data.identities,
+        organizations: data.organizations,
+      }),
+    },
+    { name: 'jobs.json', data: toJson(data.jobs) },
+    { name: 'payments.json', data: toJson(data.payments) },
+    { name: 'credit_logs.json', data: toJson(data.credit_logs) },
+    { name: 'sessions.json', data: toJson(data.sessions) },
+    { name: 'login_history.json', data: toJson(data.login_history) },
+    { name: 'api_keys.json', data: toJson(data.api_keys) },
+  ]);
+};
+
 const AuthService = {
   register,
   login,
+  loginWithTwoFactor,
+  getOAuthProviders,
+  startOAuthLogin,
+  completeOAuthLogin,
   getMe,
+  updateProfile,
+  confirmEmailChange,
   refreshAccessToken,
   forgotPassword,
   resetPassword,
   changePassword,
+  verifyEmail,
+  resendVerification,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  revokeAllSessions,
   logout,
+  endImpersonation,
+  deleteAccount,
+  confirmAccountExport,
+  assertAccountExportToken,
+  purgeDeletedAccounts,
+  getAccountExport,
+  getAccountExportZip,
+  getLoginHistory,
+  createApiKey,
+  getApiKeys,
+  revokeApiKey,
+  setupTwoFactor,
+  confirmTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
 };
 
 export default AuthService;
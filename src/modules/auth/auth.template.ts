@@ -19,8 +19,146 @@ const passwordResetEmailTemplate = ({
   `;
 };
 
+interface EmailVerificationTemplateProps {
+  userName: string;
+  verifyUrl: string;
+}
+
+const emailVerificationTemplate = ({
+  verifyUrl,
+  userName,
+}: EmailVerificationTemplateProps) => {
+  return `
+    <h2>Verify Your Email Address</h2>
+    <p>Hello ${userName},</p>
+    <p>Thanks for signing up! Please confirm your email address by clicking the link below:</p>
+    <p><a href="${verifyUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Verify Email</a></p>
+    <p>Or copy and paste this URL into your browser:</p>
+    <p>${verifyUrl}</p>
+    <p>This link will expire in 24 hours.</p>
+    <p>If you didn't create an account, please ignore this email.</p>
+  `;
+};
+
+interface AccountLockedTemplateProps {
+  userName: string;
+  lockedMinutes: number;
+  resetUrl: string;
+}
+
+const accountLockedTemplate = ({
+  userName,
+  lockedMinutes,
+  resetUrl,
+}: AccountLockedTemplateProps) => {
+  return `
+    <h2>Your Account Has Been Locked</h2>
+    <p>Hello ${userName},</p>
+    <p>We noticed several failed attempts to sign in to your account, so we locked it for ${lockedMinutes} minutes to keep it safe.</p>
+    <p>If this was you, you can try again once the lock expires. If it wasn't, we recommend resetting your password:</p>
+    <p><a href="${resetUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Reset Password</a></p>
+  `;
+};
+
+interface NewDeviceLoginTemplateProps {
+  userName: string;
+  device: string;
+  ipAddress: string;
+  signedInAt: Date;
+}
+
+const newDeviceLoginTemplate = ({
+  userName,
+  device,
+  ipAddress,
+  signedInAt,
+}: NewDeviceLoginTemplateProps) => {
+  return `
+    <h2>New Sign-in to Your Account</h2>
+    <p>Hello ${userName},</p>
+    <p>Your account was just signed in to from a device we haven't seen before:</p>
+    <ul>
+      <li>Device: ${device}</li>
+      <li>IP address: ${ipAddress}</li>
+      <li>Time: ${signedInAt.toUTCString()}</li>
+    </ul>
+    <p>If this was you, there's nothing else to do.</p>
+    <p>If it wasn't, change your password right away and log out of your other sessions.</p>
+  `;
+};
+
+interface EmailChangeTemplateProps {
+  userName: string;
+  newEmail: string;
+  confirmUrl: string;
+}
+
+const emailChangeTemplate = ({
+  userName,
+  newEmail,
+  confirmUrl,
+}: EmailChangeTemplateProps) => {
+  return `
+    <h2>Confirm Your New Email Address</h2>
+    <p>Hello ${userName},</p>
+    <p>You asked to change the email address of your account to ${newEmail}. Click the link below to confirm it:</p>
+    <p><a href="${confirmUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Confirm Email</a></p>
+    <p>Or copy and paste this URL into your browser:</p>
+    <p>${confirmUrl}</p>
+    <p>This link will expire in 24 hours.</p>
+    <p>If you didn't request this, please ignore this email.</p>
+  `;
+};
+
+interface EmailChangedNoticeTemplateProps {
+  userName: string;
+  newEmail: string;
+}
+
+const emailChangedNoticeTemplate = ({
+  userName,
+  newEmail,
+}: EmailChangedNoticeTemplateProps) => {
+  return `
+    <h2>Your Email Address Was Changed</h2>
+    <p>Hello ${userName},</p>
+    <p>The email address of your account has been changed to ${newEmail}. You will receive future emails there.</p>
+    <p>If you didn't make this change, please contact support right away.</p>
+  `;
+};
+
+interface AccountActionTemplateProps {
+  userName: string;
+  // e.g. "delete your account"
+  actionDescription: string;
+  confirmUrl: string;
+}
+
+const accountActionTemplate = ({
+  userName,
+  actionDescription,
+  confirmUrl,
+}: AccountActionTemplateProps) => {
+  return `
+    <h2>Confirm It's You</h2>
+    <p>Hello ${userName},</p>
+    <p>You asked to ${actionDescription}. Your account has no password, so please confirm the request by clicking the link below:</p>
+    <p><a href="${confirmUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Confirm</a></p>
+    <p>Or copy and paste this URL into your browser:</p>
+    <p>${confirmUrl}</p>
+    <p>This link will expire in 30 minutes.</p>
+    <p>If you didn't request this, someone may have access to your account. Log out of all other devices and contact support.</p>
+  `;
+};
+
 const AuthTemplate = {
   passwordResetEmailTemplate,
+  emailVerificationTemplate,
+  accountLockedTemplate,
+  newDeviceLoginTemplate,
+  emailChangeTemplate,
+  emailChangedNoticeTemplate,
+  accountActionTemplate,
 };
 
 export default AuthTemplate;
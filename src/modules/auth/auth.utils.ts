@@ -1,10 +1,24 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
+import { Request } from 'express';
 import config from '@/config';
 
 const SALT_ROUNDS = 12;
 
+// Time allowed between the password step and the 2FA code step of login
+const MFA_CHALLENGE_TOKEN_EXPIRES_IN = '5m';
+const MFA_CHALLENGE_TOKEN_PURPOSE = 'mfa_challenge';
+
+// Time a token confirming an account deletion or export stays valid
+const ACCOUNT_ACTION_TOKEN_EXPIRES_IN = '30m';
+
+// Actions confirmed with a short-lived token: emailed to accounts without a
+// password or 2FA, and handed out for downloading an export once confirmed
+export type AccountAction = 'account_deletion' | 'account_export';
+
+const RECOVERY_CODE_COUNT = 10;
+
 /**
  * Hash a password using bcrypt
  */
@@ -22,14 +36,17 @@ export const comparePassword = async (
   return bcrypt.compare(password, hash);
 };
 
-/**
- * Generate access token
- */
-export const generateAccessToken = (payload: {
+export interface TokenPayload {
   userId: string;
   email: string;
   role: string;
-}): string => {
+  sessionId: string;
+}
+
+/**
+ * Generate access token
+ */
+export const generateAccessToken = (payload: TokenPayload): string => {
   // @ts-ignore
   return jwt.sign(payload, config.jwt.accessTokenSecret, {
     expiresIn: config.jwt.accessTokenExpiresIn,
@@ -37,34 +54,118 @@ export const generateAccessToken = (payload: {
 };
 
 /**
- * Generate refresh token
+ * Generate refresh token. The random jti makes every token unique, even
+ * when a session rotates its token twice within the same second.
  */
-export const generateRefreshToken = (payload: {
-  userId: string;
-  email: string;
-  role: string;
-}): string => {
+export const generateRefreshToken = (payload: TokenPayload): string => {
   // @ts-ignore
   return jwt.sign(payload, config.jwt.refreshTokenSecret, {
     expiresIn: config.jwt.refreshTokenExpiresIn,
+    jwtid: crypto.randomUUID(),
   });
 };
 
+// An admin acting as a user. Bound to an impersonation record instead of a
+// session, and never refreshed.
+export interface ImpersonationTokenPayload {
+  userId: string;
+  email: string;
+  role: string;
+  impersonatorId: string;
+  impersonationId: string;
+}
+
+/**
+ * Generate the access token of an impersonation, expiring with it
+ */
+export const generateImpersonationToken = (
+  payload: ImpersonationTokenPayload,
+  expiresAt: Date,
+): string => {
+  return jwt.sign(
+    { ...payload, exp: Math.floor(expiresAt.getTime() / 1000) },
+    config.jwt.accessTokenSecret,
+  );
+};
+
 /**
- * Verify access token
+ * Verify access token. MFA challenge tokens share the secret but carry a
+ * purpose, so they are never accepted as access tokens.
  */
 export const verifyAccessToken = (
   token: string,
-): {
-  userId: string;
-  email: string;
-  role: string;
-} => {
-  return jwt.verify(token, config.jwt.accessTokenSecret) as {
-    userId: string;
-    email: string;
-    role: string;
+): TokenPayload | ImpersonationTokenPayload => {
+  const decoded = jwt.verify(token, config.jwt.accessTokenSecret) as
+    TokenPayload | ImpersonationTokenPayload | { purpose: string };
+
+  if ('purpose' in decoded) {
+    throw new jwt.JsonWebTokenError('Not an access token');
+  }
+
+  return decoded;
+};
+
+/**
+ * Generate the short-lived token that proves the password step of login
+ * passed, to be exchanged for a session with a 2FA code
+ */
+export const generateMfaChallengeToken = (userId: string): string => {
+  return jwt.sign(
+    { userId, purpose: MFA_CHALLENGE_TOKEN_PURPOSE },
+    config.jwt.accessTokenSecret,
+    { expiresIn: MFA_CHALLENGE_TOKEN_EXPIRES_IN },
+  );
+};
+
+/**
+ * Verify an MFA challenge token and return the user it was issued for
+ * and when
+ */
+export const verifyMfaChallengeToken = (
+  token: string,
+): { userId: string; iat: number } => {
+  const decoded = jwt.verify(token, config.jwt.accessTokenSecret) as {
+    userId?: string;
+    purpose?: string;
+    iat: number;
+  };
+
+  if (decoded.purpose !== MFA_CHALLENGE_TOKEN_PURPOSE || !decoded.userId) {
+    throw new jwt.JsonWebTokenError('Not an MFA challenge token');
+  }
+
+  return { userId: decoded.userId, iat: decoded.iat };
+};
+
+/**
+ * Generate a token confirming an account action for the user
+ */
+export const generateAccountActionToken = (
+  userId: string,
+  action: AccountAction,
+): string => {
+  return jwt.sign({ userId, purpose: action }, config.jwt.accessTokenSecret, {
+    expiresIn: ACCOUNT_ACTION_TOKEN_EXPIRES_IN,
+  });
+};
+
+/**
+ * Verify an account action token and return the user it was issued for
+ */
+export const verifyAccountActionToken = (
+  token: string,
+  action: AccountAction,
+): { userId: string } => {
+  const decoded = jwt.verify(token, config.jwt.accessTokenSecret) as {
+    userId?: string;
+    purpose?: string;
   };
+
+  if (decoded.purpose !== action || !decoded.userId) {
+    throw new jwt.JsonWebTokenError('Not an account action token');
+  }
+
+  return { userId: decoded.userId };
 };
 
 /**
@@ -72,18 +173,66 @@ export const verifyAccessToken = (
  */
 export const verifyRefreshToken = (
   token: string,
-): {
-  userId: string;
-  email: string;
-  role: string;
-} => {
-  return jwt.verify(token, config.jwt.refreshTokenSecret) as {
-    userId: string;
-    email: string;
-    role: string;
+): TokenPayload & { exp: number } => {
+  return jwt.verify(token, config.jwt.refreshTokenSecret) as TokenPayload & {
+    exp: number;
+  };
+};
+
+/**
+ * Hash refresh token for storage
+ */
+export const hashRefreshToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Device details recorded on the session a request starts or refreshes
+ */
+export const getSessionContext = (req: Request) => {
+  return {
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
   };
 };
 
+/**
+ * Describe the device behind a user agent, e.g. "Chrome on Windows"
+ */
+export const getDeviceLabel = (userAgent?: string): string | null => {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browsers: [RegExp, string][] = [
+    [/Edg(e|A|iOS)?\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/SamsungBrowser\//, 'Samsung Internet'],
+    [/Firefox\/|FxiOS\//, 'Firefox'],
+    [/Chrome\/|CriOS\//, 'Chrome'],
+    [/Version\/.*Safari\//, 'Safari'],
+    [/PostmanRuntime\//, 'Postman'],
+    [/^curl\//, 'curl'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Windows/, 'Windows'],
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+
+  return browser || system || null;
+};
+
 /**
  * Generate password reset token (cryptographically secure random token)
  */
@@ -97,3 +246,137 @@ export const generatePasswordResetToken = (): string => {
 export const hashPasswordResetToken = (token: string): string => {
   return crypto.createHash('sha256').update(token).digest('hex');
 };
+
+/**
+ * Generate email verification token (cryptographically secure random token)
+ */
+export const generateEmailVerificationToken = (): string => {
+  return crypto.randomBytes(32).toString('hex');
+};
+
+/**
+ * Hash email verification token for storage
+ */
+export const hashEmailVerificationToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Generate email change token (cryptographically secure random token)
+ */
+export const generateEmailChangeToken = (): string => {
+  return crypto.randomBytes(32).toString('hex');
+};
+
+/**
+ * Hash email change token for storage
+ */
+export const hashEmailChangeToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const getTwoFactorEncryptionKey = (): Buffer => {
+  if (!config.twoFactor.encryptionKey) {
+    throw new Error('TWO_FACTOR_ENCRYPTION_KEY is not configured');
+  }
+
+  return crypto
+    .createHash('sha256')
+    .update(config.twoFactor.encryptionKey)
+    .digest();
+};
+
+/**
+ * Encrypt a TOTP secret for storage (AES-256-GCM). Unlike tokens it can't
+ * be hashed, codes are computed from it.
+ */
+export const encryptTwoFactorSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(
+    'aes-256-gcm',
+    getTwoFactorEncryptionKey(),
+    iv,
+  );
+  const encrypted = Buffer.concat([
+    cipher.update(secret, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString('base64url'))
+    .join('.');
+};
+
+/**
+ * Decrypt a stored TOTP secret
+ */
+export const decryptTwoFactorSecret = (payload: string): string => {
+  const [iv, authTag, encrypted] = payload
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64url'));
+
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    getTwoFactorEncryptionKey(),
+    iv,
+  );
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    'utf8',
+  );
+};
+
+/**
+ * Generate one-time recovery codes, e.g. "3f9a1-c07be"
+ */
+export const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+};
+
+/**
+ * Hash recovery code for storage, ignoring case and separators
+ */
+export const hashRecoveryCode = (code: string): string => {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+};
+
+const API_KEY_PREFIX = 'tsk';
+
+/**
+ * Generate an API key, e.g. "tsk_1a2b3c4d5e6f_<secret>". The middle part
+ * is stored as is to look the key up, only a hash of the secret is kept.
+ */
+export const generateApiKey = () => {
+  const prefix = crypto.randomBytes(6).toString('hex');
+  const secret = crypto.randomBytes(32).toString('hex');
+
+  return {
+    key: `${API_KEY_PREFIX}_${prefix}_${secret}`,
+    prefix,
+    secretHash: hashApiKeySecret(secret),
+  };
+};
+
+/**
+ * Split an API key into its lookup prefix and secret
+ */
+export const parseApiKey = (
+  key: string,
+): { prefix: string; secret: string } | null => {
+  const match = key.match(
+    new RegExp(`^${API_KEY_PREFIX}_([0-9a-f]{12})_([0-9a-f]{64})$`),
+  );
+  return match ? { prefix: match[1], secret: match[2] } : null;
+};
+
+/**
+ * Hash API key secret for storage
+ */
+export const hashApiKeySecret = (secret: string): string => {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+};
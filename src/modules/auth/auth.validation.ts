@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { API_KEY_SCOPES } from './auth.constant';
 
 // Password validation: min 8 chars, at least one letter and one number
 const passwordSchema = z
@@ -13,6 +14,7 @@ export const registerSchema = z.object({
     email: z.string().email('Invalid email address'),
     password: passwordSchema,
     name: z.string().min(1, 'Name is required'),
+    invitationToken: z.string().min(1).optional(),
   }),
 });
 
@@ -24,6 +26,21 @@ export const loginSchema = z.object({
   }),
 });
 
+// Login second step validation (accounts with 2FA)
+export const loginTwoFactorSchema = z.object({
+  body: z.object({
+    mfaToken: z.string().min(1, 'MFA token is required'),
+    code: z.string().min(1, 'Code is required'),
+  }),
+});
+
+// OAuth provider validation
+export const oauthProviderSchema = z.object({
+  params: z.object({
+    provider: z.string().min(1, 'Provider is required'),
+  }),
+});
+
 // Refresh token validation (can be in cookies or body)
 export const refreshTokenSchema = z.object({
   cookies: z
@@ -60,3 +77,133 @@ export const changePasswordSchema = z.object({
     newPassword: passwordSchema,
   }),
 });
+
+// Verify email validation
+export const verifyEmailSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Verification token is required'),
+  }),
+});
+
+// Profile update validation (multipart, with an optional avatar file)
+export const updateProfileSchema = z.object({
+  body: z
+    .object({
+      name: z
+        .string()
+        .trim()
+        .min(1, 'Name is required')
+        .max(100, 'Name must be at most 100 characters'),
+      // An empty string clears the phone number
+      phone: z
+        .string()
+        .trim()
+        .regex(/^(\+?[0-9][0-9\s-]{5,19})?$/, 'Invalid phone number'),
+      email: z.string().trim().email('Invalid email address'),
+    })
+    .partial()
+    .optional(),
+});
+
+// Email change confirmation validation
+export const confirmEmailChangeSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Email change token is required'),
+  }),
+});
+
+// Session validation
+export const sessionIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Session id is required'),
+  }),
+});
+
+// API key creation validation
+export const createApiKeySchema = z.object({
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Name is required')
+      .max(100, 'Name must be at most 100 characters'),
+    scopes: z
+      .array(
+        z.enum(API_KEY_SCOPES, {
+          errorMap: () => ({
+            message: `Scope must be one of: ${API_KEY_SCOPES.join(', ')}`,
+          }),
+        }),
+      )
+      .min(1, 'At least one scope is required'),
+    expiresInDays: z.number().int().positive().max(365).optional(),
+  }),
+});
+
+// API key validation
+export const apiKeyIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'API key id is required'),
+  }),
+});
+
+// Re-authentication for account deletion and export: the password, or for
+// accounts without one a 2FA code or the token of the emailed link
+const reauthenticationSchema = z
+  .object({
+    password: z.string().min(1, 'Password is required').optional(),
+    code: z.string().trim().min(1, 'Code is required').optional(),
+    confirmationToken: z
+      .string()
+      .min(1, 'Confirmation token is required')
+      .optional(),
+  })
+  .optional();
+
+// Account deletion validation
+export const deleteAccountSchema = z.object({
+  body: reauthenticationSchema,
+});
+
+// Account data export confirmation validation
+export const confirmAccountExportSchema = z.object({
+  body: reauthenticationSchema,
+});
+
+// Account data export validation
+export const exportAccountDataSchema = z.object({
+  query: z.object({
+    token: z.string().min(1, 'Export token is required'),
+    format: z
+      .enum(['json', 'zip'], {
+        errorMap: () => ({ message: 'Format must be json or zip' }),
+      })
+      .optional(),
+  }),
+});
+
+// Login history listing validation
+export const getLoginHistorySchema = z.object({
+  query: z
+    .object({
+      page: z.coerce.number().int().positive(),
+      limit: z.coerce.number().int().positive().max(100),
+    })
+    .partial(),
+});
+
+// 2FA code validation (authenticator app code or recovery code)
+export const twoFactorCodeSchema = z.object({
+  body: z.object({
+    code: z.string().min(1, 'Code is required'),
+  }),
+});
+
+// Disable 2FA validation
+export const disableTwoFactorSchema = z.object({
+  body: z.object({
+    // Accounts created through OAuth have no password
+    password: z.string().min(1, 'Password is required').optional(),
+    code: z.string().min(1, 'Code is required'),
+  }),
+});
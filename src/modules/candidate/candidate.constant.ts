@@ -0,0 +1,16 @@
+export const resumeFileExtensions = ['.pdf', '.doc', '.docx'];
+
+// Maximum number of resumes accepted in a single upload request
+export const maxResumesPerUpload = 50;
+
+// Resumes scored at the same time, so one upload doesn't flood the LLM API
+export const scoringConcurrency = 4;
+
+export const candidatePaginationFields = [
+  'page',
+  'limit',
+  'sort_by',
+  'sort_order',
+];
+
+export const candidateSortableFields = ['created_at', 'score', 'name'];
@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import catchAsync from '@/utils/catch-async';
+import sendResponse from '@/utils/send-response';
+import pick from '@/utils/pick';
+import httpStatus from 'http-status';
+import { getWorkspace } from '../organization/organization.utils';
+import CandidateService from './candidate.services';
+import { candidatePaginationFields } from './candidate.constant';
+
+const uploadResumes = catchAsync(async (req: Request, res: Response) => {
+  const result = await CandidateService.uploadResumes(
+    getWorkspace(req),
+    req.params.jobId as string,
+    (req.files as Express.Multer.File[]) || [],
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: `${result.length} candidate(s) created successfully`,
+    data: result,
+  });
+});
+
+const getCandidates = catchAsync(async (req: Request, res: Response) => {
+  const options = pick(req.query, candidatePaginationFields);
+
+  const result = await CandidateService.getCandidates(
+    getWorkspace(req),
+    req.params.jobId as string,
+    options,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Candidates fetched successfully',
+    meta: result.meta,
+    data: result.data,
+  });
+});
+
+const CandidateController = {
+  uploadResumes,
+  getCandidates,
+};
+
+export default CandidateController;
@@ -0,0 +1,29 @@
+import express from 'express';
+import validateRequest from '@/middlewares/validate-request';
+import authenticate from '@/middlewares/auth';
+import { upload } from '@/utils/handle-cloudflare-r2-file';
+import {
+  getCandidatesSchema,
+  uploadResumesSchema,
+} from './candidate.validation';
+import { maxResumesPerUpload } from './candidate.constant';
+import CandidateController from './candidate.controller';
+
+const router = express.Router();
+
+router.post(
+  '/:jobId/candidates',
+  authenticate({ requireEmailVerified: true, scope: 'candidates:write' }),
+  upload.array('resumes', maxResumesPerUpload),
+  validateRequest(uploadResumesSchema),
+  CandidateController.uploadResumes,
+);
+
+router.get(
+  '/:jobId/candidates',
+  authenticate({ scope: 'candidates:read' }),
+  validateRequest(getCandidatesSchema),
+  CandidateController.getCandidates,
+);
+
+export const CandidateRoutes = router;
@@ -0,0 +1,247 @@
+import path from 'path';
+import httpStatus from 'http-status';
+import config from '@/config';
+import AppError from '@/errors/app-error';
+import { prisma } from '@/lib/prisma';
+import { calculatePagination, IPaginationOptions } from '@/utils/pagination';
+import {
+  deleteMultipleFromR2,
+  uploadToR2,
+} from '@/utils/handle-cloudflare-r2-file';
+import { logger } from '@/utils/logger';
+import { parseResume, ParsedResume } from '@/lib/resume-parser';
+import {
+  getScoringProvider,
+  keywordScoringProvider,
+  ScoringInput,
+  ScoringProvider,
+  ScoringResult,
+} from '@/lib/scoring';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import {
+  JobStatus,
+  OrganizationRole,
+} from '../../../prisma/generated/prisma/enums';
+import JobService from '../job/job.services';
+import {
+  assertWorkspaceRole,
+  Workspace,
+} from '../organization/organization.utils';
+import CreditService from '../credit/credit.services';
+import { resumeFileExtensions, scoringConcurrency } from './candidate.constant';
+
+/**
+ * Extract text and contact details from a resume. Parsing is best-effort:
+ * an unreadable file still becomes a candidate, just without resume text.
+ */
+const extractResume = (file: Express.Multer.File): ParsedResume | null => {
+  try {
+    return parseResume(file.buffer, file.originalname);
+  } catch (error) {
+    logger.warn(`Failed to parse resume ${file.originalname}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Score a resume, falling back to the offline keyword baseline when the
+ * configured provider fails, so one bad reply doesn't sink the whole upload.
+ * Once the upload's deadline passes, only the keyword baseline is used.
+ */
+const scoreResume = async (
+  provider: ScoringProvider,
+  input: ScoringInput,
+  filename: string,
+  deadline: AbortSignal,
+): Promise<ScoringResult | null> => {
+  const providers = [provider, keywordScoringProvider].filter(
+    (item, index, list) =>
+      list.indexOf(item) === index &&
+      (item === keywordScoringProvider || !deadline.aborted),
+  );
+
+  for (const item of providers) {
+    try {
+      return await item.score(input, deadline);
+    } catch (error) {
+      logger.warn(`Scoring ${filename} with ${item.name} failed:`, error);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Upload resumes to a job, screen them against the job description and
+ * create a candidate per file, charging credits for every candidate
+ */
+const uploadResumes = async (
+  workspace: Workspace,
+  jobId: string,
+  files: Express.Multer.File[],
+) => {
+  assertWorkspaceRole(workspace, OrganizationRole.RECRUITER);
+  const job = await JobService.getOwnedJob(workspace, jobId);
+
+  if (job.status === JobStatus.CLOSED || job.status === JobStatus.ARCHIVED) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cannot add candidates to a ${job.status.toLowerCase()} job`,
+    );
+  }
+
+  if (!files || files.length === 0) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'At least one resume file is required',
+    );
+  }
+
+  // The shared uploader also accepts images, resumes must be documents
+  const invalidFiles = files.filter(
+    (file) =>
+      !resumeFileExtensions.includes(
+        path.extname(file.originalname).toLowerCase(),
+      ),
+  );
+
+  if (invalidFiles.length > 0) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Only PDF, DOC and DOCX resumes are allowed: ${invalidFiles
+        .map((file) => file.originalname)
+        .join(', ')}`,
+    );
+  }
+
+  const creditCost = files.length * config.credits.costPerCandidate;
+
+  // Don't screen or store anything the workspace cannot pay for
+  await CreditService.assertSufficientCredits(workspace, creditCost);
+
+  const scoringProvider = getScoringProvider();
+  // Bounds how long the request stays open however slow the provider is
+  const scoringDeadline = AbortSignal.timeout(config.scoring.uploadTimeoutMs);
+
+  const screenedFiles = await mapWithConcurrency(
+    files,
+    scoringConcurrency,
+    async (file) => {
+      const resume = extractResume(file);
+      const screening = resume?.text
+        ? await scoreResume(
+            scoringProvider,
+            {
+              jobTitle: job.title,
+              jobDescription: job.description,
+              resumeText: resume.text,
+            },
+            file.originalname,
+            scoringDeadline,
+          )
+        : null;
+
+      return { file, resume, screening };
+    },
+  );
+
+  const uploads = await Promise.allSettled(
+    screenedFiles.map(async (screenedFile) => {
+      const uploaded = await uploadToR2(screenedFile.file, {
+        folder: `resumes/${job.id}`,
+      });
+
+      return { ...screenedFile, ...uploaded };
+    }),
+  );
+
+  const uploadedFiles = uploads
+    .filter((upload) => upload.status === 'fulfilled')
+    .map((upload) => upload.value);
+  const failedUpload = uploads.find((upload) => upload.status === 'rejected');
+
+  // Don't leave orphaned files behind if the records were not created
+  const cleanUpUploads = () =>
+    deleteMultipleFromR2(uploadedFiles.map(({ key }) => key)).catch(
+      (cleanupError) =>
+        logger.error('Failed to clean up uploaded resumes:', cleanupError),
+    );
+
+  if (failedUpload) {
+    await cleanUpUploads();
+    throw failedUpload.reason;
+  }
+
+  try {
+    const candidates = await prisma.$transaction(async (tx) => {
+      await CreditService.deductCredits(tx, {
+        workspace,
+        amount: creditCost,
+        jobId: job.id,
+        description: `Screened ${files.length} resume${files.length === 1 ? '' : 's'} for "${job.title}"`,
+      });
+
+      return tx.candidate.createManyAndReturn({
+        data: uploadedFiles.map(({ file, resume, screening, url }) => ({
+          job_id: job.id,
+          // Fall back to the file name when no name could be extracted
+          name: resume?.name || path.parse(file.originalname).name,
+          email: resume?.email || '',
+          phone: resume?.phone,
+          score: screening?.score ?? 0,
+          summary: screening?.summary,
+          skills: screening?.skills ?? [],
+          resume_url: url,
+          resume_text: resume?.text || null,
+        })),
+        omit: { resume_text: true },
+      });
+    });
+
+    return candidates;
+  } catch (error) {
+    await cleanUpUploads();
+    throw error;
+  }
+};
+
+/**
+ * Get paginated candidates of a job
+ */
+const getCandidates = async (
+  workspace: Workspace,
+  jobId: string,
+  options: IPaginationOptions,
+) => {
+  const job = await JobService.getOwnedJob(workspace, jobId);
+
+  const { page, limit, skip, sort_by, sort_order } =
+    calculatePagination(options);
+
+  const [candidates, total] = await Promise.all([
+    prisma.candidate.findMany({
+      where: { job_id: job.id },
+      skip,
+      take: limit,
+      orderBy: { [sort_by]: sort_order },
+      omit: { resume_text: true },
+    }),
+    prisma.candidate.count({ where: { job_id: job.id } }),
+  ]);
+
+  return {
+    meta: {
+      page,
+      limit,
+      total,
+    },
+    data: candidates,
+  };
+};
+
+const CandidateService = {
+  uploadResumes,
+  getCandidates,
+};
+
+export default CandidateService;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { candidateSortableFields } from './candidate.constant';
+
+const jobParamsSchema = z.object({
+  jobId: z.string().min(1, 'Job id is required'),
+});
+
+// Resume upload validation (files are checked in the service)
+export const uploadResumesSchema = z.object({
+  params: jobParamsSchema,
+});
+
+// Candidate listing validation
+export const getCandidatesSchema = z.object({
+  params: jobParamsSchema,
+  query: z.object({
+    page: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().positive().max(100).optional(),
+    sort_by: z
+      .enum(candidateSortableFields as [string, ...string[]])
+      .optional(),
+    sort_order: z.enum(['asc', 'desc']).optional(),
+  }),
+});
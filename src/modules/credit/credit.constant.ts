@@ -0,0 +1,3 @@
+export const creditLogFilterableFields = ['type', 'job_id', 'from', 'to'];
+
+export const creditLogPaginationFields = ['page', 'limit'];
@@ -0,0 +1,36 @@
+import { Request, Response } from 'express';
+import catchAsync from '@/utils/catch-async';
+import sendResponse from '@/utils/send-response';
+import pick from '@/utils/pick';
+import httpStatus from 'http-status';
+import { getWorkspace } from '../organization/organization.utils';
+import CreditService from './credit.services';
+import {
+  creditLogFilterableFields,
+  creditLogPaginationFields,
+} from './credit.constant';
+
+const getCreditLogs = catchAsync(async (req: Request, res: Response) => {
+  const filters = pick(req.query, creditLogFilterableFields);
+  const options = pick(req.query, creditLogPaginationFields);
+
+  const result = await CreditService.getCreditLogs(
+    getWorkspace(req),
+    filters,
+    options,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Credit logs fetched successfully',
+    meta: result.meta,
+    data: result.data,
+  });
+});
+
+const CreditController = {
+  getCreditLogs,
+};
+
+export default CreditController;
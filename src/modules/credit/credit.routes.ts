@@ -0,0 +1,16 @@
+import express from 'express';
+import validateRequest from '@/middlewares/validate-request';
+import authenticate from '@/middlewares/auth';
+import { getCreditLogsSchema } from './credit.validation';
+import CreditController from './credit.controller';
+
+const router = express.Router();
+
+router.get(
+  '/logs',
+  authenticate({ scope: 'credits:read' }),
+  validateRequest(getCreditLogsSchema),
+  CreditController.getCreditLogs,
+);
+
+export const CreditRoutes = router;
@@ -0,0 +1,289 @@
+import httpStatus from 'http-status';
+import AppError from '@/errors/app-error';
+import { prisma } from '@/lib/prisma';
+import { buildDateRangeFilter } from '@/utils/date-range';
+import { calculatePagination, IPaginationOptions } from '@/utils/pagination';
+import { Prisma } from '../../../prisma/generated/prisma/client';
+import { CreditType } from '../../../prisma/generated/prisma/enums';
+import { Workspace, workspaceFilter } from '../organization/organization.utils';
+
+interface CreditLogFilters {
+  type?: CreditType;
+  job_id?: string;
+  from?: string;
+  to?: string;
+}
+
+const insufficientCreditsError = (required: number, balance?: number) => {
+  return new AppError(
+    httpStatus.PAYMENT_REQUIRED,
+    balance === undefined
+      ? `Insufficient credits: ${required} credits required`
+      : `Insufficient credits: ${required} credits required, your balance is ${balance}`,
+  );
+};
+
+/**
+ * The credit balance of a workspace: the organization's shared balance, or
+ * the user's own one
+ */
+const getBalance = async (
+  tx: Prisma.TransactionClient,
+  workspace: Workspace,
+): Promise<number> => {
+  const account = workspace.organizationId
+    ? await tx.organization.findUnique({
+        where: { id: workspace.organizationId },
+        select: { credit_balance: true },
+      })
+    : await tx.user.findUnique({
+        where: { id: workspace.userId },
+        select: { credit_balance: true },
+      });
+
+  if (!account) {
+    throw new AppError(
+      httpStatus.NOT_FOUND,
+      workspace.organizationId ? 'Organization not found' : 'User not found',
+    );
+  }
+
+  return account.credit_balance;
+};
+
+/**
+ * Fail fast before doing expensive work the workspace cannot pay for. This
+ * is only an early check, the actual deduction guards the balance
+ * atomically.
+ */
+const assertSufficientCredits = async (
+  workspace: Workspace,
+  amount: number,
+) => {
+  const balance = await getBalance(prisma, workspace);
+
+  if (balance < amount) {
+    throw insufficientCreditsError(amount, balance);
+  }
+};
+
+/**
+ * Deduct credits inside a transaction and record the usage. The balance
+ * check and decrement are a single conditional update, so concurrent
+ * requests can never drive the balance negative.
+ */
+const deductCredits = async (
+  tx: Prisma.TransactionClient,
+  {
+    workspace,
+    amount,
+    jobId,
+    description,
+  }: {
+    workspace: Workspace;
+    amount: number;
+    jobId?: string;
+    description?: string;
+  },
+) => {
+  const result = workspace.organizationId
+    ? await tx.organization.updateMany({
+        where: {
+          id: workspace.organizationId,
+          credit_balance: { gte: amount },
+        },
+        data: { credit_balance: { decrement: amount } },
+      })
+    : await tx.user.updateMany({
+        where: { id: workspace.userId, credit_balance: { gte: amount } },
+        data: { credit_balance: { decrement: amount } },
+      });
+
+  if (result.count === 0) {
+    throw insufficientCreditsError(amount);
+  }
+
+  // Ledger amounts are signed: spending is recorded as a negative amount
+  return tx.creditLog.create({
+    data: {
+      user_id: workspace.userId,
+      organization_id: workspace.organizationId,
+      job_id: jobId,
+      type: CreditType.USAGE,
+      amount: -amount,
+      description,
+    },
+  });
+};
+
+/**
+ * Apply an admin adjustment to a user's personal balance and record who
+ * made it. Deductions are a conditional update like usage, so they fail
+ * instead of taking the balance below zero.
+ */
+const adjustCredits = async (
+  tx: Prisma.TransactionClient,
+  {
+    userId,
+    amount,
+    description,
+    createdBy,
+  }: {
+    userId: string;
+    amount: number;
+    description: string;
+    createdBy: string;
+  },
+) => {
+  if (amount < 0) {
+    const result = await tx.user.updateMany({
+      where: { id: userId, credit_balance: { gte: -amount } },
+      data: { credit_balance: { decrement: -amount } },
+    });
+
+    if (result.count === 0) {
+      const balance = await getBalance(tx, { userId });
+      throw new AppError(
+        httpStatus.BAD_REQUEST,
+        `Cannot deduct ${-amount} credits, the user's balance is ${balance}`,
+      );
+    }
+  } else {
+    await tx.user.update({
+      where: { id: userId },
+      data: { credit_balance: { increment: amount } },
+    });
+  }
+
+  return tx.creditLog.create({
+    data: {
+      user_id: userId,
+      type: CreditType.MANUAL_ADJUSTMENT,
+      amount,
+      description,
+      created_by: createdBy,
+    },
+  });
+};
+
+/**
+ * Grant the same bonus to several users' personal balances at once
+ */
+const grantBonusCredits = async (
+  tx: Prisma.TransactionClient,
+  {
+    userIds,
+    amount,
+    description,
+    createdBy,
+  }: {
+    userIds: string[];
+    amount: number;
+    description: string;
+    createdBy: string;
+  },
+) => {
+  await tx.user.updateMany({
+    where: { id: { in: userIds } },
+    data: { credit_balance: { increment: amount } },
+  });
+
+  return tx.creditLog.createMany({
+    data: userIds.map((userId) => ({
+      user_id: userId,
+      type: CreditType.BONUS,
+      amount,
+      description,
+      created_by: createdBy,
+    })),
+  });
+};
+
+/**
+ * Get the workspace's paginated credit ledger, newest first, with the
+ * balance right after each entry
+ */
+const getCreditLogs = async (
+  workspace: Workspace,
+  filters: CreditLogFilters,
+  options: IPaginationOptions,
+) => {
+  const { page, limit, skip } = calculatePagination(options);
+  const { type, job_id, from, to } = filters;
+
+  const where: Prisma.CreditLogWhereInput = {
+    ...workspaceFilter(workspace),
+    type,
+    job_id,
+    created_at: buildDateRangeFilter(from, to),
+  };
+
+  const ledgerCondition = workspace.organizationId
+    ? Prisma.sql`organization_id = ${workspace.organizationId}`
+    : Prisma.sql`user_id = ${workspace.userId} AND organization_id IS NULL`;
+
+  // Read the balance and the ledger from the same snapshot so a concurrent
+  // deduction can't skew the running balance
+  return prisma.$transaction(
+    async (tx) => {
+      const [balance, logs, total] = await Promise.all([
+        getBalance(tx, workspace),
+        tx.creditLog.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+          include: { job: { select: { id: true, title: true } } },
+          omit: { created_by: true },
+        }),
+        tx.creditLog.count({ where }),
+      ]);
+
+      // Walk back from the current balance: the balance after an entry is
+      // the current balance minus every newer entry, filtered out or not
+      const balances = logs.length
+        ? await tx.$queryRaw<{ id: string; balance_after: number }[]>`
+            SELECT id, balance_after FROM (
+              SELECT
+                id,
+                ${balance}::int - COALESCE(SUM(amount) OVER (
+                  ORDER BY created_at DESC, id DESC
+                  ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+                ), 0)::int AS balance_after
+              FROM credit_logs
+              WHERE ${ledgerCondition}
+            ) ledger
+            WHERE id IN (${Prisma.join(logs.map(({ id }) => id))})
+          `
+        : [];
+
+      const balanceById = new Map(
+        balances.map(({ id, balance_after }) => [id, Number(balance_after)]),
+      );
+
+      return {
+        meta: {
+          page,
+          limit,
+          total,
+          current_balance: balance,
+        },
+        data: logs.map((log) => ({
+          ...log,
+          balance_after: balanceById.get(log.id) ?? null,
+        })),
+      };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead },
+  );
+};
+
+const CreditService = {
+  assertSufficientCredits,
+  deductCredits,
+  adjustCredits,
+  grantBonusCredits,
+  getCreditLogs,
+};
+
+export default CreditService;
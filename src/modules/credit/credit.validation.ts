@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { CreditType } from '../../../prisma/generated/prisma/enums';
+
+// Credit ledger listing validation
+export const getCreditLogsSchema = z.object({
+  query: z
+    .object({
+      type: z.nativeEnum(CreditType, {
+        errorMap: () => ({ message: 'Invalid credit type' }),
+      }),
+      job_id: z.string().min(1),
+      from: z.coerce.date({
+        errorMap: () => ({ message: 'Invalid from date' }),
+      }),
+      to: z.coerce.date({ errorMap: () => ({ message: 'Invalid to date' }) }),
+      page: z.coerce.number().int().positive(),
+      limit: z.coerce.number().int().positive().max(100),
+    })
+    .partial()
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: 'from must be before to',
+      path: ['from'],
+    }),
+});
@@ -0,0 +1,19 @@
+import { JobStatus } from '../../../prisma/generated/prisma/enums';
+
+export const jobFilterableFields = ['job_type', 'job_location', 'status'];
+
+export const jobPaginationFields = ['page', 'limit', 'sort_by', 'sort_order'];
+
+export const jobSortableFields = ['created_at', 'updated_at', 'title'];
+
+/**
+ * Allowed status transitions for a job.
+ * DRAFT -> OPEN -> CLOSED -> ARCHIVED. A closed job may be reopened,
+ * but nothing ever leaves ARCHIVED.
+ */
+export const jobStatusTransitions: Record<JobStatus, JobStatus[]> = {
+  [JobStatus.DRAFT]: [JobStatus.OPEN],
+  [JobStatus.OPEN]: [JobStatus.CLOSED],
+  [JobStatus.CLOSED]: [JobStatus.OPEN, JobStatus.ARCHIVED],
+  [JobStatus.ARCHIVED]: [],
+};
@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import catchAsync from '@/utils/catch-async';
+import sendResponse from '@/utils/send-response';
+import pick from '@/utils/pick';
+import httpStatus from 'http-status';
+import { getWorkspace } from '../organization/organization.utils';
+import JobService from './job.services';
+import { jobFilterableFields, jobPaginationFields } from './job.constant';
+
+const createJob = catchAsync(async (req: Request, res: Response) => {
+  const result = await JobService.createJob(getWorkspace(req), req.body);
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: 'Job created successfully',
+    data: result,
+  });
+});
+
+const getJobs = catchAsync(async (req: Request, res: Response) => {
+  const filters = pick(req.query, jobFilterableFields);
+  const options = pick(req.query, jobPaginationFields);
+
+  const result = await JobService.getJobs(getWorkspace(req), filters, options);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Jobs fetched successfully',
+    meta: result.meta,
+    data: result.data,
+  });
+});
+
+const getJobById = catchAsync(async (req: Request, res: Response) => {
+  const result = await JobService.getJobById(
+    getWorkspace(req),
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Job fetched successfully',
+    data: result,
+  });
+});
+
+const updateJob = catchAsync(async (req: Request, res: Response) => {
+  const result = await JobService.updateJob(
+    getWorkspace(req),
+    req.params.id as string,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Job updated successfully',
+    data: result,
+  });
+});
+
+const updateJobStatus = catchAsync(async (req: Request, res: Response) => {
+  const result = await JobService.updateJobStatus(
+    getWorkspace(req),
+    req.params.id as string,
+    req.body.status,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Job status updated successfully',
+    data: result,
+  });
+});
+
+const deleteJob = catchAsync(async (req: Request, res: Response) => {
+  const result = await JobService.deleteJob(
+    getWorkspace(req),
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
+const JobController = {
+  createJob,
+  getJobs,
+  getJobById,
+  updateJob,
+  updateJobStatus,
+  deleteJob,
+};
+
+export default JobController;
@@ -0,0 +1,57 @@
+import express from 'express';
+import validateRequest from '@/middlewares/validate-request';
+import authenticate from '@/middlewares/auth';
+import {
+  createJobSchema,
+  getJobsSchema,
+  jobIdSchema,
+  updateJobSchema,
+  updateJobStatusSchema,
+} from './job.validation';
+import JobController from './job.controller';
+
+const router = express.Router();
+
+router.post(
+  '/',
+  authenticate({ scope: 'jobs:write' }),
+  validateRequest(createJobSchema),
+  JobController.createJob,
+);
+
+router.get(
+  '/',
+  authenticate({ scope: 'jobs:read' }),
+  validateRequest(getJobsSchema),
+  JobController.getJobs,
+);
+
+router.get(
+  '/:id',
+  authenticate({ scope: 'jobs:read' }),
+  validateRequest(jobIdSchema),
+  JobController.getJobById,
+);
+
+router.patch(
+  '/:id',
+  authenticate({ scope: 'jobs:write' }),
+  validateRequest(updateJobSchema),
+  JobController.updateJob,
+);
+
+router.patch(
+  '/:id/status',
+  authenticate({ scope: 'jobs:write' }),
+  validateRequest(updateJobStatusSchema),
+  JobController.updateJobStatus,
+);
+
+router.delete(
+  '/:id',
+  authenticate({ scope: 'jobs:write' }),
+  validateRequest(jobIdSchema),
+  JobController.deleteJob,
+);
+
+export const JobRoutes = router;
@@ -0,0 +1,250 @@
+import httpStatus from 'http-status';
+import AppError from '@/errors/app-error';
+import { prisma } from '@/lib/prisma';
+import { calculatePagination, IPaginationOptions } from '@/utils/pagination';
+import { Prisma } from '../../../prisma/generated/prisma/client';
+import {
+  JobLocation,
+  JobStatus,
+  JobType,
+  OrganizationRole,
+} from '../../../prisma/generated/prisma/enums';
+import {
+  assertWorkspaceRole,
+  isInWorkspace,
+  Workspace,
+  workspaceFilter,
+} from '../organization/organization.utils';
+import { jobStatusTransitions } from './job.constant';
+
+interface CreateJobPayload {
+  title: string;
+  company_name?: string;
+  job_type: JobType;
+  job_location: JobLocation;
+  description: string;
+  status?: JobStatus;
+}
+
+interface UpdateJobPayload {
+  title?: string;
+  company_name?: string | null;
+  job_type?: JobType;
+  job_location?: JobLocation;
+  description?: string;
+}
+
+interface JobFilters {
+  job_type?: JobType;
+  job_location?: JobLocation;
+  status?: JobStatus;
+}
+
+/**
+ * Find a job and make sure it belongs to the workspace
+ */
+const getOwnedJob = async (workspace: Workspace, jobId: string) => {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+  });
+
+  if (!job) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Job not found');
+  }
+
+  if (!isInWorkspace(workspace, job)) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'You do not have permission to access this job',
+    );
+  }
+
+  return job;
+};
+
+/**
+ * Create a new job
+ */
+const createJob = async (workspace: Workspace, payload: CreateJobPayload) => {
+  assertWorkspaceRole(workspace, OrganizationRole.RECRUITER);
+
+  const job = await prisma.job.create({
+    data: {
+      ...payload,
+      user_id: workspace.userId,
+      organization_id: workspace.organizationId,
+    },
+  });
+
+  return job;
+};
+
+/**
+ * Get paginated jobs of the workspace
+ */
+const getJobs = async (
+  workspace: Workspace,
+  filters: JobFilters,
+  options: IPaginationOptions,
+) => {
+  const { page, limit, skip, sort_by, sort_order } =
+    calculatePagination(options);
+
+  const where: Prisma.JobWhereInput = {
+    ...workspaceFilter(workspace),
+    ...filters,
+  };
+
+  const [jobs, total] = await Promise.all([
+    prisma.job.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { [sort_by]: sort_order },
+      include: {
+        _count: {
+          select: { candidates: true },
+        },
+      },
+    }),
+    prisma.job.count({ where }),
+  ]);
+
+  return {
+    meta: {
+      page,
+      limit,
+      total,
+    },
+    data: jobs,
+  };
+};
+
+/**
+ * Get a single job of the workspace
+ */
+const getJobById = async (workspace: Workspace, jobId: string) => {
+  await getOwnedJob(workspace, jobId);
+
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    include: {
+      _count: {
+        select: { candidates: true },
+      },
+    },
+  });
+
+  return job;
+};
+
+/**
+ * Update job details
+ */
+const updateJob = async (
+  workspace: Workspace,
+  jobId: string,
+  payload: UpdateJobPayload,
+) => {
+  assertWorkspaceRole(workspace, OrganizationRole.RECRUITER);
+  const job = await getOwnedJob(workspace, jobId);
+
+  // Archived jobs are read-only
+  if (job.status === JobStatus.ARCHIVED) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Archived jobs cannot be modified',
+    );
+  }
+
+  // Guard against the job being archived between read and write
+  const result = await prisma.job.updateMany({
+    where: { id: job.id, status: { not: JobStatus.ARCHIVED } },
+    data: payload,
+  });
+
+  if (result.count === 0) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'Job was archived by another request and can no longer be modified',
+    );
+  }
+
+  return prisma.job.findUnique({
+    where: { id: job.id },
+  });
+};
+
+/**
+ * Move a job to a new status following the allowed lifecycle
+ */
+const updateJobStatus = async (
+  workspace: Workspace,
+  jobId: string,
+  status: JobStatus,
+) => {
+  assertWorkspaceRole(workspace, OrganizationRole.RECRUITER);
+  const job = await getOwnedJob(workspace, jobId);
+
+  if (job.status === status) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Job is already ${status.toLowerCase()}`,
+    );
+  }
+
+  const allowedStatuses = jobStatusTransitions[job.status];
+
+  if (!allowedStatuses.includes(status)) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Cannot change job status from ${job.status} to ${status}`,
+    );
+  }
+
+  // Guard against a concurrent status change between read and write
+  const result = await prisma.job.updateMany({
+    where: { id: job.id, status: job.status },
+    data: { status },
+  });
+
+  if (result.count === 0) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'Job status was changed by another request. Please try again.',
+    );
+  }
+
+  return prisma.job.findUnique({
+    where: { id: job.id },
+  });
+};
+
+/**
+ * Delete a job along with its candidates
+ */
+const deleteJob = async (workspace: Workspace, jobId: string) => {
+  // Deleting a shared job removes every candidate screened for it
+  assertWorkspaceRole(workspace, OrganizationRole.ADMIN);
+  const job = await getOwnedJob(workspace, jobId);
+
+  await prisma.job.delete({
+    where: { id: job.id },
+  });
+
+  return {
+    message: 'Job deleted successfully',
+  };
+};
+
+const JobService = {
+  getOwnedJob,
+  createJob,
+  getJobs,
+  getJobById,
+  updateJob,
+  updateJobStatus,
+  deleteJob,
+};
+
+export default JobService;
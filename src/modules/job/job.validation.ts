@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import {
+  JobLocation,
+  JobStatus,
+  JobType,
+} from '../../../prisma/generated/prisma/enums';
+import { jobSortableFields } from './job.constant';
+
+const jobIdParamsSchema = z.object({
+  id: z.string().min(1, 'Job id is required'),
+});
+
+// Create job validation
+export const createJobSchema = z.object({
+  body: z.object({
+    title: z.string().trim().min(1, 'Title is required'),
+    company_name: z.string().trim().min(1).optional(),
+    job_type: z.nativeEnum(JobType, {
+      errorMap: () => ({ message: 'Invalid job type' }),
+    }),
+    job_location: z.nativeEnum(JobLocation, {
+      errorMap: () => ({ message: 'Invalid job location' }),
+    }),
+    description: z.string().trim().min(1, 'Description is required'),
+    // A job can only start its lifecycle as a draft or already open
+    status: z.enum([JobStatus.DRAFT, JobStatus.OPEN]).optional(),
+  }),
+});
+
+// Update job validation (status changes go through updateJobStatusSchema)
+export const updateJobSchema = z.object({
+  params: jobIdParamsSchema,
+  body: z
+    .object({
+      title: z.string().trim().min(1, 'Title cannot be empty'),
+      company_name: z.string().trim().min(1).nullable(),
+      job_type: z.nativeEnum(JobType, {
+        errorMap: () => ({ message: 'Invalid job type' }),
+      }),
+      job_location: z.nativeEnum(JobLocation, {
+        errorMap: () => ({ message: 'Invalid job location' }),
+      }),
+      description: z.string().trim().min(1, 'Description cannot be empty'),
+    })
+    .partial()
+    .strict()
+    .refine((body) => Object.keys(body).length > 0, {
+      message: 'At least one field is required to update',
+    }),
+});
+
+// Update job status validation
+export const updateJobStatusSchema = z.object({
+  params: jobIdParamsSchema,
+  body: z.object({
+    status: z.nativeEnum(JobStatus, {
+      errorMap: () => ({ message: 'Invalid job status' }),
+    }),
+  }),
+});
+
+// Single job validation (get / delete)
+export const jobIdSchema = z.object({
+  params: jobIdParamsSchema,
+});
+
+// Job listing validation
+export const getJobsSchema = z.object({
+  query: z.object({
+    job_type: z.nativeEnum(JobType).optional(),
+    job_location: z.nativeEnum(JobLocation).optional(),
+    status: z.nativeEnum(JobStatus).optional(),
+    page: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().positive().max(100).optional(),
+    sort_by: z.enum(jobSortableFields as [string, ...string[]]).optional(),
+    sort_order: z.enum(['asc', 'desc']).optional(),
+  }),
+});
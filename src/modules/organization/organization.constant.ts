@@ -0,0 +1,21 @@
+import { OrganizationRole } from '../../../prisma/generated/prisma/enums';
+
+// Request header that selects the organization a request acts in
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+/**
+ * Organization roles from least to most privileged. Each role can do
+ * everything the ones below it can:
+ * VIEWER reads jobs, candidates and credits, RECRUITER manages jobs and
+ * screens resumes, ADMIN manages members and buys credits, OWNER manages
+ * admins and other owners.
+ */
+export const organizationRoleRank: Record<OrganizationRole, number> = {
+  [OrganizationRole.VIEWER]: 0,
+  [OrganizationRole.RECRUITER]: 1,
+  [OrganizationRole.ADMIN]: 2,
+  [OrganizationRole.OWNER]: 3,
+};
+
+// How long an invitation link stays valid
+export const INVITATION_EXPIRES_IN_DAYS = 7;
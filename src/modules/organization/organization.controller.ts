@@ -0,0 +1,194 @@
+import { Request, Response } from 'express';
+import catchAsync from '@/utils/catch-async';
+import sendResponse from '@/utils/send-response';
+import httpStatus from 'http-status';
+import OrganizationService from './organization.services';
+
+const createOrganization = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.createOrganization(
+    req.user.userId,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: 'Organization created successfully',
+    data: result,
+  });
+});
+
+const getMyOrganizations = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.getMyOrganizations(req.user.userId);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Organizations fetched successfully',
+    data: result,
+  });
+});
+
+const getOrganization = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.getOrganization(
+    req.user.userId,
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Organization fetched successfully',
+    data: result,
+  });
+});
+
+const updateOrganization = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.updateOrganization(
+    req.user.userId,
+    req.params.id as string,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Organization updated successfully',
+    data: result,
+  });
+});
+
+const getMembers = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.getMembers(
+    req.user.userId,
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Members fetched successfully',
+    data: result,
+  });
+});
+
+const updateMemberRole = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.updateMemberRole(
+    req.user.userId,
+    req.params.id as string,
+    req.params.userId as string,
+    req.body.role,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Member role updated successfully',
+    data: result,
+  });
+});
+
+const removeMember = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.removeMember(
+    req.user.userId,
+    req.params.id as string,
+    req.params.userId as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
+const createInvitation = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.createInvitation(
+    req.user.userId,
+    req.params.id as string,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: 'Invitation sent successfully',
+    data: result,
+  });
+});
+
+const getInvitations = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.getInvitations(
+    req.user.userId,
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Invitations fetched successfully',
+    data: result,
+  });
+});
+
+const resendInvitation = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.resendInvitation(
+    req.user.userId,
+    req.params.id as string,
+    req.params.invitationId as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Invitation resent successfully',
+    data: result,
+  });
+});
+
+const revokeInvitation = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.revokeInvitation(
+    req.user.userId,
+    req.params.id as string,
+    req.params.invitationId as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.message,
+    data: null,
+  });
+});
+
+const acceptInvitation = catchAsync(async (req: Request, res: Response) => {
+  const result = await OrganizationService.acceptInvitation(
+    req.user.userId,
+    req.body.token,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Invitation accepted successfully',
+    data: result,
+  });
+});
+
+const OrganizationController = {
+  createOrganization,
+  getMyOrganizations,
+  getOrganization,
+  updateOrganization,
+  getMembers,
+  updateMemberRole,
+  removeMember,
+  createInvitation,
+  getInvitations,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation,
+};
+
+export default OrganizationController;
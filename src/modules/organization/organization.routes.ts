@@ -0,0 +1,104 @@
+import express from 'express';
+import validateRequest from '@/middlewares/validate-request';
+import authenticate from '@/middlewares/auth';
+import {
+  acceptInvitationSchema,
+  createInvitationSchema,
+  createOrganizationSchema,
+  invitationSchema,
+  memberSchema,
+  organizationIdSchema,
+  updateMemberRoleSchema,
+  updateOrganizationSchema,
+} from './organization.validation';
+import OrganizationController from './organization.controller';
+import {
+  invitationRateLimiter,
+  verifyEmailRateLimiter,
+} from '@/middlewares/rate-limiter';
+
+const router = express.Router();
+
+router.post(
+  '/',
+  authenticate({ requireEmailVerified: true }),
+  validateRequest(createOrganizationSchema),
+  OrganizationController.createOrganization,
+);
+
+router.get('/', authenticate(), OrganizationController.getMyOrganizations);
+
+router.post(
+  '/invitations/accept',
+  verifyEmailRateLimiter,
+  authenticate(),
+  validateRequest(acceptInvitationSchema),
+  OrganizationController.acceptInvitation,
+);
+
+router.get(
+  '/:id',
+  authenticate(),
+  validateRequest(organizationIdSchema),
+  OrganizationController.getOrganization,
+);
+
+router.patch(
+  '/:id',
+  authenticate(),
+  validateRequest(updateOrganizationSchema),
+  OrganizationController.updateOrganization,
+);
+
+router.get(
+  '/:id/members',
+  authenticate(),
+  validateRequest(organizationIdSchema),
+  OrganizationController.getMembers,
+);
+
+router.patch(
+  '/:id/members/:userId',
+  authenticate(),
+  validateRequest(updateMemberRoleSchema),
+  OrganizationController.updateMemberRole,
+);
+
+router.delete(
+  '/:id/members/:userId',
+  authenticate(),
+  validateRequest(memberSchema),
+  OrganizationController.removeMember,
+);
+
+router.get(
+  '/:id/invitations',
+  authenticate(),
+  validateRequest(organizationIdSchema),
+  OrganizationController.getInvitations,
+);
+
+router.post(
+  '/:id/invitations',
+  invitationRateLimiter,
+  authenticate(),
+  validateRequest(createInvitationSchema),
+  OrganizationController.createInvitation,
+);
+
+router.post(
+  '/:id/invitations/:invitationId/resend',
+  invitationRateLimiter,
+  authenticate(),
+  validateRequest(invitationSchema),
+  OrganizationController.resendInvitation,
+);
+
+router.delete(
+  '/:id/invitations/:invitationId',
+  authenticate(),
+  validateRequest(invitationSchema),
+  OrganizationController.revokeInvitation,
+);
+
+export const OrganizationRoutes = router;
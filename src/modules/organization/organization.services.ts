@@ -0,0 +1,655 @@
+import httpStatus from 'http-status';
+import AppError from '@/errors/app-error';
+import { isUniqueConstraintError } from '@/errors/handle-prisma-error';
+import { prisma } from '@/lib/prisma';
+import config from '@/config';
+import sendMail from '@/utils/mailer';
+import {
+  OrganizationInvitation,
+  Prisma,
+} from '../../../prisma/generated/prisma/client';
+import { OrganizationRole } from '../../../prisma/generated/prisma/enums';
+import {
+  INVITATION_EXPIRES_IN_DAYS,
+  organizationRoleRank,
+} from './organization.constant';
+import OrganizationTemplate from './organization.template';
+import {
+  generateInvitationToken,
+  hashInvitationToken,
+  hasOrganizationRole,
+} from './organization.utils';
+
+interface CreateOrganizationPayload {
+  name: string;
+}
+
+interface UpdateOrganizationPayload {
+  name?: string;
+}
+
+interface CreateInvitationPayload {
+  email: string;
+  role: OrganizationRole;
+}
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  role: true,
+  expires_at: true,
+  created_at: true,
+  invitedBy: { select: { name: true, email: true } },
+} satisfies Prisma.OrganizationInvitationSelect;
+
+const memberSelect = {
+  user_id: true,
+  role: true,
+  created_at: true,
+  user: { select: { name: true, email: true, image_url: true } },
+} satisfies Prisma.OrganizationMemberSelect;
+
+/**
+ * Find the user's membership of an organization. Organizations the user
+ * isn't part of are reported as not found.
+ */
+const getMembership = async (userId: string, organizationId: string) => {
+  const membership = await prisma.organizationMember.findUnique({
+    where: {
+      organization_id_user_id: {
+        organization_id: organizationId,
+        user_id: userId,
+      },
+    },
+  });
+
+  if (!membership) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Organization not found');
+  }
+
+  return membership;
+};
+
+/**
+ * Find another member of an organization
+ */
+const getMember = async (organizationId: string, memberUserId: string) => {
+  const member = await prisma.organizationMember.findUnique({
+    where: {
+      organization_id_user_id: {
+        organization_id: organizationId,
+        user_id: memberUserId,
+      },
+    },
+  });
+
+  if (!member) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Member not found');
+  }
+
+  return member;
+};
+
+/**
+ * Find the user's membership and make sure it has at least the given role
+ */
+const getMembershipWithRole = async (
+  userId: string,
+  organizationId: string,
+  minimumRole: OrganizationRole,
+) => {
+  const membership = await getMembership(userId, organizationId);
+
+  if (!hasOrganizationRole(membership.role, minimumRole)) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      `This requires the ${minimumRole} role in the organization`,
+    );
+  }
+
+  return membership;
+};
+
+/**
+ * Owners manage everyone, admins only the roles below their own
+ */
+const assertCanManageRole = (
+  actorRole: OrganizationRole,
+  role: OrganizationRole,
+) => {
+  if (
+    actorRole !== OrganizationRole.OWNER &&
+    organizationRoleRank[actorRole] <= organizationRoleRank[role]
+  ) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      `Only an owner can manage ${role} members`,
+    );
+  }
+};
+
+/**
+ * An organization always keeps at least one owner. Locks the owner rows
+ * until the transaction ends, so owners demoting or removing each other
+ * at the same time can't both pass.
+ */
+const assertNotLastOwner = async (
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  memberId: string,
+) => {
+  const owners = await tx.$queryRaw<{ id: string }[]>`
+    SELECT id FROM organization_members
+    WHERE organization_id = ${organizationId} AND role = 'OWNER'
+    FOR UPDATE
+  `;
+
+  if (owners.length <= 1 && owners.some(({ id }) => id === memberId)) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'An organization needs at least one owner. Make someone else an owner first.',
+    );
+  }
+};
+
+/**
+ * Create an organization with the user as its owner
+ */
+const createOrganization = async (
+  userId: string,
+  payload: CreateOrganizationPayload,
+) => {
+  return prisma.organization.create({
+    data: {
+      name: payload.name.trim(),
+      members: {
+        create: { user_id: userId, role: OrganizationRole.OWNER },
+      },
+    },
+  });
+};
+
+/**
+ * Get the organizations the user is a member of, with their role
+ */
+const getMyOrganizations = async (userId: string) => {
+  const memberships = await prisma.organizationMember.findMany({
+    where: { user_id: userId },
+    orderBy: { created_at: 'asc' },
+    include: { organization: true },
+  });
+
+  return memberships.map(({ organization, role }) => ({
+    ...organization,
+    role,
+  }));
+};
+
+/**
+ * Get an organization the user is a member of
+ */
+const getOrganization = async (userId: string, organizationId: string) => {
+  const membership = await getMembership(userId, organizationId);
+
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    include: { _count: { select: { members: true, jobs: true } } },
+  });
+
+  return { ...organization, role: membership.role };
+};
+
+/**
+ * Update organization details
+ */
+const updateOrganization = async (
+  userId: string,
+  organizationId: string,
+  payload: UpdateOrganizationPayload,
+) => {
+  await getMembershipWithRole(userId, organizationId, OrganizationRole.ADMIN);
+
+  return prisma.organization.update({
+    where: { id: organizationId },
+    data: { name: payload.name?.trim() },
+  });
+};
+
+/**
+ * Get the members of an organization
+ */
+const getMembers = async (userId: string, organizationId: string) => {
+  await getMembership(userId, organizationId);
+
+  const members = await prisma.organizationMember.findMany({
+    where: { organization_id: organizationId },
+    orderBy: { created_at: 'asc' },
+    select: memberSelect,
+  });
+
+  // Most privileged first
+  return members.sort(
+    (a, b) => organizationRoleRank[b.role] - organizationRoleRank[a.role],
+  );
+};
+
+/**
+ * Change a member's role
+ */
+const updateMemberRole = async (
+  userId: string,
+  organizationId: string,
+  memberUserId: string,
+  role: OrganizationRole,
+) => {
+  const actor = await getMembershipWithRole(
+    userId,
+    organizationId,
+    OrganizationRole.ADMIN,
+  );
+  const member = await getMember(organizationId, memberUserId);
+
+  assertCanManageRole(actor.role, member.role);
+  assertCanManageRole(actor.role, role);
+
+  return prisma.$transaction(async (tx) => {
+    if (role !== OrganizationRole.OWNER) {
+      await assertNotLastOwner(tx, organizationId, member.id);
+    }
+
+    return tx.organizationMember.update({
+      where: { id: member.id },
+      data: { role },
+      select: memberSelect,
+    });
+  });
+};
+
+/**
+ * Remove a member from the organization. Members can always leave on
+ * their own, unless they are its last owner.
+ */
+const removeMember = async (
+  userId: string,
+  organizationId: string,
+  memberUserId: string,
+) => {
+  const isLeaving = userId === memberUserId;
+
+  const actor = isLeaving
+    ? await getMembership(userId, organizationId)
+    : await getMembershipWithRole(
+        userId,
+        organizationId,
+        OrganizationRole.ADMIN,
+      );
+  const member = isLeaving
+    ? actor
+    : await getMember(organizationId, memberUserId);
+
+  if (!isLeaving) {
+    assertCanManageRole(actor.role, member.role);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await assertNotLastOwner(tx, organizationId, member.id);
+
+    await tx.organizationMember.delete({ where: { id: member.id } });
+
+    // Their API keys for the organization stop working with them
+    await tx.apiKey.updateMany({
+      where: {
+        user_id: memberUserId,
+        organization_id: organizationId,
+        revoked_at: null,
+      },
+      data: { revoked_at: new Date() },
+    });
+  });
+
+  return {
+    message: isLeaving
+      ? 'You have left the organization'
+      : 'Member removed successfully',
+  };
+};
+
+/**
+ * A new invitation token and the hash and expiry to store for it
+ */
+const issueInvitationToken = () => {
+  const token = generateInvitationToken();
+
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + INVITATION_EXPIRES_IN_DAYS);
+
+  return { token, tokenHash: hashInvitationToken(token), expiresAt };
+};
+
+/**
+ * Email the invitation link
+ */
+const sendInvitationEmail = async (
+  invitation: OrganizationInvitation,
+  token: string,
+  inviterId: string,
+) => {
+  const [organization, inviter] = await Promise.all([
+    prisma.organization.findUniqueOrThrow({
+      where: { id: invitation.organization_id },
+      select: { name: true },
+    }),
+    prisma.user.findUniqueOrThrow({
+      where: { id: inviterId },
+      select: { name: true },
+    }),
+  ]);
+
+  const acceptUrl = `${config.frontendBaseUrl}/accept-invitation?token=${token}`;
+
+  const emailBody = OrganizationTemplate.invitationTemplate({
+    organizationName: organization.name,
+    inviterName: inviter.name,
+    role: invitation.role,
+    acceptUrl,
+    expiresInDays: INVITATION_EXPIRES_IN_DAYS,
+  });
+
+  await sendMail(
+    invitation.email,
+    `You're invited to join ${organization.name}`,
+    emailBody,
+  );
+};
+
+/**
+ * Invite someone to the organization by email. They join once they accept,
+ * signing up first if they don't have an account.
+ */
+const createInvitation = async (
+  userId: string,
+  organizationId: string,
+  payload: CreateInvitationPayload,
+) => {
+  const actor = await getMembershipWithRole(
+    userId,
+    organizationId,
+    OrganizationRole.ADMIN,
+  );
+  assertCanManageRole(actor.role, payload.role);
+
+  const email = payload.email.toLowerCase();
+
+  const [existingMember, pendingInvitation] = await Promise.all([
+    prisma.organizationMember.findFirst({
+      where: { organization_id: organizationId, user: { email } },
+      select: { id: true },
+    }),
+    prisma.organizationInvitation.findFirst({
+      where: {
+        organization_id: organizationId,
+        email,
+        accepted_at: null,
+        revoked_at: null,
+        expires_at: { gt: new Date() },
+      },
+      select: { id: true },
+    }),
+  ]);
+
+  if (existingMember) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'User is already a member of this organization',
+    );
+  }
+
+  if (pendingInvitation) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'This email address already has a pending invitation. Resend it instead.',
+    );
+  }
+
+  const { token, tokenHash, expiresAt } = issueInvitationToken();
+
+  const invitation = await prisma.organizationInvitation.create({
+    data: {
+      organization_id: organizationId,
+      email,
+      role: payload.role,
+      token_hash: tokenHash,
+      invited_by: userId,
+      expires_at: expiresAt,
+    },
+  });
+
+  try {
+    await sendInvitationEmail(invitation, token, userId);
+  } catch (error) {
+    // Don't keep an invitation nobody received
+    await prisma.organizationInvitation.delete({
+      where: { id: invitation.id },
+    });
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      'Failed to send invitation email',
+    );
+  }
+
+  return prisma.organizationInvitation.findUniqueOrThrow({
+    where: { id: invitation.id },
+    select: invitationSelect,
+  });
+};
+
+/**
+ * Find an invitation of the organization that can still be accepted
+ */
+const getPendingInvitation = async (
+  organizationId: string,
+  invitationId: string,
+) => {
+  const invitation = await prisma.organizationInvitation.findFirst({
+    where: {
+      id: invitationId,
+      organization_id: organizationId,
+      accepted_at: null,
+      revoked_at: null,
+    },
+  });
+
+  if (!invitation) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Invitation not found');
+  }
+
+  return invitation;
+};
+
+/**
+ * Email a fresh link for an invitation, also for one that has expired
+ */
+const resendInvitation = async (
+  userId: string,
+  organizationId: string,
+  invitationId: string,
+) => {
+  const actor = await getMembershipWithRole(
+    userId,
+    organizationId,
+    OrganizationRole.ADMIN,
+  );
+  const invitation = await getPendingInvitation(organizationId, invitationId);
+  assertCanManageRole(actor.role, invitation.role);
+
+  // The previous link stops working
+  const { token, tokenHash, expiresAt } = issueInvitationToken();
+
+  const updatedInvitation = await prisma.organizationInvitation.update({
+    where: { id: invitation.id },
+    data: { token_hash: tokenHash, expires_at: expiresAt },
+  });
+
+  try {
+    await sendInvitationEmail(updatedInvitation, token, userId);
+  } catch (error) {
+    throw new AppError(
+      httpStatus.INTERNAL_SERVER_ERROR,
+      'Failed to send invitation email',
+    );
+  }
+
+  return prisma.organizationInvitation.findUniqueOrThrow({
+    where: { id: invitation.id },
+    select: invitationSelect,
+  });
+};
+
+/**
+ * Revoke an invitation so its link can no longer be used
+ */
+const revokeInvitation = async (
+  userId: string,
+  organizationId: string,
+  invitationId: string,
+) => {
+  const actor = await getMembershipWithRole(
+    userId,
+    organizationId,
+    OrganizationRole.ADMIN,
+  );
+  const invitation = await getPendingInvitation(organizationId, invitationId);
+  assertCanManageRole(actor.role, invitation.role);
+
+  await prisma.organizationInvitation.updateMany({
+    where: { id: invitation.id, accepted_at: null, revoked_at: null },
+    data: { revoked_at: new Date() },
+  });
+
+  return {
+    message: 'Invitation revoked successfully',
+  };
+};
+
+/**
+ * Get the organization's invitations that are waiting to be accepted,
+ * newest first
+ */
+const getInvitations = async (userId: string, organizationId: string) => {
+  await getMembershipWithRole(userId, organizationId, OrganizationRole.ADMIN);
+
+  return prisma.organizationInvitation.findMany({
+    where: {
+      organization_id: organizationId,
+      accepted_at: null,
+      revoked_at: null,
+      expires_at: { gt: new Date() },
+    },
+    orderBy: { created_at: 'desc' },
+    select: invitationSelect,
+  });
+};
+
+/**
+ * Find the invitation an emailed token belongs to, as long as it can still
+ * be accepted by the given email address
+ */
+const findInvitationByToken = async (token: string, email: string) => {
+  // Hash the token to compare with stored hash
+  const hashedToken = hashInvitationToken(token);
+
+  const invitation = await prisma.organizationInvitation.findFirst({
+    where: {
+      token_hash: hashedToken,
+      accepted_at: null,
+      revoked_at: null,
+      expires_at: {
+        gt: new Date(), // Token not expired
+      },
+    },
+  });
+
+  if (!invitation) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Invalid or expired invitation token',
+    );
+  }
+
+  if (invitation.email !== email.toLowerCase()) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'This invitation was sent to a different email address',
+    );
+  }
+
+  return invitation;
+};
+
+/**
+ * Join the organization an invitation is for. Each invitation can be
+ * accepted once.
+ */
+const acceptInvitation = async (userId: string, token: string) => {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { email: true },
+  });
+
+  const invitation = await findInvitationByToken(token, user.email);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Only one request can use the token
+      const { count } = await tx.organizationInvitation.updateMany({
+        where: { id: invitation.id, accepted_at: null, revoked_at: null },
+        data: { accepted_at: new Date() },
+      });
+
+      if (count === 0) {
+        throw new AppError(
+          httpStatus.BAD_REQUEST,
+          'Invalid or expired invitation token',
+        );
+      }
+
+      const membership = await tx.organizationMember.create({
+        data: {
+          organization_id: invitation.organization_id,
+          user_id: userId,
+          role: invitation.role,
+        },
+        include: { organization: true },
+      });
+
+      return { ...membership.organization, role: membership.role };
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new AppError(
+        httpStatus.CONFLICT,
+        'You are already a member of this organization',
+      );
+    }
+    throw error;
+  }
+};
+
+const OrganizationService = {
+  getMembership,
+  createOrganization,
+  getMyOrganizations,
+  getOrganization,
+  updateOrganization,
+  getMembers,
+  updateMemberRole,
+  removeMember,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+  getInvitations,
+  findInvitationByToken,
+  acceptInvitation,
+};
+
+export default OrganizationService;
@@ -0,0 +1,33 @@
+interface InvitationTemplateProps {
+  organizationName: string;
+  inviterName: string;
+  role: string;
+  acceptUrl: string;
+  expiresInDays: number;
+}
+
+const invitationTemplate = ({
+  organizationName,
+  inviterName,
+  role,
+  acceptUrl,
+  expiresInDays,
+}: InvitationTemplateProps) => {
+  return `
+    <h2>You're Invited to ${organizationName}</h2>
+    <p>Hello,</p>
+    <p>${inviterName} invited you to join ${organizationName} on TalentSift as a ${role.toLowerCase()}. Click the link below to accept the invitation:</p>
+    <p><a href="${acceptUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Accept Invitation</a></p>
+    <p>Or copy and paste this URL into your browser:</p>
+    <p>${acceptUrl}</p>
+    <p>If you don't have an account yet, you can create one with this email address from the same link.</p>
+    <p>This link will expire in ${expiresInDays} days.</p>
+    <p>If you weren't expecting this invitation, you can ignore this email.</p>
+  `;
+};
+
+const OrganizationTemplate = {
+  invitationTemplate,
+};
+
+export default OrganizationTemplate;
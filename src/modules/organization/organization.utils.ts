@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import httpStatus from 'http-status';
+import AppError from '@/errors/app-error';
+import { OrganizationRole } from '../../../prisma/generated/prisma/enums';
+import { organizationRoleRank } from './organization.constant';
+
+/**
+ * Who a request acts for: the user's personal account, or the
+ * organization selected with the X-Organization-Id header
+ */
+export interface Workspace {
+  userId: string;
+  organizationId?: string;
+  organizationRole?: OrganizationRole;
+}
+
+/**
+ * The workspace of an authenticated request
+ */
+export const getWorkspace = (req: Request): Workspace => ({
+  userId: req.user.userId,
+  organizationId: req.user.organizationId,
+  organizationRole: req.user.organizationRole,
+});
+
+/**
+ * Filter for records of a workspace. Personal records are the user's own
+ * ones that don't belong to any organization.
+ */
+export const workspaceFilter = (workspace: Workspace) => {
+  return workspace.organizationId
+    ? { organization_id: workspace.organizationId }
+    : { user_id: workspace.userId, organization_id: null };
+};
+
+/**
+ * Whether a record with the given owner belongs to the workspace
+ */
+export const isInWorkspace = (
+  workspace: Workspace,
+  record: { user_id: string; organization_id: string | null },
+): boolean => {
+  return workspace.organizationId
+    ? record.organization_id === workspace.organizationId
+    : record.user_id === workspace.userId && !record.organization_id;
+};
+
+export const hasOrganizationRole = (
+  role: OrganizationRole,
+  minimumRole: OrganizationRole,
+): boolean => {
+  return organizationRoleRank[role] >= organizationRoleRank[minimumRole];
+};
+
+/**
+ * Make sure the user has at least the given role in the workspace's
+ * organization. Personal workspaces belong to the user, so anything goes.
+ */
+export const assertWorkspaceRole = (
+  workspace: Workspace,
+  minimumRole: OrganizationRole,
+): void => {
+  if (
+    workspace.organizationId &&
+    (!workspace.organizationRole ||
+      !hasOrganizationRole(workspace.organizationRole, minimumRole))
+  ) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      `This requires the ${minimumRole} role in the organization`,
+    );
+  }
+};
+
+/**
+ * Generate invitation token (cryptographically secure random token)
+ */
+export const generateInvitationToken = (): string => {
+  return crypto.randomBytes(32).toString('hex');
+};
+
+/**
+ * Hash invitation token for storage
+ */
+export const hashInvitationToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
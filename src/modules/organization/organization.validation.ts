@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { OrganizationRole } from '../../../prisma/generated/prisma/enums';
+
+const organizationIdParamsSchema = z.object({
+  id: z.string().min(1, 'Organization id is required'),
+});
+
+const memberParamsSchema = organizationIdParamsSchema.extend({
+  userId: z.string().min(1, 'User id is required'),
+});
+
+const invitationParamsSchema = organizationIdParamsSchema.extend({
+  invitationId: z.string().min(1, 'Invitation id is required'),
+});
+
+const organizationNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(100, 'Name must be at most 100 characters');
+
+const organizationRoleSchema = z.nativeEnum(OrganizationRole, {
+  errorMap: () => ({ message: 'Invalid organization role' }),
+});
+
+// Create organization validation
+export const createOrganizationSchema = z.object({
+  body: z.object({
+    name: organizationNameSchema,
+  }),
+});
+
+// Update organization validation
+export const updateOrganizationSchema = z.object({
+  params: organizationIdParamsSchema,
+  body: z.object({
+    name: organizationNameSchema,
+  }),
+});
+
+// Single organization validation
+export const organizationIdSchema = z.object({
+  params: organizationIdParamsSchema,
+});
+
+// Member role change validation
+export const updateMemberRoleSchema = z.object({
+  params: memberParamsSchema,
+  body: z.object({
+    role: organizationRoleSchema,
+  }),
+});
+
+// Single member validation (remove)
+export const memberSchema = z.object({
+  params: memberParamsSchema,
+});
+
+// Create invitation validation
+export const createInvitationSchema = z.object({
+  params: organizationIdParamsSchema,
+  body: z.object({
+    email: z.string().email('Invalid email address'),
+    role: organizationRoleSchema,
+  }),
+});
+
+// Single invitation validation (resend / revoke)
+export const invitationSchema = z.object({
+  params: invitationParamsSchema,
+});
+
+// Accept invitation validation
+export const acceptInvitationSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Invitation token is required'),
+  }),
+});
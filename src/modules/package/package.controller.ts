@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import catchAsync from '@/utils/catch-async';
+import sendResponse from '@/utils/send-response';
+import httpStatus from 'http-status';
+import PackageService from './package.services';
+
+const getActivePackages = catchAsync(async (_req: Request, res: Response) => {
+  const result = await PackageService.getActivePackages();
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Packages fetched successfully',
+    data: result,
+  });
+});
+
+const getAllPackages = catchAsync(async (_req: Request, res: Response) => {
+  const result = await PackageService.getAllPackages();
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Packages fetched successfully',
+    data: result,
+  });
+});
+
+const createPackage = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageService.createPackage(req.body);
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: 'Package created successfully',
+    data: result,
+  });
+});
+
+const updatePackage = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageService.updatePackage(
+    req.params.id as string,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Package updated successfully',
+    data: result,
+  });
+});
+
+const reorderPackages = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageService.reorderPackages(req.body.package_ids);
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Packages reordered successfully',
+    data: result,
+  });
+});
+
+const updatePackageStatus = catchAsync(async (req: Request, res: Response) => {
+  const result = await PackageService.updatePackage(req.params.id as string, {
+    is_active: req.body.is_active,
+  });
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: result.is_active
+      ? 'Package activated successfully'
+      : 'Package deactivated successfully',
+    data: result,
+  });
+});
+
+const updatePackageRecommended = catchAsync(
+  async (req: Request, res: Response) => {
+    const result = await PackageService.updatePackage(req.params.id as string, {
+      is_recommended: req.body.is_recommended,
+    });
+
+    sendResponse(res, {
+      statusCode: httpStatus.OK,
+      success: true,
+      message: 'Package updated successfully',
+      data: result,
+    });
+  },
+);
+
+const PackageController = {
+  getActivePackages,
+  getAllPackages,
+  createPackage,
+  updatePackage,
+  reorderPackages,
+  updatePackageStatus,
+  updatePackageRecommended,
+};
+
+export default PackageController;
@@ -0,0 +1,60 @@
+import express from 'express';
+import validateRequest from '@/middlewares/validate-request';
+import authenticate from '@/middlewares/auth';
+import { UserRole } from '../../../prisma/generated/prisma/enums';
+import {
+  createPackageSchema,
+  reorderPackagesSchema,
+  updatePackageRecommendedSchema,
+  updatePackageSchema,
+  updatePackageStatusSchema,
+} from './package.validation';
+import PackageController from './package.controller';
+
+const router = express.Router();
+
+// Public: active packages for the pricing page
+router.get('/', PackageController.getActivePackages);
+
+router.get(
+  '/all',
+  authenticate(UserRole.SUPER_ADMIN),
+  PackageController.getAllPackages,
+);
+
+router.post(
+  '/',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(createPackageSchema),
+  PackageController.createPackage,
+);
+
+router.patch(
+  '/reorder',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(reorderPackagesSchema),
+  PackageController.reorderPackages,
+);
+
+router.patch(
+  '/:id',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(updatePackageSchema),
+  PackageController.updatePackage,
+);
+
+router.patch(
+  '/:id/status',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(updatePackageStatusSchema),
+  PackageController.updatePackageStatus,
+);
+
+router.patch(
+  '/:id/recommended',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(updatePackageRecommendedSchema),
+  PackageController.updatePackageRecommended,
+);
+
+export const PackageRoutes = router;
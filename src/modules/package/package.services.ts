@@ -0,0 +1,210 @@
+import httpStatus from 'http-status';
+import AppError from '@/errors/app-error';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '../../../prisma/generated/prisma/client';
+
+interface CreatePackagePayload {
+  name: string;
+  description?: string;
+  credits: number;
+  price: number;
+  is_active?: boolean;
+  is_recommended?: boolean;
+  benefits?: string[];
+}
+
+interface UpdatePackagePayload {
+  name?: string;
+  description?: string | null;
+  credits?: number;
+  price?: number;
+  is_active?: boolean;
+  is_recommended?: boolean;
+  benefits?: { id?: string; benefit: string }[];
+}
+
+const packageInclude = {
+  benefits: { orderBy: { created_at: 'asc' } },
+} satisfies Prisma.CreditPackageInclude;
+
+const packageOrderBy: Prisma.CreditPackageOrderByWithRelationInput[] = [
+  { sort_order: 'asc' },
+  { created_at: 'asc' },
+];
+
+/**
+ * Only one package can be recommended at a time
+ */
+const clearRecommended = async (
+  tx: Prisma.TransactionClient,
+  exceptId?: string,
+) => {
+  await tx.creditPackage.updateMany({
+    where: { is_recommended: true, id: exceptId ? { not: exceptId } : {} },
+    data: { is_recommended: false },
+  });
+};
+
+/**
+ * Get active packages with their benefits
+ */
+const getActivePackages = async () => {
+  return prisma.creditPackage.findMany({
+    where: { is_active: true },
+    orderBy: packageOrderBy,
+    include: packageInclude,
+  });
+};
+
+/**
+ * Get all packages, including inactive ones
+ */
+const getAllPackages = async () => {
+  return prisma.creditPackage.findMany({
+    orderBy: packageOrderBy,
+    include: {
+      ...packageInclude,
+      _count: { select: { payments: true } },
+    },
+  });
+};
+
+/**
+ * Create a package with its benefits, listed after the existing packages
+ */
+const createPackage = async (payload: CreatePackagePayload) => {
+  const { benefits = [], ...data } = payload;
+
+  return prisma.$transaction(async (tx) => {
+    if (data.is_recommended) {
+      await clearRecommended(tx);
+    }
+
+    const { _max } = await tx.creditPackage.aggregate({
+      _max: { sort_order: true },
+    });
+
+    return tx.creditPackage.create({
+      data: {
+        ...data,
+        sort_order: (_max.sort_order ?? -1) + 1,
+        benefits: {
+          create: benefits.map((benefit) => ({ benefit })),
+        },
+      },
+      include: packageInclude,
+    });
+  });
+};
+
+/**
+ * Update a package and, when given, replace its benefit list in the same
+ * transaction
+ */
+const updatePackage = async (
+  packageId: string,
+  payload: UpdatePackagePayload,
+) => {
+  const { benefits, ...data } = payload;
+
+  const existing = await prisma.creditPackage.findUnique({
+    where: { id: packageId },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Package not found');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    if (data.is_recommended) {
+      await clearRecommended(tx, packageId);
+    }
+
+    if (benefits) {
+      const keptIds = benefits.flatMap(({ id }) => (id ? [id] : []));
+
+      const ownedCount = await tx.packageBenefit.count({
+        where: { id: { in: keptIds }, credit_package_id: packageId },
+      });
+
+      if (ownedCount !== new Set(keptIds).size) {
+        throw new AppError(
+          httpStatus.BAD_REQUEST,
+          'Some benefits do not belong to this package',
+        );
+      }
+
+      await tx.packageBenefit.deleteMany({
+        where: { credit_package_id: packageId, id: { notIn: keptIds } },
+      });
+
+      for (const { id, benefit } of benefits) {
+        if (id) {
+          await tx.packageBenefit.update({
+            where: { id },
+            data: { benefit },
+          });
+        } else {
+          await tx.packageBenefit.create({
+            data: { benefit, credit_package_id: packageId },
+          });
+        }
+      }
+    }
+
+    return tx.creditPackage.update({
+      where: { id: packageId },
+      data,
+      include: packageInclude,
+    });
+  });
+};
+
+/**
+ * Set the display order of packages. Packages left out keep their relative
+ * order after the given ones.
+ */
+const reorderPackages = async (packageIds: string[]) => {
+  const packages = await prisma.creditPackage.findMany({
+    orderBy: packageOrderBy,
+    select: { id: true },
+  });
+
+  const knownIds = new Set(packages.map(({ id }) => id));
+  const unknownIds = packageIds.filter((id) => !knownIds.has(id));
+
+  if (unknownIds.length > 0) {
+    throw new AppError(
+      httpStatus.NOT_FOUND,
+      `Packages not found: ${unknownIds.join(', ')}`,
+    );
+  }
+
+  const requestedIds = new Set(packageIds);
+  const orderedIds = [
+    ...packageIds,
+    ...packages.map(({ id }) => id).filter((id) => !requestedIds.has(id)),
+  ];
+
+  await prisma.$transaction(
+    orderedIds.map((id, index) =>
+      prisma.creditPackage.update({
+        where: { id },
+        data: { sort_order: index },
+      }),
+    ),
+  );
+
+  return getAllPackages();
+};
+
+const PackageService = {
+  getActivePackages,
+  getAllPackages,
+  createPackage,
+  updatePackage,
+  reorderPackages,
+};
+
+export default PackageService;
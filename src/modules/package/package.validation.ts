@@ -0,0 +1,80 @@
+import { z } from 'zod';
+
+// Each package lists a handful of selling points
+const MAX_BENEFITS = 20;
+
+const packageIdParamsSchema = z.object({
+  id: z.string().min(1, 'Package id is required'),
+});
+
+const benefitSchema = z.string().trim().min(1, 'Benefit cannot be empty');
+
+// Create package validation
+export const createPackageSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, 'Name is required'),
+    description: z.string().trim().min(1).optional(),
+    credits: z.number().int().positive('Credits must be a positive integer'),
+    price: z.number().positive('Price must be positive'),
+    is_active: z.boolean().optional(),
+    is_recommended: z.boolean().optional(),
+    benefits: z.array(benefitSchema).max(MAX_BENEFITS).optional(),
+  }),
+});
+
+// Update package validation. When `benefits` is given it replaces the list:
+// items with an id are edited, items without one are added and benefits
+// left out are removed.
+export const updatePackageSchema = z.object({
+  params: packageIdParamsSchema,
+  body: z
+    .object({
+      name: z.string().trim().min(1, 'Name cannot be empty'),
+      description: z.string().trim().min(1).nullable(),
+      credits: z.number().int().positive('Credits must be a positive integer'),
+      price: z.number().positive('Price must be positive'),
+      is_active: z.boolean(),
+      is_recommended: z.boolean(),
+      benefits: z
+        .array(
+          z.object({
+            id: z.string().min(1).optional(),
+            benefit: benefitSchema,
+          }),
+        )
+        .max(MAX_BENEFITS),
+    })
+    .partial()
+    .strict()
+    .refine((body) => Object.keys(body).length > 0, {
+      message: 'At least one field is required to update',
+    }),
+});
+
+// Reorder validation, packages are listed in the given order
+export const reorderPackagesSchema = z.object({
+  body: z.object({
+    package_ids: z
+      .array(z.string().min(1))
+      .min(1, 'At least one package id is required')
+      .refine((ids) => new Set(ids).size === ids.length, {
+        message: 'Package ids must be unique',
+      }),
+  }),
+});
+
+// Activate / deactivate validation
+export const updatePackageStatusSchema = z.object({
+  params: packageIdParamsSchema,
+  body: z.object({
+    is_active: z.boolean({ required_error: 'is_active is required' }),
+  }),
+});
+
+// Mark / unmark recommended validation
+export const updatePackageRecommendedSchema = z.object({
+  params: packageIdParamsSchema,
+  body: z.object({
+    is_recommended: z.boolean({ required_error: 'is_recommended is required' }),
+  }),
+});
@@ -0,0 +1,15 @@
+export const paymentFilterableFields = ['status'];
+
+export const paymentPaginationFields = [
+  'page',
+  'limit',
+  'sort_by',
+  'sort_order',
+];
+
+export const paymentSortableFields = ['created_at', 'amount'];
+
+// Outcomes bKash appends to the callback URL after checkout
+export const bkashCallbackStatuses = ['success', 'failure', 'cancel'] as const;
+
+export type BkashCallbackStatus = (typeof bkashCallbackStatuses)[number];
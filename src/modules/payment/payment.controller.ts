@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import catchAsync from '@/utils/catch-async';
+import sendResponse from '@/utils/send-response';
+import pick from '@/utils/pick';
+import httpStatus from 'http-status';
+import config from '@/config';
+import { logger } from '@/utils/logger';
+import { getWorkspace } from '../organization/organization.utils';
+import PaymentService from './payment.services';
+import {
+  BkashCallbackStatus,
+  paymentFilterableFields,
+  paymentPaginationFields,
+} from './payment.constant';
+
+const checkout = catchAsync(async (req: Request, res: Response) => {
+  const result = await PaymentService.checkout(
+    getWorkspace(req),
+    req.body.package_id,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.CREATED,
+    success: true,
+    message: 'Payment created successfully',
+    data: result,
+  });
+});
+
+const bkashCallback = catchAsync(async (req: Request, res: Response) => {
+  const bkashPaymentId = req.query.paymentID as string;
+  let params: URLSearchParams;
+
+  try {
+    const payment = await PaymentService.handleBkashCallback(
+      bkashPaymentId,
+      req.query.status as BkashCallbackStatus,
+    );
+
+    params = new URLSearchParams({
+      payment_id: payment.id,
+      status: payment.status.toLowerCase(),
+    });
+  } catch (error) {
+    // The customer's browser lands here, send it back to the frontend
+    logger.error(`bKash callback for payment ${bkashPaymentId} failed:`, error);
+
+    const payment = await PaymentService.getPaymentByBkashId(
+      bkashPaymentId,
+    ).catch(() => null);
+
+    params = new URLSearchParams({
+      ...(payment && { payment_id: payment.id }),
+      status: 'failed',
+    });
+  }
+
+  res.redirect(`${config.frontendBaseUrl}/payments/result?${params}`);
+});
+
+const getPayments = catchAsync(async (req: Request, res: Response) => {
+  const filters = pick(req.query, paymentFilterableFields);
+  const options = pick(req.query, paymentPaginationFields);
+
+  const result = await PaymentService.getPayments(
+    getWorkspace(req),
+    filters,
+    options,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Payments fetched successfully',
+    meta: result.meta,
+    data: result.data,
+  });
+});
+
+const getPaymentById = catchAsync(async (req: Request, res: Response) => {
+  const result = await PaymentService.getPaymentById(
+    getWorkspace(req),
+    req.params.id as string,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Payment fetched successfully',
+    data: result,
+  });
+});
+
+const refundPayment = catchAsync(async (req: Request, res: Response) => {
+  const result = await PaymentService.refundPayment(
+    req.user.userId,
+    req.params.id as string,
+    req.body,
+  );
+
+  sendResponse(res, {
+    statusCode: httpStatus.OK,
+    success: true,
+    message: 'Payment refunded successfully',
+    data: result,
+  });
+});
+
+const PaymentController = {
+  checkout,
+  bkashCallback,
+  getPayments,
+  getPaymentById,
+  refundPayment,
+};
+
+export default PaymentController;
@@ -0,0 +1,51 @@
+import express from 'express';
+import validateRequest from '@/middlewares/validate-request';
+import authenticate from '@/middlewares/auth';
+import { UserRole } from '../../../prisma/generated/prisma/enums';
+import {
+  bkashCallbackSchema,
+  checkoutSchema,
+  getPaymentsSchema,
+  paymentIdSchema,
+  refundPaymentSchema,
+} from './payment.validation';
+import PaymentController from './payment.controller';
+
+const router = express.Router();
+
+router.post(
+  '/checkout',
+  authenticate({ requireEmailVerified: true, forbidImpersonation: true }),
+  validateRequest(checkoutSchema),
+  PaymentController.checkout,
+);
+
+// Public: bKash redirects the customer's browser here after checkout
+router.get(
+  '/bkash/callback',
+  validateRequest(bkashCallbackSchema),
+  PaymentController.bkashCallback,
+);
+
+router.get(
+  '/',
+  authenticate(),
+  validateRequest(getPaymentsSchema),
+  PaymentController.getPayments,
+);
+
+router.get(
+  '/:id',
+  authenticate(),
+  validateRequest(paymentIdSchema),
+  PaymentController.getPaymentById,
+);
+
+router.post(
+  '/:id/refund',
+  authenticate(UserRole.SUPER_ADMIN),
+  validateRequest(refundPaymentSchema),
+  PaymentController.refundPayment,
+);
+
+export const PaymentRoutes = router;
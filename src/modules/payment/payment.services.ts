@@ -0,0 +1,522 @@
+import httpStatus from 'http-status';
+import AppError from '@/errors/app-error';
+import { isUniqueConstraintError } from '@/errors/handle-prisma-error';
+import { prisma } from '@/lib/prisma';
+import { calculatePagination, IPaginationOptions } from '@/utils/pagination';
+import { logger } from '@/utils/logger';
+import {
+  BkashPaymentResponse,
+  createBkashPayment,
+  executeBkashPayment,
+  queryBkashPayment,
+  refundBkashPayment,
+} from '@/utils/bkash';
+import { Payment, Prisma } from '../../../prisma/generated/prisma/client';
+import {
+  CreditType,
+  OrganizationRole,
+  PaymentStatus,
+} from '../../../prisma/generated/prisma/enums';
+import {
+  assertWorkspaceRole,
+  isInWorkspace,
+  Workspace,
+  workspaceFilter,
+} from '../organization/organization.utils';
+import { BkashCallbackStatus } from './payment.constant';
+
+interface PaymentFilters {
+  status?: PaymentStatus;
+}
+
+interface RefundPaymentPayload {
+  amount?: number;
+  reason: string;
+}
+
+// Money is compared in poisha to stay clear of floating point drift
+const toPoisha = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Find a payment and make sure it belongs to the workspace. Only admins see
+ * an organization's payments.
+ */
+const getOwnedPayment = async (workspace: Workspace, paymentId: string) => {
+  assertWorkspaceRole(workspace, OrganizationRole.ADMIN);
+
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+  });
+
+  if (!payment) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Payment not found');
+  }
+
+  if (!isInWorkspace(workspace, payment)) {
+    throw new AppError(
+      httpStatus.FORBIDDEN,
+      'You do not have permission to access this payment',
+    );
+  }
+
+  return payment;
+};
+
+/**
+ * Start a bKash checkout for a credit package. Purchases made in an
+ * organization top up its shared balance.
+ */
+const checkout = async (workspace: Workspace, packageId: string) => {
+  assertWorkspaceRole(workspace, OrganizationRole.ADMIN);
+
+  const creditPackage = await prisma.creditPackage.findUnique({
+    where: { id: packageId },
+  });
+
+  if (!creditPackage || !creditPackage.is_active) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Credit package not found');
+  }
+
+  const payment = await prisma.payment.create({
+    data: {
+      user_id: workspace.userId,
+      organization_id: workspace.organizationId,
+      package_id: creditPackage.id,
+      amount: creditPackage.price,
+      credits_purchased: creditPackage.credits,
+    },
+  });
+
+  try {
+    const bkashPayment = await createBkashPayment({
+      amount: payment.amount,
+      invoiceNumber: payment.id,
+      payerReference: workspace.userId,
+    });
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { bkash_payment_id: bkashPayment.paymentID },
+    });
+
+    return {
+      payment_id: payment.id,
+      bkash_url: bkashPayment.bkashURL,
+    };
+  } catch (error) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: PaymentStatus.FAILED },
+    });
+    throw error;
+  }
+};
+
+/**
+ * Mark the payment completed and grant the purchased credits exactly once.
+ * Repeated or concurrent calls for the same payment are no-ops that return
+ * the already processed payment.
+ */
+const completePayment = async (payment: Payment, trxId: string) => {
+  try {
+    const completed = await prisma.$transaction(async (tx) => {
+      // Only one request can move the payment out of PENDING
+      const { count } = await tx.payment.updateMany({
+        where: { id: payment.id, status: PaymentStatus.PENDING },
+        data: {
+          status: PaymentStatus.COMPLETED,
+          bkash_trx_id: trxId,
+        },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      if (payment.organization_id) {
+        await tx.organization.update({
+          where: { id: payment.organization_id },
+          data: { credit_balance: { increment: payment.credits_purchased } },
+        });
+      } else {
+        await tx.user.update({
+          where: { id: payment.user_id },
+          data: { credit_balance: { increment: payment.credits_purchased } },
+        });
+      }
+
+      await tx.creditLog.create({
+        data: {
+          user_id: payment.user_id,
+          organization_id: payment.organization_id,
+          payment_id: payment.id,
+          type: CreditType.PURCHASE,
+          amount: payment.credits_purchased,
+          description: `Purchased ${payment.credits_purchased} credits via bKash (trx ${trxId})`,
+        },
+      });
+
+      return true;
+    });
+
+    if (!completed) {
+      logger.info(`Payment ${payment.id} was already processed`);
+    }
+  } catch (error) {
+    // The unique trx id and credit log payment_id are a second guard: a
+    // duplicate usually means another request already granted the credits
+    if (!isUniqueConstraintError(error)) {
+      throw error;
+    }
+
+    const current = await prisma.payment.findUniqueOrThrow({
+      where: { id: payment.id },
+    });
+
+    // Otherwise the trx id belongs to a different payment
+    if (current.status !== PaymentStatus.COMPLETED) {
+      logger.error(
+        `Failed to complete payment ${payment.id} with bKash trx ${trxId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    logger.info(`Payment ${payment.id} was already processed`);
+    return current;
+  }
+
+  return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+};
+
+/**
+ * Close a pending payment that will never complete. A payment that was
+ * completed in the meantime is left as it is.
+ */
+const closePayment = async (
+  payment: Payment,
+  status: typeof PaymentStatus.FAILED | typeof PaymentStatus.CANCELLED,
+) => {
+  await prisma.payment.updateMany({
+    where: { id: payment.id, status: PaymentStatus.PENDING },
+    data: { status },
+  });
+
+  return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+};
+
+/**
+ * Bring a pending payment in line with the state bKash reports for it
+ */
+const applyBkashPayment = async (
+  payment: Payment,
+  bkashPayment: BkashPaymentResponse,
+) => {
+  if (payment.status !== PaymentStatus.PENDING) {
+    return payment;
+  }
+
+  switch (bkashPayment.transactionStatus) {
+    case 'Completed':
+      // Never grant credits for a payment that doesn't match what we asked for
+      if (
+        bkashPayment.merchantInvoiceNumber !== payment.id ||
+        Number(bkashPayment.amount) !== payment.amount ||
+        !bkashPayment.trxID
+      ) {
+        logger.error(
+          `bKash payment ${bkashPayment.paymentID} does not match payment ${payment.id}`,
+        );
+        return closePayment(payment, PaymentStatus.FAILED);
+      }
+
+      return completePayment(payment, bkashPayment.trxID);
+
+    case 'Initiated':
+    case 'Authorized':
+      return payment;
+
+    case 'Cancelled':
+      return closePayment(payment, PaymentStatus.CANCELLED);
+
+    default:
+      return closePayment(payment, PaymentStatus.FAILED);
+  }
+};
+
+/**
+ * Find a payment by the id bKash assigned to it
+ */
+const getPaymentByBkashId = async (bkashPaymentId: string) => {
+  return prisma.payment.findUnique({
+    where: { bkash_payment_id: bkashPaymentId },
+  });
+};
+
+/**
+ * Handle the customer returning from the bKash checkout page
+ */
+const handleBkashCallback = async (
+  bkashPaymentId: string,
+  status: BkashCallbackStatus,
+) => {
+  const payment = await getPaymentByBkashId(bkashPaymentId);
+
+  if (!payment) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Payment not found');
+  }
+
+  if (payment.status !== PaymentStatus.PENDING) {
+    return payment;
+  }
+
+  if (status !== 'success') {
+    return closePayment(
+      payment,
+      status === 'cancel' ? PaymentStatus.CANCELLED : PaymentStatus.FAILED,
+    );
+  }
+
+  let bkashPayment: BkashPaymentResponse;
+
+  try {
+    bkashPayment = await executeBkashPayment(bkashPaymentId);
+  } catch (error) {
+    // The execution may have gone through even if the response was lost
+    logger.warn(`Failed to execute bKash payment ${bkashPaymentId}:`, error);
+
+    try {
+      bkashPayment = await queryBkashPayment(bkashPaymentId);
+    } catch (queryError) {
+      logger.error(
+        `Failed to query bKash payment ${bkashPaymentId}:`,
+        queryError,
+      );
+      return payment;
+    }
+  }
+
+  return applyBkashPayment(payment, bkashPayment);
+};
+
+/**
+ * Get a payment, refreshing its state from bKash while it is pending
+ */
+const getPaymentById = async (workspace: Workspace, paymentId: string) => {
+  const payment = await getOwnedPayment(workspace, paymentId);
+
+  if (payment.status !== PaymentStatus.PENDING || !payment.bkash_payment_id) {
+    return payment;
+  }
+
+  const bkashPayment = await queryBkashPayment(payment.bkash_payment_id);
+
+  return applyBkashPayment(payment, bkashPayment);
+};
+
+/**
+ * Refund all or part of a completed payment through bKash and take back
+ * the credits it paid for. Credits the user has already spent can't be
+ * taken back, so the clawback is capped at the current balance.
+ */
+const refundPayment = async (
+  adminId: string,
+  paymentId: string,
+  payload: RefundPaymentPayload,
+) => {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { refunds: { select: { credits: true } } },
+  });
+
+  if (!payment) {
+    throw new AppError(httpStatus.NOT_FOUND, 'Payment not found');
+  }
+
+  if (
+    payment.status !== PaymentStatus.COMPLETED ||
+    !payment.bkash_payment_id ||
+    !payment.bkash_trx_id
+  ) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      'Only completed bKash payments can be refunded',
+    );
+  }
+
+  const paidPoisha = toPoisha(payment.amount);
+  const refundablePoisha = paidPoisha - toPoisha(payment.refunded_amount);
+  const refundPoisha =
+    payload.amount === undefined ? refundablePoisha : toPoisha(payload.amount);
+
+  if (refundPoisha <= 0 || refundPoisha > refundablePoisha) {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      `Refund amount must be between 0.01 and ${(refundablePoisha / 100).toFixed(2)}`,
+    );
+  }
+
+  const amount = refundPoisha / 100;
+  const refundedAmount = (paidPoisha - refundablePoisha + refundPoisha) / 100;
+  const isFullyRefunded = refundPoisha === refundablePoisha;
+
+  // Reserve the amount first so concurrent refunds can't exceed the payment
+  const reserved = await prisma.payment.updateMany({
+    where: {
+      id: payment.id,
+      status: PaymentStatus.COMPLETED,
+      refunded_amount: payment.refunded_amount,
+    },
+    data: { refunded_amount: refundedAmount },
+  });
+
+  if (reserved.count === 0) {
+    throw new AppError(
+      httpStatus.CONFLICT,
+      'Payment was modified by another request, please try again',
+    );
+  }
+
+  let bkashRefund;
+  try {
+    bkashRefund = await refundBkashPayment({
+      paymentId: payment.bkash_payment_id,
+      trxId: payment.bkash_trx_id,
+      amount,
+      reason: payload.reason,
+    });
+  } catch (error) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { refunded_amount: payment.refunded_amount },
+    });
+    throw error;
+  }
+
+  // The last refund takes whatever is left so rounding never leaves credits
+  const previouslyRefundedCredits = payment.refunds.reduce(
+    (sum, refund) => sum + refund.credits,
+    0,
+  );
+  const credits = isFullyRefunded
+    ? payment.credits_purchased - previouslyRefundedCredits
+    : Math.round((payment.credits_purchased * refundPoisha) / paidPoisha);
+
+  // Organization purchases topped up the shared balance
+  const balanceTable = Prisma.raw(
+    payment.organization_id ? 'organizations' : 'users',
+  );
+  const balanceOwnerId = payment.organization_id ?? payment.user_id;
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Lock the balance and take back at most what is left of it
+      const [{ clawed_back }] = await tx.$queryRaw<{ clawed_back: number }[]>`
+        WITH locked AS (
+          SELECT id, credit_balance FROM ${balanceTable}
+          WHERE id = ${balanceOwnerId}
+          FOR UPDATE
+        )
+        UPDATE ${balanceTable} AS account
+        SET
+          credit_balance = account.credit_balance - LEAST(GREATEST(locked.credit_balance, 0), ${credits}::int),
+          updated_at = NOW()
+        FROM locked
+        WHERE account.id = locked.id
+        RETURNING LEAST(GREATEST(locked.credit_balance, 0), ${credits}::int) AS clawed_back
+      `;
+      const creditsClawedBack = Number(clawed_back);
+
+      const refund = await tx.paymentRefund.create({
+        data: {
+          payment_id: payment.id,
+          amount,
+          credits,
+          credits_clawed_back: creditsClawedBack,
+          bkash_refund_trx_id: bkashRefund.refundTrxID,
+          reason: payload.reason,
+          refunded_by: adminId,
+        },
+      });
+
+      await tx.creditLog.create({
+        data: {
+          user_id: payment.user_id,
+          organization_id: payment.organization_id,
+          refund_id: refund.id,
+          type: CreditType.REFUND,
+          amount: -creditsClawedBack,
+          description:
+            creditsClawedBack < credits
+              ? `Refunded ${amount.toFixed(2)} ${payment.currency} of payment ${payment.id}; ${credits - creditsClawedBack} of ${credits} credits were already spent`
+              : `Refunded ${amount.toFixed(2)} ${payment.currency} of payment ${payment.id}`,
+        },
+      });
+
+      return tx.payment.update({
+        where: { id: payment.id },
+        data: isFullyRefunded ? { status: PaymentStatus.REFUNDED } : {},
+        include: { refunds: { orderBy: { created_at: 'desc' } } },
+      });
+    });
+  } catch (error) {
+    // bKash has already returned the money, this needs manual reconciliation
+    logger.error(
+      `Failed to record bKash refund ${bkashRefund.refundTrxID} for payment ${payment.id}:`,
+      error,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get paginated payments of the workspace
+ */
+const getPayments = async (
+  workspace: Workspace,
+  filters: PaymentFilters,
+  options: IPaginationOptions,
+) => {
+  const { page, limit, skip, sort_by, sort_order } =
+    calculatePagination(options);
+
+  assertWorkspaceRole(workspace, OrganizationRole.ADMIN);
+
+  const where = {
+    ...workspaceFilter(workspace),
+    ...filters,
+  };
+
+  const [payments, total] = await Promise.all([
+    prisma.payment.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { [sort_by]: sort_order },
+      include: {
+        package: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.payment.count({ where }),
+  ]);
+
+  return {
+    meta: {
+      page,
+      limit,
+      total,
+    },
+    data: payments,
+  };
+};
+
+const PaymentService = {
+  checkout,
+  getPaymentByBkashId,
+  handleBkashCallback,
+  getPaymentById,
+  getPayments,
+  refundPayment,
+};
+
+export default PaymentService;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { PaymentStatus } from '../../../prisma/generated/prisma/enums';
+import {
+  bkashCallbackStatuses,
+  paymentSortableFields,
+} from './payment.constant';
+
+// Checkout validation
+export const checkoutSchema = z.object({
+  body: z.object({
+    package_id: z.string().min(1, 'Package id is required'),
+  }),
+});
+
+// bKash redirects the customer back with these query parameters
+export const bkashCallbackSchema = z.object({
+  query: z.object({
+    paymentID: z.string().min(1, 'Payment id is required'),
+    status: z.enum(bkashCallbackStatuses, {
+      errorMap: () => ({ message: 'Invalid payment status' }),
+    }),
+  }),
+});
+
+// Single payment validation
+export const paymentIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Payment id is required'),
+  }),
+});
+
+// Payment refund validation, the amount defaults to whatever is refundable
+export const refundPaymentSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Payment id is required'),
+  }),
+  body: z.object({
+    amount: z.number().positive('Amount must be positive').optional(),
+    reason: z.string().trim().min(1, 'Reason is required').max(255),
+  }),
+});
+
+// Payment listing validation
+export const getPaymentsSchema = z.object({
+  query: z.object({
+    status: z.nativeEnum(PaymentStatus).optional(),
+    page: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().positive().max(100).optional(),
+    sort_by: z.enum(paymentSortableFields as [string, ...string[]]).optional(),
+    sort_order: z.enum(['asc', 'desc']).optional(),
+  }),
+});
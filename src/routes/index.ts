@@ -1,5 +1,12 @@
 import express from 'express';
 import { AuthRoutes } from '../modules/auth/auth.routes';
+import { JobRoutes } from '../modules/job/job.routes';
+import { CandidateRoutes } from '../modules/candidate/candidate.routes';
+import { CreditRoutes } from '../modules/credit/credit.routes';
+import { PaymentRoutes } from '../modules/payment/payment.routes';
+import { PackageRoutes } from '../modules/package/package.routes';
+import { OrganizationRoutes } from '../modules/organization/organization.routes';
+import { AdminRoutes } from '../modules/admin/admin.routes';
 
 const router = express.Router();
 
@@ -10,6 +17,34 @@ const routes: Route[] = [
     path: '/auth',
     route: AuthRoutes,
   },
+  {
+    path: '/jobs',
+    route: JobRoutes,
+  },
+  {
+    path: '/jobs',
+    route: CandidateRoutes,
+  },
+  {
+    path: '/credits',
+    route: CreditRoutes,
+  },
+  {
+    path: '/payments',
+    route: PaymentRoutes,
+  },
+  {
+    path: '/packages',
+    route: PackageRoutes,
+  },
+  {
+    path: '/organizations',
+    route: OrganizationRoutes,
+  },
+  {
+    path: '/admin',
+    route: AdminRoutes,
+  },
 ];
 
 routes.forEach((route) => {
@@ -2,6 +2,8 @@ import { Server } from 'http';
 import app from './app';
 import config from './config';
 import { logger } from './utils/logger';
+import AuthService from './modules/auth/auth.services';
+import { ACCOUNT_PURGE_INTERVAL_MINUTES } from './modules/auth/auth.constant';
 
 process.on('uncaughtException', (err) => {
   logger.error('Uncaught Exception:', err);
@@ -15,6 +17,16 @@ async function startServer() {
     logger.info(`🎯 Server listening on port: ${config.port}`);
   });
 
+  // Erase deleted accounts once their grace period is over
+  setInterval(
+    () => {
+      AuthService.purgeDeletedAccounts().catch((error) =>
+        logger.error('Failed to purge deleted accounts:', error),
+      );
+    },
+    ACCOUNT_PURGE_INTERVAL_MINUTES * 60 * 1000,
+  ).unref();
+
   process.on('unhandledRejection', (error) => {
     if (server) {
       server.close(() => {
@@ -0,0 +1,209 @@
+import httpStatus from 'http-status';
+import config from '@/config';
+import AppError from '@/errors/app-error';
+
+// bKash reports success with this status code, everything else is an error
+const SUCCESS_STATUS_CODE = '0000';
+
+// Renew the grant token a minute before bKash expires it
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+interface BkashResponse {
+  statusCode?: string;
+  statusMessage?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+interface BkashGrantTokenResponse extends BkashResponse {
+  id_token: string;
+  expires_in: number;
+}
+
+export interface BkashCreatePaymentResponse extends BkashResponse {
+  paymentID: string;
+  bkashURL: string;
+  transactionStatus: string;
+}
+
+export interface BkashPaymentResponse extends BkashResponse {
+  paymentID: string;
+  trxID?: string;
+  transactionStatus: string;
+  amount: string;
+  currency: string;
+  merchantInvoiceNumber: string;
+}
+
+export interface BkashRefundResponse extends BkashResponse {
+  originalTrxID: string;
+  refundTrxID: string;
+  transactionStatus: string;
+  amount: string;
+  currency: string;
+}
+
+let cachedToken: { idToken: string; expiresAt: number } | null = null;
+
+const post = async <T extends BkashResponse>(
+  path: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string>,
+): Promise<T> => {
+  let response: Response;
+
+  try {
+    response = await fetch(
+      `${config.bkash.baseUrl.replace(/\/$/, '')}${path}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+    );
+  } catch (error) {
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      `Could not reach bKash: ${(error as Error).message}`,
+    );
+  }
+
+  const data = (await response.json().catch(() => ({}))) as T;
+
+  if (!response.ok || data.errorCode) {
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      `bKash request failed: ${data.errorMessage || data.statusMessage || response.statusText}`,
+    );
+  }
+
+  // The grant token response carries no status code
+  if (data.statusCode && data.statusCode !== SUCCESS_STATUS_CODE) {
+    throw new AppError(
+      httpStatus.BAD_GATEWAY,
+      `bKash request failed: ${data.statusMessage || data.statusCode}`,
+    );
+  }
+
+  return data;
+};
+
+/**
+ * Get an id token for the tokenized checkout API, reusing it until it is
+ * about to expire
+ */
+const grantToken = async (): Promise<string> => {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.idToken;
+  }
+
+  const data = await post<BkashGrantTokenResponse>(
+    '/tokenized/checkout/token/grant',
+    {
+      app_key: config.bkash.appKey,
+      app_secret: config.bkash.appSecret,
+    },
+    {
+      username: config.bkash.username,
+      password: config.bkash.password,
+    },
+  );
+
+  cachedToken = {
+    idToken: data.id_token,
+    expiresAt:
+      Date.now() + Number(data.expires_in) * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+  };
+
+  return cachedToken.idToken;
+};
+
+const authorizedPost = async <T extends BkashResponse>(
+  path: string,
+  body: Record<string, unknown>,
+): Promise<T> => {
+  const idToken = await grantToken();
+
+  return post<T>(path, body, {
+    Authorization: idToken,
+    'X-App-Key': config.bkash.appKey,
+  });
+};
+
+/**
+ * Create a checkout payment, the customer completes it at `bkashURL`
+ */
+export const createBkashPayment = async ({
+  amount,
+  invoiceNumber,
+  payerReference,
+}: {
+  amount: number;
+  invoiceNumber: string;
+  payerReference: string;
+}) => {
+  return authorizedPost<BkashCreatePaymentResponse>(
+    '/tokenized/checkout/create',
+    {
+      mode: '0011',
+      payerReference,
+      callbackURL: config.bkash.callbackUrl,
+      amount: amount.toFixed(2),
+      currency: 'BDT',
+      intent: 'sale',
+      merchantInvoiceNumber: invoiceNumber,
+    },
+  );
+};
+
+/**
+ * Execute a payment after the customer authorized it
+ */
+export const executeBkashPayment = async (paymentId: string) => {
+  return authorizedPost<BkashPaymentResponse>('/tokenized/checkout/execute', {
+    paymentID: paymentId,
+  });
+};
+
+/**
+ * Get the current state of a payment
+ */
+export const queryBkashPayment = async (paymentId: string) => {
+  return authorizedPost<BkashPaymentResponse>(
+    '/tokenized/checkout/payment/status',
+    { paymentID: paymentId },
+  );
+};
+
+/**
+ * Refund all or part of a completed payment
+ */
+export const refundBkashPayment = async ({
+  paymentId,
+  trxId,
+  amount,
+  reason,
+}: {
+  paymentId: string;
+  trxId: string;
+  amount: number;
+  reason: string;
+}) => {
+  return authorizedPost<BkashRefundResponse>(
+    '/tokenized/checkout/payment/refund',
+    {
+      paymentID: paymentId,
+      trxID: trxId,
+      amount: amount.toFixed(2),
+      sku: 'credits',
+      reason,
+    },
+  );
+};
@@ -0,0 +1,27 @@
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Build a created_at style filter from `from` / `to` query values. A
+ * date-only `to` (e.g. 2026-10-18) includes that whole day, a full
+ * timestamp is used as is.
+ */
+export const buildDateRangeFilter = (from?: string, to?: string) => {
+  if (!from && !to) {
+    return undefined;
+  }
+
+  if (to && DATE_ONLY_PATTERN.test(to)) {
+    const nextDay = new Date(to);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+    return {
+      gte: from ? new Date(from) : undefined,
+      lt: nextDay,
+    };
+  }
+
+  return {
+    gte: from ? new Date(from) : undefined,
+    lte: to ? new Date(to) : undefined,
+  };
+};